@@ -1,7 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['prisma']
+    serverComponentsExternalPackages: ['prisma'],
+    instrumentationHook: true
   }
 }
 
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revertChange } from '@/lib/changeLog'
+
+// Put a record back as it was before one change. Refused while a later change to it stands.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; changeId: string } }
+) {
+  try {
+    const reverted = await revertChange(params.id, params.changeId)
+    if ('error' in reverted) {
+      return NextResponse.json({ error: reverted.error }, { status: reverted.status })
+    }
+
+    return NextResponse.json(reverted)
+  } catch (error) {
+    console.error('Failed to revert change:', error)
+    return NextResponse.json({ error: 'Failed to revert change' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { RECORD_TYPES, RecordType, formatChange } from '@/lib/changeLog'
+
+const HISTORY_LIMIT = 200
+
+// The change log, newest first. Narrow it with ?entityId= (the entity and its relationships),
+// ?recordType=&recordId= (one record), ?runId= (one run, such as an extraction job) or ?documentId=.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const search = new URL(request.url).searchParams
+    const entityId = search.get('entityId')
+    const recordType = search.get('recordType')
+    const recordId = search.get('recordId')
+    const runId = search.get('runId')
+    const documentId = search.get('documentId')
+
+    if (recordType && !RECORD_TYPES.includes(recordType as RecordType)) {
+      return NextResponse.json({ error: `recordType must be one of: ${RECORD_TYPES.join(', ')}` }, { status: 400 })
+    }
+
+    const where: Prisma.ChangeLogWhereInput = {
+      projectId: params.id,
+      ...(recordType && { recordType }),
+      ...(recordId && { recordId }),
+      ...(runId && { runId }),
+      ...(documentId && { documentId })
+    }
+
+    if (entityId) {
+      // A relationship belongs to the entity's history if it was ever logged with the entity at one end
+      const edges = await prisma.changeLog.findMany({
+        where: {
+          projectId: params.id,
+          recordType: 'edge',
+          OR: [{ before: { contains: entityId } }, { after: { contains: entityId } }]
+        },
+        select: { recordId: true },
+        distinct: ['recordId']
+      })
+      where.OR = [
+        { recordType: 'entity', recordId: entityId },
+        { recordType: 'edge', recordId: { in: edges.map(edge => edge.recordId) } }
+      ]
+    }
+
+    const changes = await prisma.changeLog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }],
+      take: HISTORY_LIMIT + 1
+    })
+
+    // Deleted documents keep their id in the log but lose their name
+    const page = changes.slice(0, HISTORY_LIMIT)
+    const documentIds = Array.from(new Set(page.map(change => change.documentId).filter((id): id is string => !!id)))
+    const documents = await prisma.document.findMany({ where: { id: { in: documentIds } }, select: { id: true, filename: true } })
+    const filenames = new Map(documents.map(document => [document.id, document.filename]))
+
+    return NextResponse.json({
+      changes: page.map(change => ({
+        ...formatChange(change),
+        filename: change.documentId ? filenames.get(change.documentId) ?? null : null
+      })),
+      more: changes.length > HISTORY_LIMIT
+    })
+  } catch (error) {
+    console.error('Failed to fetch changes:', error)
+    return NextResponse.json({ error: 'Failed to fetch changes' }, { status: 500 })
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revertRun } from '@/lib/changeLog'
+
+// Revert everything a run changed, newest first, such as one extraction of a document (its runId is
+// the job's id). All or nothing: a record changed since by another run stops the whole revert.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; runId: string } }
+) {
+  try {
+    const reverted = await revertRun(params.id, params.runId)
+    if ('error' in reverted) {
+      return NextResponse.json({ error: reverted.error }, { status: reverted.status })
+    }
+
+    return NextResponse.json(reverted)
+  } catch (error) {
+    console.error('Failed to revert run:', error)
+    return NextResponse.json({ error: 'Failed to revert run' }, { status: 500 })
+  }
+}
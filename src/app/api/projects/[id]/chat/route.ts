@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import Anthropic from '@anthropic-ai/sdk'
+import { getProjectSettings } from '@/lib/settings'
+import { AIMessage, TokenUsage, getProvider, providerConfigError, qualifiedModelName, withRetry } from '@/lib/ai'
+import { estimateUsage, recordUsage } from '@/lib/usage'
+import { EDGE_NOT_REJECTED, NOT_REJECTED } from '@/lib/review'
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
+const FALLBACK_RESPONSE = 'Sorry, I could not generate a response.'
+
+// Flags what the model shouldn't take as settled fact
+const reviewNote = (status: string) =>
+  status === 'pending' ? ' [unreviewed]' : status === 'rejected' ? ' [rejected]' : ''
 
 export async function GET(
   request: NextRequest,
@@ -51,7 +56,7 @@ export async function POST(
 ) {
   try {
     const body = await request.json()
-    const { message } = body
+    const { message, stream } = body
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -60,24 +65,7 @@ export async function POST(
       )
     }
 
-    // Get project settings
-    let settings = await prisma.settings.findUnique({
-      where: { projectId: params.id }
-    })
-
-    // Create default settings if none exist
-    if (!settings) {
-      settings = await prisma.settings.create({
-        data: {
-          projectId: params.id,
-          aiProvider: 'claude',
-          ollamaUrl: 'http://localhost:11434',
-          ollamaModel: 'llama3',
-          autoExtract: true,
-          extractionDepth: 'deep'
-        }
-      })
-    }
+    const settings = await getProjectSettings(params.id)
 
     // Check AI provider configuration
     if (settings.aiProvider === 'none') {
@@ -86,32 +74,34 @@ export async function POST(
         { status: 400 }
       )
     }
-
-    if (settings.aiProvider === 'claude' && !settings.claudeApiKey && !process.env.ANTHROPIC_API_KEY) {
+    const configError = providerConfigError(settings)
+    if (configError) {
       return NextResponse.json(
-        { error: 'Claude API key not configured. Please add your API key in project settings or set ANTHROPIC_API_KEY environment variable.' },
-        { status: 500 }
+        { error: configError.error },
+        { status: configError.status }
       )
     }
 
     // Load entities and edges for context
     const [entities, edges] = await Promise.all([
       prisma.entity.findMany({
-        where: { projectId: params.id },
+        where: { projectId: params.id, ...(settings.hideRejected && NOT_REJECTED) },
         select: {
           id: true,
           name: true,
           type: true,
           description: true,
           metadata: true,
+          reviewStatus: true,
         },
         take: 200 // Limit to avoid token limits
       }),
       prisma.edge.findMany({
-        where: { projectId: params.id },
+        where: { projectId: params.id, ...(settings.hideRejected && EDGE_NOT_REJECTED) },
         select: {
           id: true,
           label: true,
+          reviewStatus: true,
           source: { select: { name: true } },
           target: { select: { name: true } },
         },
@@ -126,14 +116,17 @@ export async function POST(
         metadata = JSON.parse(e.metadata)
       } catch {}
       
-      return `${e.name} (${e.type}): ${e.description || ''} ${Object.entries(metadata).map(([k,v]) => `${k}:${v}`).join(' ')}`
+      return `${e.name} (${e.type})${reviewNote(e.reviewStatus)}: ${e.description || ''} ${Object.entries(metadata).map(([k,v]) => `${k}:${v}`).join(' ')}`
     }).join('\n')
 
     const relationshipContext = edges.map(e => 
-      `${e.source.name} → ${e.label} → ${e.target.name}`
+      `${e.source.name} → ${e.label} → ${e.target.name}${reviewNote(e.reviewStatus)}`
     ).join('\n')
 
-    const contextPrompt = `You are an AI assistant analyzing a knowledge graph. Answer questions based on the following data:
+    const messages: AIMessage[] = [
+      {
+        role: 'system',
+        content: `You are an AI assistant analyzing a knowledge graph. Answer questions based on the following data:
 
 ENTITIES:
 ${entityContext}
@@ -141,9 +134,12 @@ ${entityContext}
 RELATIONSHIPS:
 ${relationshipContext}
 
-User question: ${message}
+Items marked [unreviewed] were extracted automatically and nobody has checked them yet${settings.hideRejected ? '' : '; items marked [rejected] were judged wrong by a reviewer'}. Say so when an answer depends on them.
 
 Please provide a helpful, concise answer based on the knowledge graph data. If the question cannot be answered from the available data, say so clearly.`
+      },
+      { role: 'user', content: message }
+    ]
 
     // Save user message
     await prisma.chatMessage.create({
@@ -154,76 +150,58 @@ Please provide a helpful, concise answer based on the knowledge graph data. If t
       }
     })
 
-    // Get AI response based on provider
-    let responseText = 'Sorry, I could not generate a response.'
+    const provider = getProvider(settings)
+    const saveReply = (content: string) => prisma.chatMessage.create({
+      data: {
+        projectId: params.id,
+        role: 'assistant',
+        content
+      }
+    })
 
-    if (settings.aiProvider === 'claude') {
-      const apiKey = settings.claudeApiKey || process.env.ANTHROPIC_API_KEY
-      const anthropic = new Anthropic({
-        apiKey: apiKey,
-      })
+    const started = Date.now()
+    const recordChatUsage = (model: string, usage: TokenUsage | null, responseText: string) => recordUsage({
+      projectId: params.id,
+      operation: 'chat',
+      provider: provider.name,
+      model,
+      usage: usage || estimateUsage(messages.map(m => m.content).join('\n'), responseText),
+      estimated: !usage,
+      latencyMs: Date.now() - started
+    })
 
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 1000,
-        messages: [
-          {
-            role: "user",
-            content: contextPrompt
+    // Streamed replies are sent as plain text as they arrive and saved once complete
+    if (stream) {
+      const encoder = new TextEncoder()
+      const replyStream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let responseText = ''
+          let usage: TokenUsage | null = null
+          try {
+            const options = { maxTokens: 1000, onUsage: (reported: TokenUsage) => { usage = reported } }
+            for await (const text of provider.stream(messages, options)) {
+              responseText += text
+              controller.enqueue(encoder.encode(text))
+            }
+          } catch (error) {
+            console.error('Chat stream error:', error)
           }
-        ]
+          if (responseText) await recordChatUsage(qualifiedModelName(provider), usage, responseText)
+          await saveReply(responseText || FALLBACK_RESPONSE)
+          controller.close()
+        }
       })
-
-      responseText = response.content[0].type === 'text' 
-        ? response.content[0].text 
-        : 'Sorry, I could not generate a response.'
-
-    } else if (settings.aiProvider === 'ollama') {
-      const response = await fetch(`${settings.ollamaUrl}/api/chat`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: settings.ollamaModel,
-          messages: [
-            {
-              role: "system",
-              content: `You are an AI assistant analyzing a knowledge graph. Answer questions based on the following data:
-
-ENTITIES:
-${entityContext}
-
-RELATIONSHIPS:
-${relationshipContext}
-
-Please provide a helpful, concise answer based on the knowledge graph data. If the question cannot be answered from the available data, say so clearly.`
-            },
-            {
-              role: "user",
-              content: message
-            }
-          ],
-          stream: false
-        })
+      return new Response(replyStream, {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' }
       })
-
-      if (response.ok) {
-        const data = await response.json()
-        responseText = data.message?.content || 'Sorry, I could not generate a response.'
-      } else {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`)
-      }
     }
 
-    // Save assistant message
-    await prisma.chatMessage.create({
-      data: {
-        projectId: params.id,
-        role: 'assistant',
-        content: responseText
-      }
-    })
+    // Someone is waiting on the reply, so only a couple of retries when rate limited
+    const response = await withRetry(() => provider.chat(messages, { maxTokens: 1000 }), { retries: 2 })
+    await recordChatUsage(response.model, response.usage, response.text)
+    const responseText = response.text || FALLBACK_RESPONSE
+
+    await saveReply(responseText)
 
     return NextResponse.json({
       message: responseText
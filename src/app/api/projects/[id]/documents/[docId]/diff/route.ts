@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { applyExtraction } from '@/lib/extraction/apply'
+import { changeContext } from '@/lib/changeLog'
+import { diffExtraction, loadContribution } from '@/lib/extraction/diff'
+import { PendingExtraction } from '@/lib/extraction/types'
+import { isBusy } from '@/lib/documents'
+
+async function findPending(projectId: string, docId: string) {
+  const document = await prisma.document.findUnique({
+    where: {
+      id: docId,
+      projectId
+    }
+  })
+  const pending = parseJson<PendingExtraction | null>(document?.pendingExtraction, null)
+  return { document, pending }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const { document, pending } = await findPending(params.id, params.docId)
+
+    if (!document || !pending) {
+      return NextResponse.json(
+        { error: 'No re-extraction awaiting review' },
+        { status: 404 }
+      )
+    }
+
+    const diff = diffExtraction(await loadContribution(document.id), pending.result)
+
+    return NextResponse.json({
+      documentId: document.id,
+      filename: document.filename,
+      extractedBy: pending.extractedBy,
+      createdAt: pending.createdAt,
+      diff
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch extraction diff:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch extraction diff' },
+      { status: 500 }
+    )
+  }
+}
+
+// Apply the pending re-extraction, skipping any diff keys listed in `exclude`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const exclude = Array.isArray(body.exclude) ? body.exclude.filter((k: unknown) => typeof k === 'string') : []
+
+    const { document, pending } = await findPending(params.id, params.docId)
+
+    if (!document || !pending) {
+      return NextResponse.json(
+        { error: 'No re-extraction awaiting review' },
+        { status: 404 }
+      )
+    }
+
+    // A newer extraction of the document would apply on top of the same contribution
+    if (isBusy(document)) {
+      return NextResponse.json(
+        { error: 'This document is being extracted again; wait for it to finish or cancel it' },
+        { status: 409 }
+      )
+    }
+
+    const context = changeContext(params.id, 'extraction', 'extract', { documentId: document.id, jobId: pending.jobId })
+    const { summary } = await applyExtraction(document, pending.result, pending.extractedBy, context, exclude)
+
+    return NextResponse.json({
+      message: 'Re-extraction applied',
+      summary
+    })
+
+  } catch (error) {
+    console.error('Failed to apply extraction diff:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply extraction diff' },
+      { status: 500 }
+    )
+  }
+}
+
+// Discard the pending re-extraction and keep the graph as it is
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const { document, pending } = await findPending(params.id, params.docId)
+
+    if (!document || !pending) {
+      return NextResponse.json(
+        { error: 'No re-extraction awaiting review' },
+        { status: 404 }
+      )
+    }
+
+    if (isBusy(document)) {
+      return NextResponse.json(
+        { error: 'This document is being extracted again; wait for it to finish or cancel it' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: {
+        status: 'extracted',
+        pendingExtraction: null
+      }
+    })
+
+    return NextResponse.json({ message: 'Re-extraction discarded' })
+
+  } catch (error) {
+    console.error('Failed to discard extraction diff:', error)
+    return NextResponse.json(
+      { error: 'Failed to discard extraction diff' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureWorker } from '@/lib/jobs/worker'
+import { createJobEventStream } from '@/lib/jobs/events'
+
+export const dynamic = 'force-dynamic'
+
+// Live progress for the document's most recent extraction job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const job = await prisma.extractionJob.findFirst({
+      where: { documentId: params.docId, projectId: params.id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'No extraction job for this document' },
+        { status: 404 }
+      )
+    }
+
+    ensureWorker()
+    // Read again once the stream is listening, in case the job finished in the meantime
+    const loadJob = () => prisma.extractionJob.findMany({ where: { id: job.id } })
+    return createJobEventStream({ jobId: job.id }, loadJob, request.signal)
+
+  } catch (error) {
+    console.error('Failed to stream document events:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream document events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Document } from '@prisma/client'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { getProjectOntology, getProjectSettings } from '@/lib/settings'
+import { enqueueError, enqueueExtraction, formatJob } from '@/lib/jobs/queue'
+import { ExtractionReport, summariseReport, validateExtraction } from '@/lib/extraction/schema'
+import { linkRelationships } from '@/lib/extraction/linking'
+import { completeExtraction } from '@/lib/extraction/apply'
+import { changeContext } from '@/lib/changeLog'
+import {
+  Sheet,
+  TABULAR_FILE_TYPES,
+  TableMapping,
+  buildTableExtraction,
+  cleanMapping,
+  columnNames,
+  parseCsv,
+  readXlsx,
+  suggestMapping
+} from '@/lib/tabular'
+
+const PREVIEW_ROWS = 20
+
+// A CSV is read from its stored text; a workbook from the original file, as its text flattens the sheets
+async function loadSheets(document: Document): Promise<Sheet[] | null> {
+  if (document.fileType === '.csv') {
+    return [{ name: document.filename, rows: parseCsv(document.content) }]
+  }
+  if (!document.storagePath) return null
+  try {
+    return await readXlsx(await fs.readFile(path.join(process.cwd(), document.storagePath)))
+  } catch (error) {
+    console.error(`Failed to read ${document.storagePath}:`, error)
+    return null
+  }
+}
+
+async function findTabularDocument(params: { id: string; docId: string }) {
+  const document = await prisma.document.findUnique({
+    where: {
+      id: params.docId,
+      projectId: params.id
+    }
+  })
+  if (!document) {
+    return { error: NextResponse.json({ error: 'Document not found' }, { status: 404 }) }
+  }
+  if (!TABULAR_FILE_TYPES.includes(document.fileType)) {
+    return {
+      error: NextResponse.json(
+        { error: `Only ${TABULAR_FILE_TYPES.join(' and ')} files can be imported by column mapping` },
+        { status: 400 }
+      )
+    }
+  }
+
+  const sheets = await loadSheets(document)
+  if (!sheets || sheets.length === 0) {
+    return {
+      error: NextResponse.json(
+        { error: 'The original spreadsheet could not be read. Upload it again to import it.' },
+        { status: 422 }
+      )
+    }
+  }
+  return { document, sheets }
+}
+
+// Headers, sample rows and a suggested column mapping for a spreadsheet, starting from the last
+// import's mapping when there was one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const found = await findTabularDocument(params)
+    if ('error' in found) return found.error
+    const { document, sheets } = found
+
+    const ontology = await getProjectOntology(params.id)
+    const stored = parseJson<TableMapping | null>(document.tableMapping, null)
+    const requested = request.nextUrl.searchParams.get('sheet') || stored?.sheet
+    const sheet = sheets.find(s => s.name === requested) || sheets[0]
+
+    const suggested = suggestMapping(sheet.rows, ontology)
+    const width = suggested.columns.length
+    const mapping = stored && stored.sheet === sheet.name && stored.columns.length === width
+      ? stored
+      : { ...suggested, sheet: sheet.name }
+
+    return NextResponse.json({
+      documentId: document.id,
+      filename: document.filename,
+      sheets: sheets.map(s => ({ name: s.name, rows: s.rows.length })),
+      sheet: sheet.name,
+      headers: columnNames(sheet.rows, true),
+      rows: sheet.rows.slice(0, PREVIEW_ROWS + 1),
+      rowCount: sheet.rows.length,
+      mapping
+    })
+
+  } catch (error) {
+    console.error('Failed to preview spreadsheet import:', error)
+    return NextResponse.json(
+      { error: 'Failed to preview spreadsheet import' },
+      { status: 500 }
+    )
+  }
+}
+
+// Import a spreadsheet's rows as entities and relationships by column mapping, without a model
+// call. With `insights` set, the model is then asked for insights only.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const found = await findTabularDocument(params)
+    if ('error' in found) return found.error
+    const { document, sheets } = found
+
+    if (document.status === 'queued' || document.status === 'processing') {
+      return NextResponse.json(
+        { error: 'This document is being extracted. Cancel the job before importing it.' },
+        { status: 409 }
+      )
+    }
+
+    const body = await request.json()
+    const ontology = await getProjectOntology(params.id)
+    const sheet = sheets.find(s => s.name === body.mapping?.sheet) || sheets[0]
+    const width = Math.max(0, ...sheet.rows.map(row => row.length))
+
+    const { mapping, errors } = cleanMapping({ ...body.mapping, sheet: sheet.name }, width, ontology)
+    if (!mapping) {
+      return NextResponse.json(
+        { error: errors.join('. '), errors },
+        { status: 400 }
+      )
+    }
+
+    const { value, skippedRows } = buildTableExtraction(sheet.rows, mapping)
+    const { result, issues } = validateExtraction(value, ontology)
+    const linking = linkRelationships(result)
+
+    const report: ExtractionReport = {
+      extractedBy: 'table-import',
+      createdAt: new Date().toISOString(),
+      chunks: [{
+        chunk: 0,
+        pass: 0,
+        parsed: true,
+        repaired: false,
+        error: null,
+        kept: {
+          entities: result.entities.length,
+          relationships: result.relationships.length,
+          insights: 0,
+          frontier_hints: 0
+        },
+        issues
+      }],
+      linking
+    }
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: {
+        tableMapping: JSON.stringify(mapping),
+        extractionReport: JSON.stringify(report)
+      }
+    })
+
+    const outcome = await completeExtraction(
+      document,
+      result,
+      'table-import',
+      changeContext(params.id, 'extraction', 'import', { documentId: document.id })
+    )
+
+    // Insights are only asked for once the rows are in the graph; a re-import waits for review first
+    let job = null
+    let warning: string | undefined
+    if (body.insights && outcome.status === 'extracted') {
+      const settings = await getProjectSettings(params.id)
+      const configError = await enqueueError(settings)
+      if (configError) {
+        warning = configError.error
+      } else {
+        job = await enqueueExtraction(params.id, document.id, 'insights')
+      }
+    } else if (body.insights) {
+      warning = 'Insights were not requested because the import is waiting for review'
+    }
+
+    return NextResponse.json({
+      status: outcome.status,
+      summary: outcome.status === 'extracted' ? outcome.summary : undefined,
+      diff: outcome.status === 'review' ? outcome.diff : undefined,
+      validation: summariseReport(report),
+      skippedRows,
+      warning,
+      job: job ? formatJob(job) : null
+    })
+
+  } catch (error) {
+    console.error('Failed to import spreadsheet:', error)
+    return NextResponse.json(
+      { error: 'Failed to import spreadsheet' },
+      { status: 500 }
+    )
+  }
+}
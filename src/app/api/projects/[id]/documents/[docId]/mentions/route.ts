@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { mergeAliases, parseJson } from '@/lib/entityResolution'
+import { anchorEvidence, formatEvidence } from '@/lib/extraction/evidence'
+import { GRAPH_NODE_FIELDS, toGraphLink, toGraphNode } from '@/lib/graph'
+import { findMentions } from '@/lib/mentions'
+import { checkEdgeFields, checkEntityFields } from '@/lib/graphEdits'
+import { changeContext, created, logChanges, updated } from '@/lib/changeLog'
+import { getProjectOntology } from '@/lib/settings'
+
+// Where the project's entities are named in the document, with the entities themselves
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id },
+      select: { id: true, content: true }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const entities = await prisma.entity.findMany({
+      where: { projectId: params.id },
+      select: { ...GRAPH_NODE_FIELDS, documentId: true, sources: { select: { documentId: true, name: true } } }
+    })
+
+    // Entities this document contributed claim shared names before others do
+    const fromDocument = (entity: typeof entities[number]) =>
+      entity.documentId === document.id || entity.sources.some(source => source.documentId === document.id)
+    const ordered = [...entities.filter(fromDocument), ...entities.filter(entity => !fromDocument(entity))]
+
+    const mentions = findMentions(document.content, ordered.map(entity => ({
+      id: entity.id,
+      names: [entity.name, ...parseJson<string[]>(entity.aliases, []), ...entity.sources.map(source => source.name)]
+    })))
+    const mentioned = new Set(mentions.map(mention => mention.entityId))
+
+    return NextResponse.json({
+      entities: entities.filter(entity => mentioned.has(entity.id) || fromDocument(entity)).map(toGraphNode),
+      mentions
+    })
+  } catch (error) {
+    console.error('Failed to find mentions:', error)
+    return NextResponse.json({ error: 'Failed to find mentions' }, { status: 500 })
+  }
+}
+
+// Add to the graph from a passage selected in the reader, keeping the passage as evidence:
+//   { startOffset, endOffset, entity: { name?, type, subtype?, description? } }  a new entity (named by the passage unless given)
+//   { startOffset, endOffset, entity: { id } }                                   the passage mentions an existing entity
+//   { startOffset, endOffset, relationship: { sourceId, targetId, label } }      a relationship the passage states
+// What is added by hand belongs to no document, so re-extracting the document leaves it alone.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const { startOffset: start, endOffset: end } = body
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > document.content.length) {
+      return NextResponse.json({ error: 'startOffset and endOffset must select text in the document' }, { status: 400 })
+    }
+    const passage = document.content.slice(start, end).replace(/\s+/g, ' ').trim()
+    if (!passage) {
+      return NextResponse.json({ error: 'The selection is empty' }, { status: 400 })
+    }
+
+    const ontology = await getProjectOntology(params.id)
+    // Added by hand, so not the document's contribution, but the document is where it came from
+    const context = changeContext(params.id, 'user', 'edit', { documentId: document.id })
+
+    if (body.relationship) {
+      const checked = await checkEdgeFields(params.id, body.relationship, ontology)
+      if ('error' in checked) {
+        return NextResponse.json({ error: checked.error }, { status: 400 })
+      }
+      const edge = await prisma.edge.create({
+        data: { projectId: params.id, ...checked.data, confidence: 1, reviewStatus: 'approved' }
+      })
+      await logChanges(prisma, context, [created('edge', edge)])
+      const evidence = await anchorEvidence(document, { edgeId: edge.id }, start, end)
+      return NextResponse.json({ edge: toGraphLink(edge), evidence: formatEvidence(evidence) }, { status: 201 })
+    }
+
+    if (body.entity?.id) {
+      const existing = await prisma.entity.findUnique({
+        where: { id: String(body.entity.id), projectId: params.id }
+      })
+      if (!existing) {
+        return NextResponse.json({ error: 'Entity not found in this project' }, { status: 400 })
+      }
+      // The passage's wording becomes an alias, so the reader highlights it from now on
+      const entity = await prisma.entity.update({
+        where: { id: existing.id },
+        data: { aliases: JSON.stringify(mergeAliases(existing.name, parseJson<string[]>(existing.aliases, []), [passage])) }
+      })
+      await logChanges(prisma, context, [updated('entity', entity.id, existing, entity)])
+      const evidence = await anchorEvidence(document, { entityId: entity.id }, start, end)
+      return NextResponse.json({ entity: toGraphNode(entity), evidence: formatEvidence(evidence) })
+    }
+
+    if (body.entity) {
+      const checked = checkEntityFields({ ...body.entity, name: body.entity.name || passage }, ontology)
+      if ('error' in checked) {
+        return NextResponse.json({ error: checked.error }, { status: 400 })
+      }
+      const entity = await prisma.entity.create({
+        data: {
+          projectId: params.id,
+          name: checked.data.name!,
+          type: checked.data.type!,
+          subtype: checked.data.subtype,
+          description: checked.data.description,
+          confidence: 1,
+          extractedBy: 'manual',
+          reviewStatus: 'approved'
+        }
+      })
+      await logChanges(prisma, context, [created('entity', entity)])
+      const evidence = await anchorEvidence(document, { entityId: entity.id }, start, end)
+      return NextResponse.json({ entity: toGraphNode(entity), evidence: formatEvidence(evidence) }, { status: 201 })
+    }
+
+    return NextResponse.json({ error: 'entity or relationship is required' }, { status: 400 })
+  } catch (error) {
+    console.error('Failed to add from selection:', error)
+    return NextResponse.json({ error: 'Failed to add from selection' }, { status: 500 })
+  }
+}
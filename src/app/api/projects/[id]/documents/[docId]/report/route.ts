@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { ExtractionReport, summariseReport } from '@/lib/extraction/schema'
+
+// What the last extraction run kept, coerced and dropped for each chunk, and why
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: {
+        id: params.docId,
+        projectId: params.id
+      },
+      select: { id: true, filename: true, extractionReport: true }
+    })
+
+    const report = parseJson<ExtractionReport | null>(document?.extractionReport, null)
+    if (!document || !report) {
+      return NextResponse.json(
+        { error: 'No extraction report for this document' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      documentId: document.id,
+      filename: document.filename,
+      summary: summariseReport(report),
+      ...report
+    })
+
+  } catch (error) {
+    console.error('Failed to fetch extraction report:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch extraction report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getProjectSettings } from '@/lib/settings'
+import { TABULAR_FILE_TYPES } from '@/lib/tabular'
+import { isBusy, reprocessDocument } from '@/lib/documents'
+import { enqueueError, enqueueExtraction, formatJob } from '@/lib/jobs/queue'
+
+// Read the document's text again from its stored original. With { extract: true } a changed text is
+// also queued for extraction, whose changes are applied or held for review as usual.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (isBusy(document)) {
+      return NextResponse.json({ error: 'This document is already being extracted' }, { status: 409 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const extract = body.extract === true && !TABULAR_FILE_TYPES.includes(document.fileType)
+
+    // Check the AI provider before changing anything, so a queued extraction can't fail halfway
+    if (extract) {
+      const configError = await enqueueError(await getProjectSettings(params.id))
+      if (configError) {
+        return NextResponse.json({ error: configError.error }, { status: configError.status })
+      }
+    }
+
+    const outcome = await reprocessDocument(document)
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status })
+    }
+
+    const job = extract && outcome.changed ? await enqueueExtraction(params.id, document.id) : null
+
+    return NextResponse.json({
+      message: outcome.changed ? 'Text read again from the original file' : 'The text is unchanged',
+      changed: outcome.changed,
+      length: outcome.document.content.length,
+      job: job ? formatJob(job) : null
+    })
+  } catch (error) {
+    console.error('Failed to reprocess document:', error)
+    return NextResponse.json({ error: 'Failed to reprocess document' }, { status: 500 })
+  }
+}
@@ -0,0 +1,166 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { parseDate, refreshValidity } from '@/lib/temporal'
+import { CONFIDENTIALITY_LEVELS, DELETE_MODES, DeleteMode, cleanTags, deleteDocument, isBusy } from '@/lib/documents'
+
+const DOCUMENT_FIELDS = {
+  id: true,
+  filename: true,
+  fileType: true,
+  fileSize: true,
+  folderPath: true,
+  tags: true,
+  confidentiality: true,
+  effectiveDate: true,
+  version: true,
+  status: true,
+  entityCount: true,
+  edgeCount: true,
+  createdAt: true
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: {
+        id: params.docId,
+        projectId: params.id
+      },
+      select: { ...DOCUMENT_FIELDS, content: true }
+    })
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ...document, tags: parseJson<string[]>(document.tags, []) })
+
+  } catch (error) {
+    console.error('Failed to fetch document:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch document' },
+      { status: 500 }
+    )
+  }
+}
+
+// Change a document's details: { filename?, tags?: string[], effectiveDate?: "2021-01-01" | null, confidentiality? }.
+// Only the fields sent are changed. A rename keeps the file's extension, which decides how it is read.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id },
+      select: { id: true, fileType: true, effectiveDate: true }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const data: { filename?: string; tags?: string; effectiveDate?: Date | null; confidentiality?: string } = {}
+
+    if ('filename' in body) {
+      const filename = typeof body.filename === 'string' ? body.filename.trim() : ''
+      if (!filename || /[\\/]/.test(filename)) {
+        return NextResponse.json({ error: 'filename must be a name without folders' }, { status: 400 })
+      }
+      if (path.extname(filename).toLowerCase() !== document.fileType) {
+        return NextResponse.json({ error: `filename must keep the ${document.fileType} extension` }, { status: 400 })
+      }
+      data.filename = filename
+    }
+
+    if ('tags' in body) {
+      const tags = cleanTags(body.tags)
+      if (!tags) {
+        return NextResponse.json({ error: 'tags must be a list of strings' }, { status: 400 })
+      }
+      data.tags = JSON.stringify(tags)
+    }
+
+    if ('effectiveDate' in body) {
+      const effectiveDate = body.effectiveDate === null ? null : parseDate(body.effectiveDate)
+      if (body.effectiveDate !== null && !effectiveDate) {
+        return NextResponse.json({ error: 'effectiveDate must be a date such as 2021-03-31, or null' }, { status: 400 })
+      }
+      data.effectiveDate = effectiveDate
+    }
+
+    if ('confidentiality' in body) {
+      if (!CONFIDENTIALITY_LEVELS.includes(body.confidentiality)) {
+        return NextResponse.json(
+          { error: `confidentiality must be one of: ${CONFIDENTIALITY_LEVELS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      data.confidentiality = body.confidentiality
+    }
+
+    const updated = await prisma.document.update({
+      where: { id: document.id },
+      data,
+      select: DOCUMENT_FIELDS
+    })
+
+    // A new date moves what the document says along the timeline
+    if ('effectiveDate' in data && data.effectiveDate?.getTime() !== document.effectiveDate?.getTime()) {
+      await refreshValidity(params.id)
+    }
+
+    return NextResponse.json({ ...updated, tags: parseJson<string[]>(updated.tags, []) })
+  } catch (error) {
+    console.error('Failed to update document:', error)
+    return NextResponse.json({ error: 'Failed to update document' }, { status: 500 })
+  }
+}
+
+// Delete a document and its stored file. ?mode=cascade also removes what was extracted from it
+// (entities other documents mention are kept); ?mode=detach keeps it all without a source document.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const mode = request.nextUrl.searchParams.get('mode') as DeleteMode
+    if (!DELETE_MODES.includes(mode)) {
+      return NextResponse.json({ error: 'mode must be cascade or detach' }, { status: 400 })
+    }
+
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (isBusy(document)) {
+      return NextResponse.json(
+        { error: 'This document is being extracted; cancel the extraction before deleting it' },
+        { status: 409 }
+      )
+    }
+
+    const summary = await deleteDocument(document, mode)
+
+    return NextResponse.json({
+      message: `Deleted ${document.filename}`,
+      mode,
+      removed: summary
+        ? { entities: summary.removedEntities, relationships: summary.removedRelationships, insights: summary.removedInsights }
+        : null
+    })
+  } catch (error) {
+    console.error('Failed to delete document:', error)
+    return NextResponse.json({ error: 'Failed to delete document' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseDate, refreshValidity, setVersionOf } from '@/lib/temporal'
+
+// Place a document on the project's timeline: { effectiveDate?: "2021-01-01" | null, versionOf?: docId | null }.
+// Only the fields sent are changed; the validity of the graph is recomputed from the result.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; docId: string } }
+) {
+  try {
+    const document = await prisma.document.findUnique({
+      where: { id: params.docId, projectId: params.id },
+      select: { id: true }
+    })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+
+    // Both fields are checked before either is written, so a bad request changes nothing
+    const setsDate = 'effectiveDate' in body
+    const effectiveDate = body.effectiveDate === null ? null : parseDate(body.effectiveDate)
+    if (setsDate && body.effectiveDate !== null && !effectiveDate) {
+      return NextResponse.json({ error: 'effectiveDate must be a date such as 2021-03-31, or null' }, { status: 400 })
+    }
+
+    const setsVersion = 'versionOf' in body
+    const versionOf = body.versionOf ? String(body.versionOf) : null
+    if (setsVersion && versionOf === document.id) {
+      return NextResponse.json({ error: 'A document cannot be a version of itself' }, { status: 400 })
+    }
+    if (setsVersion && versionOf && !(await prisma.document.findUnique({ where: { id: versionOf, projectId: params.id }, select: { id: true } }))) {
+      return NextResponse.json({ error: 'The earlier version was not found in this project' }, { status: 400 })
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (setsDate) await tx.document.update({ where: { id: document.id }, data: { effectiveDate } })
+      if (setsVersion) await setVersionOf(tx, document.id, versionOf)
+    })
+
+    await refreshValidity(params.id)
+
+    const updated = await prisma.document.findUniqueOrThrow({
+      where: { id: document.id },
+      select: { id: true, filename: true, effectiveDate: true, seriesId: true, version: true }
+    })
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error('Failed to update document version:', error)
+    return NextResponse.json({ error: 'Failed to update document version' }, { status: 500 })
+  }
+}
@@ -3,21 +3,42 @@ import { prisma } from '@/lib/prisma'
 import { promises as fs } from 'fs'
 import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
-// @ts-ignore
-import pdfParse from 'pdf-parse'
-// @ts-ignore
-import mammoth from 'mammoth'
+import { getProjectSettings } from '@/lib/settings'
+import { enqueueError, enqueueExtraction, formatJob } from '@/lib/jobs/queue'
+import { budgetError, getDocumentCosts } from '@/lib/usage'
+import { parseJson } from '@/lib/entityResolution'
+import { ExtractionReport, summariseReport } from '@/lib/extraction/schema'
+import { SUPPORTED_FILE_TYPES, extractText, isSupportedFileType } from '@/lib/ingest'
+import { TABULAR_FILE_TYPES } from '@/lib/tabular'
+import { DUPLICATE_RESOLUTIONS, DuplicateResolution, findDuplicate, fingerprint, loadKnownDocuments } from '@/lib/duplicates'
+import { inferEffectiveDate, refreshValidity } from '@/lib/temporal'
+import { ARCHIVE_FILE_TYPES, ArchiveFile, SkippedFile, expandZip, isIgnoredPath, safeRelativePath, splitRelativePath } from '@/lib/archive'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const documents = await prisma.document.findMany({
-      where: { projectId: params.id },
-      orderBy: { createdAt: 'desc' },
-    })
-    return NextResponse.json(documents)
+    const [documents, costs] = await Promise.all([
+      prisma.document.findMany({
+        where: { projectId: params.id },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          extractionJobs: { orderBy: { createdAt: 'desc' }, take: 1 }
+        }
+      }),
+      getDocumentCosts(params.id)
+    ])
+    return NextResponse.json(documents.map(({ extractionJobs, extractionReport, ...document }) => {
+      const report = parseJson<ExtractionReport | null>(extractionReport, null)
+      return {
+        ...document,
+        tags: parseJson<string[]>(document.tags, []),
+        latestJob: extractionJobs[0] ? formatJob(extractionJobs[0]) : null,
+        validation: report ? summariseReport(report) : null,
+        costUsd: costs.get(document.id) || 0
+      }
+    }))
   } catch (error) {
     return NextResponse.json({ error: 'Failed to fetch documents' }, { status: 500 })
   }
@@ -58,87 +79,181 @@ export async function POST(
       await fs.mkdir(uploadsDir, { recursive: true })
     }
 
+    // Queue extraction straight away when the project has auto-extract on, a usable provider and budget left
+    const settings = await getProjectSettings(params.id)
+    const autoExtract = settings.autoExtract && !(await enqueueError(settings))
+    const overBudget = settings.autoExtract ? await budgetError(settings) : null
+
+    // Everything to store: loose files, files from dropped folders (their relative folder arrives
+    // in a parallel "paths" field) and the contents of zip archives
+    const uploads: ArchiveFile[] = []
+    const skipped: SkippedFile[] = []
+    const paths = formData.getAll('paths').map(String)
+
+    // Uploads that matched an existing document are sent again with what to do about each, keyed
+    // by the path reported in "duplicates"; only those files are stored on that second request
+    const resolutionsField = formData.get('resolutions')
+    const chosen = resolutionsField ? parseJson<Record<string, DuplicateResolution>>(String(resolutionsField), {}) : null
+    const resolutions = chosen
+      ? new Map(Object.keys(chosen).filter(key => DUPLICATE_RESOLUTIONS.includes(chosen[key])).map(key => [key, chosen[key]]))
+      : null
+
+    for (const [index, file] of Array.from(files.entries())) {
+      const relativePath = safeRelativePath(paths[index] ? `${paths[index]}/${file.name}` : file.name)
+      if (!relativePath) {
+        skipped.push({ filename: file.name, reason: 'Unsafe file path' })
+        continue
+      }
+      if (isIgnoredPath(relativePath)) continue
+      const buffer = Buffer.from(await file.arrayBuffer())
+
+      if (ARCHIVE_FILE_TYPES.includes(path.extname(relativePath).toLowerCase())) {
+        try {
+          const archive = await expandZip(buffer, relativePath)
+          uploads.push(...archive.files)
+          if (!resolutions) skipped.push(...archive.skipped)
+        } catch (error) {
+          console.error(`Error expanding archive ${relativePath}:`, error)
+          skipped.push({ filename: relativePath, reason: 'The archive could not be opened' })
+        }
+        continue
+      }
+      uploads.push({ ...splitRelativePath(relativePath), buffer })
+    }
+
+    // Uploads are compared with every document in the project, including ones stored earlier in this upload
+    const known = await loadKnownDocuments(params.id)
+
     const documents = []
+    const duplicates = []
+    let newVersions = 0
 
-    for (const file of files) {
+    for (const upload of uploads) {
+      const shownPath = upload.folderPath ? `${upload.folderPath}/${upload.filename}` : upload.filename
+      const resolution = resolutions?.get(shownPath)
+      if (resolutions && !resolution) continue
+      const fileType = path.extname(upload.filename).toLowerCase()
+      if (ARCHIVE_FILE_TYPES.includes(fileType)) {
+        skipped.push({ filename: shownPath, reason: 'Archives inside archives are not expanded' })
+        continue
+      }
+      if (!isSupportedFileType(fileType)) {
+        skipped.push({
+          filename: shownPath,
+          reason: `${fileType || 'Files without an extension'} is not supported. Supported: ${[...SUPPORTED_FILE_TYPES, ...ARCHIVE_FILE_TYPES].join(', ')}`
+        })
+        continue
+      }
       try {
         // Save file to disk
         const fileId = uuidv4()
-        const fileName = `${fileId}_${file.name}`
+        const fileName = `${fileId}_${upload.filename}`
         const filePath = path.join(uploadsDir, fileName)
-        
-        const bytes = await file.arrayBuffer()
-        const buffer = Buffer.from(bytes)
-        await fs.writeFile(filePath, buffer)
 
-        // Extract text content based on file type
+        // A file its reader can't parse is skipped rather than stored with no text to extract from
         let content = ''
-        const fileType = path.extname(file.name).toLowerCase()
-
-        switch (fileType) {
-          case '.txt':
-          case '.md':
-            content = buffer.toString('utf-8')
-            break
-            
-          case '.csv':
-            content = buffer.toString('utf-8')
-            break
-            
-          case '.pdf':
-            try {
-              const pdfData = await pdfParse(buffer)
-              content = pdfData.text
-            } catch (error) {
-              console.error('PDF parsing error:', error)
-              content = '[PDF content could not be extracted]'
-            }
-            break
-            
-          case '.docx':
-            try {
-              const result = await mammoth.extractRawText({ buffer })
-              content = result.value
-            } catch (error) {
-              console.error('DOCX parsing error:', error)
-              content = '[DOCX content could not be extracted]'
-            }
-            break
-            
-          default:
-            content = '[Unsupported file format]'
+        try {
+          content = await extractText(upload.buffer, fileType)
+        } catch (error) {
+          console.error(`${fileType.slice(1).toUpperCase()} parsing error:`, error)
+          skipped.push({ filename: shownPath, reason: `The ${fileType.slice(1).toUpperCase()} file could not be read` })
+          continue
+        }
+
+        // A match is reported back for the uploader to choose skip, replace or keep, unless they already have
+        const print = fingerprint(upload.buffer, content)
+        const match = resolution === 'keep' ? null : findDuplicate(upload.filename, print, known)
+        if (match && resolution !== 'replace') {
+          if (resolution === 'skip') {
+            skipped.push({ filename: shownPath, reason: `Duplicate of ${match.document.filename}` })
+          } else {
+            duplicates.push({
+              filename: shownPath,
+              kind: match.kind,
+              similarity: match.similarity,
+              existing: { id: match.document.id, filename: match.document.filename, folderPath: match.document.folderPath }
+            })
+          }
+          continue
         }
+        await fs.writeFile(filePath, upload.buffer)
+
+        // A replacement becomes the next version of the document it matched. Both are kept; what
+        // only the earlier version said stops holding from the new version's effective date.
+        const seriesId = match ? match.document.seriesId || match.document.id : null
+        const latest = seriesId
+          ? await prisma.document.aggregate({ where: { OR: [{ id: seriesId }, { seriesId }] }, _max: { version: true } })
+          : null
 
-        // Save document to database
         const document = await prisma.document.create({
           data: {
             projectId: params.id,
-            filename: file.name,
+            filename: upload.filename,
             fileType: fileType,
-            fileSize: file.size,
+            fileSize: upload.buffer.length,
             content: content,
+            storagePath: path.join('uploads', fileName),
+            folderPath: upload.folderPath,
+            contentHash: print.contentHash,
+            textHash: print.textHash,
+            textSignature: JSON.stringify(print.textSignature),
+            seriesId,
+            version: (latest?._max.version || 0) + 1,
+            effectiveDate: inferEffectiveDate(upload.filename, content, fileType),
             status: 'uploaded'
           }
         })
+        if (seriesId) newVersions++
+
+        known.push({
+          id: document.id,
+          filename: document.filename,
+          folderPath: document.folderPath,
+          seriesId: document.seriesId,
+          ...print
+        })
+
+        // Spreadsheets wait for a column mapping instead of going straight to the model
+        const importable = TABULAR_FILE_TYPES.includes(fileType)
+        const job = autoExtract && !importable ? await enqueueExtraction(params.id, document.id) : null
 
         documents.push({
           id: document.id,
           filename: document.filename,
           fileType: document.fileType,
           fileSize: document.fileSize,
-          status: document.status,
-          createdAt: document.createdAt.toISOString()
+          folderPath: document.folderPath,
+          version: document.version,
+          effectiveDate: document.effectiveDate,
+          replaced: !!match,
+          status: job ? 'queued' : document.status,
+          createdAt: document.createdAt.toISOString(),
+          importable,
+          job: job ? formatJob(job) : null
         })
 
       } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error)
+        console.error(`Error processing file ${shownPath}:`, error)
         // Continue with other files even if one fails
       }
     }
 
+    // Earlier versions stop being current from their replacements' effective dates
+    if (newVersions > 0) await refreshValidity(params.id)
+
+    if (!resolutions && documents.length === 0 && duplicates.length === 0 && skipped.length > 0) {
+      return NextResponse.json(
+        { error: skipped.map(s => `${s.filename}: ${s.reason}`).join('\n'), skipped },
+        { status: 422 }
+      )
+    }
+
     return NextResponse.json({
       message: `Successfully uploaded ${documents.length} documents`,
-      documents
+      warning: overBudget?.error,
+      documents,
+      duplicates,
+      skipped
     })
 
   } catch (error) {
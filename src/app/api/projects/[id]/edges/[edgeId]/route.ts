@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { toGraphLink } from '@/lib/graph'
+import { checkEdgeFields } from '@/lib/graphEdits'
+import { changeContext, edgeDeletions, logChanges, updated } from '@/lib/changeLog'
+import { getProjectOntology } from '@/lib/settings'
+
+// Change a relationship: any of { sourceId, targetId, label, weight }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; edgeId: string } }
+) {
+  try {
+    const existing = await prisma.edge.findUnique({
+      where: { id: params.edgeId, projectId: params.id }
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Relationship not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const checked = await checkEdgeFields(params.id, body, await getProjectOntology(params.id), existing)
+    if ('error' in checked) {
+      return NextResponse.json({ error: checked.error }, { status: 400 })
+    }
+
+    const edge = await prisma.edge.update({
+      where: { id: existing.id },
+      data: checked.data
+    })
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [updated('edge', edge.id, existing, edge)])
+
+    return NextResponse.json(toGraphLink(edge))
+  } catch (error) {
+    console.error('Failed to update relationship:', error)
+    return NextResponse.json({ error: 'Failed to update relationship' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; edgeId: string } }
+) {
+  try {
+    const edge = await prisma.edge.findUnique({
+      where: { id: params.edgeId, projectId: params.id },
+      select: { id: true }
+    })
+    if (!edge) {
+      return NextResponse.json({ error: 'Relationship not found' }, { status: 404 })
+    }
+
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), await edgeDeletions(prisma, [edge.id]))
+    await prisma.edge.delete({ where: { id: edge.id } })
+
+    return NextResponse.json({ message: 'Relationship deleted' })
+  } catch (error) {
+    console.error('Failed to delete relationship:', error)
+    return NextResponse.json({ error: 'Failed to delete relationship' }, { status: 500 })
+  }
+}
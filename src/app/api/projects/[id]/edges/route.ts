@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { toGraphLink } from '@/lib/graph'
+import { checkEdgeFields } from '@/lib/graphEdits'
+import { changeContext, created, logChanges } from '@/lib/changeLog'
+import { getProjectOntology } from '@/lib/settings'
+
+// Create a relationship by hand: { sourceId, targetId, label, weight? }. An inverse label such as
+// "reports to" is stored the canonical way round, as extracted relationships are.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const checked = await checkEdgeFields(params.id, body, await getProjectOntology(params.id))
+    if ('error' in checked) {
+      return NextResponse.json({ error: checked.error }, { status: 400 })
+    }
+
+    const edge = await prisma.edge.create({
+      data: { projectId: params.id, ...checked.data, confidence: 1, reviewStatus: 'approved' }
+    })
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [created('edge', edge)])
+
+    return NextResponse.json(toGraphLink(edge), { status: 201 })
+  } catch (error) {
+    console.error('Failed to create relationship:', error)
+    return NextResponse.json({ error: 'Failed to create relationship' }, { status: 500 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { toGraphNode } from '@/lib/graph'
+import { checkEntityFields, forgetEntity } from '@/lib/graphEdits'
+import { changeContext, entityDeletions, logChanges, updated } from '@/lib/changeLog'
+import { getProjectOntology } from '@/lib/settings'
+
+// Change an entity: any of { name, type, subtype, description, metadata, aliases }. metadata replaces
+// the entity's metadata as a whole; a rename keeps the old name as an alias unless aliases are sent.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; entityId: string } }
+) {
+  try {
+    const existing = await prisma.entity.findUnique({
+      where: { id: params.entityId, projectId: params.id }
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const checked = checkEntityFields(body, await getProjectOntology(params.id), existing)
+    if ('error' in checked) {
+      return NextResponse.json({ error: checked.error }, { status: 400 })
+    }
+
+    const entity = await prisma.entity.update({
+      where: { id: existing.id },
+      data: checked.data
+    })
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [updated('entity', entity.id, existing, entity)])
+
+    return NextResponse.json(toGraphNode(entity))
+  } catch (error) {
+    console.error('Failed to update entity:', error)
+    return NextResponse.json({ error: 'Failed to update entity' }, { status: 500 })
+  }
+}
+
+// Delete an entity with its relationships, evidence and merge proposals
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; entityId: string } }
+) {
+  try {
+    const entity = await prisma.entity.findUnique({
+      where: { id: params.entityId, projectId: params.id },
+      select: { id: true, name: true }
+    })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const context = changeContext(params.id, 'user', 'edit')
+    const changes = await entityDeletions(prisma, [entity.id])
+    await logChanges(prisma, context, changes)
+    await prisma.entity.delete({ where: { id: entity.id } })
+    await forgetEntity(params.id, entity.id, context)
+    const relationships = changes.filter(change => change.recordType === 'edge').length
+
+    return NextResponse.json({ message: `Deleted ${entity.name}`, relationships })
+  } catch (error) {
+    console.error('Failed to delete entity:', error)
+    return NextResponse.json({ error: 'Failed to delete entity' }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toGraphNode } from '@/lib/graph'
+import { checkEntityFields } from '@/lib/graphEdits'
+import { SplitPart, splitEntity } from '@/lib/merge'
+import { getProjectOntology } from '@/lib/settings'
+
+const MAX_PARTS = 20
+
+const idList = (value: unknown): string[] | null =>
+  value === undefined ? [] : Array.isArray(value) && value.every(id => typeof id === 'string') ? value : null
+
+// Split entities off this one: { entities: [{ name, type, subtype?, description?, aliases?, metadata?,
+// edgeIds?, evidenceIds? }] }. Each new entity takes the relationships and evidence listed for it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; entityId: string } }
+) {
+  try {
+    const body = await request.json()
+    if (!Array.isArray(body.entities) || body.entities.length === 0 || body.entities.length > MAX_PARTS) {
+      return NextResponse.json({ error: `entities must list 1 to ${MAX_PARTS} new entities` }, { status: 400 })
+    }
+
+    const ontology = await getProjectOntology(params.id)
+    const parts: SplitPart[] = []
+    for (const item of body.entities) {
+      if (typeof item !== 'object' || item === null) {
+        return NextResponse.json({ error: 'Each new entity must be an object' }, { status: 400 })
+      }
+      const checked = checkEntityFields(item, ontology)
+      if ('error' in checked) {
+        return NextResponse.json({ error: checked.error }, { status: 400 })
+      }
+      const edgeIds = idList(item.edgeIds)
+      const evidenceIds = idList(item.evidenceIds)
+      if (!edgeIds || !evidenceIds) {
+        return NextResponse.json({ error: 'edgeIds and evidenceIds must be lists of ids' }, { status: 400 })
+      }
+      const { name, type } = checked.data
+      parts.push({ fields: { ...checked.data, name: name!, type: type! }, edgeIds, evidenceIds })
+    }
+
+    const split = await splitEntity(params.id, params.entityId, parts)
+    if ('error' in split) {
+      return NextResponse.json({ error: split.error }, { status: split.status })
+    }
+
+    return NextResponse.json({
+      entity: toGraphNode(split.original),
+      created: split.created.map(toGraphNode)
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to split entity:', error)
+    return NextResponse.json({ error: 'Failed to split entity' }, { status: 500 })
+  }
+}
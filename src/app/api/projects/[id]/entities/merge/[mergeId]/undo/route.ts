@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { toGraphNode } from '@/lib/graph'
+import { undoMerge } from '@/lib/merge'
+
+// Undo a merge, bringing back the merged entities as they were
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; mergeId: string } }
+) {
+  try {
+    const undone = await undoMerge(params.id, params.mergeId)
+    if ('error' in undone) {
+      return NextResponse.json({ error: undone.error }, { status: undone.status })
+    }
+
+    return NextResponse.json({ entities: undone.entities.map(toGraphNode) })
+  } catch (error) {
+    console.error('Failed to undo merge:', error)
+    return NextResponse.json({ error: 'Failed to undo merge' }, { status: 500 })
+  }
+}
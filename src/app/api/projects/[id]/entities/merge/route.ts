@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { toGraphNode } from '@/lib/graph'
+import { mergeEntityGroup } from '@/lib/merge'
+
+// Merges made in the project, newest first (?survivorId= for those into one entity)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const survivorId = new URL(request.url).searchParams.get('survivorId')
+    const merges = await prisma.entityMerge.findMany({
+      where: { projectId: params.id, ...(survivorId && { survivorId }) },
+      select: { id: true, survivorId: true, mergedIds: true, names: true, undoneAt: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: 100
+    })
+
+    return NextResponse.json({
+      merges: merges.map(merge => ({
+        ...merge,
+        mergedIds: parseJson<string[]>(merge.mergedIds, []),
+        names: parseJson<string[]>(merge.names, [])
+      }))
+    })
+  } catch (error) {
+    console.error('Failed to fetch merges:', error)
+    return NextResponse.json({ error: 'Failed to fetch merges' }, { status: 500 })
+  }
+}
+
+// Merge entities into one that survives: { survivorId, entityIds }. The others' names become its
+// aliases, and their relationships, sources and evidence move over to it. The merge can be undone.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const survivorId = typeof body.survivorId === 'string' ? body.survivorId : ''
+    const entityIds: string[] = Array.isArray(body.entityIds)
+      ? body.entityIds.filter((id: unknown): id is string => typeof id === 'string')
+      : []
+    if (!survivorId) {
+      return NextResponse.json({ error: 'survivorId is required' }, { status: 400 })
+    }
+
+    const merged = await mergeEntityGroup(params.id, survivorId, entityIds)
+    if ('error' in merged) {
+      return NextResponse.json({ error: merged.error }, { status: merged.status })
+    }
+
+    return NextResponse.json({
+      entity: toGraphNode(merged.entity),
+      mergeId: merged.mergeId,
+      collapsedRelationships: merged.collapsedEdges
+    })
+  } catch (error) {
+    console.error('Failed to merge entities:', error)
+    return NextResponse.json({ error: 'Failed to merge entities' }, { status: 500 })
+  }
+}
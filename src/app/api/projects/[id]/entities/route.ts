@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { toGraphNode } from '@/lib/graph'
+import { checkEntityFields } from '@/lib/graphEdits'
+import { changeContext, created, logChanges } from '@/lib/changeLog'
+import { getProjectOntology } from '@/lib/settings'
+
+// Create an entity by hand: { name, type, subtype?, description?, metadata?: { key: value }, aliases?: [] }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({ where: { id: params.id }, select: { id: true } })
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const checked = checkEntityFields(body, await getProjectOntology(params.id))
+    if ('error' in checked) {
+      return NextResponse.json({ error: checked.error }, { status: 400 })
+    }
+
+    const entity = await prisma.entity.create({
+      data: {
+        projectId: params.id,
+        name: checked.data.name!,
+        type: checked.data.type!,
+        subtype: checked.data.subtype,
+        description: checked.data.description,
+        metadata: checked.data.metadata,
+        aliases: checked.data.aliases,
+        confidence: 1,
+        extractedBy: 'manual',
+        reviewStatus: 'approved'
+      }
+    })
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [created('entity', entity)])
+
+    return NextResponse.json(toGraphNode(entity), { status: 201 })
+  } catch (error) {
+    console.error('Failed to create entity:', error)
+    return NextResponse.json({ error: 'Failed to create entity' }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { formatEvidence } from '@/lib/extraction/evidence'
+
+// Supporting passages for an entity (and optionally its edges), an edge or an insight
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const entityId = searchParams.get('entityId')
+    const edgeId = searchParams.get('edgeId')
+    const insightId = searchParams.get('insightId')
+
+    if (!entityId && !edgeId && !insightId) {
+      return NextResponse.json(
+        { error: 'entityId, edgeId or insightId is required' },
+        { status: 400 }
+      )
+    }
+
+    const evidence = await prisma.evidence.findMany({
+      where: {
+        projectId: params.id,
+        ...(entityId && { entityId }),
+        ...(edgeId && { edgeId }),
+        ...(insightId && { insightId })
+      },
+      include: { document: { select: { filename: true } } },
+      orderBy: [{ documentId: 'asc' }, { startOffset: 'asc' }]
+    })
+
+    return NextResponse.json({ evidence: evidence.map(formatEvidence) })
+
+  } catch (error) {
+    console.error('Failed to fetch evidence:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch evidence' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,75 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
+import { queryGraph, readGraphQuery } from '@/lib/graphQuery'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Get all entities for the project
-    const entities = await prisma.entity.findMany({
-      where: { projectId: params.id },
-      select: {
-        id: true,
-        name: true,
-        type: true,
-        subtype: true,
-        description: true,
-        metadata: true,
-        confidence: true,
-        reviewStatus: true,
-        territoryId: true,
-      }
-    })
+    // ?asOf=2020-06-30 limits the graph to what held on that date; see GraphQuery for the rest
+    const read = readGraphQuery(new URL(request.url).searchParams)
+    if ('error' in read) {
+      return NextResponse.json({ error: read.error }, { status: 400 })
+    }
 
-    // Get all edges for the project
-    const edges = await prisma.edge.findMany({
-      where: { projectId: params.id },
-      select: {
-        id: true,
-        sourceId: true,
-        targetId: true,
-        label: true,
-        weight: true,
-      }
-    })
+    const result = await queryGraph(params.id, read.query)
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
 
-    // Transform entities for D3
-    const nodes = entities.map(entity => {
-      let metadata = {}
-      try {
-        metadata = JSON.parse(entity.metadata)
-      } catch (error) {
-        // If JSON parsing fails, use empty object
-      }
-
-      return {
-        id: entity.id,
-        name: entity.name,
-        type: entity.type,
-        subtype: entity.subtype,
-        description: entity.description,
-        confidence: entity.confidence,
-        reviewStatus: entity.reviewStatus,
-        territoryId: entity.territoryId,
-        size: Math.max(2, Math.floor(entity.confidence * 5)),
-        ...metadata // Spread the metadata properties
-      }
-    })
-
-    // Transform edges for D3
-    const links = edges.map(edge => ({
-      id: edge.id,
-      source: edge.sourceId,
-      target: edge.targetId,
-      label: edge.label,
-      weight: edge.weight
-    }))
-
-    return NextResponse.json({
-      nodes,
-      edges: links
-    })
+    return NextResponse.json(result)
 
   } catch (error) {
     console.error('Failed to fetch graph data:', error)
@@ -78,4 +26,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
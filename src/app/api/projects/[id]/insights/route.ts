@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { formatEvidence } from '@/lib/extraction/evidence'
 
 export async function GET(
   request: NextRequest,
@@ -11,7 +12,10 @@ export async function GET(
       orderBy: [
         { severity: 'desc' }, // critical first
         { createdAt: 'desc' }
-      ]
+      ],
+      include: {
+        evidence: { include: { document: { select: { filename: true } } } }
+      }
     })
 
     const formattedInsights = insights.map(insight => {
@@ -29,6 +33,8 @@ export async function GET(
         text: insight.text,
         relatedEntityIds,
         acknowledged: insight.acknowledged,
+        documentId: insight.documentId,
+        evidence: insight.evidence.map(formatEvidence),
         createdAt: insight.createdAt.toISOString()
       }
     })
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ACTIVE_JOB_STATUSES, cancelJob, formatJob } from '@/lib/jobs/queue'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const job = await prisma.extractionJob.findFirst({
+      where: { id: params.jobId, projectId: params.id }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!ACTIVE_JOB_STATUSES.includes(job.status)) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}` },
+        { status: 409 }
+      )
+    }
+
+    const cancelled = await cancelJob(job)
+
+    return NextResponse.json(formatJob(cancelled))
+
+  } catch (error) {
+    console.error('Failed to cancel job:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel job' },
+      { status: 500 }
+    )
+  }
+}
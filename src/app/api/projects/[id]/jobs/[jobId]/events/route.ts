@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureWorker } from '@/lib/jobs/worker'
+import { createJobEventStream } from '@/lib/jobs/events'
+
+export const dynamic = 'force-dynamic'
+
+// Live progress for one job as Server-Sent Events; the stream ends when the job does
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const job = await prisma.extractionJob.findFirst({
+      where: { id: params.jobId, projectId: params.id }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    ensureWorker()
+    // Read again once the stream is listening, in case the job finished in the meantime
+    const loadJob = () => prisma.extractionJob.findMany({ where: { id: job.id } })
+    return createJobEventStream({ jobId: job.id }, loadJob, request.signal)
+
+  } catch (error) {
+    console.error('Failed to stream job events:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream job events' },
+      { status: 500 }
+    )
+  }
+}
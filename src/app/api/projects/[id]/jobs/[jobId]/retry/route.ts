@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getProjectSettings } from '@/lib/settings'
+import { isBusy } from '@/lib/documents'
+import { ACTIVE_JOB_STATUSES, enqueueError, formatJob, retryJob } from '@/lib/jobs/queue'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const job = await prisma.extractionJob.findFirst({
+      where: { id: params.jobId, projectId: params.id }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!['failed', 'cancelled'].includes(job.status)) {
+      return NextResponse.json(
+        { error: 'Only failed or cancelled jobs can be retried' },
+        { status: 409 }
+      )
+    }
+
+    // A document gets one extraction at a time, and one waiting for review is settled first
+    const [document, active] = await Promise.all([
+      prisma.document.findUnique({ where: { id: job.documentId } }),
+      prisma.extractionJob.findFirst({
+        where: { documentId: job.documentId, status: { in: ACTIVE_JOB_STATUSES } }
+      })
+    ])
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      )
+    }
+    if (isBusy(document) || active) {
+      return NextResponse.json(
+        { error: 'This document is already being extracted' },
+        { status: 409 }
+      )
+    }
+    if (document.status === 'review') {
+      return NextResponse.json(
+        { error: 'This document has an extraction waiting for review; apply or discard it first' },
+        { status: 409 }
+      )
+    }
+
+    const configError = await enqueueError(await getProjectSettings(params.id))
+    if (configError) {
+      return NextResponse.json(
+        { error: configError.error },
+        { status: configError.status }
+      )
+    }
+
+    const retried = await retryJob(job)
+
+    return NextResponse.json(formatJob(retried))
+
+  } catch (error) {
+    console.error('Failed to retry job:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    )
+  }
+}
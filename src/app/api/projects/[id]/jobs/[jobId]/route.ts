@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { formatJob } from '@/lib/jobs/queue'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; jobId: string } }
+) {
+  try {
+    const job = await prisma.extractionJob.findFirst({
+      where: { id: params.jobId, projectId: params.id }
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(formatJob(job))
+
+  } catch (error) {
+    console.error('Failed to fetch job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureWorker } from '@/lib/jobs/worker'
+import { createJobEventStream } from '@/lib/jobs/events'
+import { ACTIVE_JOB_STATUSES } from '@/lib/jobs/queue'
+
+export const dynamic = 'force-dynamic'
+
+// Live progress for every job in the project over one connection; stays open until the client leaves
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const loadJobs = () => prisma.extractionJob.findMany({
+      where: { projectId: params.id, status: { in: ACTIVE_JOB_STATUSES } },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    ensureWorker()
+    return createJobEventStream({ projectId: params.id }, loadJobs, request.signal)
+
+  } catch (error) {
+    console.error('Failed to stream job events:', error)
+    return NextResponse.json(
+      { error: 'Failed to stream job events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { ensureWorker } from '@/lib/jobs/worker'
+import { ACTIVE_JOB_STATUSES, formatJob } from '@/lib/jobs/queue'
+
+// List extraction jobs. Filters: ?status=queued,running | ?active=true | ?documentId=a,b
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    ensureWorker()
+
+    const { searchParams } = new URL(request.url)
+    const statuses = searchParams.get('active') === 'true'
+      ? ACTIVE_JOB_STATUSES
+      : searchParams.get('status')?.split(',').filter(Boolean)
+    const documentIds = searchParams.get('documentId')?.split(',').filter(Boolean)
+
+    const jobs = await prisma.extractionJob.findMany({
+      where: {
+        projectId: params.id,
+        ...(statuses && { status: { in: statuses } }),
+        ...(documentIds && { documentId: { in: documentIds } })
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200
+    })
+
+    return NextResponse.json({ jobs: jobs.map(formatJob) })
+
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { mergeEntityGroup } from '@/lib/merge'
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; proposalId: string } }
+) {
+  try {
+    const body = await request.json()
+    const { action } = body
+
+    if (!action || !['accept', 'reject'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action' },
+        { status: 400 }
+      )
+    }
+
+    const proposal = await prisma.mergeProposal.findFirst({
+      where: {
+        id: params.proposalId,
+        projectId: params.id,
+        status: 'pending'
+      }
+    })
+
+    if (!proposal) {
+      return NextResponse.json(
+        { error: 'Merge proposal not found' },
+        { status: 404 }
+      )
+    }
+
+    if (action === 'reject') {
+      await prisma.mergeProposal.update({
+        where: { id: proposal.id },
+        data: { status: 'rejected' }
+      })
+      return NextResponse.json({ message: 'Merge proposal rejected' })
+    }
+
+    // The candidate is folded into the entity that was already in the graph;
+    // the proposal itself is removed along with the candidate, and comes back if the merge is undone
+    const merged = await mergeEntityGroup(params.id, proposal.entityId, [proposal.candidateId])
+    if ('error' in merged) {
+      return NextResponse.json({ error: merged.error }, { status: merged.status })
+    }
+
+    return NextResponse.json({
+      message: 'Entities merged',
+      entity: merged.entity,
+      mergeId: merged.mergeId
+    })
+
+  } catch (error) {
+    console.error('Failed to update merge proposal:', error)
+    return NextResponse.json(
+      { error: 'Failed to update merge proposal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const entitySelect = {
+      id: true,
+      name: true,
+      type: true,
+      aliases: true,
+      description: true,
+    }
+
+    const proposals = await prisma.mergeProposal.findMany({
+      where: { projectId: params.id, status: 'pending' },
+      include: {
+        entity: { select: entitySelect },
+        candidate: { select: entitySelect }
+      },
+      orderBy: { score: 'desc' }
+    })
+
+    const formattedProposals = proposals.map(proposal => ({
+      id: proposal.id,
+      score: proposal.score,
+      reasons: parseJson<string[]>(proposal.reasons, []),
+      entity: { ...proposal.entity, aliases: parseJson<string[]>(proposal.entity.aliases, []) },
+      candidate: { ...proposal.candidate, aliases: parseJson<string[]>(proposal.candidate.aliases, []) },
+      createdAt: proposal.createdAt.toISOString()
+    }))
+
+    return NextResponse.json({ proposals: formattedProposals })
+
+  } catch (error) {
+    console.error('Failed to fetch merge proposals:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch merge proposals' },
+      { status: 500 }
+    )
+  }
+}
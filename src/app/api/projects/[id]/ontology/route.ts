@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getProjectOntology, readOntology, saveProjectOntology } from '@/lib/settings'
+import { changeContext, logChanges, updated } from '@/lib/changeLog'
+import { cleanOntology } from '@/lib/ontology'
+
+// How many entities use each type, so the editor can warn before a type in use is removed
+async function entityTypeCounts(projectId: string) {
+  const rows = await prisma.entity.groupBy({
+    by: ['type'],
+    where: { projectId },
+    _count: { _all: true }
+  })
+  return Object.fromEntries(rows.map(row => [row.type, row._count._all]))
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const [ontology, entityCounts] = await Promise.all([
+      getProjectOntology(params.id),
+      entityTypeCounts(params.id)
+    ])
+
+    return NextResponse.json({ ...ontology, entityCounts })
+
+  } catch (error) {
+    console.error('Failed to fetch ontology:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch ontology' },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace the project's entity and relationship types. Existing entities keep their type.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { ontology, errors } = cleanOntology(await request.json())
+    if (!ontology) {
+      return NextResponse.json(
+        { error: errors.join('; '), errors },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    // Both sides are read back from the database, so the log compares them field for field
+    const before = await readOntology(prisma, params.id)
+    await saveProjectOntology(params.id, ontology)
+    const after = await readOntology(prisma, params.id)
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [
+      updated('ontology', params.id, { ontology: before }, { ontology: after })
+    ])
+
+    return NextResponse.json({ ...ontology, entityCounts: await entityTypeCounts(params.id) })
+
+  } catch (error) {
+    console.error('Failed to update ontology:', error)
+    return NextResponse.json(
+      { error: 'Failed to update ontology' },
+      { status: 500 }
+    )
+  }
+}
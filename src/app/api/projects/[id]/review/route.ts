@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { changeContext, logChanges, updated } from '@/lib/changeLog'
+import { parseJson } from '@/lib/entityResolution'
+import {
+  edgeReviewWhere,
+  entityReviewWhere,
+  includesEdges,
+  includesEntities,
+  isReviewStatus,
+  readReviewFilter
+} from '@/lib/review'
+
+// Items returned per request; reviewing them moves the next ones up
+const QUEUE_SIZE = 200
+
+const EVIDENCE_SELECT = {
+  select: { quote: true, page: true, document: { select: { filename: true } } },
+  orderBy: { createdAt: 'asc' as const },
+  take: 1
+}
+
+const ENDPOINT_SELECT = { select: { id: true, name: true, type: true } }
+
+// The review queue: entities and relationships with a review status (pending unless ?status= says
+// otherwise), least confident first. ?kind=entity|edge, ?documentId=, ?type= and ?relationType=
+// narrow it. Counts by document, type and relationship type come back for the bulk actions.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const query = new URL(request.url).searchParams
+    const status = query.get('status') || 'pending'
+    if (!isReviewStatus(status)) {
+      return NextResponse.json({ error: 'status must be pending, approved or rejected' }, { status: 400 })
+    }
+    const filter = readReviewFilter({
+      kind: query.get('kind'),
+      documentId: query.get('documentId'),
+      type: query.get('type'),
+      relationType: query.get('relationType')
+    }, status)
+
+    const entityWhere = entityReviewWhere(params.id, filter)
+    const edgeWhere = edgeReviewWhere(params.id, filter)
+    const orderBy = [{ confidence: 'asc' as const }, { createdAt: 'asc' as const }]
+
+    const [entities, edges, entityCount, edgeCount] = await Promise.all([
+      includesEntities(filter) ? prisma.entity.findMany({
+        where: entityWhere,
+        select: {
+          id: true,
+          name: true,
+          aliases: true,
+          type: true,
+          subtype: true,
+          description: true,
+          confidence: true,
+          reviewStatus: true,
+          document: { select: { id: true, filename: true } },
+          evidence: EVIDENCE_SELECT
+        },
+        orderBy,
+        take: QUEUE_SIZE
+      }) : [],
+      includesEdges(filter) ? prisma.edge.findMany({
+        where: edgeWhere,
+        select: {
+          id: true,
+          label: true,
+          rawLabel: true,
+          relationType: true,
+          weight: true,
+          confidence: true,
+          reviewStatus: true,
+          source: ENDPOINT_SELECT,
+          target: ENDPOINT_SELECT,
+          document: { select: { id: true, filename: true } },
+          evidence: EVIDENCE_SELECT
+        },
+        orderBy,
+        take: QUEUE_SIZE
+      }) : [],
+      includesEntities(filter) ? prisma.entity.count({ where: entityWhere }) : 0,
+      includesEdges(filter) ? prisma.edge.count({ where: edgeWhere }) : 0
+    ])
+
+    const evidenceOf = (evidence: typeof entities[number]['evidence']) => evidence[0]
+      ? { quote: evidence[0].quote, page: evidence[0].page, filename: evidence[0].document.filename }
+      : null
+
+    const items = [
+      ...entities.map(entity => ({
+        kind: 'entity' as const,
+        id: entity.id,
+        name: entity.name,
+        aliases: parseJson<string[]>(entity.aliases, []),
+        type: entity.type,
+        subtype: entity.subtype,
+        description: entity.description,
+        confidence: entity.confidence,
+        reviewStatus: entity.reviewStatus,
+        document: entity.document,
+        evidence: evidenceOf(entity.evidence)
+      })),
+      ...edges.map(edge => ({
+        kind: 'edge' as const,
+        id: edge.id,
+        label: edge.label,
+        rawLabel: edge.rawLabel,
+        relationType: edge.relationType,
+        weight: edge.weight,
+        confidence: edge.confidence,
+        reviewStatus: edge.reviewStatus,
+        source: edge.source,
+        target: edge.target,
+        document: edge.document,
+        evidence: evidenceOf(edge.evidence)
+      }))
+    ].sort((a, b) => a.confidence - b.confidence).slice(0, QUEUE_SIZE)
+
+    // Facets cover everything with this status, whatever else is filtered
+    const statusOnly = readReviewFilter({}, status)
+    const [entityDocuments, entitySources, edgeDocuments, edgeEvidence, types, relationTypes] = await Promise.all([
+      prisma.entity.groupBy({ by: ['documentId'], where: entityReviewWhere(params.id, statusOnly) }),
+      prisma.entitySource.groupBy({ by: ['documentId'], where: { entity: entityReviewWhere(params.id, statusOnly) } }),
+      prisma.edge.groupBy({ by: ['documentId'], where: edgeReviewWhere(params.id, statusOnly) }),
+      prisma.evidence.groupBy({ by: ['documentId'], where: { edge: edgeReviewWhere(params.id, statusOnly) } }),
+      prisma.entity.groupBy({ by: ['type'], where: entityReviewWhere(params.id, statusOnly), _count: { _all: true } }),
+      prisma.edge.groupBy({ by: ['relationType', 'label'], where: edgeReviewWhere(params.id, statusOnly), _count: { _all: true } })
+    ])
+
+    // A document's items are those it created or resolved into, so they are counted with the same
+    // filter the bulk action uses rather than grouped by the column that names the first document
+    const documentIds = new Set<string>()
+    for (const group of [...entityDocuments, ...entitySources, ...edgeDocuments, ...edgeEvidence]) {
+      if (group.documentId) documentIds.add(group.documentId)
+    }
+    const documentCounts = new Map<string, { entities: number; edges: number }>()
+    for (const documentId of Array.from(documentIds)) {
+      const byDocument = readReviewFilter({ documentId }, status)
+      const [entities, edges] = await Promise.all([
+        prisma.entity.count({ where: entityReviewWhere(params.id, byDocument) }),
+        prisma.edge.count({ where: edgeReviewWhere(params.id, byDocument) })
+      ])
+      documentCounts.set(documentId, { entities, edges })
+    }
+    const documents = await prisma.document.findMany({
+      where: { id: { in: Array.from(documentCounts.keys()) } },
+      select: { id: true, filename: true },
+      orderBy: { filename: 'asc' }
+    })
+
+    // A canonical type can be stored under more than one label; the commonest names it
+    const relationCounts = new Map<string, { relationType: string; label: string; edges: number; top: number }>()
+    for (const group of relationTypes) {
+      if (!group.relationType) continue
+      const existing = relationCounts.get(group.relationType)
+      if (!existing) {
+        relationCounts.set(group.relationType, {
+          relationType: group.relationType, label: group.label, edges: group._count._all, top: group._count._all
+        })
+        continue
+      }
+      existing.edges += group._count._all
+      if (group._count._all > existing.top) {
+        existing.label = group.label
+        existing.top = group._count._all
+      }
+    }
+
+    return NextResponse.json({
+      status,
+      items,
+      total: { entities: entityCount, edges: edgeCount },
+      documents: documents.map(document => ({ ...document, ...documentCounts.get(document.id)! })),
+      types: types
+        .map(group => ({ type: group.type, entities: group._count._all }))
+        .sort((a, b) => b.entities - a.entities),
+      relationTypes: Array.from(relationCounts.values())
+        .map(({ relationType, label, edges }) => ({ relationType, label, edges }))
+        .sort((a, b) => b.edges - a.edges)
+    })
+  } catch (error) {
+    console.error('Failed to fetch review queue:', error)
+    return NextResponse.json({ error: 'Failed to fetch review queue' }, { status: 500 })
+  }
+}
+
+// Set the review status of { entityIds?, edgeIds? }, or of every pending item matching
+// { kind?, documentId?, type?, relationType? } when no ids are sent. Body: { status, ... }.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    if (!isReviewStatus(body.status)) {
+      return NextResponse.json({ error: 'status must be pending, approved or rejected' }, { status: 400 })
+    }
+
+    const ids = (value: unknown) => Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : []
+    const entityIds = ids(body.entityIds)
+    const edgeIds = ids(body.edgeIds)
+
+    // The listed items, or else the pending ones matching the filter
+    let entityWhere: Prisma.EntityWhereInput | null = null
+    let edgeWhere: Prisma.EdgeWhereInput | null = null
+    if (entityIds.length > 0 || edgeIds.length > 0) {
+      if (entityIds.length > 0) entityWhere = { projectId: params.id, id: { in: entityIds } }
+      if (edgeIds.length > 0) edgeWhere = { projectId: params.id, id: { in: edgeIds } }
+    } else {
+      const filter = readReviewFilter(body, 'pending')
+      if (includesEntities(filter)) entityWhere = entityReviewWhere(params.id, filter)
+      if (includesEdges(filter)) edgeWhere = edgeReviewWhere(params.id, filter)
+    }
+
+    // Read first, so the log has each item's status before
+    const context = changeContext(params.id, 'user', 'review')
+    const reviewStatus: string = body.status
+    let entities = 0
+    let edges = 0
+    if (entityWhere) {
+      const rows = await prisma.entity.findMany({ where: entityWhere, select: { id: true, reviewStatus: true } })
+      await prisma.entity.updateMany({ where: { id: { in: rows.map(row => row.id) } }, data: { reviewStatus } })
+      await logChanges(prisma, context, rows.map(row => updated('entity', row.id, row, { reviewStatus })))
+      entities = rows.length
+    }
+    if (edgeWhere) {
+      const rows = await prisma.edge.findMany({ where: edgeWhere, select: { id: true, reviewStatus: true } })
+      await prisma.edge.updateMany({ where: { id: { in: rows.map(row => row.id) } }, data: { reviewStatus } })
+      await logChanges(prisma, context, rows.map(row => updated('edge', row.id, row, { reviewStatus })))
+      edges = rows.length
+    }
+
+    return NextResponse.json({ status: body.status, entities, edges })
+  } catch (error) {
+    console.error('Failed to update review status:', error)
+    return NextResponse.json({ error: 'Failed to update review status' }, { status: 500 })
+  }
+}
@@ -1,5 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getProjectSettings } from '@/lib/settings'
+import { changeContext, logChanges, updated } from '@/lib/changeLog'
+import { AI_PROVIDERS, MAX_CONCURRENCY } from '@/lib/ai'
+import { parseJson } from '@/lib/entityResolution'
+import { EXTRACTION_DEPTHS, ModelOverrides, cleanModelOverrides } from '@/lib/extraction/profiles'
+import type { Settings } from '@prisma/client'
+
+// Model overrides are stored as a JSON string
+const serialise = (settings: Settings) => ({
+  ...settings,
+  modelOverrides: parseJson<ModelOverrides>(settings.modelOverrides, {})
+})
 
 export async function GET(
   request: NextRequest,
@@ -19,25 +31,9 @@ export async function GET(
     }
 
     // Get existing settings or create defaults
-    let settings = await prisma.settings.findUnique({
-      where: { projectId: params.id }
-    })
-
-    if (!settings) {
-      // Create default settings
-      settings = await prisma.settings.create({
-        data: {
-          projectId: params.id,
-          aiProvider: 'claude',
-          ollamaUrl: 'http://localhost:11434',
-          ollamaModel: 'llama3',
-          autoExtract: true,
-          extractionDepth: 'deep'
-        }
-      })
-    }
+    const settings = await getProjectSettings(params.id)
 
-    return NextResponse.json(settings)
+    return NextResponse.json(serialise(settings))
 
   } catch (error) {
     console.error('Failed to fetch settings:', error)
@@ -59,25 +55,64 @@ export async function PUT(
       claudeApiKey,
       ollamaUrl,
       ollamaModel,
+      openaiBaseUrl,
+      openaiApiKey,
+      openaiModel,
       autoExtract,
-      extractionDepth
+      extractionDepth,
+      modelOverrides,
+      chunkOverlap,
+      extractionConcurrency,
+      monthlyBudgetUsd,
+      hideRejected
     } = body
 
     // Validate required fields
-    if (!aiProvider || !['claude', 'ollama', 'none'].includes(aiProvider)) {
+    if (!aiProvider || !AI_PROVIDERS.includes(aiProvider)) {
       return NextResponse.json(
         { error: 'Invalid aiProvider' },
         { status: 400 }
       )
     }
 
-    if (!extractionDepth || !['quick', 'deep'].includes(extractionDepth)) {
+    if (!extractionDepth || !EXTRACTION_DEPTHS.includes(extractionDepth)) {
       return NextResponse.json(
         { error: 'Invalid extractionDepth' },
         { status: 400 }
       )
     }
 
+    if (monthlyBudgetUsd !== undefined && monthlyBudgetUsd !== null &&
+        (typeof monthlyBudgetUsd !== 'number' || !Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd < 0)) {
+      return NextResponse.json(
+        { error: 'monthlyBudgetUsd must be a non-negative number or null' },
+        { status: 400 }
+      )
+    }
+
+    if (hideRejected !== undefined && typeof hideRejected !== 'boolean') {
+      return NextResponse.json(
+        { error: 'hideRejected must be true or false' },
+        { status: 400 }
+      )
+    }
+
+    if (chunkOverlap !== undefined && chunkOverlap !== null &&
+        (!Number.isInteger(chunkOverlap) || chunkOverlap < 0)) {
+      return NextResponse.json(
+        { error: 'chunkOverlap must be a non-negative whole number or null' },
+        { status: 400 }
+      )
+    }
+
+    if (extractionConcurrency !== undefined && extractionConcurrency !== null &&
+        (!Number.isInteger(extractionConcurrency) || extractionConcurrency < 1 || extractionConcurrency > MAX_CONCURRENCY)) {
+      return NextResponse.json(
+        { error: `extractionConcurrency must be a whole number from 1 to ${MAX_CONCURRENCY}, or null` },
+        { status: 400 }
+      )
+    }
+
     // Check if project exists
     const project = await prisma.project.findUnique({
       where: { id: params.id }
@@ -90,29 +125,31 @@ export async function PUT(
       )
     }
 
-    // Update or create settings
-    const settings = await prisma.settings.upsert({
-      where: { projectId: params.id },
-      update: {
-        aiProvider,
-        claudeApiKey,
-        ollamaUrl: ollamaUrl || 'http://localhost:11434',
-        ollamaModel: ollamaModel || 'llama3',
-        autoExtract: autoExtract !== undefined ? autoExtract : true,
-        extractionDepth
-      },
-      create: {
-        projectId: params.id,
-        aiProvider,
-        claudeApiKey,
-        ollamaUrl: ollamaUrl || 'http://localhost:11434',
-        ollamaModel: ollamaModel || 'llama3',
-        autoExtract: autoExtract !== undefined ? autoExtract : true,
-        extractionDepth
-      }
+    const values = {
+      aiProvider,
+      claudeApiKey,
+      ollamaUrl: ollamaUrl || 'http://localhost:11434',
+      ollamaModel: ollamaModel || 'llama3',
+      openaiBaseUrl: openaiBaseUrl || 'http://localhost:1234/v1',
+      openaiApiKey: openaiApiKey || null,
+      openaiModel: openaiModel || 'local-model',
+      autoExtract: autoExtract !== undefined ? autoExtract : true,
+      extractionDepth,
+      ...(modelOverrides !== undefined && { modelOverrides: JSON.stringify(cleanModelOverrides(modelOverrides)) }),
+      ...(chunkOverlap !== undefined && { chunkOverlap }),
+      ...(extractionConcurrency !== undefined && { extractionConcurrency }),
+      ...(monthlyBudgetUsd !== undefined && { monthlyBudgetUsd }),
+      ...(hideRejected !== undefined && { hideRejected })
+    }
+    // Settings are created with their defaults first, so the change is logged against them
+    const before = await getProjectSettings(params.id)
+    const settings = await prisma.settings.update({
+      where: { id: before.id },
+      data: values
     })
+    await logChanges(prisma, changeContext(params.id, 'user', 'edit'), [updated('settings', settings.id, before, settings)])
 
-    return NextResponse.json(settings)
+    return NextResponse.json(serialise(settings))
 
   } catch (error) {
     console.error('Failed to update settings:', error)
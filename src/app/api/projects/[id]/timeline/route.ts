@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { changesBetween, parseDate } from '@/lib/temporal'
+
+// The project's documents in date order with their versions, and with ?from=&to= what changed
+// in the graph between the two dates: entities and relationships that appeared or disappeared
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const fromDate = parseDate(from)
+    const toDate = parseDate(to)
+    if ((from && !fromDate) || (to && !toDate) || (!!fromDate !== !!toDate)) {
+      return NextResponse.json({ error: 'from and to must both be dates such as 2021-03-31' }, { status: 400 })
+    }
+
+    const documents = await prisma.document.findMany({
+      where: { projectId: params.id },
+      orderBy: [{ effectiveDate: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        filename: true,
+        folderPath: true,
+        effectiveDate: true,
+        seriesId: true,
+        version: true,
+        createdAt: true
+      }
+    })
+
+    return NextResponse.json({
+      documents,
+      changes: fromDate && toDate ? await changesBetween(params.id, fromDate, toDate) : null
+    })
+  } catch (error) {
+    console.error('Failed to fetch timeline:', error)
+    return NextResponse.json({ error: 'Failed to fetch timeline' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getUsageSummary } from '@/lib/usage'
+
+// Token usage and estimated cost of model calls, by operation, model, day and document
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1), 365)
+
+    return NextResponse.json(await getUsageSummary(params.id, days))
+
+  } catch (error) {
+    console.error('Failed to fetch usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    )
+  }
+}
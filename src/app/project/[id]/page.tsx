@@ -115,6 +115,13 @@ export default function ProjectPage() {
                 <span className="text-[#666666] text-sm ml-1">insights</span>
               </div>
             </div>
+            <Link
+              href={`/usage?project=${project.id}`}
+              className="text-[#666666] hover:text-[#0033CC] text-2xl transition-colors ml-4"
+              title="Usage and Cost"
+            >
+              📈
+            </Link>
             <Link 
               href={`/settings?project=${project.id}`}
               className="text-[#666666] hover:text-[#0033CC] text-2xl transition-colors ml-4"
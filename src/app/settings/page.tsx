@@ -3,6 +3,7 @@
 import { useEffect, useState, Suspense } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import OntologyEditor from '@/components/OntologyEditor'
 
 interface Settings {
   id: string
@@ -11,8 +12,16 @@ interface Settings {
   claudeApiKey?: string
   ollamaUrl: string
   ollamaModel: string
+  openaiBaseUrl: string
+  openaiApiKey?: string
+  openaiModel: string
   autoExtract: boolean
   extractionDepth: string
+  modelOverrides: Record<string, { quick?: string; deep?: string }>
+  chunkOverlap: number | null
+  extractionConcurrency: number | null
+  monthlyBudgetUsd: number | null
+  hideRejected: boolean
 }
 
 interface Project {
@@ -40,8 +49,16 @@ function SettingsContent() {
   const [claudeApiKey, setClaudeApiKey] = useState('')
   const [ollamaUrl, setOllamaUrl] = useState('http://localhost:11434')
   const [ollamaModel, setOllamaModel] = useState('llama3')
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('http://localhost:1234/v1')
+  const [openaiApiKey, setOpenaiApiKey] = useState('')
+  const [openaiModel, setOpenaiModel] = useState('local-model')
   const [autoExtract, setAutoExtract] = useState(true)
   const [extractionDepth, setExtractionDepth] = useState('deep')
+  const [modelOverrides, setModelOverrides] = useState<Settings['modelOverrides']>({})
+  const [chunkOverlap, setChunkOverlap] = useState('')
+  const [concurrency, setConcurrency] = useState('')
+  const [monthlyBudget, setMonthlyBudget] = useState('')
+  const [hideRejected, setHideRejected] = useState(true)
 
   useEffect(() => {
     if (projectId) {
@@ -72,8 +89,16 @@ function SettingsContent() {
         setClaudeApiKey(settingsData.claudeApiKey || '')
         setOllamaUrl(settingsData.ollamaUrl)
         setOllamaModel(settingsData.ollamaModel)
+        setOpenaiBaseUrl(settingsData.openaiBaseUrl)
+        setOpenaiApiKey(settingsData.openaiApiKey || '')
+        setOpenaiModel(settingsData.openaiModel)
         setAutoExtract(settingsData.autoExtract)
         setExtractionDepth(settingsData.extractionDepth)
+        setModelOverrides(settingsData.modelOverrides || {})
+        setChunkOverlap(settingsData.chunkOverlap !== null ? String(settingsData.chunkOverlap) : '')
+        setConcurrency(settingsData.extractionConcurrency !== null ? String(settingsData.extractionConcurrency) : '')
+        setMonthlyBudget(settingsData.monthlyBudgetUsd !== null ? String(settingsData.monthlyBudgetUsd) : '')
+        setHideRejected(settingsData.hideRejected)
       }
     } catch (error) {
       console.error('Failed to fetch project or settings:', error)
@@ -95,8 +120,16 @@ function SettingsContent() {
           claudeApiKey: claudeApiKey || null,
           ollamaUrl,
           ollamaModel,
+          openaiBaseUrl,
+          openaiApiKey: openaiApiKey || null,
+          openaiModel,
           autoExtract,
-          extractionDepth
+          extractionDepth,
+          modelOverrides,
+          chunkOverlap: chunkOverlap.trim() ? parseInt(chunkOverlap, 10) : null,
+          extractionConcurrency: concurrency.trim() ? parseInt(concurrency, 10) : null,
+          monthlyBudgetUsd: monthlyBudget.trim() ? parseFloat(monthlyBudget) : null,
+          hideRejected
         })
       })
 
@@ -113,6 +146,19 @@ function SettingsContent() {
     }
   }
 
+  const setModelOverride = (depth: 'quick' | 'deep', model: string) => {
+    setModelOverrides({
+      ...modelOverrides,
+      [aiProvider]: { ...modelOverrides[aiProvider], [depth]: model }
+    })
+  }
+
+  // What each depth uses when no override is set
+  const defaultModel = (depth: 'quick' | 'deep') => {
+    if (aiProvider === 'claude') return depth === 'quick' ? 'claude-3-5-haiku-20241022' : 'claude-sonnet-4-20250514'
+    return aiProvider === 'ollama' ? ollamaModel : openaiModel
+  }
+
   const handleTestConnection = async () => {
     if (!projectId) return
 
@@ -127,7 +173,10 @@ function SettingsContent() {
           aiProvider,
           claudeApiKey: claudeApiKey || null,
           ollamaUrl,
-          ollamaModel
+          ollamaModel,
+          openaiBaseUrl,
+          openaiApiKey: openaiApiKey || null,
+          openaiModel
         })
       })
 
@@ -226,6 +275,7 @@ function SettingsContent() {
                 {[
                   { value: 'claude', label: 'Claude (Anthropic)', desc: 'Advanced AI models for high-quality extraction' },
                   { value: 'ollama', label: 'Local Model (Ollama)', desc: 'Run models locally for privacy and control' },
+                  { value: 'openai', label: 'OpenAI-compatible', desc: 'LM Studio, vLLM, llama.cpp server or any endpoint speaking the OpenAI API' },
                   { value: 'none', label: 'None (manual only)', desc: 'Manual data entry without AI assistance' }
                 ].map((option) => (
                   <div key={option.value} className="flex items-start gap-3 p-3 border border-[#CCCCCC] rounded-lg hover:bg-[#F5F5F5] transition-colors">
@@ -317,6 +367,56 @@ function SettingsContent() {
               </div>
             )}
 
+            {/* OpenAI-compatible Configuration */}
+            {aiProvider === 'openai' && (
+              <div className="space-y-4 border-t border-[#CCCCCC] pt-6">
+                <div>
+                  <label className="block text-[#666666] text-sm mb-2 font-medium">BASE URL</label>
+                  <input
+                    type="text"
+                    value={openaiBaseUrl}
+                    onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                    className="w-full bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                    placeholder="http://localhost:1234/v1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[#666666] text-sm mb-2 font-medium">API KEY (OPTIONAL)</label>
+                  <input
+                    type="password"
+                    value={openaiApiKey}
+                    onChange={(e) => setOpenaiApiKey(e.target.value)}
+                    className="w-full bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                    placeholder="Leave blank for local servers"
+                  />
+                </div>
+                <div>
+                  <label className="block text-[#666666] text-sm mb-2 font-medium">MODEL NAME</label>
+                  <div className="flex gap-3">
+                    <input
+                      type="text"
+                      value={openaiModel}
+                      onChange={(e) => setOpenaiModel(e.target.value)}
+                      className="flex-1 bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                      placeholder="local-model"
+                    />
+                    <button
+                      onClick={handleTestConnection}
+                      disabled={isTestingConnection || !openaiBaseUrl}
+                      className="bg-[#0033CC] text-white px-4 py-2 rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isTestingConnection ? 'Testing...' : 'Test Connection'}
+                    </button>
+                  </div>
+                  {connectionStatus.message && (
+                    <p className={`text-sm mt-2 ${connectionStatus.status === 'connected' ? 'text-green-600' : 'text-red-600'}`}>
+                      {connectionStatus.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* None Configuration */}
             {aiProvider === 'none' && (
               <div className="border-t border-[#CCCCCC] pt-6">
@@ -373,8 +473,8 @@ function SettingsContent() {
                   <label className="block text-[#666666] text-sm mb-3 font-semibold">EXTRACTION DEPTH</label>
                   <div className="space-y-3">
                     {[
-                      { value: 'quick', label: 'Quick scan', desc: 'Faster processing with basic models' },
-                      { value: 'deep', label: 'Deep analysis', desc: 'Thorough analysis with advanced models' }
+                      { value: 'quick', label: 'Quick scan', desc: 'Entities only, one pass over large chunks with a faster model' },
+                      { value: 'deep', label: 'Deep analysis', desc: 'Entities, relationships, insights and frontier hints, with overlapping chunks and a second pass for anything missed' }
                     ].map((option) => (
                       <div key={option.value} className="flex items-start gap-3 p-3 border border-[#CCCCCC] rounded-lg hover:bg-[#F5F5F5] transition-colors">
                         <input
@@ -394,9 +494,137 @@ function SettingsContent() {
                     ))}
                   </div>
                 </div>
+
+                {/* Per-depth model overrides */}
+                <div>
+                  <label className="block text-[#666666] text-sm mb-1 font-semibold">EXTRACTION MODELS</label>
+                  <p className="text-[#999] text-xs mb-3">
+                    Leave blank to use the default. Chat always uses the model above.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['quick', 'deep'] as const).map(depth => (
+                      <div key={depth}>
+                        <label className="block text-[#666666] text-xs mb-1 font-medium">
+                          {depth === 'quick' ? 'QUICK SCAN' : 'DEEP ANALYSIS'}
+                        </label>
+                        <input
+                          type="text"
+                          value={modelOverrides[aiProvider]?.[depth] || ''}
+                          onChange={(e) => setModelOverride(depth, e.target.value)}
+                          className="w-full bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black text-sm focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                          placeholder={defaultModel(depth)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Chunk overlap */}
+                <div>
+                  <label className="block text-[#666666] text-sm mb-1 font-semibold">CHUNK OVERLAP (CHARACTERS)</label>
+                  <p className="text-[#999] text-xs mb-3">
+                    Long documents are split at headings, pages or CSV rows. This much text from the end of each chunk is repeated
+                    at the start of the next, so facts that straddle a split aren&apos;t lost. Leave blank for the depth&apos;s default.
+                  </p>
+                  <input
+                    type="number"
+                    min="0"
+                    step="500"
+                    value={chunkOverlap}
+                    onChange={(e) => setChunkOverlap(e.target.value)}
+                    className="w-40 bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black text-sm focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                    placeholder={extractionDepth === 'quick' ? '0' : '2000'}
+                  />
+                </div>
+
+                {/* Parallel chunk requests */}
+                <div>
+                  <label className="block text-[#666666] text-sm mb-1 font-semibold">PARALLEL REQUESTS</label>
+                  <p className="text-[#999] text-xs mb-3">
+                    How many chunks of a document are sent to the model at once. Rate-limited requests wait and retry.
+                    Leave blank for the provider&apos;s default (one at a time for Ollama).
+                  </p>
+                  <input
+                    type="number"
+                    min="1"
+                    max="16"
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(e.target.value)}
+                    className="w-40 bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black text-sm focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                    placeholder={aiProvider === 'ollama' ? '1' : '4'}
+                  />
+                </div>
+
+                {/* Monthly budget */}
+                <div>
+                  <label className="block text-[#666666] text-sm mb-1 font-semibold">MONTHLY BUDGET (USD)</label>
+                  <p className="text-[#999] text-xs mb-3">
+                    New extractions are refused once this month&apos;s estimated spend reaches the budget. Leave blank for no limit.
+                    {projectId && (
+                      <>
+                        {' '}
+                        <Link href={`/usage?project=${projectId}`} className="text-[#0033CC] hover:underline">
+                          View usage
+                        </Link>
+                      </>
+                    )}
+                  </p>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={monthlyBudget}
+                    onChange={(e) => setMonthlyBudget(e.target.value)}
+                    className="w-40 bg-white border border-[#CCCCCC] rounded px-3 py-2 text-black text-sm focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20"
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+            </section>
+          )}
+
+          {/* Review Section */}
+          {projectId && (
+            <section className="bg-white border border-[#CCCCCC] rounded-lg p-6 shadow-sm">
+              <h2 className="text-xl font-semibold text-black mb-6 flex items-center gap-3">
+                ✅ Review
+              </h2>
+
+              <div className="flex items-center justify-between p-4 border border-[#CCCCCC] rounded-lg">
+                <div>
+                  <div className="text-black font-medium">Hide rejected items</div>
+                  <div className="text-[#666666] text-sm">
+                    Leave entities and relationships rejected in review out of the graph and chat. Unreviewed ones are always marked.
+                  </div>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={hideRejected}
+                    onChange={(e) => setHideRejected(e.target.checked)}
+                    className="sr-only"
+                  />
+                  <div className={`w-11 h-6 rounded-full transition-colors ${
+                    hideRejected ? 'bg-[#0033CC]' : 'bg-[#CCCCCC]'
+                  }`}>
+                    <div className={`w-4 h-4 rounded-full bg-white transition-transform ${
+                      hideRejected ? 'translate-x-6' : 'translate-x-1'
+                    } mt-1 shadow-sm`}></div>
+                  </div>
+                </label>
               </div>
             </section>
           )}
+
+          {/* Ontology Section */}
+          {projectId && (
+            <section className="bg-white border border-[#CCCCCC] rounded-lg p-6 shadow-sm">
+              <h2 className="text-xl font-semibold text-black mb-6 flex items-center gap-3">
+                🧬 Ontology
+              </h2>
+              <OntologyEditor projectId={projectId} />
+            </section>
+          )}
         </div>
 
         {/* Save Button */}
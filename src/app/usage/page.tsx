@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useState, Suspense } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+
+interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+interface UsageSummary {
+  days: number
+  totals: UsageTotals & { estimatedCalls: number }
+  month: { costUsd: number; budgetUsd: number | null }
+  byOperation: Record<string, UsageTotals>
+  byModel: (UsageTotals & { model: string; avgLatencyMs: number })[]
+  byDay: (UsageTotals & { date: string })[]
+  topDocuments: (UsageTotals & { documentId: string; filename: string })[]
+}
+
+interface Project {
+  id: string
+  name: string
+}
+
+const PERIODS = [7, 30, 90]
+
+const OPERATION_LABELS: Record<string, string> = {
+  extraction: 'Extraction',
+  repair: 'Repair re-prompts',
+  chat: 'Chat'
+}
+
+const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+  ? `${(tokens / 1_000_000).toFixed(1)}M`
+  : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens)
+
+function UsageContent() {
+  const searchParams = useSearchParams()
+  const projectId = searchParams.get('project')
+
+  const [project, setProject] = useState<Project | null>(null)
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [days, setDays] = useState(30)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    if (projectId) fetchProject()
+  }, [projectId])
+
+  useEffect(() => {
+    if (projectId) fetchUsage()
+  }, [projectId, days])
+
+  const fetchProject = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}`)
+      if (response.ok) {
+        setProject(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch project:', error)
+    }
+  }
+
+  const fetchUsage = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/usage?days=${days}`)
+      const data = await response.json()
+      if (response.ok) {
+        setUsage(data)
+      } else {
+        setError(data.error || 'Failed to load usage')
+      }
+    } catch (error) {
+      console.error('Failed to fetch usage:', error)
+      setError('Failed to load usage')
+    }
+  }
+
+  const month = usage?.month
+  const budgetShare = month?.budgetUsd ? Math.min(month.costUsd / month.budgetUsd, 1) : 0
+  const maxDailyCost = Math.max(...(usage?.byDay.map(day => day.costUsd) || []), 0)
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="bg-white border-b border-[#CCCCCC] p-6">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href={projectId ? `/project/${projectId}` : '/'}
+              className="text-[#666666] hover:text-[#0033CC] transition-colors font-medium"
+            >
+              ← Back
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-black tracking-wide">
+                USAGE
+              </h1>
+              <p className="text-[#666666] mt-1">
+                {project ? `Model calls and estimated cost for ${project.name}` : 'Model calls and estimated cost'}
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-1">
+            {PERIODS.map(period => (
+              <button
+                key={period}
+                onClick={() => setDays(period)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  days === period ? 'bg-[#0033CC] text-white' : 'text-[#666666] hover:text-[#0033CC]'
+                }`}
+              >
+                {period}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6">
+        {!projectId && <div className="text-[#666666]">Open usage from a project.</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+        {projectId && !usage && !error && <div className="text-[#0033CC] font-medium">Loading usage...</div>}
+
+        {usage && month && (
+          <div className="space-y-8">
+            {/* Month to date */}
+            <section className="bg-white border border-[#CCCCCC] rounded-lg p-6 shadow-sm">
+              <div className="flex items-baseline justify-between mb-3">
+                <h2 className="text-xl font-semibold text-black">This month</h2>
+                <Link href={`/settings?project=${projectId}`} className="text-[#0033CC] text-sm hover:underline">
+                  {month.budgetUsd !== null ? 'Change budget' : 'Set a budget'}
+                </Link>
+              </div>
+              <div className="text-3xl font-bold text-[#0033CC]">
+                {formatCost(month.costUsd)}
+                {month.budgetUsd !== null && (
+                  <span className="text-[#666666] text-base font-normal ml-2">of ${month.budgetUsd.toFixed(2)}</span>
+                )}
+              </div>
+              {month.budgetUsd !== null && (
+                <>
+                  <div className="h-2 bg-[#F5F5F5] border border-[#CCCCCC] rounded mt-3 overflow-hidden">
+                    <div
+                      className={`h-full ${budgetShare >= 1 ? 'bg-red-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-[#0033CC]'}`}
+                      style={{ width: `${budgetShare * 100}%` }}
+                    />
+                  </div>
+                  {budgetShare >= 1 && (
+                    <p className="text-red-600 text-sm mt-2">Budget reached: new extraction jobs are blocked until next month.</p>
+                  )}
+                </>
+              )}
+            </section>
+
+            {/* Period totals */}
+            <section className="grid grid-cols-4 gap-4">
+              {[
+                { label: 'calls', value: String(usage.totals.calls) },
+                { label: 'input tokens', value: formatTokens(usage.totals.inputTokens) },
+                { label: 'output tokens', value: formatTokens(usage.totals.outputTokens) },
+                { label: 'estimated cost', value: formatCost(usage.totals.costUsd) }
+              ].map(stat => (
+                <div key={stat.label} className="bg-[#F5F5F5] px-4 py-3 rounded border border-[#CCCCCC]">
+                  <div className="text-[#0033CC] font-semibold text-lg">{stat.value}</div>
+                  <div className="text-[#666666] text-sm">{stat.label}</div>
+                </div>
+              ))}
+            </section>
+            {usage.totals.estimatedCalls > 0 && (
+              <p className="text-[#999] text-xs -mt-6">
+                {usage.totals.estimatedCalls} call{usage.totals.estimatedCalls === 1 ? '' : 's'} didn&apos;t report token counts; those are estimated from text length.
+              </p>
+            )}
+
+            {/* Daily cost */}
+            {usage.byDay.length > 0 && (
+              <section>
+                <h3 className="text-[#666666] text-sm mb-3 font-semibold tracking-wide">DAILY COST</h3>
+                <div className="flex items-end gap-1 h-32 border-b border-[#CCCCCC]">
+                  {usage.byDay.map(day => (
+                    <div
+                      key={day.date}
+                      className="flex-1 bg-[#0033CC] rounded-t min-h-[2px]"
+                      style={{ height: `${maxDailyCost > 0 ? (day.costUsd / maxDailyCost) * 100 : 0}%` }}
+                      title={`${day.date}: ${formatCost(day.costUsd)}, ${day.calls} calls`}
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Breakdown tables */}
+            <section className="grid grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-[#666666] text-sm mb-3 font-semibold tracking-wide">BY OPERATION</h3>
+                <div className="border border-[#CCCCCC] rounded text-sm">
+                  {Object.entries(usage.byOperation).length === 0 && (
+                    <div className="text-[#999] p-3">No calls in this period</div>
+                  )}
+                  {Object.entries(usage.byOperation).map(([operation, totals]) => (
+                    <div key={operation} className="flex justify-between p-3 border-b border-[#CCCCCC] last:border-b-0">
+                      <span className="text-black">{OPERATION_LABELS[operation] || operation}</span>
+                      <span className="text-[#666666]">{totals.calls} calls · {formatCost(totals.costUsd)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-[#666666] text-sm mb-3 font-semibold tracking-wide">BY MODEL</h3>
+                <div className="border border-[#CCCCCC] rounded text-sm">
+                  {usage.byModel.length === 0 && (
+                    <div className="text-[#999] p-3">No calls in this period</div>
+                  )}
+                  {usage.byModel.map(model => (
+                    <div key={model.model} className="p-3 border-b border-[#CCCCCC] last:border-b-0">
+                      <div className="flex justify-between">
+                        <span className="text-black font-mono text-xs">{model.model}</span>
+                        <span className="text-[#666666]">{formatCost(model.costUsd)}</span>
+                      </div>
+                      <div className="text-[#999] text-xs mt-1">
+                        {model.calls} calls · {formatTokens(model.inputTokens)} in / {formatTokens(model.outputTokens)} out · {(model.avgLatencyMs / 1000).toFixed(1)}s avg
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-[#666666] text-sm mb-3 font-semibold tracking-wide">MOST EXPENSIVE DOCUMENTS</h3>
+              <div className="border border-[#CCCCCC] rounded text-sm">
+                {usage.topDocuments.length === 0 && (
+                  <div className="text-[#999] p-3">No extractions in this period</div>
+                )}
+                {usage.topDocuments.map(document => (
+                  <div key={document.documentId} className="flex justify-between p-3 border-b border-[#CCCCCC] last:border-b-0">
+                    <span className="text-black truncate">{document.filename}</span>
+                    <span className="text-[#666666] whitespace-nowrap ml-4">
+                      {document.calls} calls · {formatTokens(document.inputTokens + document.outputTokens)} tokens · {formatCost(document.costUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function UsagePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-white">
+        <div className="text-[#0033CC] font-medium">Loading usage...</div>
+      </div>
+    }>
+      <UsageContent />
+    </Suspense>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface Change {
+  id: string
+  runId: string
+  recordType: string
+  action: 'create' | 'update' | 'delete'
+  actor: string
+  operation: string
+  filename: string | null
+  before: Record<string, any> | null
+  after: Record<string, any> | null
+  revertedAt: string | null
+  revertible: boolean
+  createdAt: string
+}
+
+interface ChangeHistoryProps {
+  projectId: string
+  entityId: string
+  // Called after a revert, which may have changed the entity or its relationships
+  onReverted: () => void
+}
+
+const ACTIONS: Record<Change['action'], string> = {
+  create: 'Created',
+  update: 'Changed',
+  delete: 'Deleted'
+}
+
+const OPERATIONS: Record<string, string> = {
+  extract: 'extraction',
+  import: 'table import',
+  edit: 'edit',
+  review: 'review',
+  merge: 'merge',
+  split: 'split',
+  'delete-document': 'document deletion'
+}
+
+// Long values are cut short; lists are counted
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text
+}
+
+// What the change was made to: the entity itself, or one of its relationships
+function subject(change: Change): string {
+  if (change.recordType !== 'edge') return ''
+  const row = change.after || change.before
+  return row?.label ? ` relationship "${row.label}"` : ' a relationship'
+}
+
+export default function ChangeHistory({ projectId, entityId, onReverted }: ChangeHistoryProps) {
+  const [changes, setChanges] = useState<Change[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReverting, setIsReverting] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchChanges()
+  }, [projectId, entityId])
+
+  const fetchChanges = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/changes?entityId=${entityId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setChanges(data.changes)
+      }
+    } catch (error) {
+      console.error('Failed to fetch changes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // `path` is a change id, or runs/<runId> for a whole run
+  const revert = async (path: string) => {
+    setIsReverting(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/changes/${path}/revert`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        await fetchChanges()
+        onReverted()
+      } else {
+        setError(data.error || 'Failed to revert')
+      }
+    } catch (error) {
+      console.error('Failed to revert:', error)
+      setError('Failed to revert')
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  if (isLoading) return <div className="text-xs text-[#999]">Loading history...</div>
+  if (changes.length === 0) return <div className="text-xs text-[#999]">No changes recorded yet</div>
+
+  return (
+    <div className="space-y-2">
+      {error && <div className="text-red-600 text-xs">{error}</div>}
+      {changes.map(change => (
+        <div key={change.id} className={`text-xs ${change.revertedAt ? 'opacity-50' : ''}`}>
+          <div className="flex justify-between items-start gap-2">
+            <span className="text-black">
+              {ACTIONS[change.action]}{subject(change)} by {OPERATIONS[change.operation] || change.operation}
+              {change.filename && <span className="text-[#666666]"> of {change.filename}</span>}
+            </span>
+            <span className="text-[#999] whitespace-nowrap">{new Date(change.createdAt).toLocaleString()}</span>
+          </div>
+          {change.action === 'update' && change.before && change.after && (
+            <div className="text-[#666666] pl-2">
+              {Object.keys(change.after).map(key => (
+                <div key={key} className="truncate">
+                  {key}: {formatValue(change.before![key])} → {formatValue(change.after![key])}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-3 pl-2">
+            {change.revertedAt ? (
+              <span className="text-[#999]">Reverted {new Date(change.revertedAt).toLocaleDateString()}</span>
+            ) : change.revertible && (
+              <>
+                <button
+                  onClick={() => revert(change.id)}
+                  disabled={isReverting}
+                  className="text-[#999] hover:text-[#0033CC] disabled:opacity-50"
+                >
+                  Revert
+                </button>
+                {change.actor === 'extraction' && (
+                  <button
+                    onClick={() => revert(`runs/${change.runId}`)}
+                    disabled={isReverting}
+                    className="text-[#999] hover:text-[#0033CC] disabled:opacity-50"
+                    title="Revert everything this extraction run changed"
+                  >
+                    Revert whole run
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import EntityDetail from './EntityDetail'
+import { BUILT_IN_RELATIONS, Ontology, nodeStyle, typeLabel } from '@/lib/ontology'
+
+interface ReaderEntity {
+  id: string
+  name: string
+  type: string
+  confidence: number
+  reviewStatus: string
+  [key: string]: any
+}
+
+interface Mention {
+  start: number
+  end: number
+  entityId: string
+}
+
+interface Selection {
+  start: number
+  end: number
+}
+
+interface DocumentReaderProps {
+  projectId: string
+  documentId: string
+  ontology: Ontology | null
+  onClose: () => void
+  // Called after an entity or relationship is added, so the workspace can reload
+  onChanged: () => void
+}
+
+type AddMode = 'entity' | 'existing' | 'relationship'
+
+// Pages of the text with the offset each starts at. PDFs separate pages with form feeds, including
+// one after the last page; other documents are a single page.
+const splitPages = (content: string) => {
+  const pages: Array<{ start: number; text: string }> = []
+  let start = 0
+  for (const text of content.split('\f')) {
+    pages.push({ start, text })
+    start += text.length + 1
+  }
+  if (pages.length > 1 && !pages[pages.length - 1].text.trim()) pages.pop()
+  return pages
+}
+
+// Offset into the document of a point in the rendered text, from the data-start of its segment
+const offsetAt = (node: Node, offset: number): number | null => {
+  const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element
+  const segment = element?.closest('[data-start]')
+  if (!segment) return null
+  const start = Number(segment.getAttribute('data-start'))
+  return node.nodeType === Node.TEXT_NODE ? start + offset : start + (offset > 0 ? segment.textContent?.length || 0 : 0)
+}
+
+export default function DocumentReader({ projectId, documentId, ontology, onClose, onChanged }: DocumentReaderProps) {
+  const [filename, setFilename] = useState('')
+  const [content, setContent] = useState<string | null>(null)
+  const [entities, setEntities] = useState<ReaderEntity[]>([])
+  const [mentions, setMentions] = useState<Mention[]>([])
+  const [selectedEntity, setSelectedEntity] = useState<ReaderEntity | null>(null)
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [mode, setMode] = useState<AddMode>('entity')
+  const [name, setName] = useState('')
+  const [type, setType] = useState('')
+  const [existingId, setExistingId] = useState('')
+  const [sourceId, setSourceId] = useState('')
+  const [targetId, setTargetId] = useState('')
+  const [label, setLabel] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const textRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    fetchDocument()
+    fetchMentions()
+  }, [projectId, documentId])
+
+  const fetchDocument = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}`)
+      const data = await response.json()
+      if (response.ok) {
+        setFilename(data.filename)
+        setContent(data.content || '')
+      } else {
+        setError(data.error || 'Failed to load document')
+      }
+    } catch (error) {
+      console.error('Failed to fetch document:', error)
+      setError('Failed to load document')
+    }
+  }
+
+  const fetchMentions = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/mentions`)
+      if (response.ok) {
+        const data = await response.json()
+        setEntities(data.entities)
+        setMentions(data.mentions)
+      }
+    } catch (error) {
+      console.error('Failed to fetch mentions:', error)
+    }
+  }
+
+  const byId = new Map(entities.map(entity => [entity.id, entity]))
+  const sortedEntities = [...entities].sort((a, b) => a.name.localeCompare(b.name))
+  const relationLabels = (ontology && ontology.relationTypes.length > 0 ? ontology.relationTypes : BUILT_IN_RELATIONS)
+    .map(relation => relation.label)
+
+  const selectText = () => {
+    const current = window.getSelection()
+    if (!current || current.isCollapsed || !textRef.current) return
+    const range = current.getRangeAt(0)
+    if (!textRef.current.contains(range.commonAncestorContainer)) return
+    const start = offsetAt(range.startContainer, range.startOffset)
+    const end = offsetAt(range.endContainer, range.endOffset)
+    if (start === null || end === null || end <= start || !content?.slice(start, end).trim()) return
+
+    // Entities named inside the selection are the likeliest ends of a relationship it states
+    const inside = mentions.filter(mention => mention.start >= start && mention.end <= end).map(mention => mention.entityId)
+    const distinct = Array.from(new Set(inside))
+    setSelection({ start, end })
+    setName(content.slice(start, end).replace(/\s+/g, ' ').trim())
+    setType(prev => prev || ontology?.entityTypes[0]?.name || '')
+    setExistingId(distinct[0] || '')
+    setSourceId(distinct[0] || '')
+    setTargetId(distinct[1] || '')
+    setMode(distinct.length >= 2 ? 'relationship' : 'entity')
+    setError('')
+  }
+
+  const openMention = (entityId: string) => {
+    // A drag that started on a mention is a selection, not a click
+    if (!window.getSelection()?.isCollapsed) return
+    const entity = byId.get(entityId)
+    if (entity) setSelectedEntity(entity)
+  }
+
+  const add = async () => {
+    if (!selection) return
+    const payload =
+      mode === 'relationship' ? { relationship: { sourceId, targetId, label } } :
+      mode === 'existing' ? { entity: { id: existingId } } :
+      { entity: { name, type } }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/mentions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startOffset: selection.start, endOffset: selection.end, ...payload })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setSelection(null)
+        window.getSelection()?.removeAllRanges()
+        await fetchMentions()
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to add')
+      }
+    } catch (error) {
+      console.error('Failed to add from selection:', error)
+      setError('Failed to add')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // A page's text split into plain runs and mentions, each tagged with where it starts in the document
+  const renderPage = (page: { start: number; text: string }) => {
+    const end = page.start + page.text.length
+    const parts: JSX.Element[] = []
+    let at = page.start
+    for (const mention of mentions) {
+      if (mention.end <= page.start || mention.start >= end || mention.start < at) continue
+      if (mention.start > at) {
+        parts.push(<span key={at} data-start={at}>{content!.slice(at, mention.start)}</span>)
+      }
+      const entity = byId.get(mention.entityId)
+      const color = nodeStyle(ontology, entity?.type || '').color
+      parts.push(
+        <mark
+          key={mention.start}
+          data-start={mention.start}
+          onClick={() => openMention(mention.entityId)}
+          title={entity ? `${entity.name} · ${typeLabel(ontology, entity.type)}` : undefined}
+          className="cursor-pointer rounded px-0.5 text-black"
+          style={{ backgroundColor: color + '26', borderBottom: `2px solid ${color}` }}
+        >
+          {content!.slice(mention.start, Math.min(mention.end, end))}
+        </mark>
+      )
+      at = Math.min(mention.end, end)
+    }
+    if (at < end) parts.push(<span key={at} data-start={at}>{content!.slice(at, end)}</span>)
+    return parts
+  }
+
+  const pages = content !== null ? splitPages(content) : []
+  const mentionedTypes = Array.from(new Set(mentions.map(mention => byId.get(mention.entityId)?.type).filter((t): t is string => !!t)))
+  const canAdd =
+    mode === 'relationship' ? !!sourceId && !!targetId && sourceId !== targetId && !!label.trim() :
+    mode === 'existing' ? !!existingId :
+    !!name.trim() && !!type
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-4xl h-[85vh] flex flex-col shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide truncate">
+            {filename || 'DOCUMENT'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-[#666666] mb-4">
+          {pages.length > 1 && <span>{pages.length} pages</span>}
+          <span>{mentions.length} mentions of {new Set(mentions.map(m => m.entityId)).size} entities</span>
+          {mentionedTypes.map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: nodeStyle(ontology, type).color }} />
+              {typeLabel(ontology, type)}
+            </span>
+          ))}
+          <span className="ml-auto text-[#999]">Click a highlight to open the entity; select text to add to the graph</span>
+        </div>
+
+        {content === null && !error && <div className="text-[#0033CC] font-medium">Loading document...</div>}
+        {error && !selection && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <div
+          ref={textRef}
+          onMouseUp={selectText}
+          className="flex-1 overflow-y-auto text-sm border border-[#CCCCCC] rounded p-4"
+        >
+          {content === '' && <div className="text-[#999] text-xs">No text was read from this document.</div>}
+          {pages.map((page, index) => (
+            <div key={page.start}>
+              {pages.length > 1 && (
+                <div className="flex items-center gap-3 text-[#999] text-xs my-4 select-none">
+                  <div className="flex-1 border-t border-[#CCCCCC]" />
+                  Page {index + 1}
+                  <div className="flex-1 border-t border-[#CCCCCC]" />
+                </div>
+              )}
+              <div className="whitespace-pre-wrap text-[#333333] leading-relaxed">{renderPage(page)}</div>
+            </div>
+          ))}
+        </div>
+
+        {selection && content !== null && (
+          <div className="border border-[#CCCCCC] rounded p-4 mt-4 text-xs">
+            <div className="flex justify-between items-start gap-4 mb-3">
+              <div className="text-[#333333] italic line-clamp-2">&ldquo;{content.slice(selection.start, selection.end).trim()}&rdquo;</div>
+              <button
+                onClick={() => setSelection(null)}
+                className="text-[#666666] hover:text-black"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="flex gap-4 mb-3">
+              {([['entity', 'New entity'], ['existing', 'Mention of an entity'], ['relationship', 'Relationship']] as Array<[AddMode, string]>).map(([value, text]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  className={mode === value ? 'text-[#0033CC] font-semibold' : 'text-[#666666] hover:text-black'}
+                >
+                  {text}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              {mode === 'entity' && (
+                <>
+                  <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Name"
+                    className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                  />
+                  <select
+                    value={type}
+                    onChange={e => setType(e.target.value)}
+                    className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                  >
+                    {(ontology?.entityTypes || []).map(t => (
+                      <option key={t.name} value={t.name}>{t.label}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              {mode === 'existing' && (
+                <select
+                  value={existingId}
+                  onChange={e => setExistingId(e.target.value)}
+                  className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                >
+                  <option value="">Choose an entity...</option>
+                  {sortedEntities.map(entity => (
+                    <option key={entity.id} value={entity.id}>{entity.name} ({typeLabel(ontology, entity.type)})</option>
+                  ))}
+                </select>
+              )}
+              {mode === 'relationship' && (
+                <>
+                  <select
+                    value={sourceId}
+                    onChange={e => setSourceId(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                  >
+                    <option value="">From...</option>
+                    {sortedEntities.map(entity => (
+                      <option key={entity.id} value={entity.id}>{entity.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={label}
+                    onChange={e => setLabel(e.target.value)}
+                    list="reader-relation-labels"
+                    placeholder="e.g. manages"
+                    className="w-36 px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                  />
+                  <datalist id="reader-relation-labels">
+                    {relationLabels.map(relation => <option key={relation} value={relation} />)}
+                  </datalist>
+                  <select
+                    value={targetId}
+                    onChange={e => setTargetId(e.target.value)}
+                    className="flex-1 min-w-0 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                  >
+                    <option value="">To...</option>
+                    {sortedEntities.map(entity => (
+                      <option key={entity.id} value={entity.id}>{entity.name}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <button
+                onClick={add}
+                disabled={!canAdd || isSaving}
+                className="px-4 py-1 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+            {error && <div className="text-red-600 mt-2">{error}</div>}
+          </div>
+        )}
+      </div>
+
+      {selectedEntity && (
+        <EntityDetail
+          entity={selectedEntity}
+          projectId={projectId}
+          onClose={() => setSelectedEntity(null)}
+          onChanged={() => {
+            fetchMentions()
+            onChanged()
+          }}
+        />
+      )}
+    </div>
+  )
+}
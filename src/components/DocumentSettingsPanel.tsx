@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface DocumentDetails {
+  id: string
+  filename: string
+  fileType: string
+  folderPath: string | null
+  tags: string[]
+  confidentiality: string
+  effectiveDate: string | null
+  version: number
+  status: string
+  entityCount: number
+  edgeCount: number
+}
+
+interface DocumentSettingsPanelProps {
+  projectId: string
+  documentId: string
+  onClose: () => void
+  // Called after the document changes or is deleted, so the workspace can reload
+  onChanged: () => void
+}
+
+const CONFIDENTIALITY_LEVELS = ['public', 'internal', 'confidential', 'restricted']
+
+const toDateInput = (value: string | null) => value ? value.slice(0, 10) : ''
+const parseTags = (value: string) => value.split(',').map(tag => tag.trim()).filter(Boolean)
+
+export default function DocumentSettingsPanel({ projectId, documentId, onClose, onChanged }: DocumentSettingsPanelProps) {
+  const [document, setDocument] = useState<DocumentDetails | null>(null)
+  const [filename, setFilename] = useState('')
+  const [tags, setTags] = useState('')
+  const [effectiveDate, setEffectiveDate] = useState('')
+  const [confidentiality, setConfidentiality] = useState('internal')
+  const [extractAfterReprocess, setExtractAfterReprocess] = useState(true)
+  const [deleteMode, setDeleteMode] = useState<'cascade' | 'detach'>('cascade')
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchDocument()
+  }, [projectId, documentId])
+
+  const fetchDocument = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}`)
+      const data = await response.json()
+      if (response.ok) {
+        setDocument(data)
+        setFilename(data.filename)
+        setTags(data.tags.join(', '))
+        setEffectiveDate(toDateInput(data.effectiveDate))
+        setConfidentiality(data.confidentiality)
+      } else {
+        setError(data.error || 'Failed to load document')
+      }
+    } catch (error) {
+      console.error('Failed to fetch document:', error)
+      setError('Failed to load document')
+    }
+  }
+
+  const save = async () => {
+    if (!document) return
+    setIsBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filename: filename.trim(),
+          tags: parseTags(tags),
+          effectiveDate: effectiveDate || null,
+          confidentiality
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setDocument(data)
+        setTags(data.tags.join(', '))
+        setMessage('Saved')
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to save document')
+      }
+    } catch (error) {
+      console.error('Failed to update document:', error)
+      setError('Failed to save document')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const reprocess = async () => {
+    setIsBusy(true)
+    setError('')
+    setMessage('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/reprocess`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ extract: extractAfterReprocess })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(data.job ? `${data.message}; extraction queued` : data.message)
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to read the file again')
+      }
+    } catch (error) {
+      console.error('Failed to reprocess document:', error)
+      setError('Failed to read the file again')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const remove = async () => {
+    setIsBusy(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}?mode=${deleteMode}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onChanged()
+        onClose()
+      } else {
+        setError(data.error || 'Failed to delete document')
+        setIsBusy(false)
+      }
+    } catch (error) {
+      console.error('Failed to delete document:', error)
+      setError('Failed to delete document')
+      setIsBusy(false)
+    }
+  }
+
+  const extracting = document?.status === 'queued' || document?.status === 'processing'
+  const isTabular = document?.fileType === '.csv' || document?.fileType === '.xlsx'
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            DOCUMENT
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+
+        {!document && !error && <div className="text-[#0033CC] font-medium">Loading document...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+        {message && <div className="text-green-600 text-sm mb-4">{message}</div>}
+
+        {document && (
+          <>
+            <p className="text-xs text-[#666666] mb-6">
+              {document.folderPath && `📁 ${document.folderPath} · `}
+              {document.version > 1 && `v${document.version} · `}
+              {document.entityCount} entities, {document.edgeCount} relationships
+            </p>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">DETAILS</div>
+            <div className="grid grid-cols-2 gap-3 mb-3 text-xs">
+              <label className="col-span-2">
+                <div className="text-[#666666] mb-1">Filename</div>
+                <input
+                  value={filename}
+                  onChange={e => setFilename(e.target.value)}
+                  className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                />
+              </label>
+              <label className="col-span-2">
+                <div className="text-[#666666] mb-1">Tags, separated by commas</div>
+                <input
+                  value={tags}
+                  onChange={e => setTags(e.target.value)}
+                  placeholder="board, finance"
+                  className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                />
+              </label>
+              <label>
+                <div className="text-[#666666] mb-1">Effective date</div>
+                <input
+                  type="date"
+                  value={effectiveDate}
+                  onChange={e => setEffectiveDate(e.target.value)}
+                  className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                />
+              </label>
+              <label>
+                <div className="text-[#666666] mb-1">Confidentiality</div>
+                <select
+                  value={confidentiality}
+                  onChange={e => setConfidentiality(e.target.value)}
+                  className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white capitalize"
+                >
+                  {CONFIDENTIALITY_LEVELS.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={save}
+              disabled={isBusy || !filename.trim()}
+              className="px-4 py-1 mb-6 bg-[#0033CC] text-white rounded text-sm font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">REPROCESS</div>
+            <p className="text-xs text-[#666666] mb-2">
+              Read the text again from the original file, for example after a reader has been improved.
+            </p>
+            {!isTabular && (
+              <label className="flex items-center gap-2 text-xs text-black mb-2">
+                <input
+                  type="checkbox"
+                  checked={extractAfterReprocess}
+                  onChange={e => setExtractAfterReprocess(e.target.checked)}
+                />
+                Extract again if the text changed
+              </label>
+            )}
+            <button
+              onClick={reprocess}
+              disabled={isBusy || extracting}
+              className="px-4 py-1 mb-6 border border-[#CCCCCC] text-black rounded text-sm hover:border-[#0033CC] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Read text again
+            </button>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">DELETE</div>
+            <div className="text-xs text-black mb-2 space-y-1">
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  checked={deleteMode === 'cascade'}
+                  onChange={() => setDeleteMode('cascade')}
+                  className="mt-0.5"
+                />
+                <span>Remove what was extracted from it too. Entities other documents mention are kept.</span>
+              </label>
+              <label className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  checked={deleteMode === 'detach'}
+                  onChange={() => setDeleteMode('detach')}
+                  className="mt-0.5"
+                />
+                <span>Keep its entities, relationships and insights in the graph without a source document.</span>
+              </label>
+            </div>
+            {extracting && (
+              <div className="text-xs text-[#999] mb-2">Cancel the extraction in progress before deleting.</div>
+            )}
+            {confirmingDelete ? (
+              <div className="flex items-center gap-3 text-xs">
+                <span className="text-red-600">Delete {document.filename}? This can't be undone.</span>
+                <button
+                  onClick={remove}
+                  disabled={isBusy}
+                  className="px-3 py-1 bg-red-600 text-white rounded font-semibold hover:bg-red-700 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => setConfirmingDelete(false)}
+                  className="text-[#666666] hover:text-black"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmingDelete(true)}
+                disabled={isBusy || extracting}
+                className="px-4 py-1 border border-red-300 text-red-600 rounded text-sm hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete document
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
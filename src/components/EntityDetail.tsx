@@ -1,6 +1,11 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import SourcePassageViewer, { EvidenceItem } from './SourcePassageViewer'
+import MergeEntitiesPanel from './MergeEntitiesPanel'
+import SplitEntityPanel from './SplitEntityPanel'
+import ChangeHistory from './ChangeHistory'
+import { BUILT_IN_RELATIONS, Ontology, nodeStyle, typeLabel } from '@/lib/ontology'
 
 interface Entity {
   id: string
@@ -11,6 +16,7 @@ interface Entity {
   confidence: number
   reviewStatus: string
   territoryId?: string | null
+  aliases?: string[]
   [key: string]: any // For metadata fields
 }
 
@@ -27,70 +33,208 @@ interface GraphData {
   edges: Edge[]
 }
 
-// Clean color scheme - primarily using blue accent
-const TYPE_COLORS: Record<string, string> = {
-  organisation: '#0033CC',
-  person: '#0033CC',
-  client: '#0033CC',
-  service: '#0033CC',
-  strategy: '#0033CC',
-  goal: '#0033CC',
-  financial: '#0033CC',
-  process: '#0033CC',
-  system: '#0033CC',
-  location: '#0033CC',
-  context: '#0033CC',
-  culture: '#0033CC',
-  team: '#0033CC'
-}
-
 interface EntityDetailProps {
   entity: Entity
   projectId: string
   onClose: () => void
+  // Called after the entity or its connections are edited or deleted, so the caller can reload
+  onChanged?: () => void
+}
+
+interface MergeRecord {
+  id: string
+  names: string[]
+  undoneAt: string | null
+  createdAt: string
+}
+
+interface MetadataRow {
+  key: string
+  value: string
+  // The stored value, kept as it was (number, true/false) unless its text is edited
+  original?: any
 }
 
-export default function EntityDetail({ entity, projectId, onClose }: EntityDetailProps) {
+// Fields every node has, plus what the graph simulation adds; the rest is metadata
+const STANDARD_FIELDS = new Set([
+  'id', 'name', 'type', 'subtype', 'description', 'confidence', 'reviewStatus', 'territoryId', 'size', 'aliases',
+  'validFrom', 'validTo', 'index', 'x', 'y', 'vx', 'vy', 'fx', 'fy', 'pinned'
+])
+
+export default function EntityDetail({ entity: initialEntity, projectId, onClose, onChanged }: EntityDetailProps) {
+  const [entity, setEntity] = useState<Entity>(initialEntity)
   const [connections, setConnections] = useState<Array<{
     entity: Entity
+    edgeId: string
     relationship: string
     direction: 'incoming' | 'outgoing'
   }>>([])
+  const [allEntities, setAllEntities] = useState<Entity[] | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [evidence, setEvidence] = useState<EvidenceItem[]>([])
+  const [openEvidence, setOpenEvidence] = useState<EvidenceItem | null>(null)
+  const [ontology, setOntology] = useState<Ontology | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [form, setForm] = useState({ name: '', type: '', subtype: '', description: '', aliases: '' })
+  const [metadataRows, setMetadataRows] = useState<MetadataRow[]>([])
+  const [newDirection, setNewDirection] = useState<'outgoing' | 'incoming'>('outgoing')
+  const [newLabel, setNewLabel] = useState('')
+  const [newOtherId, setNewOtherId] = useState('')
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [merges, setMerges] = useState<MergeRecord[]>([])
+  const [showMerge, setShowMerge] = useState(false)
+  const [showSplit, setShowSplit] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [notice, setNotice] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setEntity(initialEntity)
+    setIsEditing(false)
+    setConfirmingDelete(false)
+    setShowHistory(false)
+    setError('')
+  }, [initialEntity.id])
 
   useEffect(() => {
     fetchConnections()
-  }, [entity.id, projectId])
+    fetchEvidence()
+    fetchMerges()
+    setNotice('')
+  }, [initialEntity.id, projectId])
+
+  useEffect(() => {
+    fetchOntology()
+    setAllEntities(null)
+  }, [projectId])
 
-  const fetchConnections = async () => {
+  const fetchOntology = async () => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/graph`)
+      const response = await fetch(`/api/projects/${projectId}/ontology`)
+      if (response.ok) {
+        setOntology(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch ontology:', error)
+    }
+  }
+
+  const fetchEvidence = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/evidence?entityId=${initialEntity.id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setEvidence(data.evidence || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch evidence:', error)
+    }
+  }
+
+  // Merges into this entity that can still be undone
+  const fetchMerges = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/merge?survivorId=${initialEntity.id}`)
+      if (response.ok) {
+        const data = await response.json()
+        setMerges(data.merges.filter((merge: MergeRecord) => !merge.undoneAt))
+      }
+    } catch (error) {
+      console.error('Failed to fetch merges:', error)
+    }
+  }
+
+  // Connections, sources, aliases and merges all change after a merge, split or undo
+  const reloadAfterRestructure = (updated: Entity, message: string) => {
+    setEntity(updated)
+    setNotice(message)
+    setAllEntities(null)
+    fetchConnections()
+    fetchEvidence()
+    fetchMerges()
+    onChanged?.()
+  }
+
+  const undoMerge = async (merge: MergeRecord) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/merge/${merge.id}/undo`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        const updated = data.entities.find((e: Entity) => e.id === entity.id)
+        reloadAfterRestructure(updated || entity, `${merge.names.join(', ')} separated again`)
+      } else {
+        setError(data.error || 'Failed to undo merge')
+      }
+    } catch (error) {
+      console.error('Failed to undo merge:', error)
+      setError('Failed to undo merge')
+    }
+  }
+
+  // A revert may have changed the entity, its relationships or its sources, or removed it altogether
+  const reloadAfterRevert = async () => {
+    const current = await fetchConnections()
+    setAllEntities(null)
+    fetchEvidence()
+    fetchMerges()
+    onChanged?.()
+    if (current) {
+      setEntity(current)
+    } else if (current === null) {
+      onClose()
+    }
+  }
+
+  // Relationship evidence is only fetched when asked for
+  const showEdgeSource = async (edgeId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/evidence?edgeId=${edgeId}`)
+      if (response.ok) {
+        const data = await response.json()
+        if (data.evidence?.length > 0) setOpenEvidence(data.evidence[0])
+      }
+    } catch (error) {
+      console.error('Failed to fetch evidence:', error)
+    }
+  }
+
+  // Only the entity's immediate neighbourhood is fetched. Returns the entity as it is now, or null
+  // when it no longer exists.
+  const fetchConnections = async (): Promise<Entity | null | undefined> => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/graph?entityId=${initialEntity.id}&depth=1`)
+      if (response.status === 404) return null
       if (response.ok) {
         const data: GraphData = await response.json()
-        
+
         // Find all edges connected to this entity
         const entityConnections = data.edges
-          .filter(edge => edge.source === entity.id || edge.target === entity.id)
+          .filter(edge => edge.source === initialEntity.id || edge.target === initialEntity.id)
           .map(edge => {
-            const isOutgoing = edge.source === entity.id
+            const isOutgoing = edge.source === initialEntity.id
             const connectedEntityId = isOutgoing ? edge.target : edge.source
             const connectedEntity = data.nodes.find(n => n.id === connectedEntityId)
-            
+
             if (!connectedEntity) return null
-            
+
             return {
               entity: connectedEntity,
+              edgeId: edge.id,
               relationship: edge.label,
               direction: isOutgoing ? 'outgoing' as const : 'incoming' as const
             }
           })
           .filter(Boolean) as Array<{
             entity: Entity
+            edgeId: string
             relationship: string
             direction: 'incoming' | 'outgoing'
           }>
 
         setConnections(entityConnections)
+        return data.nodes.find(node => node.id === initialEntity.id)
       }
     } catch (error) {
       console.error('Failed to fetch connections:', error)
@@ -99,11 +243,173 @@ export default function EntityDetail({ entity, projectId, onClose }: EntityDetai
     }
   }
 
-  const color = TYPE_COLORS[entity.type] || '#0033CC'
+  // Every other entity is only needed to add a connection or merge, so they are loaded on first use
+  const loadAllEntities = async () => {
+    if (allEntities) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/graph`)
+      if (response.ok) {
+        const data: GraphData = await response.json()
+        setAllEntities(data.nodes)
+      }
+    } catch (error) {
+      console.error('Failed to fetch entities:', error)
+    }
+  }
+
+  const color = nodeStyle(ontology, entity.type).color
 
   // Extract metadata fields (excluding standard fields)
-  const standardFields = new Set(['id', 'name', 'type', 'subtype', 'description', 'confidence', 'reviewStatus', 'territoryId', 'size'])
-  const metadataFields = Object.entries(entity).filter(([key]) => !standardFields.has(key))
+  const metadataFields = Object.keys(entity).filter(key => !STANDARD_FIELDS.has(key)).map(key => [key, entity[key]] as [string, any])
+
+  const relationLabels = (ontology && ontology.relationTypes.length > 0 ? ontology.relationTypes : BUILT_IN_RELATIONS)
+    .map(relation => relation.label)
+
+  const startEditing = () => {
+    setForm({
+      name: entity.name,
+      type: entity.type,
+      subtype: entity.subtype || '',
+      description: entity.description || '',
+      aliases: (entity.aliases || []).join(', ')
+    })
+    setMetadataRows(metadataFields.map(([key, value]) => ({ key, value: String(value), original: value })))
+    setError('')
+    setIsEditing(true)
+  }
+
+  const saveEntity = async () => {
+    const metadata: Record<string, any> = {}
+    for (const row of metadataRows) {
+      if (!row.key.trim()) continue
+      metadata[row.key.trim()] = row.original !== undefined && row.value === String(row.original) ? row.original : row.value
+    }
+
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/${entity.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          type: form.type,
+          subtype: form.subtype,
+          description: form.description,
+          // A rename adds the old name to whatever aliases are listed here
+          aliases: [
+            ...form.aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+            ...(form.name.trim() !== entity.name ? [entity.name] : [])
+          ],
+          metadata
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setEntity(data)
+        setIsEditing(false)
+        onChanged?.()
+      } else {
+        setError(data.error || 'Failed to save entity')
+      }
+    } catch (error) {
+      console.error('Failed to update entity:', error)
+      setError('Failed to save entity')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const setReviewStatus = async (status: string) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, entityIds: [entity.id] })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setEntity({ ...entity, reviewStatus: status })
+        onChanged?.()
+      } else {
+        setError(data.error || 'Failed to update review status')
+      }
+    } catch (error) {
+      console.error('Failed to update review status:', error)
+      setError('Failed to update review status')
+    }
+  }
+
+  const deleteEntity = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/${entity.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        onChanged?.()
+        onClose()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to delete entity')
+        setIsSaving(false)
+      }
+    } catch (error) {
+      console.error('Failed to delete entity:', error)
+      setError('Failed to delete entity')
+      setIsSaving(false)
+    }
+  }
+
+  const addConnection = async () => {
+    if (!newOtherId || !newLabel.trim()) return
+    const [sourceId, targetId] = newDirection === 'outgoing' ? [entity.id, newOtherId] : [newOtherId, entity.id]
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/edges`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId, targetId, label: newLabel })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setNewLabel('')
+        setNewOtherId('')
+        await fetchConnections()
+        onChanged?.()
+      } else {
+        setError(data.error || 'Failed to add connection')
+      }
+    } catch (error) {
+      console.error('Failed to create relationship:', error)
+      setError('Failed to add connection')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const removeConnection = async (edgeId: string) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/edges/${edgeId}`, { method: 'DELETE' })
+      if (response.ok) {
+        setConnections(prev => prev.filter(conn => conn.edgeId !== edgeId))
+        onChanged?.()
+      } else {
+        const data = await response.json()
+        setError(data.error || 'Failed to remove connection')
+      }
+    } catch (error) {
+      console.error('Failed to delete relationship:', error)
+      setError('Failed to remove connection')
+    }
+  }
+
+  const updateRow = (index: number, change: Partial<MetadataRow>) =>
+    setMetadataRows(prev => prev.map((row, i) => i === index ? { ...row, ...change } : row))
+
+  const inputClass = 'w-full px-2 py-1 border border-[#CCCCCC] rounded text-sm text-black focus:outline-none focus:border-[#0033CC]'
 
   return (
     <div className="fixed top-0 right-0 w-96 h-full bg-white border-l border-[#CCCCCC] p-6 overflow-y-auto z-50 transform transition-transform duration-300 shadow-lg">
@@ -114,42 +420,144 @@ export default function EntityDetail({ entity, projectId, onClose }: EntityDetai
         ✕
       </button>
 
-      <h3 className="text-black text-lg font-semibold mb-2 pr-8">
-        {entity.name}
-      </h3>
-
-      <div className="mb-4">
-        <span 
-          className="inline-block px-3 py-1 rounded text-xs border font-semibold"
-          style={{
-            backgroundColor: color + '20',
-            color: color,
-            borderColor: color
-          }}
-        >
-          {entity.type.toUpperCase()}
-          {entity.subtype && ` · ${entity.subtype}`}
-        </span>
-      </div>
+      {error && <div className="text-red-600 text-xs mb-3 pr-8">{error}</div>}
 
-      {entity.description && (
-        <div className="mb-4">
-          <p className="text-[#333333] text-sm leading-relaxed">
-            {entity.description}
-          </p>
+      {isEditing ? (
+        <div className="mb-6 space-y-3 pr-6">
+          <label className="block text-xs text-[#666666]">
+            Name
+            <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} />
+          </label>
+          <div className="flex gap-2">
+            <label className="block text-xs text-[#666666] flex-1">
+              Type
+              <select value={form.type} onChange={e => setForm({ ...form, type: e.target.value })} className={`${inputClass} bg-white`}>
+                {(ontology?.entityTypes || []).map(type => (
+                  <option key={type.name} value={type.name}>{type.label}</option>
+                ))}
+                {ontology && !ontology.entityTypes.some(type => type.name === form.type) && (
+                  <option value={form.type}>{form.type}</option>
+                )}
+              </select>
+            </label>
+            <label className="block text-xs text-[#666666] flex-1">
+              Subtype
+              <input value={form.subtype} onChange={e => setForm({ ...form, subtype: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <label className="block text-xs text-[#666666]">
+            Also known as, separated by commas
+            <input value={form.aliases} onChange={e => setForm({ ...form, aliases: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block text-xs text-[#666666]">
+            Description
+            <textarea
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+              rows={4}
+              className={inputClass}
+            />
+          </label>
+          <div>
+            <div className="text-xs text-[#666666] mb-1">Details</div>
+            {metadataRows.map((row, index) => (
+              <div key={index} className="flex gap-2 mb-1">
+                <input
+                  value={row.key}
+                  onChange={e => updateRow(index, { key: e.target.value })}
+                  placeholder="Field"
+                  className={`${inputClass} w-1/3`}
+                />
+                <input
+                  value={row.value}
+                  onChange={e => updateRow(index, { value: e.target.value })}
+                  placeholder="Value"
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setMetadataRows(prev => prev.filter((_, i) => i !== index))}
+                  className="text-[#999] hover:text-red-600 text-xs"
+                  title="Remove field"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setMetadataRows(prev => [...prev, { key: '', value: '' }])}
+              className="text-xs text-[#0033CC] hover:underline"
+            >
+              + Add field
+            </button>
+          </div>
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={saveEntity}
+              disabled={isSaving || !form.name.trim()}
+              className="px-4 py-1 bg-[#0033CC] text-white rounded text-sm font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-4 py-1 text-sm text-[#666666] hover:text-black"
+            >
+              Cancel
+            </button>
+          </div>
         </div>
-      )}
+      ) : (
+        <>
+          <h3 className="text-black text-lg font-semibold mb-2 pr-8">
+            {entity.name}
+          </h3>
 
-      {/* Metadata Fields */}
-      {metadataFields.length > 0 && (
-        <div className="mb-6">
-          {metadataFields.map(([key, value]) => (
-            <div key={key} className="flex justify-between py-3 border-b border-[#CCCCCC] text-sm">
-              <span className="text-[#666666] capitalize font-medium">{key.replace(/([A-Z])/g, ' $1').toLowerCase()}</span>
-              <span className="text-black text-right max-w-48 truncate">{String(value)}</span>
+          <div className="mb-4 flex items-center gap-3">
+            <span
+              className="inline-block px-3 py-1 rounded text-xs border font-semibold"
+              style={{
+                backgroundColor: color + '20',
+                color: color,
+                borderColor: color
+              }}
+            >
+              {typeLabel(ontology, entity.type).toUpperCase()}
+              {entity.subtype && ` · ${entity.subtype}`}
+            </span>
+            <button
+              onClick={startEditing}
+              className="text-xs text-[#999] hover:text-[#0033CC]"
+            >
+              Edit
+            </button>
+          </div>
+
+          {entity.aliases && entity.aliases.length > 0 && (
+            <div className="mb-4 text-xs text-[#666666]">
+              Also known as: <span className="text-black">{entity.aliases.join(', ')}</span>
             </div>
-          ))}
-        </div>
+          )}
+
+          {entity.description && (
+            <div className="mb-4">
+              <p className="text-[#333333] text-sm leading-relaxed">
+                {entity.description}
+              </p>
+            </div>
+          )}
+
+          {/* Metadata Fields */}
+          {metadataFields.length > 0 && (
+            <div className="mb-6">
+              {metadataFields.map(([key, value]) => (
+                <div key={key} className="flex justify-between py-3 border-b border-[#CCCCCC] text-sm">
+                  <span className="text-[#666666] capitalize font-medium">{key.replace(/([A-Z])/g, ' $1').toLowerCase()}</span>
+                  <span className="text-black text-right max-w-48 truncate">{String(value)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
       )}
 
       {/* System Fields */}
@@ -160,21 +568,57 @@ export default function EntityDetail({ entity, projectId, onClose }: EntityDetai
             {Math.round(entity.confidence * 100)}%
           </span>
         </div>
-        
+
         <div className="flex justify-between py-3 border-b border-[#CCCCCC] text-sm">
           <span className="text-[#666666] font-medium">Review Status</span>
-          <span className={`capitalize font-semibold ${
-            entity.reviewStatus === 'approved' ? 'text-green-600' :
-            entity.reviewStatus === 'rejected' ? 'text-red-600' :
-            'text-orange-600'
-          }`}>
-            {entity.reviewStatus}
+          <span className="flex items-center gap-2">
+            <span className={`capitalize font-semibold ${
+              entity.reviewStatus === 'approved' ? 'text-green-600' :
+              entity.reviewStatus === 'rejected' ? 'text-red-600' :
+              'text-orange-600'
+            }`}>
+              {entity.reviewStatus}
+            </span>
+            {entity.reviewStatus !== 'approved' && (
+              <button onClick={() => setReviewStatus('approved')} className="text-xs text-green-600 hover:underline">
+                Approve
+              </button>
+            )}
+            {entity.reviewStatus !== 'rejected' && (
+              <button onClick={() => setReviewStatus('rejected')} className="text-xs text-red-600 hover:underline">
+                Reject
+              </button>
+            )}
           </span>
         </div>
       </div>
 
+      {/* Evidence */}
+      {evidence.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-[#666666] text-xs font-semibold tracking-wide mb-3">
+            SOURCES ({evidence.length})
+          </h4>
+          <div className="space-y-2">
+            {evidence.map(item => (
+              <button
+                key={item.id}
+                onClick={() => setOpenEvidence(item)}
+                className="block w-full text-left text-xs p-3 border border-[#CCCCCC] rounded-lg hover:border-[#0033CC] transition-colors"
+              >
+                <div className="text-[#333333] italic line-clamp-3">&ldquo;{item.quote}&rdquo;</div>
+                <div className="text-[#999] mt-1">
+                  {item.filename}
+                  {item.page !== null && ` · p. ${item.page}`}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Connections */}
-      <div className="mb-4">
+      <div className="mb-6">
         <div className="flex justify-between items-center mb-3">
           <h4 className="text-[#666666] text-xs font-semibold tracking-wide">
             CONNECTIONS ({connections.length})
@@ -194,18 +638,190 @@ export default function EntityDetail({ entity, projectId, onClose }: EntityDetai
                   <span className={`${conn.direction === 'outgoing' ? 'text-[#0033CC]' : 'text-orange-600'}`}>
                     {conn.direction === 'outgoing' ? '→' : '←'}
                   </span>
-                  <span className="font-medium text-black">
+                  <span className="font-medium text-black flex-1">
                     {conn.entity.name}
                   </span>
+                  <button
+                    onClick={() => removeConnection(conn.edgeId)}
+                    className="text-[#999] hover:text-red-600"
+                    title="Remove this connection"
+                  >
+                    ✕
+                  </button>
                 </div>
-                <div className="ml-4 text-[#666666] italic text-xs">
+                <div className="ml-4 text-[#666666] italic text-xs flex justify-between">
                   {conn.relationship}
+                  <button
+                    onClick={() => showEdgeSource(conn.edgeId)}
+                    className="not-italic text-[#999] hover:text-[#0033CC]"
+                  >
+                    source
+                  </button>
                 </div>
               </div>
             ))}
           </div>
         )}
+
+        {/* New connection */}
+        <div className="mt-3 p-3 border border-dashed border-[#CCCCCC] rounded-lg text-xs space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={newDirection}
+              onChange={e => setNewDirection(e.target.value as 'outgoing' | 'incoming')}
+              className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+              title="Direction"
+            >
+              <option value="outgoing">→</option>
+              <option value="incoming">←</option>
+            </select>
+            <input
+              value={newLabel}
+              onChange={e => setNewLabel(e.target.value)}
+              list="entity-detail-relation-labels"
+              placeholder="e.g. manages"
+              className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black"
+            />
+            <datalist id="entity-detail-relation-labels">
+              {relationLabels.map(label => <option key={label} value={label} />)}
+            </datalist>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={newOtherId}
+              onChange={e => setNewOtherId(e.target.value)}
+              onFocus={loadAllEntities}
+              className="flex-1 min-w-0 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+            >
+              <option value="">Choose an entity...</option>
+              {(allEntities || [])
+                .filter(other => other.id !== entity.id)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(other => (
+                  <option key={other.id} value={other.id}>{other.name} ({typeLabel(ontology, other.type)})</option>
+                ))}
+            </select>
+            <button
+              onClick={addConnection}
+              disabled={isSaving || !newOtherId || !newLabel.trim()}
+              className="px-3 py-1 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Merge and split */}
+      <div className="mb-6">
+        <h4 className="text-[#666666] text-xs font-semibold tracking-wide mb-3">
+          MERGE & SPLIT
+        </h4>
+        {notice && <div className="text-green-600 text-xs mb-2">{notice}</div>}
+        <div className="flex gap-4 text-xs mb-2">
+          <button onClick={() => { loadAllEntities(); setShowMerge(true) }} className="text-[#0033CC] hover:underline">
+            Merge duplicates into this…
+          </button>
+          <button onClick={() => setShowSplit(true)} className="text-[#0033CC] hover:underline">
+            Split into several…
+          </button>
+        </div>
+        {merges.map(merge => (
+          <div key={merge.id} className="flex justify-between items-center py-1 text-xs">
+            <span className="text-[#666666] truncate">
+              Merged {merge.names.join(', ')} · {new Date(merge.createdAt).toLocaleDateString()}
+            </span>
+            <button onClick={() => undoMerge(merge)} className="text-[#999] hover:text-[#0033CC] ml-2">
+              Undo
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* History */}
+      <div className="mb-6">
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="text-[#666666] text-xs font-semibold tracking-wide">
+            HISTORY
+          </h4>
+          <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-[#0033CC] hover:underline">
+            {showHistory ? 'Hide' : 'Show'}
+          </button>
+        </div>
+        {showHistory && (
+          <ChangeHistory projectId={projectId} entityId={entity.id} onReverted={reloadAfterRevert} />
+        )}
+      </div>
+
+      {/* Delete */}
+      <div className="mb-4">
+        {confirmingDelete ? (
+          <div className="text-xs">
+            <div className="text-red-600 mb-2">
+              Delete {entity.name} and its {connections.length} connection{connections.length === 1 ? '' : 's'}? This can&apos;t be undone.
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={deleteEntity}
+                disabled={isSaving}
+                className="px-3 py-1 bg-red-600 text-white rounded font-semibold hover:bg-red-700 disabled:opacity-50"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setConfirmingDelete(false)}
+                className="text-[#666666] hover:text-black"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setConfirmingDelete(true)}
+            className="text-xs text-[#999] hover:text-red-600"
+          >
+            Delete entity
+          </button>
+        )}
       </div>
+
+      {showMerge && (
+        <MergeEntitiesPanel
+          projectId={projectId}
+          ontology={ontology}
+          survivor={entity}
+          entities={allEntities || []}
+          onClose={() => setShowMerge(false)}
+          onMerged={(survivor, names) => {
+            setShowMerge(false)
+            reloadAfterRestructure(survivor as Entity, `Merged ${names.join(', ')}`)
+          }}
+        />
+      )}
+
+      {showSplit && (
+        <SplitEntityPanel
+          projectId={projectId}
+          ontology={ontology}
+          entity={entity}
+          connections={connections}
+          evidence={evidence}
+          onClose={() => setShowSplit(false)}
+          onSplit={(updated, names) => {
+            setShowSplit(false)
+            reloadAfterRestructure(updated, `Split off ${names.join(', ')}`)
+          }}
+        />
+      )}
+
+      {openEvidence && (
+        <SourcePassageViewer
+          projectId={projectId}
+          evidence={openEvidence}
+          onClose={() => setOpenEvidence(null)}
+        />
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
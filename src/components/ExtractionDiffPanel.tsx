@@ -0,0 +1,208 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface DiffItem {
+  key: string
+  id?: string
+  [key: string]: any
+}
+
+interface DiffSection {
+  added: DiffItem[]
+  removed: DiffItem[]
+  changed: Array<{ id: string; before: DiffItem; after: DiffItem; fields: string[] }>
+  unchanged: DiffItem[]
+}
+
+interface ExtractionDiff {
+  entities: DiffSection
+  relationships: DiffSection
+  insights: DiffSection
+}
+
+interface ExtractionDiffPanelProps {
+  projectId: string
+  documentId: string
+  onClose: () => void
+  onApplied: () => void
+}
+
+const SECTIONS: Array<{ key: keyof ExtractionDiff; label: string }> = [
+  { key: 'entities', label: 'ENTITIES' },
+  { key: 'relationships', label: 'RELATIONSHIPS' },
+  { key: 'insights', label: 'INSIGHTS' }
+]
+
+const describe = (section: keyof ExtractionDiff, item: DiffItem) => {
+  switch (section) {
+    case 'entities': return `${item.name} (${item.type})`
+    case 'relationships': return `${item.source} → ${item.label} → ${item.target}`
+    case 'insights': return `[${item.severity}] ${item.text}`
+  }
+}
+
+export default function ExtractionDiffPanel({ projectId, documentId, onClose, onApplied }: ExtractionDiffPanelProps) {
+  const [diff, setDiff] = useState<ExtractionDiff | null>(null)
+  const [filename, setFilename] = useState('')
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState(true)
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchDiff()
+  }, [projectId, documentId])
+
+  const fetchDiff = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/diff`)
+      const data = await response.json()
+      if (response.ok) {
+        setDiff(data.diff)
+        setFilename(data.filename)
+      } else {
+        setError(data.error || 'Failed to load changes')
+      }
+    } catch (error) {
+      console.error('Failed to fetch extraction diff:', error)
+      setError('Failed to load changes')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggle = (key: string) => {
+    const next = new Set(excluded)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setExcluded(next)
+  }
+
+  const apply = async () => {
+    setIsApplying(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/diff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ exclude: Array.from(excluded) })
+      })
+      if (!response.ok) throw new Error('Apply failed')
+      onApplied()
+      onClose()
+    } catch (error) {
+      console.error('Failed to apply changes:', error)
+      setError('Failed to apply changes')
+      setIsApplying(false)
+    }
+  }
+
+  const discard = async () => {
+    setIsApplying(true)
+    try {
+      await fetch(`/api/projects/${projectId}/documents/${documentId}/diff`, { method: 'DELETE' })
+      onApplied()
+      onClose()
+    } catch (error) {
+      console.error('Failed to discard changes:', error)
+      setIsApplying(false)
+    }
+  }
+
+  const renderRow = (key: string, text: string, marker: string, markerClass: string, detail?: string) => (
+    <label key={key} className="flex items-start gap-2 py-1.5 text-xs cursor-pointer hover:bg-gray-50">
+      <input
+        type="checkbox"
+        checked={!excluded.has(key)}
+        onChange={() => toggle(key)}
+        className="mt-0.5 text-[#0033CC] focus:ring-[#0033CC]"
+      />
+      <span className={`font-semibold w-3 ${markerClass}`}>{marker}</span>
+      <span className="flex-1 text-black">
+        {text}
+        {detail && <span className="text-[#999] ml-1">({detail})</span>}
+      </span>
+    </label>
+  )
+
+  const totalChanges = diff
+    ? SECTIONS.reduce((sum, { key }) => sum + diff[key].added.length + diff[key].removed.length + diff[key].changed.length, 0)
+    : 0
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            REVIEW RE-EXTRACTION
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+            disabled={isApplying}
+          >
+            ✕
+          </button>
+        </div>
+        {filename && <p className="text-[#666666] text-sm mb-6">{filename}</p>}
+
+        {isLoading && <div className="text-[#0033CC] font-medium">Loading changes...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        {diff && (
+          <>
+            {totalChanges === 0 && (
+              <div className="text-[#666666] text-sm mb-6">
+                No changes: this extraction matches what the document already contributed.
+              </div>
+            )}
+
+            {SECTIONS.map(({ key, label }) => {
+              const section = diff[key]
+              const count = section.added.length + section.removed.length + section.changed.length
+              if (count === 0) return null
+              return (
+                <div key={key} className="mb-6">
+                  <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">
+                    {label} ({count} changed, {section.unchanged.length} unchanged)
+                  </div>
+                  <div className="border border-[#CCCCCC] rounded p-3">
+                    {section.added.map(item => renderRow(item.key, describe(key, item), '+', 'text-green-600'))}
+                    {section.removed.map(item => renderRow(item.key, describe(key, item), '−', 'text-red-600'))}
+                    {section.changed.map(change => renderRow(
+                      change.after.key,
+                      describe(key, change.after),
+                      '~',
+                      'text-amber-600',
+                      change.fields.join(', ')
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={discard}
+                disabled={isApplying}
+                className="px-6 py-2 bg-white border border-[#CCCCCC] text-[#333333] rounded hover:bg-[#F5F5F5] transition-colors disabled:opacity-50"
+              >
+                Discard
+              </button>
+              <button
+                onClick={apply}
+                disabled={isApplying}
+                className="px-6 py-2 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isApplying ? 'Applying...' : 'Apply Selected'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ValidationIssue {
+  path: string
+  message: string
+  action: 'coerced' | 'dropped'
+}
+
+interface ChunkReport {
+  chunk: number
+  pass?: number
+  parsed: boolean
+  repaired: boolean
+  error: string | null
+  kept: { entities: number; relationships: number; insights: number; frontier_hints: number }
+  issues: ValidationIssue[]
+}
+
+interface ExtractionReport {
+  filename: string
+  extractedBy: string
+  depth?: string
+  createdAt: string
+  summary: { chunks: number; failedChunks: number; repairedChunks: number; linkedEndpoints: number; dropped: number; coerced: number }
+  chunks: ChunkReport[]
+  linking?: { linked: number; dropped: number; issues: ValidationIssue[] }
+}
+
+interface ExtractionReportPanelProps {
+  projectId: string
+  documentId: string
+  onClose: () => void
+}
+
+export default function ExtractionReportPanel({ projectId, documentId, onClose }: ExtractionReportPanelProps) {
+  const [report, setReport] = useState<ExtractionReport | null>(null)
+  const [showCoerced, setShowCoerced] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchReport()
+  }, [projectId, documentId])
+
+  const fetchReport = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/report`)
+      const data = await response.json()
+      if (response.ok) {
+        setReport(data)
+      } else {
+        setError(data.error || 'Failed to load report')
+      }
+    } catch (error) {
+      console.error('Failed to fetch extraction report:', error)
+      setError('Failed to load report')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            EXTRACTION REPORT
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+
+        {!report && !error && <div className="text-[#0033CC] font-medium">Loading report...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        {report && (
+          <>
+            <p className="text-[#666666] text-sm mb-1">{report.filename}</p>
+            <p className="text-[#999] text-xs mb-6">
+              {report.extractedBy}{report.depth && ` (${report.depth})`} · {new Date(report.createdAt).toLocaleString()} · {report.summary.chunks} chunk{report.summary.chunks === 1 ? '' : 's'}
+              {report.summary.repairedChunks > 0 && ` · ${report.summary.repairedChunks} repaired`}
+              {report.summary.failedChunks > 0 && ` · ${report.summary.failedChunks} unreadable`}
+              {report.summary.linkedEndpoints > 0 && ` · ${report.summary.linkedEndpoints} endpoints linked across chunks`}
+            </p>
+
+            <label className="flex items-center gap-2 text-xs text-[#666666] mb-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showCoerced}
+                onChange={() => setShowCoerced(!showCoerced)}
+                className="text-[#0033CC] focus:ring-[#0033CC]"
+              />
+              Show coerced values ({report.summary.coerced}) as well as dropped items ({report.summary.dropped})
+            </label>
+
+            {report.chunks.map(chunk => {
+              const issues = chunk.issues.filter(issue => showCoerced || issue.action === 'dropped')
+              return (
+                <div key={`${chunk.chunk}-${chunk.pass || 0}`} className="mb-4">
+                  <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">
+                    CHUNK {chunk.chunk + 1}
+                    {chunk.pass ? ` · PASS ${chunk.pass + 1}` : ''}
+                    <span className="font-normal text-xs ml-2">
+                      kept {chunk.kept.entities} entities, {chunk.kept.relationships} relationships, {chunk.kept.insights} insights
+                      {chunk.repaired && ' · repaired'}
+                    </span>
+                  </div>
+                  <div className="border border-[#CCCCCC] rounded p-3 text-xs">
+                    {chunk.error && <div className="text-red-600 py-1">✕ {chunk.error}</div>}
+                    {issues.length === 0 && !chunk.error && (
+                      <div className="text-[#999] py-1">No problems</div>
+                    )}
+                    {issues.map((issue, index) => (
+                      <div key={index} className="flex items-start gap-2 py-1">
+                        <span className={`font-semibold w-3 ${issue.action === 'dropped' ? 'text-red-600' : 'text-amber-600'}`}>
+                          {issue.action === 'dropped' ? '−' : '~'}
+                        </span>
+                        <span className="text-[#999] font-mono">{issue.path}</span>
+                        <span className="flex-1 text-black">{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+
+            {report.linking && report.linking.issues.some(issue => showCoerced || issue.action === 'dropped') && (
+              <div className="mb-4">
+                <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">
+                  LINKING ACROSS CHUNKS
+                  <span className="font-normal text-xs ml-2">
+                    {report.linking.linked} endpoints linked, {report.linking.dropped} relationships dropped
+                  </span>
+                </div>
+                <div className="border border-[#CCCCCC] rounded p-3 text-xs">
+                  {report.linking.issues.filter(issue => showCoerced || issue.action === 'dropped').map((issue, index) => (
+                    <div key={index} className="flex items-start gap-2 py-1">
+                      <span className={`font-semibold w-3 ${issue.action === 'dropped' ? 'text-red-600' : 'text-amber-600'}`}>
+                        {issue.action === 'dropped' ? '−' : '~'}
+                      </span>
+                      <span className="text-[#999] font-mono">{issue.path}</span>
+                      <span className="flex-1 text-black">{issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
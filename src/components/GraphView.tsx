@@ -3,6 +3,10 @@
 import { useEffect, useRef, useState, useMemo } from 'react'
 import * as d3 from 'd3'
 import EntityDetail from './EntityDetail'
+import TimelinePanel from './TimelinePanel'
+import NewEntityPanel from './NewEntityPanel'
+import ReviewQueuePanel from './ReviewQueuePanel'
+import { Ontology, nodeStyle, typeLabel } from '@/lib/ontology'
 
 interface Node {
   id: string
@@ -14,6 +18,8 @@ interface Node {
   size: number
   reviewStatus: string
   territoryId?: string | null
+  validFrom?: string | null
+  validTo?: string | null
   x?: number
   y?: number
   fx?: number | null
@@ -27,7 +33,13 @@ interface Edge {
   source: string
   target: string
   label: string
+  relationType: string
+  rawLabel?: string | null
   weight: number
+  confidence: number
+  reviewStatus: string
+  validFrom?: string | null
+  validTo?: string | null
 }
 
 interface GraphData {
@@ -35,26 +47,6 @@ interface GraphData {
   edges: Edge[]
 }
 
-// Node type configurations with shapes and colors
-const NODE_CONFIG: Record<string, { color: string, shape: string, size: number }> = {
-  organisation: { color: '#0033CC', shape: 'rounded-rect', size: 40 },
-  person: { color: '#1a5490', shape: 'circle', size: 30 },
-  client: { color: '#2d6bb3', shape: 'circle', size: 32 },
-  service: { color: '#4080d6', shape: 'diamond', size: 35 },
-  strategy: { color: '#5394f9', shape: 'hexagon', size: 38 },
-  goal: { color: '#66a8ff', shape: 'hexagon', size: 36 },
-  financial: { color: '#1f4d7a', shape: 'hexagon', size: 34 },
-  process: { color: '#2a5f94', shape: 'rounded-rect', size: 32 },
-  system: { color: '#3570ae', shape: 'diamond', size: 36 },
-  location: { color: '#4081c8', shape: 'circle', size: 28 },
-  context: { color: '#4b92e2', shape: 'circle', size: 26 },
-  culture: { color: '#56a3fc', shape: 'circle', size: 28 },
-  team: { color: '#2d6bb3', shape: 'rounded-rect', size: 34 }
-}
-
-// Fallback for unknown types
-const DEFAULT_NODE_CONFIG = { color: '#666666', shape: 'circle', size: 30 }
-
 interface GraphViewProps {
   projectId: string
 }
@@ -64,11 +56,21 @@ export default function GraphView({ projectId }: GraphViewProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const tooltipRef = useRef<HTMLDivElement>(null)
   const [data, setData] = useState<GraphData | null>(null)
+  const [ontology, setOntology] = useState<Ontology | null>(null)
   const [selectedEntity, setSelectedEntity] = useState<Node | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [visibleTypes, setVisibleTypes] = useState<Set<string>>(new Set())
+  const [visibleRelationTypes, setVisibleRelationTypes] = useState<Set<string>>(new Set())
   const [hoveredNode, setHoveredNode] = useState<string | null>(null)
+  // A date (YYYY-MM-DD) to show the graph as it stood then; empty for the current graph
+  const [asOf, setAsOf] = useState('')
+  const [showTimeline, setShowTimeline] = useState(false)
+  const [showNewEntity, setShowNewEntity] = useState(false)
+  const [showReview, setShowReview] = useState(false)
+  // Rejected items start hidden when the project's settings say so
+  const [hideRejected, setHideRejected] = useState(true)
+  const [markPending, setMarkPending] = useState(true)
 
   // Get unique node types from data
   const nodeTypes = useMemo(() => {
@@ -76,11 +78,32 @@ export default function GraphView({ projectId }: GraphViewProps) {
     return Array.from(new Set(data.nodes.map(n => n.type))).sort()
   }, [data])
 
+  // Canonical relationship types, with the label to show for each
+  const relationTypes = useMemo(() => {
+    if (!data) return []
+    const labels = new Map<string, string>()
+    for (const edge of data.edges) {
+      if (!labels.has(edge.relationType)) labels.set(edge.relationType, edge.label)
+    }
+    return Array.from(labels.entries())
+      .map(([type, label]) => ({ type, label, count: data.edges.filter(e => e.relationType === type).length }))
+      .sort((a, b) => b.count - a.count)
+  }, [data])
+
+  const reviewCounts = useMemo(() => {
+    const items = data ? [...data.nodes, ...data.edges] : []
+    return {
+      pending: items.filter(item => item.reviewStatus === 'pending').length,
+      rejected: items.filter(item => item.reviewStatus === 'rejected').length
+    }
+  }, [data])
+
   // Filter nodes and edges based on search and type filters
   const filteredData = useMemo(() => {
     if (!data) return null
 
     const visibleNodes = data.nodes.filter(node => {
+      if (hideRejected && node.reviewStatus === 'rejected') return false
       const matchesSearch = searchTerm === '' || 
         node.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         (node.description && node.description.toLowerCase().includes(searchTerm.toLowerCase()))
@@ -90,17 +113,23 @@ export default function GraphView({ projectId }: GraphViewProps) {
 
     const visibleNodeIds = new Set(visibleNodes.map(n => n.id))
     const visibleEdges = data.edges.filter(edge =>
-      visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
+      visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target) &&
+      !(hideRejected && edge.reviewStatus === 'rejected') &&
+      (visibleRelationTypes.size === 0 || visibleRelationTypes.has(edge.relationType))
     )
 
     return {
       nodes: visibleNodes,
       edges: visibleEdges
     }
-  }, [data, searchTerm, visibleTypes])
+  }, [data, searchTerm, visibleTypes, visibleRelationTypes, hideRejected])
 
   useEffect(() => {
     fetchGraphData()
+  }, [projectId, asOf])
+
+  useEffect(() => {
+    fetchReviewSettings()
   }, [projectId])
 
   useEffect(() => {
@@ -110,15 +139,25 @@ export default function GraphView({ projectId }: GraphViewProps) {
     }
   }, [nodeTypes])
 
+  useEffect(() => {
+    setVisibleRelationTypes(new Set(relationTypes.map(r => r.type)))
+  }, [relationTypes])
+
   useEffect(() => {
     if (filteredData && svgRef.current && containerRef.current) {
       renderGraph()
     }
-  }, [filteredData, hoveredNode])
+  }, [filteredData, hoveredNode, ontology, markPending])
 
   const fetchGraphData = async () => {
     try {
-      const response = await fetch(`/api/projects/${projectId}/graph`)
+      const [response, ontologyResponse] = await Promise.all([
+        fetch(`/api/projects/${projectId}/graph${asOf ? `?asOf=${asOf}` : ''}`),
+        fetch(`/api/projects/${projectId}/ontology`)
+      ])
+      if (ontologyResponse.ok) {
+        setOntology(await ontologyResponse.json())
+      }
       if (response.ok) {
         const graphData = await response.json()
         setData(graphData)
@@ -130,6 +169,18 @@ export default function GraphView({ projectId }: GraphViewProps) {
     }
   }
 
+  const fetchReviewSettings = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/settings`)
+      if (response.ok) {
+        const settings = await response.json()
+        setHideRejected(settings.hideRejected)
+      }
+    } catch (error) {
+      console.error('Failed to fetch settings:', error)
+    }
+  }
+
   const toggleType = (type: string) => {
     const newVisibleTypes = new Set(visibleTypes)
     if (newVisibleTypes.has(type)) {
@@ -140,8 +191,19 @@ export default function GraphView({ projectId }: GraphViewProps) {
     setVisibleTypes(newVisibleTypes)
   }
 
+  // Colour, shape and size come from the project's ontology; unknown types get a neutral style
+  const toggleRelationType = (type: string) => {
+    const next = new Set(visibleRelationTypes)
+    if (next.has(type)) {
+      next.delete(type)
+    } else {
+      next.add(type)
+    }
+    setVisibleRelationTypes(next)
+  }
+
   const getNodeConfig = (type: string) => {
-    return NODE_CONFIG[type] || DEFAULT_NODE_CONFIG
+    return nodeStyle(ontology, type)
   }
 
   const renderNodeShape = (selection: d3.Selection<SVGGElement, Node, SVGGElement, unknown>) => {
@@ -321,6 +383,7 @@ export default function GraphView({ projectId }: GraphViewProps) {
       .attr('stroke', '#666')
       .attr('stroke-width', d => Math.max(1.5, Math.min(4, (d.weight || 1) * 1.5)))
       .attr('stroke-opacity', 0.7)
+      .attr('stroke-dasharray', d => markPending && d.reviewStatus === 'pending' ? '6,4' : null)
       .attr('marker-end', 'url(#arrowhead)')
 
     // Create nodes with enhanced interactions
@@ -351,6 +414,20 @@ export default function GraphView({ projectId }: GraphViewProps) {
     // Render node shapes
     renderNodeShape(node)
 
+    // An amber dot marks entities nobody has reviewed yet
+    if (markPending) {
+      node.filter(d => d.reviewStatus === 'pending')
+        .append('circle')
+        .attr('class', 'pending-marker')
+        .attr('cx', d => getNodeConfig(d.type).size / 2 - 2)
+        .attr('cy', d => -getNodeConfig(d.type).size / 2 + 2)
+        .attr('r', 4)
+        .attr('fill', '#F59E0B')
+        .attr('stroke', 'white')
+        .attr('stroke-width', 1.5)
+        .attr('pointer-events', 'none')
+    }
+
     // Highlight matching search terms
     if (searchTerm) {
       node.each(function(d: Node) {
@@ -436,7 +513,10 @@ export default function GraphView({ projectId }: GraphViewProps) {
 
     // Edge hover for tooltips
     link.on('mouseover', function(event, d: any) {
-      showTooltip(event, d.label)
+      // Show the model's own wording when normalisation changed it
+      const raw = d.rawLabel && d.rawLabel.toLowerCase() !== d.label ? ` ("${d.rawLabel}")` : ''
+      const status = d.reviewStatus === 'approved' ? '' : ` · ${d.reviewStatus}`
+      showTooltip(event, `${d.label}${raw}${d.weight > 1 ? ` ×${d.weight}` : ''}${status}`)
       d3.select(this)
         .transition()
         .duration(200)
@@ -505,6 +585,19 @@ export default function GraphView({ projectId }: GraphViewProps) {
     })
   }
 
+  const newEntityPanel = showNewEntity && (
+    <NewEntityPanel
+      projectId={projectId}
+      ontology={ontology}
+      onClose={() => setShowNewEntity(false)}
+      onCreated={entity => {
+        setShowNewEntity(false)
+        fetchGraphData()
+        setSelectedEntity(entity)
+      }}
+    />
+  )
+
   if (isLoading) {
     return (
       <div className="w-full h-full flex items-center justify-center">
@@ -513,13 +606,20 @@ export default function GraphView({ projectId }: GraphViewProps) {
     )
   }
 
-  if (!data || data.nodes.length === 0) {
+  if (!data || (data.nodes.length === 0 && !asOf)) {
     return (
       <div className="w-full h-full flex items-center justify-center bg-white">
         <div className="text-center text-[#666666]">
           <div className="text-xl mb-3 text-black font-semibold tracking-wide">NO ENTITIES FOUND</div>
           <div className="text-sm">Upload documents to populate the knowledge graph</div>
+          <button
+            onClick={() => setShowNewEntity(true)}
+            className="mt-4 text-sm text-[#0033CC] font-medium hover:underline"
+          >
+            + Or add an entity by hand
+          </button>
         </div>
+        {newEntityPanel}
       </div>
     )
   }
@@ -528,7 +628,15 @@ export default function GraphView({ projectId }: GraphViewProps) {
     <div className="relative w-full h-full bg-white" style={{ height: 'calc(100vh - 200px)' }}>
       {/* Filter Panel */}
       <div className="absolute top-4 left-4 bg-white border border-[#CCCCCC] rounded-lg p-4 z-10 max-h-80 overflow-y-auto shadow-sm w-64">
-        <div className="text-xs font-semibold text-[#666666] mb-3 tracking-wide">FILTERS & SEARCH</div>
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs font-semibold text-[#666666] tracking-wide">FILTERS & SEARCH</span>
+          <button
+            onClick={() => setShowNewEntity(true)}
+            className="text-xs text-[#0033CC] hover:underline"
+          >
+            + New entity
+          </button>
+        </div>
         
         {/* Search */}
         <div className="mb-4">
@@ -541,6 +649,65 @@ export default function GraphView({ projectId }: GraphViewProps) {
           />
         </div>
 
+        {/* Point in time */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-semibold text-[#666666] tracking-wide">AS OF</span>
+            <button
+              onClick={() => setShowTimeline(true)}
+              className="text-xs text-[#0033CC] hover:underline"
+            >
+              🕑 Timeline
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="flex-1 px-2 py-1 text-xs border border-[#CCCCCC] rounded focus:outline-none focus:border-[#0033CC]"
+            />
+            {asOf && (
+              <button onClick={() => setAsOf('')} className="text-xs text-[#666666] hover:text-black" title="Show the current graph">
+                ✕
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Review */}
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-semibold text-[#666666] tracking-wide">REVIEW</span>
+            <button
+              onClick={() => setShowReview(true)}
+              className="text-xs text-[#0033CC] hover:underline"
+            >
+              ✓ Review queue ({reviewCounts.pending})
+            </button>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer text-xs text-black p-1">
+            <input
+              type="checkbox"
+              checked={hideRejected}
+              onChange={() => setHideRejected(!hideRejected)}
+              className="text-[#0033CC] focus:ring-[#0033CC]"
+            />
+            Hide rejected
+            <span className="text-[#666666] ml-auto">({reviewCounts.rejected})</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer text-xs text-black p-1">
+            <input
+              type="checkbox"
+              checked={markPending}
+              onChange={() => setMarkPending(!markPending)}
+              className="text-[#0033CC] focus:ring-[#0033CC]"
+            />
+            Mark unreviewed
+            <span className="inline-block w-2 h-2 rounded-full bg-[#F59E0B]" />
+          </label>
+        </div>
+
         {/* Node count */}
         <div className="mb-4 text-xs text-[#666666]">
           Showing {filteredData?.nodes.length || 0} of {data.nodes.length} nodes
@@ -607,7 +774,7 @@ export default function GraphView({ projectId }: GraphViewProps) {
                       />
                     )}
                   </div>
-                  <span className="text-xs text-black capitalize font-medium">{type}</span>
+                  <span className="text-xs text-black capitalize font-medium">{typeLabel(ontology, type)}</span>
                   <span className="text-xs text-[#666666] ml-auto">({count})</span>
                 </div>
               </label>
@@ -615,11 +782,33 @@ export default function GraphView({ projectId }: GraphViewProps) {
           })}
         </div>
 
+        {/* Relationship filters */}
+        {relationTypes.length > 0 && (
+          <>
+            <div className="text-xs font-semibold text-[#666666] mt-4 mb-2 tracking-wide">RELATIONSHIPS</div>
+            <div className="space-y-2 max-h-40 overflow-y-auto">
+              {relationTypes.map(relation => (
+                <label key={relation.type} className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 p-1 rounded">
+                  <input
+                    type="checkbox"
+                    checked={visibleRelationTypes.has(relation.type)}
+                    onChange={() => toggleRelationType(relation.type)}
+                    className="text-[#0033CC] focus:ring-[#0033CC]"
+                  />
+                  <span className="text-xs text-black font-medium">{relation.label}</span>
+                  <span className="text-xs text-[#666666] ml-auto">({relation.count})</span>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
         <div className="mt-4 pt-4 border-t border-[#CCCCCC]">
           <div className="text-xs text-[#666666]">
             <div>💡 Double-click nodes to pin/unpin</div>
             <div>🎯 Hover nodes to highlight connections</div>
             <div>↗️ Hover edges to see full labels</div>
+            <div>🟠 Dots and dashed lines are unreviewed</div>
           </div>
         </div>
       </div>
@@ -636,14 +825,35 @@ export default function GraphView({ projectId }: GraphViewProps) {
         style={{ visibility: 'hidden' }}
       />
 
+      {showReview && (
+        <ReviewQueuePanel
+          projectId={projectId}
+          ontology={ontology}
+          onClose={() => setShowReview(false)}
+          onChanged={fetchGraphData}
+        />
+      )}
+
+      {showTimeline && (
+        <TimelinePanel
+          projectId={projectId}
+          ontology={ontology}
+          onClose={() => setShowTimeline(false)}
+          onChanged={fetchGraphData}
+        />
+      )}
+
       {/* Entity Detail Panel */}
       {selectedEntity && (
         <EntityDetail
           entity={selectedEntity}
           projectId={projectId}
           onClose={() => setSelectedEntity(null)}
+          onChanged={fetchGraphData}
         />
       )}
+
+      {newEntityPanel}
     </div>
   )
 }
\ No newline at end of file
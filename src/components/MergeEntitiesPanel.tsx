@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { Ontology, typeLabel } from '@/lib/ontology'
+
+interface Candidate {
+  id: string
+  name: string
+  type: string
+  aliases?: string[]
+  [key: string]: any
+}
+
+interface MergeEntitiesPanelProps {
+  projectId: string
+  ontology: Ontology | null
+  survivor: Candidate
+  // Every entity in the project, to choose the duplicates from
+  entities: Candidate[]
+  onClose: () => void
+  // Called with the survivor as it is after the merge
+  onMerged: (survivor: Candidate, names: string[]) => void
+}
+
+// Entries shown at once; searching narrows the rest
+const LIST_LIMIT = 50
+
+export default function MergeEntitiesPanel({ projectId, ontology, survivor, entities, onClose, onMerged }: MergeEntitiesPanelProps) {
+  const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<string[]>([])
+  const [isMerging, setIsMerging] = useState(false)
+  const [error, setError] = useState('')
+
+  const term = search.trim().toLowerCase()
+  // Same-type entities are the likeliest duplicates, so they come first
+  const candidates = entities
+    .filter(entity => entity.id !== survivor.id)
+    .filter(entity => !term || entity.name.toLowerCase().includes(term) ||
+      (entity.aliases || []).some(alias => alias.toLowerCase().includes(term)))
+    .sort((a, b) => Number(b.type === survivor.type) - Number(a.type === survivor.type) || a.name.localeCompare(b.name))
+
+  const toggle = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id])
+
+  const merge = async () => {
+    setIsMerging(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId: survivor.id, entityIds: selected })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onMerged(data.entity, entities.filter(entity => selected.includes(entity.id)).map(entity => entity.name))
+      } else {
+        setError(data.error || 'Failed to merge entities')
+        setIsMerging(false)
+      }
+    } catch (error) {
+      console.error('Failed to merge entities:', error)
+      setError('Failed to merge entities')
+      setIsMerging(false)
+    }
+  }
+
+  const selectedEntities = entities.filter(entity => selected.includes(entity.id))
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            MERGE INTO {survivor.name.toUpperCase()}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-[#666666] mb-4">
+          The entities you choose are folded into {survivor.name}: their names become its aliases, and their details,
+          relationships and sources move over. Relationships that end up saying the same thing are combined. You can undo a merge
+          from the entity panel.
+        </p>
+
+        <input
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="Search entities..."
+          autoFocus
+          className="w-full px-3 py-2 mb-3 text-sm border border-[#CCCCCC] rounded focus:outline-none focus:border-[#0033CC]"
+        />
+
+        <div className="border border-[#CCCCCC] rounded max-h-64 overflow-y-auto mb-4">
+          {candidates.length === 0 && <div className="text-xs text-[#999] p-3">No matching entities</div>}
+          {candidates.slice(0, LIST_LIMIT).map(entity => (
+            <label key={entity.id} className="flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer hover:bg-[#F5F5F5]">
+              <input
+                type="checkbox"
+                checked={selected.includes(entity.id)}
+                onChange={() => toggle(entity.id)}
+              />
+              <span className="text-black font-medium">{entity.name}</span>
+              <span className="text-[#666666]">{typeLabel(ontology, entity.type)}</span>
+              {entity.aliases && entity.aliases.length > 0 && (
+                <span className="text-[#999] truncate">aka {entity.aliases.join(', ')}</span>
+              )}
+            </label>
+          ))}
+          {candidates.length > LIST_LIMIT && (
+            <div className="text-xs text-[#999] px-3 py-1.5">{candidates.length - LIST_LIMIT} more; search to narrow the list</div>
+          )}
+        </div>
+
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={merge}
+            disabled={isMerging || selected.length === 0}
+            className="px-4 py-1 bg-[#0033CC] text-white rounded text-sm font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isMerging ? 'Merging...' : `Merge ${selected.length || ''} into ${survivor.name}`}
+          </button>
+          <span className="text-xs text-[#666666] truncate">
+            {selectedEntities.map(entity => entity.name).join(', ')}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import { Ontology } from '@/lib/ontology'
+
+interface CreatedEntity {
+  id: string
+  name: string
+  type: string
+  confidence: number
+  reviewStatus: string
+  size: number
+  [key: string]: any
+}
+
+interface NewEntityPanelProps {
+  projectId: string
+  ontology: Ontology | null
+  onClose: () => void
+  onCreated: (entity: CreatedEntity) => void
+}
+
+export default function NewEntityPanel({ projectId, ontology, onClose, onCreated }: NewEntityPanelProps) {
+  const [name, setName] = useState('')
+  const [type, setType] = useState(ontology?.entityTypes[0]?.name || '')
+  const [description, setDescription] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const create = async () => {
+    setIsSaving(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type, description })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onCreated(data)
+      } else {
+        setError(data.error || 'Failed to create entity')
+      }
+    } catch (error) {
+      console.error('Failed to create entity:', error)
+      setError('Failed to create entity')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-md shadow-lg">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            NEW ENTITY
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <div className="space-y-3 text-xs text-[#666666]">
+          <label className="block">
+            Name
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              autoFocus
+              className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-sm text-black"
+            />
+          </label>
+          <label className="block">
+            Type
+            <select
+              value={type}
+              onChange={e => setType(e.target.value)}
+              className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-sm text-black bg-white"
+            >
+              {(ontology?.entityTypes || []).map(t => (
+                <option key={t.name} value={t.name}>{t.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            Description
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-2 py-1 border border-[#CCCCCC] rounded text-sm text-black"
+            />
+          </label>
+        </div>
+
+        <button
+          onClick={create}
+          disabled={isSaving || !name.trim() || !type}
+          className="mt-6 px-6 py-2 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Creating...' : 'Create'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,295 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+const NODE_SHAPES = ['circle', 'rounded-rect', 'diamond', 'hexagon']
+
+// Lists are edited as comma-separated text and split by the API
+interface EntityTypeRow {
+  name: string
+  label: string
+  description: string
+  color: string
+  shape: string
+  size: number
+  synonyms: string
+  saved: boolean
+}
+
+interface RelationTypeRow {
+  label: string
+  description: string
+  inverse: string
+  domain: string
+  range: string
+  synonyms: string
+}
+
+interface OntologyEditorProps {
+  projectId: string
+}
+
+const inputClass = 'w-full bg-white border border-[#CCCCCC] rounded px-2 py-1 text-black text-xs focus:border-[#0033CC] focus:outline-none focus:ring-2 focus:ring-[#0033CC]/20'
+
+export default function OntologyEditor({ projectId }: OntologyEditorProps) {
+  const [entityTypes, setEntityTypes] = useState<EntityTypeRow[]>([])
+  const [relationTypes, setRelationTypes] = useState<RelationTypeRow[]>([])
+  const [entityCounts, setEntityCounts] = useState<Record<string, number>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  useEffect(() => {
+    fetchOntology()
+  }, [projectId])
+
+  const load = (data: any) => {
+    setEntityTypes(data.entityTypes.map((type: any) => ({
+      ...type,
+      synonyms: type.synonyms.join(', '),
+      saved: true
+    })))
+    setRelationTypes(data.relationTypes.map((relation: any) => ({
+      ...relation,
+      inverse: relation.inverse.join(', '),
+      domain: relation.domain.join(', '),
+      range: relation.range.join(', '),
+      synonyms: relation.synonyms.join(', ')
+    })))
+    setEntityCounts(data.entityCounts || {})
+  }
+
+  const fetchOntology = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/ontology`)
+      if (response.ok) {
+        load(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch ontology:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/ontology`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entityTypes: entityTypes.map(({ saved, ...type }) => type),
+          relationTypes
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        load(data)
+        setMessage({ text: 'Ontology saved. It applies to extractions from now on.', error: false })
+      } else {
+        setMessage({ text: data.error || 'Failed to save ontology', error: true })
+      }
+    } catch (error) {
+      console.error('Failed to save ontology:', error)
+      setMessage({ text: 'Failed to save ontology', error: true })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateEntityType = (index: number, change: Partial<EntityTypeRow>) => {
+    setEntityTypes(prev => prev.map((type, i) => i === index ? { ...type, ...change } : type))
+  }
+
+  const removeEntityType = (index: number) => {
+    const type = entityTypes[index]
+    const count = type.saved ? entityCounts[type.name] || 0 : 0
+    if (count > 0 && !confirm(`${count} entities have type "${type.label}". They keep it, but it won't be extracted or styled any more. Remove it?`)) {
+      return
+    }
+    setEntityTypes(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const updateRelationType = (index: number, change: Partial<RelationTypeRow>) => {
+    setRelationTypes(prev => prev.map((relation, i) => i === index ? { ...relation, ...change } : relation))
+  }
+
+  if (isLoading) {
+    return <div className="text-[#0033CC] font-medium">Loading ontology...</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Entity types */}
+      <div>
+        <label className="block text-[#666666] text-sm mb-1 font-semibold">ENTITY TYPES</label>
+        <p className="text-[#999] text-xs mb-3">
+          Extraction only keeps entities of these types. Synonyms are other words the model might use for a type.
+        </p>
+        <div className="space-y-2">
+          {entityTypes.map((type, index) => (
+            <div key={index} className="flex items-start gap-2 p-2 border border-[#CCCCCC] rounded">
+              <input
+                type="color"
+                value={type.color}
+                onChange={(e) => updateEntityType(index, { color: e.target.value })}
+                className="w-8 h-7 border border-[#CCCCCC] rounded cursor-pointer"
+                title="Colour"
+              />
+              <div className="flex-1 grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={type.label}
+                  onChange={(e) => updateEntityType(index, { label: e.target.value })}
+                  className={inputClass}
+                  placeholder="Label, e.g. Product line"
+                />
+                {type.saved ? (
+                  <div className="text-[#999] text-xs font-mono py-1" title="Stored on entities; can't be renamed">
+                    {type.name}
+                    {entityCounts[type.name] ? ` · ${entityCounts[type.name]} entities` : ''}
+                  </div>
+                ) : (
+                  <input
+                    type="text"
+                    value={type.name}
+                    onChange={(e) => updateEntityType(index, { name: e.target.value })}
+                    className={`${inputClass} font-mono`}
+                    placeholder="Key (defaults to the label)"
+                  />
+                )}
+                <input
+                  type="text"
+                  value={type.description}
+                  onChange={(e) => updateEntityType(index, { description: e.target.value })}
+                  className={inputClass}
+                  placeholder="Description for the extraction prompt"
+                />
+                <input
+                  type="text"
+                  value={type.synonyms}
+                  onChange={(e) => updateEntityType(index, { synonyms: e.target.value })}
+                  className={inputClass}
+                  placeholder="Synonyms, comma-separated"
+                />
+              </div>
+              <select
+                value={type.shape}
+                onChange={(e) => updateEntityType(index, { shape: e.target.value })}
+                className="bg-white border border-[#CCCCCC] rounded px-1 py-1 text-black text-xs"
+                title="Shape in the graph"
+              >
+                {NODE_SHAPES.map(shape => (
+                  <option key={shape} value={shape}>{shape}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeEntityType(index)}
+                className="text-[#999] hover:text-red-600 text-sm px-1"
+                title="Remove type"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setEntityTypes(prev => [...prev, {
+            name: '', label: '', description: '', color: '#666666', shape: 'circle', size: 30, synonyms: '', saved: false
+          }])}
+          className="mt-2 text-[#0033CC] text-xs font-medium hover:underline"
+        >
+          + Add entity type
+        </button>
+      </div>
+
+      {/* Relationship types */}
+      <div>
+        <label className="block text-[#666666] text-sm mb-1 font-semibold">RELATIONSHIP TYPES</label>
+        <p className="text-[#999] text-xs mb-3">
+          Leave empty to accept any relationship label, with common phrasings mapped onto a built-in vocabulary.
+          Once defined, only these labels are kept; From and To limit which entity types each end may be
+          (comma-separated type keys, blank for any). Inverse forms such as &quot;managed by&quot; are turned round.
+        </p>
+        <div className="space-y-2">
+          {relationTypes.map((relation, index) => (
+            <div key={index} className="flex items-start gap-2 p-2 border border-[#CCCCCC] rounded">
+              <div className="flex-1 grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={relation.domain}
+                  onChange={(e) => updateRelationType(index, { domain: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="From: any"
+                />
+                <input
+                  type="text"
+                  value={relation.label}
+                  onChange={(e) => updateRelationType(index, { label: e.target.value })}
+                  className={inputClass}
+                  placeholder="Label, e.g. supplies"
+                />
+                <input
+                  type="text"
+                  value={relation.range}
+                  onChange={(e) => updateRelationType(index, { range: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                  placeholder="To: any"
+                />
+                <input
+                  type="text"
+                  value={relation.description}
+                  onChange={(e) => updateRelationType(index, { description: e.target.value })}
+                  className={inputClass}
+                  placeholder="Description for the extraction prompt"
+                />
+                <input
+                  type="text"
+                  value={relation.synonyms}
+                  onChange={(e) => updateRelationType(index, { synonyms: e.target.value })}
+                  className={inputClass}
+                  placeholder="Synonyms"
+                />
+                <input
+                  type="text"
+                  value={relation.inverse}
+                  onChange={(e) => updateRelationType(index, { inverse: e.target.value })}
+                  className={inputClass}
+                  placeholder="Inverse forms"
+                />
+              </div>
+              <button
+                onClick={() => setRelationTypes(prev => prev.filter((_, i) => i !== index))}
+                className="text-[#999] hover:text-red-600 text-sm px-1"
+                title="Remove relationship"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setRelationTypes(prev => [...prev, { label: '', description: '', inverse: '', domain: '', range: '', synonyms: '' }])}
+          className="mt-2 text-[#0033CC] text-xs font-medium hover:underline"
+        >
+          + Add relationship type
+        </button>
+      </div>
+
+      <div className="flex items-center justify-end gap-4">
+        {message && (
+          <span className={`text-sm ${message.error ? 'text-red-600' : 'text-green-600'}`}>{message.text}</span>
+        )}
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-[#0033CC] text-white px-4 py-2 rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? 'Saving...' : 'Save Ontology'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,696 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import EntityDetail from './EntityDetail'
+import { Ontology, nodeStyle, typeLabel } from '@/lib/ontology'
+
+interface Endpoint {
+  id: string
+  name: string
+  type: string
+}
+
+interface QueueEvidence {
+  quote: string
+  page: number | null
+  filename: string
+}
+
+interface EntityItem {
+  kind: 'entity'
+  id: string
+  name: string
+  aliases: string[]
+  type: string
+  subtype: string | null
+  description: string | null
+  confidence: number
+  reviewStatus: string
+  document: { id: string; filename: string } | null
+  evidence: QueueEvidence | null
+}
+
+interface EdgeItem {
+  kind: 'edge'
+  id: string
+  label: string
+  rawLabel: string | null
+  relationType: string | null
+  weight: number
+  confidence: number
+  reviewStatus: string
+  source: Endpoint
+  target: Endpoint
+  document: { id: string; filename: string } | null
+  evidence: QueueEvidence | null
+}
+
+type QueueItem = EntityItem | EdgeItem
+
+interface Queue {
+  items: QueueItem[]
+  total: { entities: number; edges: number }
+  documents: Array<{ id: string; filename: string; entities: number; edges: number }>
+  types: Array<{ type: string; entities: number }>
+  relationTypes: Array<{ relationType: string; label: string; edges: number }>
+}
+
+interface GraphNode {
+  id: string
+  name: string
+  type: string
+  confidence: number
+  reviewStatus: string
+  [key: string]: any
+}
+
+interface ReviewQueuePanelProps {
+  projectId: string
+  ontology: Ontology | null
+  onClose: () => void
+  // Called after anything is reviewed, edited or merged, so the graph can reload
+  onChanged: () => void
+}
+
+type Mode = 'review' | 'editLabel' | 'merge'
+
+// The type select holds entity types and relationship types, told apart by a prefix
+const TYPE_PREFIX = 'type:'
+const RELATION_PREFIX = 'relation:'
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+
+export default function ReviewQueuePanel({ projectId, ontology, onClose, onChanged }: ReviewQueuePanelProps) {
+  const [queue, setQueue] = useState<Queue | null>(null)
+  const [index, setIndex] = useState(0)
+  const [kind, setKind] = useState('')
+  const [documentId, setDocumentId] = useState('')
+  const [typeFilter, setTypeFilter] = useState('')
+  const [mode, setMode] = useState<Mode>('review')
+  const [label, setLabel] = useState('')
+  const [entities, setEntities] = useState<GraphNode[] | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [editingEntity, setEditingEntity] = useState<GraphNode | null>(null)
+  const [confirmingBulk, setConfirmingBulk] = useState<'approved' | 'rejected' | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [message, setMessage] = useState('')
+  // The last merge made here, which can be undone from the message it leaves
+  const [lastMergeId, setLastMergeId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const filters = () => {
+    const values: Record<string, string> = {}
+    if (kind) values.kind = kind
+    if (documentId) values.documentId = documentId
+    if (typeFilter.startsWith(TYPE_PREFIX)) values.type = typeFilter.slice(TYPE_PREFIX.length)
+    if (typeFilter.startsWith(RELATION_PREFIX)) values.relationType = typeFilter.slice(RELATION_PREFIX.length)
+    return values
+  }
+
+  useEffect(() => {
+    fetchQueue()
+  }, [projectId, kind, documentId, typeFilter])
+
+  const fetchQueue = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/review?${new URLSearchParams(filters())}`)
+      const data = await response.json()
+      if (response.ok) {
+        setQueue(data)
+        setIndex(0)
+        setMode('review')
+      } else {
+        setError(data.error || 'Failed to load the review queue')
+      }
+    } catch (error) {
+      console.error('Failed to fetch review queue:', error)
+      setError('Failed to load the review queue')
+    }
+  }
+
+  // Other entities are only needed to edit or merge, so they are loaded on first use
+  const loadEntities = async (): Promise<GraphNode[]> => {
+    if (entities) return entities
+    try {
+      const response = await fetch(`/api/projects/${projectId}/graph`)
+      if (response.ok) {
+        const data = await response.json()
+        setEntities(data.nodes)
+        return data.nodes
+      }
+    } catch (error) {
+      console.error('Failed to fetch entities:', error)
+    }
+    setError('Failed to load entities')
+    return []
+  }
+
+  const current = queue?.items[index] || null
+
+  // Take reviewed items out of the queue and keep the position, so the next one moves up
+  const removeFromQueue = (ids: string[]) => {
+    if (!queue) return
+    const removed = queue.items.filter(item => ids.includes(item.id))
+    const items = queue.items.filter(item => !ids.includes(item.id))
+    setQueue({
+      ...queue,
+      items,
+      total: {
+        entities: queue.total.entities - removed.filter(item => item.kind === 'entity').length,
+        edges: queue.total.edges - removed.filter(item => item.kind === 'edge').length
+      }
+    })
+    setIndex(Math.min(index, Math.max(0, items.length - 1)))
+    setMode('review')
+  }
+
+  const review = async (status: 'approved' | 'rejected') => {
+    if (!current || isBusy) return
+    setIsBusy(true)
+    setError('')
+    setMessage('')
+    setLastMergeId(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          [current.kind === 'entity' ? 'entityIds' : 'edgeIds']: [current.id]
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        removeFromQueue([current.id])
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to update review status')
+      }
+    } catch (error) {
+      console.error('Failed to update review status:', error)
+      setError('Failed to update review status')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  // Approve or reject everything pending that matches the filters, not just what is loaded
+  const reviewAll = async (status: 'approved' | 'rejected') => {
+    setIsBusy(true)
+    setError('')
+    setMessage('')
+    setLastMergeId(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, ...filters() })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(`${status === 'approved' ? 'Approved' : 'Rejected'} ${data.entities} entities and ${data.edges} relationships`)
+        setConfirmingBulk(null)
+        onChanged()
+        fetchQueue()
+      } else {
+        setError(data.error || 'Failed to update review status')
+      }
+    } catch (error) {
+      console.error('Failed to update review status:', error)
+      setError('Failed to update review status')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const edit = async () => {
+    if (!current) return
+    setError('')
+    if (current.kind === 'edge') {
+      setLabel(current.label)
+      setMode('editLabel')
+      return
+    }
+    const node = (await loadEntities()).find(entity => entity.id === current.id)
+    if (node) setEditingEntity(node)
+  }
+
+  const saveLabel = async () => {
+    if (!current || current.kind !== 'edge' || !label.trim()) return
+    setIsBusy(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/edges/${current.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: label.trim() })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        // The label may have been turned around, swapping the endpoints
+        const { source, target } = data.source === current.source.id
+          ? { source: current.source, target: current.target }
+          : { source: current.target, target: current.source }
+        setQueue(previous => previous && {
+          ...previous,
+          items: previous.items.map(item => item.id === current.id
+            ? { ...current, label: data.label, rawLabel: data.rawLabel, relationType: data.relationType, source, target }
+            : item)
+        })
+        setMode('review')
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to save relationship')
+      }
+    } catch (error) {
+      console.error('Failed to update relationship:', error)
+      setError('Failed to save relationship')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const startMerge = async () => {
+    if (!current || current.kind !== 'entity') return
+    setError('')
+    setMergeTargetId('')
+    await loadEntities()
+    setMode('merge')
+  }
+
+  // The entity under review is folded into the one chosen, which keeps its name and status
+  const merge = async () => {
+    if (!current || current.kind !== 'entity' || !mergeTargetId) return
+    setIsBusy(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ survivorId: mergeTargetId, entityIds: [current.id] })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage(`Merged ${current.name} into ${data.entity.name}`)
+        setLastMergeId(data.mergeId)
+        setEntities(previous => previous && previous.filter(entity => entity.id !== current.id))
+        removeFromQueue([current.id])
+        onChanged()
+      } else {
+        setError(data.error || 'Failed to merge entities')
+      }
+    } catch (error) {
+      console.error('Failed to merge entities:', error)
+      setError('Failed to merge entities')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  // The merged entity comes back as it was, still pending, so it is reloaded into the queue
+  const undoLastMerge = async () => {
+    if (!lastMergeId) return
+    setIsBusy(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/merge/${lastMergeId}/undo`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        setMessage('Merge undone')
+        setLastMergeId(null)
+        setEntities(null)
+        onChanged()
+        fetchQueue()
+      } else {
+        setError(data.error || 'Failed to undo merge')
+      }
+    } catch (error) {
+      console.error('Failed to undo merge:', error)
+      setError('Failed to undo merge')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const move = (step: number) => {
+    if (!queue || queue.items.length === 0) return
+    setIndex(i => Math.min(queue.items.length - 1, Math.max(0, i + step)))
+    setMode('review')
+  }
+
+  // a approve, r reject, e edit, m merge, j/k or the arrow keys to move; Escape backs out
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (editingEntity || event.metaKey || event.ctrlKey || event.altKey) return
+      if (event.key === 'Escape') {
+        if (mode !== 'review') setMode('review')
+        else onClose()
+        return
+      }
+      if (isTyping(event.target) || mode !== 'review') return
+      switch (event.key) {
+        case 'a': review('approved'); break
+        case 'r': review('rejected'); break
+        case 'e': edit(); break
+        case 'm': startMerge(); break
+        case 'j': case 'ArrowRight': case 'ArrowDown': move(1); break
+        case 'k': case 'ArrowLeft': case 'ArrowUp': move(-1); break
+        default: return
+      }
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  })
+
+  const remaining = queue ? queue.total.entities + queue.total.edges : 0
+
+  // Entities of the same type are the likeliest duplicates, so they come first
+  const mergeTargets = current?.kind === 'entity' && entities
+    ? entities
+        .filter(entity => entity.id !== current.id && entity.reviewStatus !== 'rejected')
+        .sort((a, b) => Number(b.type === current.type) - Number(a.type === current.type) || a.name.localeCompare(b.name))
+    : []
+
+  const typeChip = (type: string) => (
+    <span
+      className="px-2 py-0.5 rounded text-xs font-medium"
+      style={{ backgroundColor: nodeStyle(ontology, type).color + '26', color: '#000' }}
+    >
+      {typeLabel(ontology, type)}
+    </span>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            REVIEW QUEUE
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-[#666666] mb-4">
+          {queue
+            ? `${queue.total.entities} entities and ${queue.total.edges} relationships waiting for review, least confident first`
+            : 'Loading...'}
+        </p>
+
+        {/* Filters */}
+        {queue && (
+          <div className="grid grid-cols-3 gap-2 mb-3 text-xs">
+            <select
+              value={kind}
+              onChange={e => { setKind(e.target.value); setTypeFilter('') }}
+              className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+            >
+              <option value="">Entities and relationships</option>
+              <option value="entity">Entities</option>
+              <option value="edge">Relationships</option>
+            </select>
+            <select
+              value={documentId}
+              onChange={e => setDocumentId(e.target.value)}
+              className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+            >
+              <option value="">All documents</option>
+              {queue.documents.map(document => (
+                <option key={document.id} value={document.id}>
+                  {document.filename} ({document.entities + document.edges})
+                </option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={e => setTypeFilter(e.target.value)}
+              className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+            >
+              <option value="">All types</option>
+              {kind !== 'edge' && queue.types.length > 0 && (
+                <optgroup label="Entity types">
+                  {queue.types.map(group => (
+                    <option key={group.type} value={TYPE_PREFIX + group.type}>
+                      {typeLabel(ontology, group.type)} ({group.entities})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+              {kind !== 'entity' && queue.relationTypes.length > 0 && (
+                <optgroup label="Relationships">
+                  {queue.relationTypes.map(group => (
+                    <option key={group.relationType} value={RELATION_PREFIX + group.relationType}>
+                      {group.label} ({group.edges})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </div>
+        )}
+
+        {/* Bulk actions */}
+        {queue && remaining > 0 && (
+          <div className="flex items-center gap-3 mb-6 text-xs">
+            {confirmingBulk ? (
+              <>
+                <span className={confirmingBulk === 'approved' ? 'text-black' : 'text-red-600'}>
+                  {confirmingBulk === 'approved' ? 'Approve' : 'Reject'} all {remaining} matching items?
+                </span>
+                <button
+                  onClick={() => reviewAll(confirmingBulk)}
+                  disabled={isBusy}
+                  className={`px-3 py-1 text-white rounded font-semibold disabled:opacity-50 ${
+                    confirmingBulk === 'approved' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                  }`}
+                >
+                  {confirmingBulk === 'approved' ? 'Approve all' : 'Reject all'}
+                </button>
+                <button onClick={() => setConfirmingBulk(null)} className="text-[#666666] hover:text-black">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="text-[#666666]">All {remaining} matching:</span>
+                <button onClick={() => setConfirmingBulk('approved')} className="text-green-600 hover:underline">
+                  Approve all
+                </button>
+                <button onClick={() => setConfirmingBulk('rejected')} className="text-red-600 hover:underline">
+                  Reject all
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+        {message && (
+          <div className="text-green-600 text-sm mb-4">
+            {message}
+            {lastMergeId && (
+              <button onClick={undoLastMerge} disabled={isBusy} className="ml-3 text-[#0033CC] hover:underline disabled:opacity-50">
+                Undo
+              </button>
+            )}
+          </div>
+        )}
+
+        {queue && !current && (
+          <div className="text-center text-[#666666] text-sm py-8">Nothing left to review here.</div>
+        )}
+
+        {/* Current item */}
+        {current && queue && (
+          <div className="border border-[#CCCCCC] rounded-lg p-4 mb-4">
+            <div className="flex items-center justify-between text-xs text-[#666666] mb-3">
+              <span>
+                {index + 1} of {queue.items.length}
+                {remaining > queue.items.length && ` loaded (${remaining} in all)`}
+              </span>
+              <span className={current.confidence < 0.5 ? 'text-red-600 font-semibold' : 'font-semibold'}>
+                {Math.round(current.confidence * 100)}% confidence
+              </span>
+            </div>
+
+            {current.kind === 'entity' ? (
+              <>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-black text-lg font-semibold">{current.name}</span>
+                  {typeChip(current.type)}
+                  {current.subtype && <span className="text-xs text-[#666666]">{current.subtype}</span>}
+                </div>
+                {current.aliases.length > 0 && (
+                  <div className="text-xs text-[#666666] mb-1">Also known as {current.aliases.join(', ')}</div>
+                )}
+                {current.description && <p className="text-sm text-black mb-2">{current.description}</p>}
+              </>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+                <span className="text-black font-semibold">{current.source.name}</span>
+                {typeChip(current.source.type)}
+                <span className="text-[#0033CC] font-medium">
+                  → {current.label}{current.rawLabel && current.rawLabel.toLowerCase() !== current.label && ` ("${current.rawLabel}")`} →
+                </span>
+                <span className="text-black font-semibold">{current.target.name}</span>
+                {typeChip(current.target.type)}
+              </div>
+            )}
+
+            {current.evidence ? (
+              <blockquote className="text-xs text-black border-l-2 border-[#CCCCCC] pl-3 my-3 italic">
+                “{current.evidence.quote}”
+                <div className="not-italic text-[#666666] mt-1">
+                  {current.evidence.filename}{current.evidence.page && `, page ${current.evidence.page}`}
+                </div>
+              </blockquote>
+            ) : (
+              <div className="text-xs text-[#999] my-3">
+                No supporting quote{current.document && ` · from ${current.document.filename}`}
+              </div>
+            )}
+
+            {mode === 'editLabel' && current.kind === 'edge' && (
+              <div className="flex items-center gap-2 mb-3 text-xs">
+                <input
+                  value={label}
+                  onChange={e => setLabel(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') saveLabel() }}
+                  autoFocus
+                  className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                />
+                <button
+                  onClick={saveLabel}
+                  disabled={isBusy || !label.trim()}
+                  className="px-3 py-1 bg-[#0033CC] text-white rounded font-semibold disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button onClick={() => setMode('review')} className="text-[#666666] hover:text-black">
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {mode === 'merge' && current.kind === 'entity' && (
+              <div className="flex items-center gap-2 mb-3 text-xs">
+                <span className="text-[#666666]">Same as</span>
+                <select
+                  value={mergeTargetId}
+                  onChange={e => setMergeTargetId(e.target.value)}
+                  autoFocus
+                  className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                >
+                  <option value="">Choose an entity…</option>
+                  {mergeTargets.map(entity => (
+                    <option key={entity.id} value={entity.id}>
+                      {entity.name} ({typeLabel(ontology, entity.type)})
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={merge}
+                  disabled={isBusy || !mergeTargetId}
+                  className="px-3 py-1 bg-[#0033CC] text-white rounded font-semibold disabled:opacity-50"
+                >
+                  Merge
+                </button>
+                <button onClick={() => setMode('review')} className="text-[#666666] hover:text-black">
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <button
+                onClick={() => review('approved')}
+                disabled={isBusy}
+                className="px-3 py-1 bg-green-600 text-white rounded font-semibold hover:bg-green-700 disabled:opacity-50"
+              >
+                Approve <kbd className="opacity-70">A</kbd>
+              </button>
+              <button
+                onClick={() => review('rejected')}
+                disabled={isBusy}
+                className="px-3 py-1 bg-red-600 text-white rounded font-semibold hover:bg-red-700 disabled:opacity-50"
+              >
+                Reject <kbd className="opacity-70">R</kbd>
+              </button>
+              <button
+                onClick={edit}
+                disabled={isBusy}
+                className="px-3 py-1 border border-[#CCCCCC] text-black rounded hover:border-[#0033CC] disabled:opacity-50"
+              >
+                Edit <kbd className="text-[#999]">E</kbd>
+              </button>
+              {current.kind === 'entity' && (
+                <button
+                  onClick={startMerge}
+                  disabled={isBusy}
+                  className="px-3 py-1 border border-[#CCCCCC] text-black rounded hover:border-[#0033CC] disabled:opacity-50"
+                >
+                  Merge <kbd className="text-[#999]">M</kbd>
+                </button>
+              )}
+              <span className="ml-auto flex items-center gap-2">
+                <button onClick={() => move(-1)} disabled={index === 0} className="text-[#666666] hover:text-black disabled:opacity-30">
+                  ← Previous
+                </button>
+                <button
+                  onClick={() => move(1)}
+                  disabled={index >= queue.items.length - 1}
+                  className="text-[#666666] hover:text-black disabled:opacity-30"
+                >
+                  Skip →
+                </button>
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Up next */}
+        {queue && queue.items.length > index + 1 && (
+          <>
+            <div className="text-[#666666] text-xs mb-2 font-semibold tracking-wide">UP NEXT</div>
+            <div className="space-y-1">
+              {queue.items.slice(index + 1, index + 6).map((item, offset) => (
+                <button
+                  key={item.id}
+                  onClick={() => { setIndex(index + 1 + offset); setMode('review') }}
+                  className="w-full flex items-center justify-between text-left text-xs px-2 py-1 rounded hover:bg-[#F5F5F5]"
+                >
+                  <span className="text-black truncate">
+                    {item.kind === 'entity' ? item.name : `${item.source.name} → ${item.label} → ${item.target.name}`}
+                  </span>
+                  <span className="text-[#666666] ml-2">{Math.round(item.confidence * 100)}%</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-[#999] mt-6">
+          Keys: A approve · R reject · E edit · M merge · J/K or arrows to move · Esc to close
+        </p>
+      </div>
+
+      {editingEntity && (
+        <EntityDetail
+          entity={editingEntity}
+          projectId={projectId}
+          onClose={() => setEditingEntity(null)}
+          onChanged={() => {
+            setEntities(null)
+            onChanged()
+            fetchQueue()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+export interface EvidenceItem {
+  id: string
+  documentId: string
+  filename: string
+  quote: string
+  startOffset: number | null
+  endOffset: number | null
+  page: number | null
+}
+
+interface SourcePassageViewerProps {
+  projectId: string
+  evidence: EvidenceItem
+  onClose: () => void
+}
+
+// Characters of surrounding text shown either side of the quote
+const CONTEXT_CHARS = 1500
+
+export default function SourcePassageViewer({ projectId, evidence, onClose }: SourcePassageViewerProps) {
+  const [content, setContent] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const highlightRef = useRef<HTMLElement>(null)
+
+  useEffect(() => {
+    fetchDocument()
+  }, [projectId, evidence.documentId])
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' })
+  }, [content])
+
+  const fetchDocument = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${evidence.documentId}`)
+      const data = await response.json()
+      if (response.ok) {
+        setContent(data.content || '')
+      } else {
+        setError(data.error || 'Failed to load document')
+      }
+    } catch (error) {
+      console.error('Failed to fetch document:', error)
+      setError('Failed to load document')
+    }
+  }
+
+  const located = content !== null && evidence.startOffset !== null && evidence.endOffset !== null
+
+  const renderPassage = () => {
+    if (content === null) return null
+    if (!located) {
+      return (
+        <>
+          <div className="text-[#999] text-xs mb-2">This quote couldn&apos;t be found word for word in the document.</div>
+          <blockquote className="border-l-2 border-[#0033CC] pl-3 text-black">{evidence.quote}</blockquote>
+        </>
+      )
+    }
+
+    const start = evidence.startOffset!
+    const end = evidence.endOffset!
+    const from = Math.max(0, start - CONTEXT_CHARS)
+    const to = Math.min(content.length, end + CONTEXT_CHARS)
+    // Page breaks are stored as form feeds; show them as a visible rule
+    const clean = (text: string) => text.replace(/\f/g, '\n\n────────\n\n')
+
+    return (
+      <div className="whitespace-pre-wrap text-[#333333] leading-relaxed">
+        {from > 0 && '…'}
+        {clean(content.slice(from, start))}
+        <mark ref={highlightRef} className="bg-yellow-200 text-black rounded px-0.5">
+          {clean(content.slice(start, end))}
+        </mark>
+        {clean(content.slice(end, to))}
+        {to < content.length && '…'}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] flex flex-col shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            SOURCE
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-[#666666] text-sm mb-4">
+          {evidence.filename}
+          {evidence.page !== null && ` · page ${evidence.page}`}
+        </p>
+
+        {content === null && !error && <div className="text-[#0033CC] font-medium">Loading document...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <div className="overflow-y-auto text-sm border border-[#CCCCCC] rounded p-4">
+          {renderPassage()}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,201 @@
+'use client'
+
+import { useState } from 'react'
+import { EvidenceItem } from './SourcePassageViewer'
+import { Ontology, typeLabel } from '@/lib/ontology'
+
+interface SplitConnection {
+  edgeId: string
+  relationship: string
+  direction: 'incoming' | 'outgoing'
+  entity: { name: string }
+}
+
+interface SplitEntityPanelProps {
+  projectId: string
+  ontology: Ontology | null
+  entity: { id: string; name: string; type: string }
+  connections: SplitConnection[]
+  evidence: EvidenceItem[]
+  onClose: () => void
+  // Called with the original as it is after the split, and the names of the new entities
+  onSplit: (entity: any, names: string[]) => void
+}
+
+interface Part {
+  name: string
+  type: string
+}
+
+// Where each relationship or quote goes: an index into the parts, or STAYS for the original
+const STAYS = -1
+
+export default function SplitEntityPanel({ projectId, ontology, entity, connections, evidence, onClose, onSplit }: SplitEntityPanelProps) {
+  const [parts, setParts] = useState<Part[]>([{ name: '', type: entity.type }])
+  const [edgeParts, setEdgeParts] = useState<Record<string, number>>({})
+  const [evidenceParts, setEvidenceParts] = useState<Record<string, number>>({})
+  const [isSplitting, setIsSplitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const updatePart = (index: number, change: Partial<Part>) =>
+    setParts(prev => prev.map((part, i) => i === index ? { ...part, ...change } : part))
+
+  // Removing a part sends what was assigned to it back to the original
+  const removePart = (index: number) => {
+    const shift = (assignments: Record<string, number>) => {
+      const next: Record<string, number> = {}
+      for (const id of Object.keys(assignments)) {
+        const part = assignments[id]
+        next[id] = part === index ? STAYS : part > index ? part - 1 : part
+      }
+      return next
+    }
+    setParts(prev => prev.filter((_, i) => i !== index))
+    setEdgeParts(shift)
+    setEvidenceParts(shift)
+  }
+
+  const assigned = (assignments: Record<string, number>, index: number) =>
+    Object.keys(assignments).filter(id => assignments[id] === index)
+
+  const split = async () => {
+    setIsSplitting(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/${entity.id}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          entities: parts.map((part, index) => ({
+            name: part.name.trim(),
+            type: part.type,
+            edgeIds: assigned(edgeParts, index),
+            evidenceIds: assigned(evidenceParts, index)
+          }))
+        })
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onSplit(data.entity, parts.map(part => part.name.trim()))
+      } else {
+        setError(data.error || 'Failed to split entity')
+        setIsSplitting(false)
+      }
+    } catch (error) {
+      console.error('Failed to split entity:', error)
+      setError('Failed to split entity')
+      setIsSplitting(false)
+    }
+  }
+
+  const entityTypes = ontology ? ontology.entityTypes.map(type => type.name) : [entity.type]
+
+  const destination = (value: number | undefined, onChange: (value: number) => void) => (
+    <select
+      value={value ?? STAYS}
+      onChange={e => onChange(Number(e.target.value))}
+      className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white max-w-40"
+    >
+      <option value={STAYS}>Stays with {entity.name}</option>
+      {parts.map((part, index) => (
+        <option key={index} value={index}>{part.name.trim() || `New entity ${index + 1}`}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-2xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            SPLIT {entity.name.toUpperCase()}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-[#666666] mb-6">
+          For when one entity is really several: name the new entities, then choose which relationships and quotes move to each.
+          {' '}{entity.name} keeps everything else.
+        </p>
+
+        <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">NEW ENTITIES</div>
+        <div className="space-y-2 mb-2">
+          {parts.map((part, index) => (
+            <div key={index} className="flex gap-2 text-xs">
+              <input
+                value={part.name}
+                onChange={e => updatePart(index, { name: e.target.value })}
+                placeholder={`New entity ${index + 1}`}
+                className="flex-1 px-2 py-1 border border-[#CCCCCC] rounded text-black"
+              />
+              <select
+                value={part.type}
+                onChange={e => updatePart(index, { type: e.target.value })}
+                className="px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+              >
+                {entityTypes.map(type => (
+                  <option key={type} value={type}>{typeLabel(ontology, type)}</option>
+                ))}
+              </select>
+              {parts.length > 1 && (
+                <button onClick={() => removePart(index)} className="text-[#999] hover:text-red-600" title="Remove">
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => setParts(prev => [...prev, { name: '', type: entity.type }])}
+          className="text-xs text-[#0033CC] hover:underline mb-6"
+        >
+          + Another entity
+        </button>
+
+        {connections.length > 0 && (
+          <>
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">RELATIONSHIPS</div>
+            <div className="space-y-1 mb-6">
+              {connections.map(conn => (
+                <div key={conn.edgeId} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-black truncate">
+                    {conn.direction === 'outgoing' ? '→' : '←'} {conn.relationship} {conn.entity.name}
+                  </span>
+                  {destination(edgeParts[conn.edgeId], part => setEdgeParts(prev => ({ ...prev, [conn.edgeId]: part })))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {evidence.length > 0 && (
+          <>
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">SOURCES</div>
+            <div className="space-y-1 mb-6">
+              {evidence.map(item => (
+                <div key={item.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-[#333333] italic truncate" title={item.quote}>&ldquo;{item.quote}&rdquo;</span>
+                  {destination(evidenceParts[item.id], part => setEvidenceParts(prev => ({ ...prev, [item.id]: part })))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        <button
+          onClick={split}
+          disabled={isSplitting || parts.some(part => !part.name.trim())}
+          className="px-4 py-1 bg-[#0033CC] text-white rounded text-sm font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSplitting ? 'Splitting...' : 'Split'}
+        </button>
+      </div>
+    </div>
+  )
+}
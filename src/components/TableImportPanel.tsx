@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Ontology, typeLabel } from '@/lib/ontology'
+
+type ColumnRole = 'ignore' | 'name' | 'type' | 'description' | 'metadata' | 'relationship'
+
+interface ColumnMapping {
+  role: ColumnRole
+  key?: string
+  label?: string
+  targetType?: string
+}
+
+interface TableMapping {
+  sheet?: string
+  headerRow: boolean
+  defaultType: string
+  columns: ColumnMapping[]
+}
+
+interface TablePreview {
+  filename: string
+  sheets: Array<{ name: string; rows: number }>
+  sheet: string
+  headers: string[]
+  rows: string[][]
+  rowCount: number
+  mapping: TableMapping
+}
+
+interface TableImportPanelProps {
+  projectId: string
+  documentId: string
+  ontology: Ontology | null
+  onClose: () => void
+  onApplied: () => void
+}
+
+const ROLES: Array<{ value: ColumnRole; label: string }> = [
+  { value: 'ignore', label: 'Ignore' },
+  { value: 'name', label: 'Entity name' },
+  { value: 'type', label: 'Entity type' },
+  { value: 'description', label: 'Description' },
+  { value: 'metadata', label: 'Metadata' },
+  { value: 'relationship', label: 'Relationship' }
+]
+
+export default function TableImportPanel({ projectId, documentId, ontology, onClose, onApplied }: TableImportPanelProps) {
+  const [preview, setPreview] = useState<TablePreview | null>(null)
+  const [mapping, setMapping] = useState<TableMapping | null>(null)
+  const [insights, setInsights] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [notice, setNotice] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchPreview()
+  }, [projectId, documentId])
+
+  const fetchPreview = async (sheet?: string) => {
+    setError('')
+    try {
+      const query = sheet ? `?sheet=${encodeURIComponent(sheet)}` : ''
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/import${query}`)
+      const data = await response.json()
+      if (response.ok) {
+        setPreview(data)
+        setMapping(data.mapping)
+      } else {
+        setError(data.error || 'Failed to read the spreadsheet')
+      }
+    } catch (error) {
+      console.error('Failed to fetch import preview:', error)
+      setError('Failed to read the spreadsheet')
+    }
+  }
+
+  const updateColumn = (index: number, changes: Partial<ColumnMapping>) => {
+    if (!mapping) return
+    setMapping({
+      ...mapping,
+      columns: mapping.columns.map((column, i) => i === index ? { ...column, ...changes } : column)
+    })
+  }
+
+  const runImport = async () => {
+    if (!mapping) return
+    setIsImporting(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mapping, insights })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Import failed')
+        return
+      }
+
+      onApplied()
+      const skipped = data.skippedRows > 0 ? ` ${data.skippedRows} rows without a name were skipped.` : ''
+      if (data.status === 'review') {
+        setNotice(`The import changes what this document contributed before. Review the changes from the documents list.${skipped}`)
+      } else if (data.warning || skipped) {
+        setNotice(`Imported ${data.summary.entities} entities and ${data.summary.relationships} relationships.${skipped}${data.warning ? ` ${data.warning}` : ''}`)
+      } else {
+        onClose()
+      }
+    } catch (error) {
+      console.error('Failed to import spreadsheet:', error)
+      setError('Import failed')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const typeNames = ontology?.entityTypes.map(t => t.name) || []
+  const typeOptions = (selected?: string) => (selected && !typeNames.includes(selected) ? [selected, ...typeNames] : typeNames)
+    .map(name => <option key={name} value={name}>{typeLabel(ontology, name)}</option>)
+  const sampleRows = preview && mapping ? preview.rows.slice(mapping.headerRow ? 1 : 0) : []
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-4xl max-h-[85vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            IMPORT SPREADSHEET
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+            disabled={isImporting}
+          >
+            ✕
+          </button>
+        </div>
+        {preview && (
+          <p className="text-[#666666] text-sm mb-6">
+            {preview.filename} · {preview.rowCount} rows
+          </p>
+        )}
+
+        {!preview && !error && <div className="text-[#0033CC] font-medium">Reading spreadsheet...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        {notice ? (
+          <>
+            <div className="text-[#666666] text-sm mb-6">{notice}</div>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-6 py-2 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          </>
+        ) : preview && mapping && (
+          <>
+            <div className="flex flex-wrap items-center gap-6 mb-6 text-xs text-[#666666]">
+              {preview.sheets.length > 1 && (
+                <label className="flex items-center gap-2">
+                  Sheet
+                  <select
+                    value={preview.sheet}
+                    onChange={(e) => fetchPreview(e.target.value)}
+                    className="bg-white border border-[#CCCCCC] rounded px-1 py-1 text-black text-xs"
+                  >
+                    {preview.sheets.map(sheet => (
+                      <option key={sheet.name} value={sheet.name}>{sheet.name} ({sheet.rows} rows)</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={mapping.headerRow}
+                  onChange={() => setMapping({ ...mapping, headerRow: !mapping.headerRow })}
+                  className="text-[#0033CC] focus:ring-[#0033CC]"
+                />
+                First row is a header
+              </label>
+              <label className="flex items-center gap-2">
+                Type for rows without one
+                <select
+                  value={mapping.defaultType}
+                  onChange={(e) => setMapping({ ...mapping, defaultType: e.target.value })}
+                  className="bg-white border border-[#CCCCCC] rounded px-1 py-1 text-black text-xs"
+                >
+                  {typeOptions(mapping.defaultType)}
+                </select>
+              </label>
+            </div>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">COLUMNS</div>
+            <p className="text-[#999] text-xs mb-3">
+              Each row becomes an entity. Relationship columns name other entities, e.g. a Manager column as
+              &quot;reports to&quot;; several names in one cell can be separated by ; or |.
+            </p>
+            <div className="border border-[#CCCCCC] rounded p-3 mb-6 space-y-2">
+              {mapping.columns.map((column, index) => (
+                <div key={index} className="grid grid-cols-4 gap-2 items-center text-xs">
+                  <span className="text-black truncate" title={preview.headers[index]}>
+                    {mapping.headerRow ? preview.headers[index] : `Column ${index + 1}`}
+                  </span>
+                  <select
+                    value={column.role}
+                    onChange={(e) => updateColumn(index, { role: e.target.value as ColumnRole })}
+                    className="bg-white border border-[#CCCCCC] rounded px-1 py-1 text-black text-xs"
+                  >
+                    {ROLES.map(role => <option key={role.value} value={role.value}>{role.label}</option>)}
+                  </select>
+                  {column.role === 'metadata' && (
+                    <input
+                      type="text"
+                      value={column.key || ''}
+                      onChange={(e) => updateColumn(index, { key: e.target.value })}
+                      placeholder="metadata key"
+                      className="col-span-2 bg-white border border-[#CCCCCC] rounded px-2 py-1 text-black text-xs focus:outline-none focus:border-[#0033CC]"
+                    />
+                  )}
+                  {column.role === 'relationship' && (
+                    <>
+                      <input
+                        type="text"
+                        value={column.label || ''}
+                        onChange={(e) => updateColumn(index, { label: e.target.value })}
+                        placeholder="label, e.g. reports to"
+                        className="bg-white border border-[#CCCCCC] rounded px-2 py-1 text-black text-xs focus:outline-none focus:border-[#0033CC]"
+                      />
+                      <select
+                        value={column.targetType || mapping.defaultType}
+                        onChange={(e) => updateColumn(index, { targetType: e.target.value })}
+                        className="bg-white border border-[#CCCCCC] rounded px-1 py-1 text-black text-xs"
+                        title="Type of the entities this column names"
+                      >
+                        {typeOptions(column.targetType)}
+                      </select>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">PREVIEW</div>
+            <div className="border border-[#CCCCCC] rounded mb-6 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="bg-[#F5F5F5]">
+                    {mapping.columns.map((column, index) => (
+                      <th key={index} className="text-left px-2 py-1 font-medium text-[#666666] whitespace-nowrap">
+                        {column.role === 'ignore' ? '—' : column.role === 'metadata' ? column.key : column.role === 'relationship' ? column.label : column.role}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sampleRows.map((row, r) => (
+                    <tr key={r} className="border-t border-[#E5E5E5]">
+                      {mapping.columns.map((column, c) => (
+                        <td key={c} className={`px-2 py-1 whitespace-nowrap max-w-[12rem] truncate ${column.role === 'ignore' ? 'text-[#CCCCCC]' : 'text-black'}`}>
+                          {row[c]}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-[#666666] mb-6 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={insights}
+                onChange={() => setInsights(!insights)}
+                className="text-[#0033CC] focus:ring-[#0033CC]"
+              />
+              Then ask the AI for insights only (the rows themselves are imported without it)
+            </label>
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={onClose}
+                disabled={isImporting}
+                className="px-6 py-2 bg-white border border-[#CCCCCC] text-[#333333] rounded hover:bg-[#F5F5F5] transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={runImport}
+                disabled={isImporting}
+                className="px-6 py-2 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Ontology, typeLabel } from '@/lib/ontology'
+
+interface TimelineDocument {
+  id: string
+  filename: string
+  folderPath: string | null
+  effectiveDate: string | null
+  seriesId: string | null
+  version: number
+  createdAt: string
+}
+
+interface ChangedEntity {
+  id: string
+  name: string
+  type: string
+}
+
+interface ChangedRelationship {
+  source: string
+  target: string
+  label: string
+}
+
+interface TemporalChanges {
+  entities: { added: ChangedEntity[]; removed: ChangedEntity[] }
+  relationships: { added: ChangedRelationship[]; removed: ChangedRelationship[] }
+}
+
+interface TimelinePanelProps {
+  projectId: string
+  ontology: Ontology | null
+  onClose: () => void
+  // Called after a document's date or version changes, so the graph can be reloaded
+  onChanged: () => void
+}
+
+const toDateInput = (value: string | null) => value ? value.slice(0, 10) : ''
+
+// Entities grouped by type, largest group first: "Person (3): Ann Lee, ..."
+const groupByType = (entities: ChangedEntity[]) => {
+  const groups = new Map<string, ChangedEntity[]>()
+  for (const entity of entities) groups.set(entity.type, [...(groups.get(entity.type) || []), entity])
+  return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)
+}
+
+export default function TimelinePanel({ projectId, ontology, onClose, onChanged }: TimelinePanelProps) {
+  const [documents, setDocuments] = useState<TimelineDocument[]>([])
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [changes, setChanges] = useState<TemporalChanges | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetchTimeline(true)
+  }, [projectId])
+
+  const fetchTimeline = async (initial = false) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/timeline`)
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to load timeline')
+        return
+      }
+      setDocuments(data.documents)
+      // Compare the earliest and latest dated documents to begin with
+      const dates = data.documents.map((doc: TimelineDocument) => toDateInput(doc.effectiveDate)).filter(Boolean).sort()
+      if (initial && dates.length > 1) {
+        setFrom(dates[0])
+        setTo(dates[dates.length - 1])
+      }
+    } catch (error) {
+      console.error('Failed to fetch timeline:', error)
+      setError('Failed to load timeline')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateDocument = async (documentId: string, change: { effectiveDate?: string | null; versionOf?: string | null }) => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${documentId}/version`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change)
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to update document')
+        return
+      }
+      setChanges(null)
+      await fetchTimeline()
+      onChanged()
+    } catch (error) {
+      console.error('Failed to update document version:', error)
+      setError('Failed to update document')
+    }
+  }
+
+  const compare = async () => {
+    if (!from || !to) return
+    setIsComparing(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/timeline?from=${from}&to=${to}`)
+      const data = await response.json()
+      if (response.ok) {
+        setChanges(data.changes)
+      } else {
+        setError(data.error || 'Failed to compare dates')
+      }
+    } catch (error) {
+      console.error('Failed to compare dates:', error)
+      setError('Failed to compare dates')
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  const entityList = (title: string, entities: ChangedEntity[], colour: string) => (
+    <div className="mb-4">
+      <div className={`text-xs font-semibold mb-1 ${colour}`}>{title} ({entities.length})</div>
+      {entities.length === 0 && <div className="text-xs text-[#999]">None</div>}
+      {groupByType(entities).map(([type, group]) => (
+        <div key={type} className="text-xs text-black mb-1">
+          <span className="text-[#666666]">{typeLabel(ontology, type)} ({group.length}):</span>{' '}
+          {group.map(entity => entity.name).join(', ')}
+        </div>
+      ))}
+    </div>
+  )
+
+  const relationshipList = (title: string, relationships: ChangedRelationship[], colour: string) => (
+    <div className="mb-4">
+      <div className={`text-xs font-semibold mb-1 ${colour}`}>{title} ({relationships.length})</div>
+      {relationships.length === 0 && <div className="text-xs text-[#999]">None</div>}
+      {relationships.map((relationship, index) => (
+        <div key={index} className="text-xs text-black">
+          {relationship.source} <span className="text-[#666666]">{relationship.label}</span> {relationship.target}
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white border border-[#CCCCCC] rounded-lg p-8 w-full max-w-3xl max-h-[80vh] overflow-y-auto shadow-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-black text-xl font-semibold tracking-wide">
+            🕑 TIMELINE
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-[#666666] hover:text-black text-xl"
+          >
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-[#666666] mb-6">
+          What each document says holds from its effective date until a later version of it takes over.
+          Undated documents hold at every date.
+        </p>
+
+        {isLoading && <div className="text-[#0033CC] font-medium">Loading timeline...</div>}
+        {error && <div className="text-red-600 text-sm mb-4">{error}</div>}
+
+        {!isLoading && (
+          <>
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">DOCUMENTS</div>
+            <div className="border border-[#CCCCCC] rounded mb-6 max-h-64 overflow-y-auto">
+              {documents.length === 0 && <div className="p-3 text-xs text-[#999]">No documents yet</div>}
+              {documents.map(doc => (
+                <div key={doc.id} className="flex items-center gap-3 px-3 py-2 text-xs border-b border-[#CCCCCC] last:border-b-0">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-black truncate">
+                      {doc.filename}
+                      {(doc.seriesId || documents.some(other => other.seriesId === doc.id)) && <span className="text-[#666666]"> · v{doc.version}</span>}
+                    </div>
+                    {doc.folderPath && <div className="text-[#999] truncate">📁 {doc.folderPath}</div>}
+                  </div>
+                  <input
+                    type="date"
+                    value={toDateInput(doc.effectiveDate)}
+                    onChange={e => updateDocument(doc.id, { effectiveDate: e.target.value || null })}
+                    title="Effective date"
+                    className="px-2 py-1 border border-[#CCCCCC] rounded text-black"
+                  />
+                  <select
+                    value={doc.seriesId || ''}
+                    onChange={e => updateDocument(doc.id, { versionOf: e.target.value || null })}
+                    title="Later version of"
+                    className="w-40 px-2 py-1 border border-[#CCCCCC] rounded text-black bg-white"
+                  >
+                    <option value="">Not a version</option>
+                    {documents.filter(other => other.id !== doc.id).map(other => (
+                      <option key={other.id} value={other.id}>Version of {other.filename}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">WHAT CHANGED</div>
+            <div className="flex items-center gap-2 mb-4 text-xs">
+              <input
+                type="date"
+                value={from}
+                onChange={e => setFrom(e.target.value)}
+                className="px-2 py-1 border border-[#CCCCCC] rounded text-black"
+              />
+              <span className="text-[#666666]">to</span>
+              <input
+                type="date"
+                value={to}
+                onChange={e => setTo(e.target.value)}
+                className="px-2 py-1 border border-[#CCCCCC] rounded text-black"
+              />
+              <button
+                onClick={compare}
+                disabled={!from || !to || isComparing}
+                className="px-4 py-1 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isComparing ? 'Comparing...' : 'Compare'}
+              </button>
+            </div>
+
+            {changes && (
+              <div className="grid grid-cols-2 gap-6">
+                <div>
+                  {entityList('APPEARED', changes.entities.added, 'text-green-600')}
+                  {relationshipList('NEW RELATIONSHIPS', changes.relationships.added, 'text-green-600')}
+                </div>
+                <div>
+                  {entityList('DISAPPEARED', changes.entities.removed, 'text-red-600')}
+                  {relationshipList('ENDED RELATIONSHIPS', changes.relationships.removed, 'text-red-600')}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
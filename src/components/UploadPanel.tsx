@@ -1,14 +1,127 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useEffect } from 'react'
+
+interface Job {
+  id: string
+  documentId: string
+  status: string
+  chunksTotal: number
+  chunksDone: number
+  error: string | null
+  result: { status?: string } | null
+}
+
+interface Progress {
+  found: { entities: number; relationships: number; insights: number }
+  entities: Array<{ name: string; type: string }>
+  parseErrors: number
+}
 
 interface Document {
   id: string
   filename: string
   fileType: string
   fileSize: number
+  folderPath?: string | null
+  version?: number
+  // Uploaded as the next version of an existing document, which is kept as the earlier one
+  replaced?: boolean
   status: string
   createdAt: string
+  // Spreadsheets are imported by column mapping from the documents list rather than queued
+  importable?: boolean
+  job?: Job | null
+  progress?: Progress
+}
+
+const FINISHED_STATUSES = ['extracted', 'review', 'failed', 'cancelled', 'uploaded']
+
+// File types the documents route can read, and zip archives of them; anything else is skipped
+const SUPPORTED_TYPES = ['.txt', '.md', '.csv', '.xlsx', '.pdf', '.docx', '.pptx', '.odt', '.rtf', '.html', '.htm', '.eml', '.mbox', '.zip']
+
+// Operating system clutter that comes along with dropped folders
+const IGNORED_NAME = /^(\._.*|\.DS_Store|Thumbs\.db|desktop\.ini|__MACOSX)$/i
+
+// A file to upload with the folder it sat in, relative to what was dropped or chosen ("Client/HR")
+interface SelectedFile {
+  file: File
+  folder: string | null
+}
+
+interface SkippedFile {
+  filename: string
+  reason: string
+}
+
+type DuplicateResolution = 'skip' | 'replace' | 'keep'
+
+// An upload that matched a document already in the project, held back until the user chooses
+interface Duplicate {
+  filename: string
+  kind: 'identical' | 'same-text' | 'similar'
+  similarity: number
+  existing: { id: string; filename: string; folderPath: string | null }
+}
+
+const describeDuplicate = (duplicate: Duplicate) =>
+  duplicate.kind === 'identical' ? 'Identical to' :
+  duplicate.kind === 'same-text' ? 'Same text as' :
+  `${Math.round(duplicate.similarity * 100)}% similar to`
+
+// Every file under a dropped file or folder. Directory readers hand back entries in batches,
+// so each is read until it comes back empty.
+async function readDroppedEntry(entry: FileSystemEntry, folder: string | null): Promise<SelectedFile[]> {
+  if (IGNORED_NAME.test(entry.name)) return []
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+    return [{ file, folder }]
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+  const inner = folder ? `${folder}/${entry.name}` : entry.name
+  const nested = await Promise.all(children.map(child => readDroppedEntry(child, inner)))
+  return ([] as SelectedFile[]).concat(...nested)
+}
+
+type TreeRow<T> = { folder: string; depth: number } | { item: T; depth: number }
+
+// Items laid out as a folder tree: each folder heading once, above the folders and files inside it
+function folderTree<T>(items: T[], folderOf: (item: T) => string | null | undefined): TreeRow<T>[] {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const folder = folderOf(item) || ''
+    groups.set(folder, [...(groups.get(folder) || []), item])
+  }
+
+  const rows: TreeRow<T>[] = []
+  const shown = new Set<string>()
+  for (const folder of Array.from(groups.keys()).sort()) {
+    const parts = folder ? folder.split('/') : []
+    parts.forEach((_, index) => {
+      const ancestor = parts.slice(0, index + 1).join('/')
+      if (shown.has(ancestor)) return
+      shown.add(ancestor)
+      rows.push({ folder: parts[index], depth: index })
+    })
+    rows.push(...groups.get(folder)!.map(item => ({ item, depth: parts.length })))
+  }
+  return rows
+}
+
+// Map a job onto the document status shown in the list
+const statusFromJob = (job: Job) => {
+  switch (job.status) {
+    case 'running': return 'processing'
+    case 'succeeded': return job.result?.status || 'extracted'
+    default: return job.status
+  }
 }
 
 interface UploadPanelProps {
@@ -18,22 +131,58 @@ interface UploadPanelProps {
 }
 
 export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPanelProps) {
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([])
   const [isUploading, setIsUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState<string>('')
   const [uploadedDocs, setUploadedDocs] = useState<Document[]>([])
+  const [skipped, setSkipped] = useState<SkippedFile[]>([])
+  const [duplicates, setDuplicates] = useState<Duplicate[]>([])
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>({})
+  const [isResolving, setIsResolving] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
   const dropZoneRef = useRef<HTMLDivElement>(null)
+  const eventsRef = useRef<EventSource | null>(null)
+  const trackedIdsRef = useRef<string[]>([])
 
-  const handleFileSelect = (files: File[]) => {
-    // Filter for supported file types
-    const supportedTypes = ['.txt', '.md', '.csv', '.pdf', '.docx']
-    const validFiles = files.filter(file => {
-      const ext = '.' + file.name.split('.').pop()?.toLowerCase()
-      return supportedTypes.includes(ext)
-    })
+  useEffect(() => {
+    return () => {
+      eventsRef.current?.close()
+    }
+  }, [])
+
+  // React doesn't type the non-standard attribute that turns a file input into a folder picker
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [isUploading])
+
+  // Done once every document we queued has reached a final state
+  useEffect(() => {
+    const tracked = trackedIdsRef.current
+    if (tracked.length === 0) return
+
+    const finished = uploadedDocs.filter(doc => tracked.includes(doc.id) && FINISHED_STATUSES.includes(doc.status))
+    if (finished.length < tracked.length) {
+      setUploadProgress(`Extracting (${finished.length}/${tracked.length} done)...`)
+      return
+    }
+
+    trackedIdsRef.current = []
+    eventsRef.current?.close()
+    eventsRef.current = null
+    setUploadProgress('Extraction complete!')
+    // Stay open while there are possible duplicates to decide on
+    if (duplicates.length === 0) finish()
+  }, [uploadedDocs])
 
-    setSelectedFiles(validFiles)
+  const handleFileSelect = (files: SelectedFile[]) => {
+    // Filter for supported file types, saying which files were left out
+    const isSupported = ({ file }: SelectedFile) => SUPPORTED_TYPES.includes('.' + file.name.split('.').pop()?.toLowerCase())
+    const wanted = files.filter(({ file }) => !IGNORED_NAME.test(file.name))
+    setSkipped(wanted
+      .filter(selected => !isSupported(selected))
+      .map(({ file, folder }) => ({ filename: folder ? `${folder}/${file.name}` : file.name, reason: 'This file type is not supported' })))
+    setSelectedFiles(wanted.filter(isSupported))
   }
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -50,19 +199,37 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
     }
   }
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault()
     if (dropZoneRef.current) {
       dropZoneRef.current.classList.remove('border-[#0033CC]', 'bg-[#E6F0FF]')
     }
-    
-    const files = Array.from(e.dataTransfer.files)
-    handleFileSelect(files)
+
+    // Entries have to be taken before the first await, while the drop's data is still readable
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry)
+    if (entries.length === 0) {
+      handleFileSelect(Array.from(e.dataTransfer.files).map(file => ({ file, folder: null })))
+      return
+    }
+
+    try {
+      const nested = await Promise.all(entries.map(entry => readDroppedEntry(entry, null)))
+      handleFileSelect(([] as SelectedFile[]).concat(...nested))
+    } catch (error) {
+      console.error('Failed to read dropped folder:', error)
+      setUploadProgress('The dropped folder could not be read.')
+    }
   }
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      handleFileSelect(Array.from(e.target.files))
+      // Files picked from a folder carry their path from it ("Client/HR/policy.pdf")
+      handleFileSelect(Array.from(e.target.files).map(file => {
+        const folder = file.webkitRelativePath.split('/').slice(0, -1).join('/')
+        return { file, folder: folder || null }
+      }))
     }
   }
 
@@ -72,73 +239,181 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
     setIsUploading(true)
     setUploadProgress('Preparing upload...')
     setUploadedDocs([])
+    setDuplicates([])
 
     try {
-      const formData = new FormData()
-      selectedFiles.forEach(file => {
-        formData.append('files', file)
-      })
-
       setUploadProgress('Uploading files...')
+      await sendFiles({})
+    } catch (error) {
+      console.error('Upload error:', error)
+      setUploadProgress('Upload failed. Please try again.')
+      setIsUploading(false)
+    }
+  }
+
+  // Send the selected files again with a choice for each possible duplicate; the route only
+  // stores the files named in the choices
+  const resolveDuplicates = async () => {
+    setIsResolving(true)
+    try {
+      await sendFiles(Object.fromEntries(duplicates.map(duplicate => [duplicate.filename, resolutions[duplicate.filename] || 'skip'])))
+    } catch (error) {
+      console.error('Upload error:', error)
+      setUploadProgress('Upload failed. Please try again.')
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const sendFiles = async (choices: Record<string, DuplicateResolution>) => {
+    const formData = new FormData()
+    selectedFiles.forEach(({ file, folder }) => {
+      formData.append('files', file)
+      formData.append('paths', folder || '')
+    })
+    if (Object.keys(choices).length > 0) formData.append('resolutions', JSON.stringify(choices))
+
+    const uploadResponse = await fetch(`/api/projects/${projectId}/documents`, {
+      method: 'POST',
+      body: formData
+    })
 
-      const uploadResponse = await fetch(`/api/projects/${projectId}/documents`, {
-        method: 'POST',
-        body: formData
-      })
+    const uploadResult = await uploadResponse.json()
+    if (uploadResult.skipped) setSkipped(prev => [...prev, ...uploadResult.skipped])
+    if (!uploadResponse.ok) {
+      throw new Error(uploadResult.error || 'Upload failed')
+    }
+
+    const docs: Document[] = uploadResult.documents.map((doc: Document) => ({
+      ...doc,
+      status: doc.job ? statusFromJob(doc.job) : doc.status
+    }))
+    // A replaced document comes back under its existing id
+    setUploadedDocs(prev => [...prev.filter(doc => !docs.some(d => d.id === doc.id)), ...docs])
+    const pending: Duplicate[] = uploadResult.duplicates || []
+    setDuplicates(pending)
+    setResolutions({})
 
-      if (!uploadResponse.ok) {
-        throw new Error('Upload failed')
+    const queuedIds = docs.filter(doc => doc.job).map(doc => doc.id)
+    if (queuedIds.length === 0) {
+      if (trackedIdsRef.current.length > 0) return
+      if (pending.length > 0) {
+        setUploadProgress('Some files look like documents already in this project.')
+        return
       }
+      setUploadProgress(uploadResult.warning
+        ? `Files uploaded but not extracted. ${uploadResult.warning}`
+        : 'Files uploaded. Extract them from the Workspace documents list.')
+      finish()
+      return
+    }
 
-      const uploadResult = await uploadResponse.json()
-      setUploadedDocs(uploadResult.documents)
-      setUploadProgress('Files uploaded. Starting extraction...')
-
-      // Extract each document
-      for (let i = 0; i < uploadResult.documents.length; i++) {
-        const doc = uploadResult.documents[i]
-        setUploadProgress(`Extracting ${doc.filename} (${i + 1}/${uploadResult.documents.length})...`)
-
-        try {
-          const extractResponse = await fetch(`/api/projects/${projectId}/documents/${doc.id}/extract`, {
-            method: 'POST'
-          })
-
-          if (extractResponse.ok) {
-            // Update document status in our local list
-            setUploadedDocs(prev => prev.map(d => 
-              d.id === doc.id ? { ...d, status: 'extracted' } : d
-            ))
-          }
-        } catch (error) {
-          console.error(`Failed to extract ${doc.filename}:`, error)
-          // Continue with other documents even if one fails
-        }
+    setUploadProgress('Files uploaded. Extracting in the background...')
+    trackedIdsRef.current = [...trackedIdsRef.current, ...queuedIds]
+    eventsRef.current?.close()
+    followJobs(trackedIdsRef.current)
+  }
+
+  // Extraction runs as background jobs; follow their progress events until every document has finished
+  const followJobs = (documentIds: string[]) => {
+    const source = new EventSource(`/api/projects/${projectId}/jobs/events`)
+    eventsRef.current = source
+
+    const update = (documentId: string, change: (doc: Document) => Document) => {
+      if (!documentIds.includes(documentId)) return
+      setUploadedDocs(prev => prev.map(doc => doc.id === documentId ? change(doc) : doc))
+    }
+    const on = (type: string, handler: (data: any) => void) => {
+      source.addEventListener(type, event => handler(JSON.parse((event as MessageEvent).data)))
+    }
+
+    // Sent on every (re)connect; catch up on anything that finished while we weren't listening
+    on('snapshot', () => syncJobs(documentIds))
+    on('queued', data => update(data.documentId, doc => ({ ...doc, status: 'queued' })))
+    on('started', data => update(data.documentId, doc => ({ ...doc, status: 'processing' })))
+    on('chunk_start', data => update(data.documentId, doc => ({
+      ...doc,
+      status: 'processing',
+      job: doc.job && { ...doc.job, chunksTotal: data.total, chunksDone: data.done }
+    })))
+    on('chunk_done', data => update(data.documentId, doc => ({
+      ...doc,
+      job: doc.job && { ...doc.job, chunksTotal: data.total, chunksDone: data.done },
+      progress: {
+        found: data.found,
+        entities: [...(doc.progress?.entities || []), ...data.entities],
+        parseErrors: doc.progress?.parseErrors || 0
+      }
+    })))
+    on('parse_error', data => update(data.documentId, doc => ({
+      ...doc,
+      progress: {
+        found: doc.progress?.found || { entities: 0, relationships: 0, insights: 0 },
+        entities: doc.progress?.entities || [],
+        parseErrors: (doc.progress?.parseErrors || 0) + 1
       }
+    })))
+    on('complete', data => update(data.documentId, doc => ({ ...doc, status: data.status })))
+    on('failed', data => update(data.documentId, doc => ({
+      ...doc,
+      status: data.willRetry ? 'queued' : 'failed',
+      job: doc.job && { ...doc.job, error: data.error }
+    })))
+    on('cancelled', data => update(data.documentId, doc => ({ ...doc, status: 'cancelled' })))
+  }
+
+  const syncJobs = async (documentIds: string[]) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/jobs?documentId=${documentIds.join(',')}`)
+      if (!response.ok) return
 
-      setUploadProgress('Extraction complete!')
-      
-      // Wait a moment then call success handler
-      setTimeout(() => {
-        onSuccess()
-        onClose()
-      }, 1500)
+      const { jobs }: { jobs: Job[] } = await response.json()
+      // Jobs come back newest first; keep the latest per document
+      const latest = new Map<string, Job>()
+      for (const job of jobs) {
+        if (!latest.has(job.documentId)) latest.set(job.documentId, job)
+      }
 
+      setUploadedDocs(prev => prev.map(doc => {
+        const job = latest.get(doc.id)
+        return job ? { ...doc, job, status: statusFromJob(job) } : doc
+      }))
     } catch (error) {
-      console.error('Upload error:', error)
-      setUploadProgress('Upload failed. Please try again.')
-      setIsUploading(false)
+      console.error('Failed to fetch extraction jobs:', error)
     }
   }
 
+  // Finished documents count whole; running ones by the share of chunks done
+  const overallProgress = () => {
+    if (uploadedDocs.length === 0) return 0
+    const done = uploadedDocs.reduce((sum, doc) => {
+      if (FINISHED_STATUSES.includes(doc.status)) return sum + 1
+      if (doc.job && doc.job.chunksTotal > 0) return sum + doc.job.chunksDone / doc.job.chunksTotal
+      return sum
+    }, 0)
+    return done / uploadedDocs.length
+  }
+
+  const finish = () => {
+    // Wait a moment then call success handler
+    setTimeout(() => {
+      onSuccess()
+      onClose()
+    }, 1500)
+  }
+
   const resetUpload = () => {
     setSelectedFiles([])
     setUploadedDocs([])
+    setSkipped([])
     setUploadProgress('')
     setIsUploading(false)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
+    if (folderInputRef.current) {
+      folderInputRef.current.value = ''
+    }
   }
 
   const formatFileSize = (bytes: number) => {
@@ -157,14 +432,26 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
             📄 INGEST DOCUMENTS
           </h2>
           <button
-            onClick={onClose}
+            onClick={() => {
+              // Extraction carries on in the background after the panel closes
+              if (isUploading) onSuccess()
+              onClose()
+            }}
             className="text-[#666666] hover:text-black text-xl"
-            disabled={isUploading}
           >
             ✕
           </button>
         </div>
 
+        {skipped.length > 0 && (
+          <div className="mb-6 text-xs text-red-600 max-h-32 overflow-y-auto">
+            <div className="font-semibold mb-1">Skipped {skipped.length} file{skipped.length === 1 ? '' : 's'}</div>
+            {skipped.map(file => (
+              <div key={file.filename}>✕ {file.filename}: {file.reason}</div>
+            ))}
+          </div>
+        )}
+
         {!isUploading ? (
           <>
             {/* File Drop Zone */}
@@ -180,18 +467,36 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
                 onDragLeave={handleDragLeave}
                 onDrop={handleDrop}
               >
-                <p className="text-[#666666] mb-2">📎 Drag & drop files here</p>
+                <p className="text-[#666666] mb-2">📎 Drag & drop files, folders or zip archives here</p>
                 <p className="text-[#666666] text-sm">
                   or <strong className="text-[#0033CC]">click to browse</strong>
+                  {' · '}
+                  <button
+                    type="button"
+                    onClick={e => {
+                      e.stopPropagation()
+                      folderInputRef.current?.click()
+                    }}
+                    className="text-[#0033CC] font-bold hover:underline"
+                  >
+                    choose a folder
+                  </button>
                 </p>
                 <p className="text-[#999999] text-xs mt-2">
-                  Supported: .txt, .md, .csv, .pdf, .docx
+                  Supported: {SUPPORTED_TYPES.join(', ')}
                 </p>
                 <input
                   ref={fileInputRef}
                   type="file"
                   multiple
-                  accept=".txt,.md,.csv,.pdf,.docx"
+                  accept={SUPPORTED_TYPES.join(',')}
+                  onChange={handleFileInputChange}
+                  className="hidden"
+                />
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  multiple
                   onChange={handleFileInputChange}
                   className="hidden"
                 />
@@ -204,11 +509,15 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
                 <div className="text-[#666666] text-sm mb-2 font-semibold tracking-wide">
                   SELECTED FILES ({selectedFiles.length})
                 </div>
-                <div className="bg-[#F5F5F5] rounded border border-[#CCCCCC] p-4 max-h-32 overflow-y-auto">
-                  {selectedFiles.map((file, index) => (
-                    <div key={index} className="flex justify-between items-center py-1 text-sm">
-                      <span className="text-black truncate flex-1">{file.name}</span>
-                      <span className="text-[#666666] ml-2">{formatFileSize(file.size)}</span>
+                <div className="bg-[#F5F5F5] rounded border border-[#CCCCCC] p-4 max-h-48 overflow-y-auto">
+                  {folderTree(selectedFiles, selected => selected.folder).map((row, index) => 'folder' in row ? (
+                    <div key={index} className="py-1 text-sm text-[#666666]" style={{ paddingLeft: row.depth * 16 }}>
+                      📁 {row.folder}
+                    </div>
+                  ) : (
+                    <div key={index} className="flex justify-between items-center py-1 text-sm" style={{ paddingLeft: row.depth * 16 }}>
+                      <span className="text-black truncate flex-1">{row.item.file.name}</span>
+                      <span className="text-[#666666] ml-2">{formatFileSize(row.item.file.size)}</span>
                     </div>
                   ))}
                 </div>
@@ -243,12 +552,8 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
               {/* Progress indicator */}
               <div className="w-full bg-[#F5F5F5] rounded-full h-2 mb-6 border border-[#CCCCCC]">
                 <div 
-                  className="bg-[#0033CC] h-2 rounded-full transition-all duration-1000"
-                  style={{ 
-                    width: uploadedDocs.length > 0 
-                      ? `${(uploadedDocs.filter(d => d.status === 'extracted').length / uploadedDocs.length) * 100}%`
-                      : '10%'
-                  }}
+                  className="bg-[#0033CC] h-2 rounded-full transition-all duration-500"
+                  style={{ width: `${Math.max(10, overallProgress() * 100)}%` }}
                 />
               </div>
 
@@ -256,23 +561,102 @@ export default function UploadPanel({ projectId, onClose, onSuccess }: UploadPan
               {uploadedDocs.length > 0 && (
                 <div className="text-left">
                   <div className="text-[#666666] text-sm mb-3 font-medium">Document Status:</div>
-                  {uploadedDocs.map(doc => (
-                    <div key={doc.id} className="flex justify-between items-center py-2 text-sm border-b border-[#CCCCCC] last:border-b-0">
-                      <span className="text-black truncate flex-1">{doc.filename}</span>
-                      <span className={`ml-2 text-xs font-medium ${
-                        doc.status === 'extracted' ? 'text-green-600' :
-                        doc.status === 'processing' ? 'text-orange-600' :
-                        'text-[#666666]'
-                      }`}>
-                        {doc.status === 'extracted' ? '✓ Extracted' :
-                         doc.status === 'processing' ? '⧗ Processing' :
-                         '⧗ Uploaded'}
-                      </span>
-                    </div>
-                  ))}
+                  {folderTree(uploadedDocs, doc => doc.folderPath).map((row, index) => {
+                    if ('folder' in row) {
+                      return (
+                        <div key={`folder-${index}`} className="py-2 text-sm text-[#666666] border-b border-[#CCCCCC]" style={{ paddingLeft: row.depth * 16 }}>
+                          📁 {row.folder}
+                        </div>
+                      )
+                    }
+                    const doc = row.item
+                    return (
+                      <div key={doc.id} className="py-2 text-sm border-b border-[#CCCCCC] last:border-b-0" style={{ paddingLeft: row.depth * 16 }}>
+                        <div className="flex justify-between items-center">
+                          <span className="text-black truncate flex-1">
+                            {doc.filename}
+                            {doc.replaced && <span className="text-[#666666] text-xs"> · saved as version {doc.version}</span>}
+                          </span>
+                          <span className={`ml-2 text-xs font-medium ${
+                            doc.status === 'extracted' ? 'text-green-600' :
+                            doc.status === 'review' ? 'text-purple-600' :
+                            doc.status === 'processing' ? 'text-orange-600' :
+                            doc.status === 'failed' || doc.status === 'cancelled' ? 'text-red-600' :
+                            'text-[#666666]'
+                          }`}>
+                            {doc.status === 'extracted' ? '✓ Extracted' :
+                             doc.status === 'review' ? '◆ Review changes' :
+                             doc.status === 'processing' ? `⧗ Processing${doc.job && doc.job.chunksTotal > 1 ? ` ${doc.job.chunksDone}/${doc.job.chunksTotal}` : ''}` :
+                             doc.status === 'queued' ? '⧗ Queued' :
+                             doc.status === 'failed' ? '✕ Failed' :
+                             doc.status === 'cancelled' ? '✕ Cancelled' :
+                             doc.importable ? 'Import from the documents list' :
+                             '⧗ Uploaded'}
+                          </span>
+                        </div>
+                        {doc.progress && (
+                          <div className="mt-1 text-xs text-[#666666]">
+                            Found {doc.progress.found.entities} entities, {doc.progress.found.relationships} relationships, {doc.progress.found.insights} insights
+                            {doc.progress.parseErrors > 0 && (
+                              <span className="text-red-600"> · {doc.progress.parseErrors} chunk{doc.progress.parseErrors === 1 ? '' : 's'} unreadable</span>
+                            )}
+                            {doc.status === 'processing' && doc.progress.entities.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {doc.progress.entities.slice(-8).map((entity, index) => (
+                                  <span key={index} className="px-1.5 py-0.5 bg-[#F5F5F5] border border-[#CCCCCC] rounded text-[#333333]">
+                                    {entity.name}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        {doc.status === 'failed' && doc.job?.error && (
+                          <div className="mt-1 text-xs text-red-600 truncate">{doc.job.error}</div>
+                        )}
+                      </div>
+                    )
+                  })}
                 </div>
               )}
             </div>
+
+            {/* Possible duplicates, held back until the user chooses */}
+            {duplicates.length > 0 && (
+              <div className="border-t border-[#CCCCCC] pt-4">
+                <div className="text-[#666666] text-sm mb-3 font-semibold tracking-wide">
+                  POSSIBLE DUPLICATES ({duplicates.length})
+                </div>
+                {duplicates.map(duplicate => (
+                  <div key={duplicate.filename} className="flex items-center gap-3 py-2 text-sm border-b border-[#CCCCCC] last:border-b-0">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-black truncate">{duplicate.filename}</div>
+                      <div className="text-xs text-[#666666] truncate">
+                        {describeDuplicate(duplicate)} {duplicate.existing.folderPath ? `${duplicate.existing.folderPath}/` : ''}{duplicate.existing.filename}
+                      </div>
+                    </div>
+                    <select
+                      value={resolutions[duplicate.filename] || 'skip'}
+                      onChange={e => setResolutions(prev => ({ ...prev, [duplicate.filename]: e.target.value as DuplicateResolution }))}
+                      className="px-2 py-1 border border-[#CCCCCC] rounded text-xs text-black bg-white"
+                    >
+                      <option value="skip">Skip</option>
+                      <option value="replace">Replace as new version</option>
+                      <option value="keep">Keep both</option>
+                    </select>
+                  </div>
+                ))}
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={resolveDuplicates}
+                    disabled={isResolving}
+                    className="px-6 py-2 bg-[#0033CC] text-white rounded font-semibold hover:bg-[#0029A3] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isResolving ? 'Applying...' : 'Apply choices'}
+                  </button>
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -1,6 +1,13 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
+import ExtractionDiffPanel from './ExtractionDiffPanel'
+import ExtractionReportPanel from './ExtractionReportPanel'
+import TableImportPanel from './TableImportPanel'
+import DocumentSettingsPanel from './DocumentSettingsPanel'
+import DocumentReader from './DocumentReader'
+import SourcePassageViewer, { EvidenceItem } from './SourcePassageViewer'
+import { Ontology, nodeStyle, typeLabel } from '@/lib/ontology'
 
 interface Chat {
   role: 'user' | 'assistant'
@@ -20,6 +27,7 @@ interface Insight {
   severity: string
   text: string
   content?: string
+  evidence?: EvidenceItem[]
 }
 
 interface Territory {
@@ -31,13 +39,34 @@ interface Territory {
   entities?: any[]
 }
 
+interface Job {
+  id: string
+  status: string
+  chunksTotal: number
+  chunksDone: number
+  error: string | null
+  found?: { entities: number; relationships: number; insights: number }
+}
+
 interface Document {
   id: string
   filename: string
+  fileType: string
+  folderPath?: string | null
+  effectiveDate?: string | null
+  version?: number
+  tags?: string[]
+  confidentiality?: string
   status: string
   entityCount: number
+  latestJob?: Job | null
+  validation?: { failedChunks: number; repairedChunks: number; dropped: number; coerced: number } | null
+  costUsd?: number
 }
 
+// Spreadsheets that can be imported by column mapping instead of extracted by the model
+const TABULAR_FILE_TYPES = ['.csv', '.xlsx']
+
 interface Agent {
   id: string
   name: string
@@ -88,11 +117,21 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
   const [insights, setInsights] = useState<Insight[]>([])
   const [territories, setTerritories] = useState<Territory[]>([])
   const [documents, setDocuments] = useState<Document[]>([])
+  const [documentsError, setDocumentsError] = useState('')
+  const [ontology, setOntology] = useState<Ontology | null>(null)
   const [agents, setAgents] = useState<Agent[]>([])
   const [entitySearch, setEntitySearch] = useState('')
   const [inputMessage, setInputMessage] = useState('')
   const [sending, setSending] = useState(false)
   const [expandedInsights, setExpandedInsights] = useState<Record<string, boolean>>({})
+  const [reviewDocumentId, setReviewDocumentId] = useState<string | null>(null)
+  const [reportDocumentId, setReportDocumentId] = useState<string | null>(null)
+  const [importDocumentId, setImportDocumentId] = useState<string | null>(null)
+  const [settingsDocumentId, setSettingsDocumentId] = useState<string | null>(null)
+  const [readerDocumentId, setReaderDocumentId] = useState<string | null>(null)
+  const [openEvidence, setOpenEvidence] = useState<EvidenceItem | null>(null)
+  const [extractingIds, setExtractingIds] = useState<Record<string, boolean>>({})
+  const hadActiveJobs = useRef(false)
 
   const chatEndRef = useRef<HTMLDivElement>(null)
 
@@ -104,12 +143,49 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
     fetchTerritories()
     fetchDocuments()
     fetchAgents()
+    fetchOntology()
   }, [projectId])
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [chatMessages])
 
+  // Follow extraction progress events while any document is waiting on a background job
+  const hasActiveJobs = documents.some(doc => doc.status === 'queued' || doc.status === 'processing')
+  useEffect(() => {
+    if (!hasActiveJobs) {
+      if (hadActiveJobs.current) refreshAfterExtraction()
+      hadActiveJobs.current = false
+      return
+    }
+    hadActiveJobs.current = true
+
+    const source = new EventSource(`/api/projects/${projectId}/jobs/events`)
+    const updateProgress = (data: any, change: (job: Job) => Job) => {
+      setDocuments(prev => prev.map(doc =>
+        doc.latestJob && doc.latestJob.id === data.jobId
+          ? { ...doc, status: 'processing', latestJob: change(doc.latestJob) }
+          : doc
+      ))
+    }
+
+    source.addEventListener('chunk_start', event => {
+      const data = JSON.parse((event as MessageEvent).data)
+      updateProgress(data, job => ({ ...job, chunksTotal: data.total, chunksDone: data.done }))
+    })
+    source.addEventListener('chunk_done', event => {
+      const data = JSON.parse((event as MessageEvent).data)
+      updateProgress(data, job => ({ ...job, chunksTotal: data.total, chunksDone: data.done, found: data.found }))
+    })
+    // Status changes carry counts and errors the list shows, so reload it; a finished document also changes the graph
+    for (const type of ['snapshot', 'queued', 'started', 'failed', 'cancelled']) {
+      source.addEventListener(type, () => fetchDocuments())
+    }
+    source.addEventListener('complete', () => refreshAfterExtraction())
+
+    return () => source.close()
+  }, [hasActiveJobs, projectId])
+
   const fetchProject = async () => {
     try {
       const response = await fetch(`/api/projects/${projectId}`)
@@ -122,6 +198,17 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
     }
   }
 
+  const fetchOntology = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/ontology`)
+      if (response.ok) {
+        setOntology(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to fetch ontology:', error)
+    }
+  }
+
   const fetchChatHistory = async () => {
     try {
       const response = await fetch(`/api/projects/${projectId}/chat`)
@@ -195,6 +282,50 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
     }
   }
 
+  const reExtract = async (doc: Document) => {
+    setExtractingIds(prev => ({ ...prev, [doc.id]: true }))
+    setDocumentsError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/documents/${doc.id}/extract`, {
+        method: 'POST'
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setDocuments(prev => prev.map(d => d.id === doc.id ? { ...d, status: 'queued', latestJob: data.job } : d))
+      } else {
+        setDocumentsError(data.error || 'Failed to queue extraction')
+      }
+    } catch (error) {
+      console.error(`Failed to queue extraction for ${doc.filename}:`, error)
+    } finally {
+      setExtractingIds(prev => ({ ...prev, [doc.id]: false }))
+    }
+  }
+
+  const updateJob = async (doc: Document, action: 'cancel' | 'retry') => {
+    if (!doc.latestJob) return
+    setDocumentsError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/jobs/${doc.latestJob.id}/${action}`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        setDocumentsError(data.error || `Failed to ${action} extraction`)
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} extraction job:`, error)
+    } finally {
+      fetchDocuments()
+    }
+  }
+
+  const refreshAfterExtraction = () => {
+    fetchDocuments()
+    fetchEntities()
+    fetchInsights()
+    fetchTerritories()
+    fetchAgents()
+  }
+
   const sendMessage = async () => {
     if (!inputMessage.trim() || sending) return
 
@@ -272,6 +403,9 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
     switch (status) {
       case 'extracted': return 'text-green-700 bg-green-50'
       case 'processing': return 'text-amber-700 bg-amber-50'
+      case 'review': return 'text-purple-700 bg-purple-50'
+      case 'queued': return 'text-amber-700 bg-amber-50'
+      case 'failed': return 'text-red-700 bg-red-50'
       case 'uploaded': return 'text-blue-700 bg-blue-50'
       default: return 'text-gray-700 bg-gray-50'
     }
@@ -308,15 +442,127 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
           </button>
           {!documentsCollapsed && (
             <div className="pb-2">
+              {documentsError && (
+                <div className="px-4 py-2 text-red-600 text-[10px]">{documentsError}</div>
+              )}
               {documents.map(doc => (
                 <div key={doc.id} className="px-4 py-2 hover:bg-gray-50 cursor-pointer">
-                  <div className="text-xs text-black truncate">{doc.filename}</div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setReaderDocumentId(doc.id)}
+                      className="text-xs text-black truncate flex-1 text-left hover:text-[#0033CC]"
+                      title="Read the document with its entities highlighted"
+                    >
+                      {doc.filename}
+                    </button>
+                    {doc.confidentiality && doc.confidentiality !== 'internal' && (
+                      <span className="text-[#999] text-[10px] capitalize">🔒 {doc.confidentiality}</span>
+                    )}
+                    <button
+                      onClick={() => setSettingsDocumentId(doc.id)}
+                      className="text-[10px] text-[#999] hover:text-[#0033CC]"
+                      title="Rename, tag, date, read again or delete"
+                    >
+                      Edit
+                    </button>
+                  </div>
+                  {doc.folderPath && (
+                    <div className="text-[#999] text-[10px] truncate" title={doc.folderPath}>📁 {doc.folderPath}</div>
+                  )}
+                  {doc.tags && doc.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-0.5">
+                      {doc.tags.map(tag => (
+                        <span key={tag} className="px-1.5 py-0.5 rounded bg-[#F5F5F5] text-[#666666] text-[10px]">{tag}</span>
+                      ))}
+                    </div>
+                  )}
+                  {(doc.effectiveDate || (doc.version || 1) > 1) && (
+                    <div className="text-[#999] text-[10px]" title="Effective date and version, set from the graph's Timeline">
+                      {doc.effectiveDate && `📅 ${doc.effectiveDate.slice(0, 10)}`}
+                      {doc.effectiveDate && (doc.version || 1) > 1 && ' · '}
+                      {(doc.version || 1) > 1 && `v${doc.version}`}
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 mt-1">
                     <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${getStatusColor(doc.status)}`}>
                       {doc.status}
                     </span>
                     <span className="text-[#999] text-[10px]">{doc.entityCount} entities</span>
+                    {!!doc.costUsd && (
+                      <span className="text-[#999] text-[10px]" title="Estimated model cost of extracting this document">
+                        {doc.costUsd < 0.01 ? '<$0.01' : `$${doc.costUsd.toFixed(2)}`}
+                      </span>
+                    )}
+                    {doc.status === 'review' ? (
+                      <button
+                        onClick={() => setReviewDocumentId(doc.id)}
+                        className="ml-auto text-[10px] text-[#0033CC] font-medium hover:underline"
+                      >
+                        Review changes
+                      </button>
+                    ) : doc.status === 'queued' || doc.status === 'processing' ? (
+                      <button
+                        onClick={() => updateJob(doc, 'cancel')}
+                        className="ml-auto text-[10px] text-[#999] hover:text-red-600"
+                      >
+                        Cancel
+                      </button>
+                    ) : doc.status === 'failed' && doc.latestJob ? (
+                      <button
+                        onClick={() => updateJob(doc, 'retry')}
+                        className="ml-auto text-[10px] text-[#999] hover:text-[#0033CC]"
+                      >
+                        Retry
+                      </button>
+                    ) : (
+                      <span className="ml-auto flex gap-2">
+                        {TABULAR_FILE_TYPES.includes(doc.fileType) && (
+                          <button
+                            onClick={() => setImportDocumentId(doc.id)}
+                            className="text-[10px] text-[#0033CC] font-medium hover:underline"
+                            title="Map columns to entities and relationships without the AI"
+                          >
+                            Import
+                          </button>
+                        )}
+                        <button
+                          onClick={() => reExtract(doc)}
+                          disabled={extractingIds[doc.id]}
+                          className="text-[10px] text-[#999] hover:text-[#0033CC] disabled:opacity-50"
+                        >
+                          {doc.status === 'uploaded' ? 'Extract' : 'Re-extract'}
+                        </button>
+                      </span>
+                    )}
                   </div>
+                  {doc.status === 'processing' && doc.latestJob && doc.latestJob.chunksTotal > 0 && (
+                    <div className="mt-1">
+                      <div className="w-full bg-[#F5F5F5] rounded-full h-1">
+                        <div
+                          className="bg-[#0033CC] h-1 rounded-full transition-all duration-500"
+                          style={{ width: `${(doc.latestJob.chunksDone / doc.latestJob.chunksTotal) * 100}%` }}
+                        />
+                      </div>
+                      <div className="text-[#999] text-[10px] mt-1">
+                        {doc.latestJob.chunksDone} of {doc.latestJob.chunksTotal} chunks done
+                        {doc.latestJob.found && ` · ${doc.latestJob.found.entities} entities, ${doc.latestJob.found.relationships} relationships so far`}
+                      </div>
+                    </div>
+                  )}
+                  {doc.validation && (doc.validation.dropped > 0 || doc.validation.failedChunks > 0) && (
+                    <button
+                      onClick={() => setReportDocumentId(doc.id)}
+                      className="text-amber-600 text-[10px] mt-1 hover:underline"
+                    >
+                      ⚠ {doc.validation.dropped} dropped
+                      {doc.validation.failedChunks > 0 && `, ${doc.validation.failedChunks} chunk${doc.validation.failedChunks === 1 ? '' : 's'} unreadable`}
+                    </button>
+                  )}
+                  {doc.status === 'failed' && doc.latestJob?.error && (
+                    <div className="text-red-600 text-[10px] mt-1 truncate" title={doc.latestJob.error}>
+                      {doc.latestJob.error}
+                    </div>
+                  )}
                 </div>
               ))}
               <button className="w-full px-4 py-2 text-[#0033CC] hover:bg-blue-50 text-xs font-medium text-left">
@@ -466,8 +712,9 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
                         onClick={() => toggleType(type)}
                         className="w-full px-4 py-1.5 flex items-center justify-between hover:bg-gray-50 text-left"
                       >
-                        <span className="text-[11px] font-semibold text-[#666] uppercase tracking-wide">
-                          {type} ({filtered.length})
+                        <span className="text-[11px] font-semibold text-[#666] uppercase tracking-wide flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: nodeStyle(ontology, type).color }} />
+                          {typeLabel(ontology, type)} ({filtered.length})
                         </span>
                         <span className={`text-[#CCC] text-[10px] transform transition-transform duration-200 ${isCollapsed ? '-rotate-90' : ''}`}>▼</span>
                       </button>
@@ -520,6 +767,16 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
                         {isExpanded ? 'Show less' : 'Show more'}
                       </button>
                     )}
+                    {insight.evidence?.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => setOpenEvidence(item)}
+                        className="block mt-1.5 text-left text-[10px] italic opacity-70 hover:opacity-100"
+                        title={`${item.filename}${item.page !== null ? `, page ${item.page}` : ''}`}
+                      >
+                        &ldquo;{item.quote.length > 100 ? item.quote.slice(0, 100) + '…' : item.quote}&rdquo;
+                      </button>
+                    ))}
                   </div>
                 )
               })}
@@ -563,6 +820,60 @@ export default function WorkspaceView({ projectId }: WorkspaceViewProps) {
           )}
         </div>
       </div>
+
+      {reviewDocumentId && (
+        <ExtractionDiffPanel
+          projectId={projectId}
+          documentId={reviewDocumentId}
+          onClose={() => setReviewDocumentId(null)}
+          onApplied={refreshAfterExtraction}
+        />
+      )}
+
+      {reportDocumentId && (
+        <ExtractionReportPanel
+          projectId={projectId}
+          documentId={reportDocumentId}
+          onClose={() => setReportDocumentId(null)}
+        />
+      )}
+
+      {importDocumentId && (
+        <TableImportPanel
+          projectId={projectId}
+          documentId={importDocumentId}
+          ontology={ontology}
+          onClose={() => setImportDocumentId(null)}
+          onApplied={refreshAfterExtraction}
+        />
+      )}
+
+      {settingsDocumentId && (
+        <DocumentSettingsPanel
+          projectId={projectId}
+          documentId={settingsDocumentId}
+          onClose={() => setSettingsDocumentId(null)}
+          onChanged={refreshAfterExtraction}
+        />
+      )}
+
+      {readerDocumentId && (
+        <DocumentReader
+          projectId={projectId}
+          documentId={readerDocumentId}
+          ontology={ontology}
+          onClose={() => setReaderDocumentId(null)}
+          onChanged={fetchEntities}
+        />
+      )}
+
+      {openEvidence && (
+        <SourcePassageViewer
+          projectId={projectId}
+          evidence={openEvidence}
+          onClose={() => setOpenEvidence(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,7 @@
+// Runs once when the Next.js server boots: resume any extraction jobs left over from the last run
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureWorker } = await import('@/lib/jobs/worker')
+    ensureWorker()
+  }
+}
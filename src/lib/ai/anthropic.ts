@@ -0,0 +1,104 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { AIMessage, AIProvider, CompletionOptions, ProviderError } from './types'
+import { parseRetryAfter } from './limits'
+
+export const DEFAULT_CLAUDE_MODEL = 'claude-sonnet-4-20250514'
+const DEFAULT_MAX_TOKENS = 4096
+
+// Anthropic takes the system prompt separately from the conversation
+function splitSystem(messages: AIMessage[]) {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n')
+  const conversation = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+  return { system: system || undefined, conversation }
+}
+
+// SDK errors as ProviderErrors, keeping the status and retry-after so withRetry can act on them
+function toProviderError(error: unknown): unknown {
+  if (error instanceof Anthropic.APIError && error.status) {
+    return new ProviderError(
+      `Claude API error: ${error.message}`,
+      error.status,
+      parseRetryAfter(name => error.headers?.[name])
+    )
+  }
+  return error
+}
+
+export function createAnthropicProvider(apiKey: string | null | undefined, model = DEFAULT_CLAUDE_MODEL): AIProvider {
+  const key = apiKey || process.env.ANTHROPIC_API_KEY
+  if (!key) {
+    throw new ProviderError('Claude API key not configured. Please add your API key in project settings or set ANTHROPIC_API_KEY environment variable.', 500)
+  }
+  // Retrying is left to withRetry, so rate limits are handled the same way for every provider
+  const client = new Anthropic({ apiKey: key, maxRetries: 0 })
+
+  const chat: AIProvider['chat'] = async (messages, options: CompletionOptions = {}) => {
+    const { system, conversation } = splitSystem(messages)
+    const message = await client.messages.create({
+      model,
+      max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: options.temperature,
+      system,
+      messages: conversation
+    }, { signal: options.signal }).catch(error => {
+      throw toProviderError(error)
+    })
+
+    const text = message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('')
+    return {
+      text,
+      model,
+      usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens }
+    }
+  }
+
+  return {
+    name: 'claude',
+    model,
+    chat,
+    complete: (prompt, options) => chat([{ role: 'user', content: prompt }], options),
+
+    async *stream(messages, options: CompletionOptions = {}) {
+      const { system, conversation } = splitSystem(messages)
+      const stream = client.messages.stream({
+        model,
+        max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: options.temperature,
+        system,
+        messages: conversation
+      }, { signal: options.signal })
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text
+        }
+      }
+      const final = await stream.finalMessage()
+      options.onUsage?.({ inputTokens: final.usage.input_tokens, outputTokens: final.usage.output_tokens })
+    },
+
+    async embed() {
+      throw new ProviderError('Anthropic does not offer an embeddings API; use Ollama or an OpenAI-compatible provider', 400)
+    },
+
+    async test() {
+      try {
+        const result = await chat(
+          [{ role: 'user', content: "Hello! Just testing the connection. Please respond with 'Connection successful'." }],
+          { maxTokens: 50 }
+        )
+        return { success: true, message: `Claude API connection successful. Response: "${result.text.trim()}"` }
+      } catch (error: any) {
+        console.error('Claude API test failed:', error)
+        return {
+          success: false,
+          message: error.message?.includes('authentication') ? 'Invalid API key' : 'Failed to connect to Claude API'
+        }
+      }
+    }
+  }
+}
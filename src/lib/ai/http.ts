@@ -0,0 +1,46 @@
+import { ProviderError } from './types'
+import { parseRetryAfter } from './limits'
+
+// POST JSON to a provider and return the raw response, turning HTTP errors into ProviderErrors
+export async function postJson(
+  url: string,
+  body: unknown,
+  options: { headers?: Record<string, string>; signal?: AbortSignal; label: string }
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify(body),
+    signal: options.signal
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new ProviderError(
+      `${options.label} API error: ${response.status} ${response.statusText}${detail ? ` - ${detail.slice(0, 200)}` : ''}`,
+      response.status,
+      parseRetryAfter(name => response.headers.get(name))
+    )
+  }
+  return response
+}
+
+// Split a streamed response body into lines (NDJSON and SSE are both line-based)
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+    for (const line of lines) {
+      if (line.trim()) yield line
+    }
+  }
+  if (buffer.trim()) yield buffer
+}
@@ -0,0 +1,54 @@
+import { createAnthropicProvider } from './anthropic'
+import { createOllamaProvider } from './ollama'
+import { createOpenAICompatibleProvider } from './openai'
+import { AIProvider, ProviderError, ProviderSettings } from './types'
+
+export * from './types'
+export { DEFAULT_CONCURRENCY, MAX_CONCURRENCY, concurrencyFor, withRetry } from './limits'
+
+export const AI_PROVIDERS = ['claude', 'ollama', 'openai', 'none']
+
+// The provider-qualified model name chat() reports, for streams which don't return one
+export function qualifiedModelName(provider: AIProvider) {
+  return provider.name === 'claude' ? provider.model : `${provider.name}-${provider.model}`
+}
+
+// Why these settings can't be used to talk to a model, if they can't
+export function providerConfigError(settings: ProviderSettings): { error: string; status: number } | null {
+  if (settings.aiProvider === 'none') {
+    return {
+      error: 'AI is not configured. Please enable an AI provider in settings.',
+      status: 400
+    }
+  }
+  if (settings.aiProvider === 'claude' && !settings.claudeApiKey && !process.env.ANTHROPIC_API_KEY) {
+    return {
+      error: 'Claude API key not configured. Please add your API key in project settings or set ANTHROPIC_API_KEY environment variable.',
+      status: 500
+    }
+  }
+  if (settings.aiProvider === 'ollama' && !settings.ollamaUrl) {
+    return { error: 'Ollama URL is required', status: 400 }
+  }
+  if (settings.aiProvider === 'openai' && !settings.openaiBaseUrl) {
+    return { error: 'OpenAI-compatible base URL is required', status: 400 }
+  }
+  if (!AI_PROVIDERS.includes(settings.aiProvider)) {
+    return { error: 'Invalid AI provider', status: 400 }
+  }
+  return null
+}
+
+// The provider selected by Settings.aiProvider. `model` overrides the configured model.
+export function getProvider(settings: ProviderSettings, model?: string): AIProvider {
+  switch (settings.aiProvider) {
+    case 'claude':
+      return createAnthropicProvider(settings.claudeApiKey, model)
+    case 'ollama':
+      return createOllamaProvider(settings.ollamaUrl, model || settings.ollamaModel)
+    case 'openai':
+      return createOpenAICompatibleProvider(settings.openaiBaseUrl, settings.openaiApiKey, model || settings.openaiModel)
+    default:
+      throw new ProviderError('No AI provider configured', 400)
+  }
+}
@@ -0,0 +1,73 @@
+import { ProviderError } from './types'
+
+// Chunk requests a provider is sent at once by default. Ollama is usually a single local GPU or CPU,
+// where parallel requests just queue up behind each other.
+export const DEFAULT_CONCURRENCY: Record<string, number> = {
+  claude: 4,
+  openai: 4,
+  ollama: 1
+}
+export const MAX_CONCURRENCY = 16
+
+const MAX_RETRIES = 5
+const BASE_DELAY_MS = 2000
+const MAX_DELAY_MS = 60000
+
+export function concurrencyFor(settings: { aiProvider: string; extractionConcurrency: number | null }): number {
+  const limit = settings.extractionConcurrency ?? DEFAULT_CONCURRENCY[settings.aiProvider] ?? 1
+  return Math.min(MAX_CONCURRENCY, Math.max(1, limit))
+}
+
+// Milliseconds to wait from a retry-after-ms or retry-after header (seconds or an HTTP date)
+export function parseRetryAfter(header: (name: string) => string | null | undefined): number | undefined {
+  const ms = Number(header('retry-after-ms'))
+  if (ms > 0) return ms
+  const value = header('retry-after')
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Rate limited (429) or overloaded (503, Anthropic's 529): worth waiting and asking again
+export function isRetryable(error: unknown): error is ProviderError {
+  return error instanceof ProviderError && [429, 503, 529].includes(error.status || 0)
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason)
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  const onAbort = () => {
+    clearTimeout(timer)
+    reject(signal?.reason)
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+})
+
+// Run a model request, waiting and retrying when the provider says it is rate limited or overloaded.
+// Waits as long as retry-after asks, otherwise 2s, 4s, 8s... with jitter, up to a minute.
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  options: {
+    signal?: AbortSignal
+    retries?: number
+    onRetry?: (error: ProviderError, delayMs: number, attempt: number) => void
+  } = {}
+): Promise<T> {
+  const retries = options.retries ?? MAX_RETRIES
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request()
+    } catch (error) {
+      if (!isRetryable(error) || attempt > retries || options.signal?.aborted) throw error
+      const backoff = BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5)
+      const delayMs = Math.min(MAX_DELAY_MS, error.retryAfterMs ?? backoff)
+      options.onRetry?.(error, delayMs, attempt)
+      await sleep(delayMs, options.signal)
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { AIMessage, AIProvider, CompletionOptions } from './types'
+import { postJson, readLines } from './http'
+
+export function createOllamaProvider(baseUrl: string, model: string): AIProvider {
+  const url = baseUrl.replace(/\/+$/, '')
+
+  const requestBody = (messages: AIMessage[], options: CompletionOptions, stream: boolean) => ({
+    model,
+    messages,
+    stream,
+    format: options.json ? 'json' : undefined,
+    options: {
+      num_predict: options.maxTokens,
+      temperature: options.temperature
+    }
+  })
+
+  const chat: AIProvider['chat'] = async (messages, options = {}) => {
+    const response = await postJson(`${url}/api/chat`, requestBody(messages, options, false), {
+      signal: options.signal,
+      label: 'Ollama'
+    })
+    const data = await response.json()
+    return {
+      text: data.message?.content || '',
+      model: `ollama-${model}`,
+      usage: data.eval_count !== undefined
+        ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+        : null
+    }
+  }
+
+  return {
+    name: 'ollama',
+    model,
+    chat,
+    complete: (prompt, options) => chat([{ role: 'user', content: prompt }], options),
+
+    async *stream(messages, options = {}) {
+      const response = await postJson(`${url}/api/chat`, requestBody(messages, options, true), {
+        signal: options.signal,
+        label: 'Ollama'
+      })
+      for await (const line of readLines(response)) {
+        const data = JSON.parse(line)
+        if (data.message?.content) yield data.message.content
+        if (data.done) {
+          if (data.eval_count !== undefined) {
+            options.onUsage?.({ inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 })
+          }
+          return
+        }
+      }
+    },
+
+    async embed(texts) {
+      const response = await postJson(`${url}/api/embed`, { model, input: texts }, { label: 'Ollama' })
+      const data = await response.json()
+      return data.embeddings || []
+    },
+
+    async test() {
+      try {
+        // List installed models rather than generating, so the test is quick even for large models
+        const response = await fetch(`${url}/api/tags`)
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        const data = await response.json()
+        const modelNames: string[] = (data.models || []).map((m: any) => m.name)
+        const modelExists = modelNames.some(name => name.includes(model) || model.includes(name.split(':')[0]))
+
+        return modelExists
+          ? {
+              success: true,
+              message: `Ollama connection successful. Found ${modelNames.length} models including '${model}'.`,
+              availableModels: modelNames.slice(0, 5)
+            }
+          : {
+              success: true,
+              message: `Ollama connection successful, but model '${model}' was not found. Available models: ${modelNames.join(', ')}`,
+              availableModels: modelNames
+            }
+      } catch (error: any) {
+        console.error('Ollama API test failed:', error)
+        return {
+          success: false,
+          message: error.message?.includes('fetch')
+            ? 'Could not connect to Ollama server. Is it running?'
+            : `Ollama connection failed: ${error.message}`
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { AIMessage, AIProvider, CompletionOptions } from './types'
+import { postJson, readLines } from './http'
+
+// Any server speaking the OpenAI REST API: OpenAI itself, LM Studio, vLLM, llama.cpp server...
+export function createOpenAICompatibleProvider(baseUrl: string, apiKey: string | null | undefined, model: string): AIProvider {
+  const url = baseUrl.replace(/\/+$/, '')
+  // Local servers usually ignore the key, but some reject a request without an Authorization header
+  const headers = { Authorization: `Bearer ${apiKey || 'not-needed'}` }
+
+  // response_format is left out: several local servers reject json_object, and output is validated anyway
+  const requestBody = (messages: AIMessage[], options: CompletionOptions, stream: boolean) => ({
+    model,
+    messages,
+    stream,
+    max_tokens: options.maxTokens,
+    temperature: options.temperature,
+    // Servers that support it send token counts in a final chunk
+    ...(stream && { stream_options: { include_usage: true } })
+  })
+
+  const chat: AIProvider['chat'] = async (messages, options = {}) => {
+    const response = await postJson(`${url}/chat/completions`, requestBody(messages, options, false), {
+      headers,
+      signal: options.signal,
+      label: 'OpenAI-compatible'
+    })
+    const data = await response.json()
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: `openai-${data.model || model}`,
+      usage: data.usage
+        ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+        : null
+    }
+  }
+
+  return {
+    name: 'openai',
+    model,
+    chat,
+    complete: (prompt, options) => chat([{ role: 'user', content: prompt }], options),
+
+    async *stream(messages, options = {}) {
+      const response = await postJson(`${url}/chat/completions`, requestBody(messages, options, true), {
+        headers,
+        signal: options.signal,
+        label: 'OpenAI-compatible'
+      })
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue
+        const payload = line.slice(5).trim()
+        if (payload === '[DONE]') return
+        const data = JSON.parse(payload)
+        const delta = data.choices?.[0]?.delta?.content
+        if (delta) yield delta
+        if (data.usage) {
+          options.onUsage?.({ inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 })
+        }
+      }
+    },
+
+    async embed(texts) {
+      const response = await postJson(`${url}/embeddings`, { model, input: texts }, {
+        headers,
+        label: 'OpenAI-compatible'
+      })
+      const data = await response.json()
+      return (data.data || []).map((item: { embedding: number[] }) => item.embedding)
+    },
+
+    async test() {
+      try {
+        const response = await fetch(`${url}/models`, { headers })
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+        }
+
+        const data = await response.json()
+        const modelNames: string[] = (data.data || []).map((m: any) => m.id)
+        return {
+          success: true,
+          message: modelNames.includes(model)
+            ? `Connection successful. Found ${modelNames.length} models including '${model}'.`
+            : `Connection successful, but model '${model}' was not listed. Available models: ${modelNames.join(', ') || 'none'}`,
+          availableModels: modelNames.slice(0, 20)
+        }
+      } catch (error: any) {
+        console.error('OpenAI-compatible API test failed:', error)
+        return {
+          success: false,
+          message: error.message?.includes('fetch')
+            ? `Could not connect to ${url}. Is the server running?`
+            : `Connection failed: ${error.message}`
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import type { Settings } from '@prisma/client'
+
+export interface AIMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionOptions {
+  maxTokens?: number
+  // Ask the backend for a JSON object where it supports forcing one
+  json?: boolean
+  temperature?: number
+  signal?: AbortSignal
+  // Called when a stream finishes, if the backend reports token counts
+  onUsage?: (usage: TokenUsage) => void
+}
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface CompletionResult {
+  text: string
+  // Provider-qualified model name, as recorded in Entity.extractedBy
+  model: string
+  usage: TokenUsage | null
+}
+
+export interface ProviderTestResult {
+  success: boolean
+  message: string
+  availableModels?: string[]
+}
+
+export interface AIProvider {
+  name: string
+  model: string
+  complete(prompt: string, options?: CompletionOptions): Promise<CompletionResult>
+  chat(messages: AIMessage[], options?: CompletionOptions): Promise<CompletionResult>
+  // Yields text as it is generated
+  stream(messages: AIMessage[], options?: CompletionOptions): AsyncIterable<string>
+  embed(texts: string[]): Promise<number[][]>
+  test(): Promise<ProviderTestResult>
+}
+
+// The settings a provider needs; the test route passes unsaved form values in the same shape
+export type ProviderSettings = Pick<
+  Settings,
+  'aiProvider' | 'claudeApiKey' | 'ollamaUrl' | 'ollamaModel' | 'openaiBaseUrl' | 'openaiApiKey' | 'openaiModel'
+>
+
+export class ProviderError extends Error {
+  status?: number
+  // How long the provider asked us to wait before trying again, from its retry-after header
+  retryAfterMs?: number
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
@@ -0,0 +1,126 @@
+import type { Readable } from 'stream'
+import JSZip from 'jszip'
+
+export const ARCHIVE_FILE_TYPES = ['.zip']
+
+// What one uploaded archive may expand to, so a zip bomb can't exhaust memory or disk.
+// Sizes are counted as entries are inflated rather than trusted from the archive's own headers.
+export const ARCHIVE_LIMITS = {
+  files: 500,
+  fileBytes: 50 * 1024 * 1024,
+  totalBytes: 500 * 1024 * 1024
+}
+
+export interface ArchiveFile {
+  filename: string
+  folderPath: string | null
+  buffer: Buffer
+}
+
+export interface SkippedFile {
+  filename: string
+  reason: string
+}
+
+// Operating system clutter that comes along with zipped or dropped folders
+const IGNORED_PATH = /(^|\/)(__MACOSX|\.git)(\/|$)|(^|\/)(\._[^/]*|\.DS_Store|Thumbs\.db|desktop\.ini)$/i
+
+export const isIgnoredPath = (relativePath: string) => IGNORED_PATH.test(relativePath)
+
+// A relative path with forward slashes, or null when it could escape the folder it is unpacked into:
+// absolute paths, drive letters and ".." segments (zip-slip) are refused rather than cleaned up
+export function safeRelativePath(name: string): string | null {
+  const normalised = name.replace(/\\/g, '/')
+  if (normalised.startsWith('/') || /^[a-z]:/i.test(normalised)) return null
+  const parts = normalised.split('/').filter(part => part && part !== '.')
+  if (parts.length === 0 || parts.some(part => part === '..')) return null
+  return parts.join('/')
+}
+
+// "Client/HR/policy.pdf" -> folder "Client/HR" and filename "policy.pdf"
+export function splitRelativePath(relativePath: string): { filename: string; folderPath: string | null } {
+  const slash = relativePath.lastIndexOf('/')
+  return slash === -1
+    ? { filename: relativePath, folderPath: null }
+    : { filename: relativePath.slice(slash + 1), folderPath: relativePath.slice(0, slash) }
+}
+
+// An entry's bytes, or null once it passes the limit. JSZip inflates an entry's data in one go and
+// can't be stopped partway, so past the limit the stream is destroyed and the rest dropped as it
+// comes instead of being buffered.
+function readEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    // JSZip's types only promise the ReadableStream interface; the object is a full Readable
+    const stream = entry.nodeStream('nodebuffer') as Readable
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > limit) {
+        stream.removeAllListeners()
+        // JSZip goes on pushing into the destroyed stream, and each push is reported as an error
+        stream.on('error', () => {})
+        stream.destroy()
+        chunks.length = 0
+        resolve(null)
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('error', reject)
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+// The files inside a zip, each under the folder named after the archive ("client-data.zip" ->
+// "client-data/HR"), and a reason for every entry left out. Throws when the archive can't be opened.
+export async function expandZip(buffer: Buffer, archivePath: string): Promise<{ files: ArchiveFile[]; skipped: SkippedFile[] }> {
+  const zip = await JSZip.loadAsync(buffer)
+  const root = archivePath.replace(/\.zip$/i, '')
+  const files: ArchiveFile[] = []
+  const skipped: SkippedFile[] = []
+
+  const entries = Object.keys(zip.files).map(name => zip.files[name]).filter(entry => !entry.dir)
+  const paths = entries.map(entry => safeRelativePath(entry.name))
+  // Archives usually hold a single folder of the same name; don't nest it twice
+  const topFolders = new Set(paths.map(entryPath => entryPath?.split('/')[0]))
+  const rootName = root.split('/').pop()
+  const stripTop = topFolders.size === 1 && paths.every(entryPath => entryPath?.includes('/')) && topFolders.has(rootName)
+
+  let totalBytes = 0
+  for (const [index, entry] of Array.from(entries.entries())) {
+    const entryPath = paths[index]
+    const shownPath = `${archivePath}/${entry.name}`
+    if (!entryPath) {
+      skipped.push({ filename: shownPath, reason: 'Unsafe path inside the archive' })
+      continue
+    }
+    if (isIgnoredPath(entryPath)) continue
+    if (files.length >= ARCHIVE_LIMITS.files) {
+      skipped.push({ filename: shownPath, reason: `The archive holds more than ${ARCHIVE_LIMITS.files} files` })
+      continue
+    }
+
+    const limit = Math.min(ARCHIVE_LIMITS.fileBytes, ARCHIVE_LIMITS.totalBytes - totalBytes)
+    const contents = await readEntry(entry, limit)
+    if (!contents) {
+      skipped.push({
+        filename: shownPath,
+        reason: limit < ARCHIVE_LIMITS.fileBytes
+          ? `The archive expands to more than ${ARCHIVE_LIMITS.totalBytes / 1024 / 1024} MB`
+          : `Larger than ${ARCHIVE_LIMITS.fileBytes / 1024 / 1024} MB`
+      })
+      continue
+    }
+    totalBytes += contents.length
+
+    const inner = splitRelativePath(stripTop ? entryPath.slice(entryPath.indexOf('/') + 1) : entryPath)
+    files.push({
+      filename: inner.filename,
+      folderPath: inner.folderPath ? `${root}/${inner.folderPath}` : root,
+      buffer: contents
+    })
+  }
+
+  return { files, skipped }
+}
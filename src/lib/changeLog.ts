@@ -0,0 +1,430 @@
+import { randomUUID } from 'crypto'
+import type { ChangeLog, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { countContribution } from '@/lib/extraction/diff'
+import { readOntology, writeOntology } from '@/lib/settings'
+import { refreshValidity } from '@/lib/temporal'
+
+// The audit trail. Every create, update and delete of an entity, relationship, insight, territory,
+// the settings or the ontology is written to ChangeLog with who made it and why, and can be reverted on its own
+// or together with the rest of its run.
+
+type Db = Prisma.TransactionClient
+
+// An ontology is logged as a whole, under its project's id, since saving it replaces every type
+export type RecordType = 'entity' | 'edge' | 'insight' | 'territory' | 'settings' | 'ontology'
+export const RECORD_TYPES: RecordType[] = ['entity', 'edge', 'insight', 'territory', 'settings', 'ontology']
+
+export type ChangeAction = 'create' | 'update' | 'delete'
+export type ChangeActor = 'user' | 'extraction'
+export type ChangeOperation = 'extract' | 'import' | 'edit' | 'review' | 'merge' | 'split' | 'delete-document'
+
+// A merge keeps a snapshot of its own and is put back with its undo, which restores more than the
+// log holds and marks the merge's changes reverted
+const NOT_REVERTIBLE: Partial<Record<ChangeOperation, string>> = {
+  merge: 'Undo the merge from the entity panel instead'
+}
+
+const NOUNS: Record<RecordType, string> = {
+  entity: 'entity',
+  edge: 'relationship',
+  insight: 'insight',
+  territory: 'territory',
+  settings: 'settings',
+  ontology: 'ontology'
+}
+
+// Managed by Prisma, so never compared or written back
+const IGNORED_FIELDS = ['updatedAt']
+// API keys stay out of the log: a change to one shows as this, and a revert leaves the key alone
+const SECRET_FIELDS = ['claudeApiKey', 'openaiApiKey']
+const REDACTED = '[redacted]'
+const redact = (key: string, value: unknown) => SECRET_FIELDS.includes(key) && value !== null ? REDACTED : value
+// Stored as ISO strings in the JSON
+const DATE_FIELDS = ['createdAt', 'validFrom', 'validTo']
+
+// Large runs touch many rows; SQLite's default five seconds isn't always enough
+const TRANSACTION_OPTIONS = { timeout: 30000 }
+
+// Who is making a set of changes, and for which document or job. Changes logged under the same
+// context share a run; `sequence` counts them.
+export interface ChangeContext {
+  projectId: string
+  runId: string
+  actor: ChangeActor
+  operation: ChangeOperation
+  documentId: string | null
+  jobId: string | null
+  sequence: number
+}
+
+export function changeContext(
+  projectId: string,
+  actor: ChangeActor,
+  operation: ChangeOperation,
+  source: { documentId?: string | null; jobId?: string | null; runId?: string } = {}
+): ChangeContext {
+  return {
+    projectId,
+    // A job's changes are reverted together by its id, and a merge's undone by its own
+    runId: source.runId || source.jobId || randomUUID(),
+    actor,
+    operation,
+    documentId: source.documentId ?? null,
+    jobId: source.jobId ?? null,
+    sequence: 0
+  }
+}
+
+// An entity's update may list its `evidence` ids, where evidence moved to or from it
+export interface Change {
+  recordType: RecordType
+  recordId: string
+  action: ChangeAction
+  before: Record<string, any> | null
+  after: Record<string, any> | null
+}
+
+function snapshot(row: Record<string, any>): Record<string, any> {
+  const copy: Record<string, any> = {}
+  for (const key of Object.keys(row)) {
+    if (IGNORED_FIELDS.includes(key)) continue
+    copy[key] = redact(key, row[key])
+  }
+  return copy
+}
+
+export const created = (recordType: RecordType, row: { id: string }): Change =>
+  ({ recordType, recordId: row.id, action: 'create', before: null, after: snapshot(row) })
+
+export const deleted = (recordType: RecordType, row: { id: string }): Change =>
+  ({ recordType, recordId: row.id, action: 'delete', before: snapshot(row), after: null })
+
+// The fields of `after` that differ from `before`, as they were and are, or null when none do
+export function updated(
+  recordType: RecordType,
+  recordId: string,
+  before: Record<string, any>,
+  after: Record<string, any>
+): Change | null {
+  const fields = Object.keys(after).filter(key =>
+    !IGNORED_FIELDS.includes(key) && key in before && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+  if (fields.length === 0) return null
+
+  const pick = (row: Record<string, any>) => {
+    const values: Record<string, any> = {}
+    for (const key of fields) values[key] = redact(key, row[key])
+    return values
+  }
+  return { recordType, recordId, action: 'update', before: pick(before), after: pick(after) }
+}
+
+export async function logChanges(db: Db, context: ChangeContext, changes: Array<Change | null>) {
+  for (const change of changes) {
+    if (!change) continue
+    await db.changeLog.create({
+      data: {
+        projectId: context.projectId,
+        runId: context.runId,
+        sequence: context.sequence++,
+        recordType: change.recordType,
+        recordId: change.recordId,
+        action: change.action,
+        actor: context.actor,
+        operation: context.operation,
+        documentId: context.documentId,
+        jobId: context.jobId,
+        before: change.before ? JSON.stringify(change.before) : null,
+        after: change.after ? JSON.stringify(change.after) : null
+      }
+    })
+  }
+}
+
+// The documents that mention an entity, by the name each used; part of an entity as the log keeps it
+export const SOURCE_FIELDS = { select: { documentId: true, name: true }, orderBy: { createdAt: 'asc' as const } }
+
+// Deleting entities deletes their relationships too, so those are logged first, then the entities
+// with their mentions and evidence, so a revert can bring all of it back
+export async function entityDeletions(db: Db, ids: string[]): Promise<Change[]> {
+  if (ids.length === 0) return []
+  const [edges, entities] = await Promise.all([
+    db.edge.findMany({
+      where: { OR: [{ sourceId: { in: ids } }, { targetId: { in: ids } }] },
+      include: { evidence: true }
+    }),
+    db.entity.findMany({ where: { id: { in: ids } }, include: { sources: SOURCE_FIELDS, evidence: true } })
+  ])
+  return [...edges.map(edge => deleted('edge', edge)), ...entities.map(entity => deleted('entity', entity))]
+}
+
+export async function edgeDeletions(db: Db, ids: string[]): Promise<Change[]> {
+  if (ids.length === 0) return []
+  const edges = await db.edge.findMany({ where: { id: { in: ids } }, include: { evidence: true } })
+  return edges.map(edge => deleted('edge', edge))
+}
+
+export async function insightDeletions(db: Db, ids: string[]): Promise<Change[]> {
+  if (ids.length === 0) return []
+  const insights = await db.insight.findMany({ where: { id: { in: ids } }, include: { evidence: true } })
+  return insights.map(insight => deleted('insight', insight))
+}
+
+// A change as the API returns it
+export function formatChange(change: ChangeLog) {
+  return {
+    ...change,
+    before: parseJson<Record<string, any> | null>(change.before, null),
+    after: parseJson<Record<string, any> | null>(change.after, null),
+    revertible: !change.revertedAt && !NOT_REVERTIBLE[change.operation as ChangeOperation]
+  }
+}
+
+// A conflict found partway through, which rolls the whole revert back
+class RevertConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RevertConflictError'
+  }
+}
+
+export type RevertOutcome = { reverted: number } | { error: string; status: number }
+
+export async function revertChange(projectId: string, changeId: string): Promise<RevertOutcome> {
+  const change = await prisma.changeLog.findFirst({ where: { id: changeId, projectId } })
+  if (!change) return { error: 'Change not found', status: 404 }
+  if (change.revertedAt) return { error: 'This change has already been reverted', status: 409 }
+  return revertChanges(projectId, [change])
+}
+
+// Revert everything a run changed that hasn't been reverted already, such as one extraction of a document
+export async function revertRun(projectId: string, runId: string): Promise<RevertOutcome> {
+  const changes = await prisma.changeLog.findMany({
+    where: { projectId, runId, revertedAt: null },
+    orderBy: [{ createdAt: 'desc' }, { sequence: 'desc' }]
+  })
+  if (changes.length === 0) return { error: 'Nothing in this run is left to revert', status: 404 }
+  return revertChanges(projectId, changes)
+}
+
+// Changes are undone newest first. A record changed again since can't be reverted under that later
+// change, which would be undone with it without appearing in the log.
+async function revertChanges(projectId: string, changes: ChangeLog[]): Promise<RevertOutcome> {
+  for (const change of changes) {
+    const reason = NOT_REVERTIBLE[change.operation as ChangeOperation]
+    if (reason) return { error: `Changes made by ${change.operation} can't be reverted here. ${reason}.`, status: 409 }
+  }
+
+  const ids = changes.map(change => change.id)
+  const checked = new Set<string>()
+  for (const change of changes) {
+    const record = `${change.recordType}:${change.recordId}`
+    if (checked.has(record)) continue
+    checked.add(record)
+    const later = await prisma.changeLog.findFirst({
+      where: {
+        projectId,
+        recordType: change.recordType,
+        recordId: change.recordId,
+        revertedAt: null,
+        id: { notIn: ids },
+        OR: [
+          { createdAt: { gt: change.createdAt } },
+          { createdAt: change.createdAt, runId: change.runId, sequence: { gt: change.sequence } }
+        ]
+      }
+    })
+    if (later) {
+      return { error: `The ${NOUNS[change.recordType as RecordType]} has been changed since; revert the later change first`, status: 409 }
+    }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      for (const change of changes) await undo(tx, change)
+      await tx.changeLog.updateMany({ where: { id: { in: ids } }, data: { revertedAt: new Date() } })
+    }, TRANSACTION_OPTIONS)
+  } catch (error) {
+    if (error instanceof RevertConflictError) return { error: error.message, status: 409 }
+    throw error
+  }
+
+  const documentIds = Array.from(new Set(changes.map(change => change.documentId).filter((id): id is string => !!id)))
+  for (const document of await prisma.document.findMany({ where: { id: { in: documentIds } }, select: { id: true } })) {
+    await prisma.document.update({ where: { id: document.id }, data: await countContribution(document.id) })
+  }
+  await refreshValidity(projectId)
+  return { reverted: changes.length }
+}
+
+const reviveDates = (row: Record<string, any>) => {
+  const copy = { ...row }
+  for (const key of DATE_FIELDS) {
+    if (typeof copy[key] === 'string') copy[key] = new Date(copy[key])
+  }
+  return copy
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+async function undo(tx: Db, change: ChangeLog) {
+  const type = change.recordType as RecordType
+  const before = parseJson<Record<string, any> | null>(change.before, null)
+  const after = parseJson<Record<string, any> | null>(change.after, null)
+
+  if (change.action === 'create') return removeRecord(tx, type, change.recordId)
+  if (change.action === 'update' && before && after) return restoreFields(tx, change.projectId, type, change.recordId, before, after)
+  if (change.action === 'delete' && before) return recreateRecord(tx, change.projectId, type, before)
+  throw new RevertConflictError('This change can\'t be reverted')
+}
+
+// Documents and territories may have been deleted since the change; what pointed to them no longer does
+async function existingOrNull(tx: Db, model: 'document' | 'territory', id: string | null | undefined) {
+  if (!id) return null
+  const count = model === 'document'
+    ? await tx.document.count({ where: { id } })
+    : await tx.territory.count({ where: { id } })
+  return count > 0 ? id : null
+}
+
+async function removeRecord(tx: Db, type: RecordType, id: string) {
+  switch (type) {
+    case 'entity': {
+      // Relationships added to it by later changes would go with it unlogged
+      const relationships = await tx.edge.count({ where: { OR: [{ sourceId: id }, { targetId: id }] } })
+      if (relationships > 0) {
+        throw new RevertConflictError('The entity has relationships that weren\'t made with it; delete or revert those first')
+      }
+      await tx.entity.deleteMany({ where: { id } })
+      return
+    }
+    case 'edge':
+      await tx.edge.deleteMany({ where: { id } })
+      return
+    case 'insight':
+      await tx.insight.deleteMany({ where: { id } })
+      return
+    case 'territory': {
+      const members = await tx.entity.count({ where: { territoryId: id } })
+      if (members > 0) {
+        throw new RevertConflictError('The territory has entities that weren\'t added with it; revert those first')
+      }
+      await tx.territory.deleteMany({ where: { id } })
+      return
+    }
+    default:
+      throw new RevertConflictError(`Creating the ${NOUNS[type]} can't be reverted`)
+  }
+}
+
+async function currentRecord(tx: Db, type: RecordType, id: string): Promise<Record<string, any> | null> {
+  switch (type) {
+    case 'entity': return tx.entity.findUnique({ where: { id }, include: { sources: SOURCE_FIELDS } })
+    case 'edge': return tx.edge.findUnique({ where: { id } })
+    case 'insight': return tx.insight.findUnique({ where: { id } })
+    case 'territory': return tx.territory.findUnique({ where: { id } })
+    case 'settings': return tx.settings.findUnique({ where: { id } })
+    case 'ontology': return { ontology: await readOntology(tx, id) }
+  }
+}
+
+async function restoreFields(
+  tx: Db,
+  projectId: string,
+  type: RecordType,
+  id: string,
+  before: Record<string, any>,
+  after: Record<string, any>
+) {
+  const current = await currentRecord(tx, type, id)
+  if (!current) throw new RevertConflictError(`The ${NOUNS[type]} has since been deleted`)
+
+  const data: Record<string, any> = {}
+  for (const key of Object.keys(before)) {
+    if (before[key] === REDACTED || after[key] === REDACTED) continue
+    // Evidence is added by later extractions without a change of its own, so it is only moved back
+    if (key !== 'evidence' && !same(current[key], after[key])) {
+      throw new RevertConflictError(`The ${NOUNS[type]}'s ${key} has been changed since`)
+    }
+    data[key] = before[key]
+  }
+
+  const { sources, evidence, ...fields } = reviveDates(data)
+  if ('documentId' in fields) fields.documentId = await existingOrNull(tx, 'document', fields.documentId)
+  if ('territoryId' in fields) fields.territoryId = await existingOrNull(tx, 'territory', fields.territoryId)
+  if (('sourceId' in fields || 'targetId' in fields) &&
+      await tx.entity.count({ where: { id: { in: [fields.sourceId ?? current.sourceId, fields.targetId ?? current.targetId] } } }) < 2) {
+    throw new RevertConflictError('The entities the relationship joined no longer both exist')
+  }
+
+  switch (type) {
+    case 'entity':
+      await tx.entity.update({ where: { id }, data: fields })
+      if (sources) await restoreSources(tx, projectId, id, sources)
+      if (evidence) await tx.evidence.updateMany({ where: { projectId, id: { in: evidence } }, data: { entityId: id } })
+      return
+    case 'edge': await tx.edge.update({ where: { id }, data: fields }); return
+    case 'insight': await tx.insight.update({ where: { id }, data: fields }); return
+    case 'territory': await tx.territory.update({ where: { id }, data: fields }); return
+    case 'settings': await tx.settings.update({ where: { id }, data: fields }); return
+    case 'ontology': await writeOntology(tx, id, fields.ontology); return
+  }
+}
+
+// Put back the documents mentioning an entity. A document that no longer does takes its evidence
+// for the entity with it, as when extraction drops a mention.
+async function restoreSources(tx: Db, projectId: string, entityId: string, sources: Array<{ documentId: string; name: string }>) {
+  const keep = sources.map(source => source.documentId)
+  const dropped = await tx.entitySource.findMany({
+    where: { entityId, documentId: { notIn: keep } },
+    select: { documentId: true }
+  })
+  const droppedIds = dropped.map(source => source.documentId)
+  await tx.entitySource.deleteMany({ where: { entityId, documentId: { in: droppedIds } } })
+  await tx.evidence.deleteMany({ where: { projectId, entityId, documentId: { in: droppedIds } } })
+
+  for (const source of sources) {
+    const exists = await tx.entitySource.count({ where: { entityId, documentId: source.documentId } })
+    if (!exists && await existingOrNull(tx, 'document', source.documentId)) {
+      await tx.entitySource.create({ data: { entityId, documentId: source.documentId, name: source.name } })
+    }
+  }
+}
+
+async function restoreEvidence(tx: Db, evidence: Array<Record<string, any>> = []) {
+  for (const item of evidence) {
+    if (await existingOrNull(tx, 'document', item.documentId)) {
+      await tx.evidence.create({ data: reviveDates(item) as Prisma.EvidenceUncheckedCreateInput })
+    }
+  }
+}
+
+async function recreateRecord(tx: Db, projectId: string, type: RecordType, before: Record<string, any>) {
+  const { sources, evidence, ...row } = reviveDates(before)
+  if (await currentRecord(tx, type, row.id)) throw new RevertConflictError(`The ${NOUNS[type]} already exists`)
+  if ('documentId' in row) row.documentId = await existingOrNull(tx, 'document', row.documentId)
+
+  switch (type) {
+    case 'entity':
+      row.territoryId = await existingOrNull(tx, 'territory', row.territoryId)
+      await tx.entity.create({ data: row as Prisma.EntityUncheckedCreateInput })
+      await restoreSources(tx, projectId, row.id, sources || [])
+      break
+    case 'edge':
+      if (await tx.entity.count({ where: { id: { in: [row.sourceId, row.targetId] } } }) < 2) {
+        throw new RevertConflictError('The entities the relationship joined no longer both exist')
+      }
+      await tx.edge.create({ data: row as Prisma.EdgeUncheckedCreateInput })
+      break
+    case 'insight':
+      await tx.insight.create({ data: row as Prisma.InsightUncheckedCreateInput })
+      break
+    case 'territory':
+      await tx.territory.create({ data: row as Prisma.TerritoryUncheckedCreateInput })
+      break
+    default:
+      throw new RevertConflictError(`Deleting the ${NOUNS[type]} can't be reverted`)
+  }
+  await restoreEvidence(tx, evidence)
+}
@@ -0,0 +1,131 @@
+import path from 'path'
+import { promises as fs } from 'fs'
+import type { Document } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ApplySummary, withdrawContribution } from '@/lib/extraction/apply'
+import { relocateEvidence } from '@/lib/extraction/evidence'
+import { ChangeContext, changeContext, logChanges, updated } from '@/lib/changeLog'
+import { extractText } from '@/lib/ingest'
+import { fingerprint } from '@/lib/duplicates'
+import { refreshValidity, setVersionOf } from '@/lib/temporal'
+
+// How widely a document may be shared, least restricted first
+export const CONFIDENTIALITY_LEVELS = ['public', 'internal', 'confidential', 'restricted']
+
+// What deleting a document does to what was extracted from it: take it out of the graph
+// (entities another document also mentions stay), or keep it without a source document
+export type DeleteMode = 'cascade' | 'detach'
+export const DELETE_MODES: DeleteMode[] = ['cascade', 'detach']
+
+const MAX_TAGS = 20
+const MAX_TAG_LENGTH = 40
+
+// A document being extracted can't be changed underneath the worker
+export const isBusy = (document: Pick<Document, 'status'>) =>
+  document.status === 'queued' || document.status === 'processing'
+
+// Trimmed, de-duplicated tags, or null when the value isn't a list of strings
+export function cleanTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) return null
+  const tags: string[] = []
+  for (const tag of value as string[]) {
+    const trimmed = tag.trim().slice(0, MAX_TAG_LENGTH)
+    if (trimmed && !tags.some(t => t.toLowerCase() === trimmed.toLowerCase())) tags.push(trimmed)
+  }
+  return tags.slice(0, MAX_TAGS)
+}
+
+// Keep a document's entities, relationships and insights once it is gone. Entities it created are
+// handed to another document that mentions them, where there is one.
+async function detachContribution(documentId: string, context: ChangeContext) {
+  const entities = await prisma.entity.findMany({
+    where: { documentId },
+    select: { id: true, sources: { where: { documentId: { not: documentId } }, select: { documentId: true }, take: 1 } }
+  })
+  for (const entity of entities) {
+    const owner = entity.sources[0]?.documentId ?? null
+    await prisma.entity.update({
+      where: { id: entity.id },
+      data: { documentId: owner }
+    })
+    await logChanges(prisma, context, [updated('entity', entity.id, { documentId }, { documentId: owner })])
+  }
+
+  const [edges, insights] = await Promise.all([
+    prisma.edge.findMany({ where: { documentId }, select: { id: true } }),
+    prisma.insight.findMany({ where: { documentId }, select: { id: true } })
+  ])
+  await prisma.edge.updateMany({ where: { documentId }, data: { documentId: null } })
+  await prisma.insight.updateMany({ where: { documentId }, data: { documentId: null } })
+  await logChanges(prisma, context, [
+    ...edges.map(edge => updated('edge', edge.id, { documentId }, { documentId: null })),
+    ...insights.map(insight => updated('insight', insight.id, { documentId }, { documentId: null }))
+  ])
+}
+
+// Delete a document, its stored original and, with cascade, what it contributed to the graph.
+// Later versions of it stay together as a series of their own.
+export async function deleteDocument(document: Document, mode: DeleteMode): Promise<ApplySummary | null> {
+  const context = changeContext(document.projectId, 'user', 'delete-document', { documentId: document.id })
+  const summary = mode === 'cascade' ? await withdrawContribution(document, context) : null
+  if (mode === 'detach') await detachContribution(document.id, context)
+
+  await setVersionOf(prisma, document.id, null)
+  await prisma.document.delete({ where: { id: document.id } })
+
+  if (document.storagePath) {
+    try {
+      await fs.unlink(path.join(process.cwd(), document.storagePath))
+    } catch (error) {
+      console.error(`Failed to remove ${document.storagePath}:`, error)
+    }
+  }
+
+  await refreshValidity(document.projectId)
+  return summary
+}
+
+export type ReprocessOutcome =
+  | { document: Document; changed: boolean }
+  | { error: string; status: number }
+
+// Read a document's text again from its original under uploads/, as after a reader has been
+// improved. Evidence quotes are found again in the new text; the graph is left as it is.
+export async function reprocessDocument(document: Document): Promise<ReprocessOutcome> {
+  if (!document.storagePath) {
+    return { error: 'The original file was not kept for this document; upload it again instead', status: 409 }
+  }
+
+  let buffer: Buffer
+  try {
+    buffer = await fs.readFile(path.join(process.cwd(), document.storagePath))
+  } catch (error) {
+    console.error(`Failed to read ${document.storagePath}:`, error)
+    return { error: 'The original file is no longer in uploads/; upload it again instead', status: 410 }
+  }
+
+  const label = document.fileType.slice(1).toUpperCase()
+  let content: string
+  try {
+    content = await extractText(buffer, document.fileType)
+  } catch (error) {
+    console.error(`${label} parsing error:`, error)
+    return { error: `The ${label} file could not be read`, status: 422 }
+  }
+
+  const print = fingerprint(buffer, content)
+  const updated = await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      content,
+      fileSize: buffer.length,
+      contentHash: print.contentHash,
+      textHash: print.textHash,
+      textSignature: JSON.stringify(print.textSignature)
+    }
+  })
+
+  const changed = content !== document.content
+  if (changed) await relocateEvidence(updated)
+  return { document: updated, changed }
+}
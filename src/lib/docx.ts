@@ -0,0 +1,10 @@
+// @ts-ignore
+import mammoth from 'mammoth'
+import { htmlToMarkdown } from './html'
+
+// Text of a Word document with its heading styles kept as Markdown headings ("## Budget"),
+// so chunking can follow the document's sections
+export async function extractDocxText(buffer: Buffer): Promise<string> {
+  const { value } = await mammoth.convertToHtml({ buffer })
+  return htmlToMarkdown(value as string)
+}
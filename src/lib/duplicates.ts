@@ -0,0 +1,169 @@
+import { createHash } from 'crypto'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+
+// What to do with an upload that matches a document already in the project
+export type DuplicateResolution = 'skip' | 'replace' | 'keep'
+export const DUPLICATE_RESOLUTIONS: DuplicateResolution[] = ['skip', 'replace', 'keep']
+
+// Byte-identical files; the same text in another file (a renamed copy, a PDF of a Word document);
+// or mostly the same text, as with two versions of one plan
+export type DuplicateKind = 'identical' | 'same-text' | 'similar'
+
+// Share of matching text shingles above which two documents count as versions of each other,
+// and the lower bar when their filenames also only differ by a version marker
+const SIMILAR_THRESHOLD = 0.8
+const SIMILAR_NAMED_THRESHOLD = 0.5
+
+const SIGNATURE_SIZE = 64
+const SHINGLE_WORDS = 3
+
+export interface Fingerprint {
+  contentHash: string | null
+  textHash: string
+  textSignature: number[]
+}
+
+export interface KnownDocument {
+  id: string
+  filename: string
+  folderPath: string | null
+  seriesId: string | null
+  contentHash: string | null
+  textHash: string
+  textSignature: number[]
+}
+
+export interface DuplicateMatch {
+  document: KnownDocument
+  kind: DuplicateKind
+  similarity: number
+}
+
+const sha256 = (data: Buffer | string) => createHash('sha256').update(data).digest('hex')
+
+// Documents with no readable text (a scanned PDF) only match on their bytes
+const EMPTY_TEXT_HASH = sha256('')
+
+// Runs of anything but letters and digits, in any script (built with RegExp as the compile target
+// predates the "u" flag on literals)
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'gu')
+
+// Words only: case, punctuation, whitespace and layout don't make two texts different
+const normaliseText = (text: string) => text.toLowerCase().replace(NON_WORD, ' ').trim()
+
+// 32-bit FNV-1a, then a murmur-style finaliser per seed so each signature slot hashes differently
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function mix(hash: number, seed: number): number {
+  let h = (hash ^ seed) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1, 0x9e3779b9))
+
+// MinHash of the text's word shingles: the share of equal slots in two signatures estimates how
+// much of their text the documents share, without keeping or comparing the texts themselves
+function minHash(words: string[]): number[] {
+  const signature = SEEDS.map(() => 0xffffffff)
+  const count = Math.max(1, words.length - SHINGLE_WORDS + 1)
+  for (let i = 0; i < count; i++) {
+    const shingle = fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' '))
+    for (let slot = 0; slot < SIGNATURE_SIZE; slot++) {
+      const value = mix(shingle, SEEDS[slot])
+      if (value < signature[slot]) signature[slot] = value
+    }
+  }
+  return signature
+}
+
+export function fingerprint(buffer: Buffer | null, text: string): Fingerprint {
+  const normalised = normaliseText(text)
+  return {
+    contentHash: buffer ? sha256(buffer) : null,
+    textHash: sha256(normalised),
+    textSignature: minHash(normalised.split(' ').filter(Boolean))
+  }
+}
+
+export function similarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  return a.filter((value, i) => value === b[i]).length / a.length
+}
+
+// A filename without its extension and version markers: "Plan v2 (final).docx" -> "plan"
+export function versionStem(filename: string): string {
+  return filename
+    .toLowerCase()
+    .replace(/\.[^.]+$/, '')
+    .replace(/\(\d+\)|\d{4}[-_.]?\d{2}[-_.]?\d{2}|\d{6,8}/g, ' ')
+    .replace(/[_.-]+/g, ' ')
+    .replace(/\b(v|ver|version|rev|revision)\s*\d+\b/g, ' ')
+    .replace(/\b(final|draft|copy|latest|updated|old|new)\b/g, ' ')
+    .replace(NON_WORD, ' ')
+    .trim()
+}
+
+// The closest match for an upload among the project's documents: identical bytes first, then the
+// same text, then the most similar text over the threshold
+export function findDuplicate(
+  filename: string,
+  print: Fingerprint,
+  documents: KnownDocument[]
+): DuplicateMatch | null {
+  const identical = print.contentHash ? documents.find(doc => doc.contentHash === print.contentHash) : undefined
+  if (identical) return { document: identical, kind: 'identical', similarity: 1 }
+  if (print.textHash === EMPTY_TEXT_HASH) return null
+
+  const sameText = documents.find(doc => doc.textHash === print.textHash)
+  if (sameText) return { document: sameText, kind: 'same-text', similarity: 1 }
+
+  const stem = versionStem(filename)
+  let best: DuplicateMatch | null = null
+  for (const document of documents) {
+    if (document.textHash === EMPTY_TEXT_HASH) continue
+    const score = similarity(print.textSignature, document.textSignature)
+    const threshold = stem && versionStem(document.filename) === stem ? SIMILAR_NAMED_THRESHOLD : SIMILAR_THRESHOLD
+    if (score >= threshold && (!best || score > best.similarity)) {
+      best = { document, kind: 'similar', similarity: score }
+    }
+  }
+  return best
+}
+
+// The project's documents with their fingerprints. Documents uploaded before fingerprinting get
+// their text hashes filled in from the stored content the first time they're compared against.
+export async function loadKnownDocuments(projectId: string): Promise<KnownDocument[]> {
+  const documents = await prisma.document.findMany({
+    where: { projectId },
+    select: {
+      id: true, filename: true, folderPath: true, seriesId: true,
+      contentHash: true, textHash: true, textSignature: true
+    }
+  })
+
+  const known: KnownDocument[] = []
+  for (const document of documents) {
+    if (document.textHash && document.textSignature) {
+      known.push({ ...document, textHash: document.textHash, textSignature: parseJson<number[]>(document.textSignature, []) })
+      continue
+    }
+    const { content } = await prisma.document.findUniqueOrThrow({ where: { id: document.id }, select: { content: true } })
+    const { textHash, textSignature } = fingerprint(null, content)
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { textHash, textSignature: JSON.stringify(textSignature) }
+    })
+    known.push({ ...document, textHash, textSignature })
+  }
+  return known
+}
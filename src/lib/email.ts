@@ -0,0 +1,208 @@
+import { extractHtmlText } from './html'
+
+// Email exports: single messages and mailbox files of many
+export const EMAIL_FILE_TYPES = ['.eml', '.mbox']
+
+// Headers kept in the stored text, in this order, under each message's subject heading
+const SHOWN_HEADERS = ['from', 'to', 'cc', 'date']
+const HEADER_LABELS: Record<string, string> = { from: 'From', to: 'To', cc: 'Cc', date: 'Date' }
+
+interface MimePart {
+  headers: Map<string, string>
+  body: string
+}
+
+// Bytes (held one per character, as read with 'latin1') decoded with a message's declared charset
+function decodeBytes(bytes: string, charset = 'utf-8'): string {
+  const buffer = Buffer.from(bytes, 'latin1')
+  try {
+    return new TextDecoder(charset.toLowerCase(), { fatal: false }).decode(buffer)
+  } catch {
+    return buffer.toString('utf8')
+  }
+}
+
+// RFC 2047 encoded words in headers: "=?utf-8?Q?Caf=C3=A9?=" -> "Café"
+const decodeHeader = (value: string) => decodeBytes(value)
+  .replace(/\?=\s+=\?/g, '?==?')
+  .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) =>
+    encoding.toLowerCase() === 'b'
+      ? decodeBytes(Buffer.from(text, 'base64').toString('latin1'), charset)
+      : decodeBytes(text.replace(/_/g, ' ').replace(/=([0-9a-f]{2})/gi, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))), charset)
+  )
+
+function parsePart(raw: string): MimePart {
+  const split = raw.search(/\r?\n\r?\n/)
+  const head = split === -1 ? raw : raw.slice(0, split)
+  const body = split === -1 ? '' : raw.slice(split).replace(/^\r?\n\r?\n/, '')
+
+  const headers = new Map<string, string>()
+  // Folded header lines continue on lines starting with whitespace
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':')
+    if (colon <= 0) continue
+    const name = line.slice(0, colon).trim().toLowerCase()
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+  }
+  return { headers, body }
+}
+
+// "text/plain; charset=utf-8" -> the type and its parameters
+function parseContentType(value = 'text/plain'): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = value.split(';')
+  const params: Record<string, string> = {}
+  for (const param of rest) {
+    const eq = param.indexOf('=')
+    if (eq === -1) continue
+    params[param.slice(0, eq).trim().toLowerCase()] = param.slice(eq + 1).trim().replace(/^"|"$/g, '')
+  }
+  return { type: type.trim().toLowerCase(), params }
+}
+
+function decodeBody(part: MimePart, charset?: string): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase()
+  const bytes = encoding === 'base64'
+    ? Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('latin1')
+    : encoding === 'quoted-printable'
+      ? part.body.replace(/=\r?\n/g, '').replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+      : part.body
+  return decodeBytes(bytes, charset).replace(/\r\n/g, '\n')
+}
+
+// The readable text of a MIME part, and the names of any attachments inside it
+function partText(part: MimePart, attachments: string[]): string {
+  const { type, params } = parseContentType(part.headers.get('content-type'))
+  const disposition = parseContentType(part.headers.get('content-disposition') || 'inline')
+  const filename = disposition.params.filename || params.name
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    const delimiter = `--${params.boundary}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const sections = part.body.split(new RegExp(`^${delimiter}(--)?[ \\t]*\r?$`, 'm'))
+    // split() interleaves the captured "--" of the closing delimiter: parts sit at every other index
+    // after the preamble, and anything after the closing delimiter is an epilogue
+    const children: MimePart[] = []
+    for (let i = 1; i < sections.length; i += 2) {
+      if (sections[i] === '--') break
+      const child = sections[i + 1]
+      if (child !== undefined) children.push(parsePart(child.replace(/^\r?\n/, '')))
+    }
+    if (type === 'multipart/alternative') {
+      // Alternatives are the same content: prefer plain text, then HTML
+      const preferred = children.find(c => parseContentType(c.headers.get('content-type')).type === 'text/plain') ||
+        children.find(c => parseContentType(c.headers.get('content-type')).type === 'text/html') ||
+        children[0]
+      return preferred ? partText(preferred, attachments) : ''
+    }
+    return children.map(child => partText(child, attachments)).filter(Boolean).join('\n\n')
+  }
+
+  if (disposition.type === 'attachment' || (filename && !type.startsWith('text/'))) {
+    attachments.push(decodeHeader(filename || type))
+    return ''
+  }
+  if (type === 'message/rfc822') return formatMessage(part.body)
+  if (type === 'text/html') return extractHtmlText(decodeBody(part, params.charset))
+  if (type.startsWith('text/')) return decodeBody(part, params.charset).trim()
+  return ''
+}
+
+// One message as a Markdown section: the subject as a heading, then sender, recipients and date,
+// then the body. Messages are stored like this so chunking splits a mailbox between messages.
+function formatMessage(raw: string): string {
+  const message = parsePart(raw)
+  const attachments: string[] = []
+  const body = partText(message, attachments)
+
+  const subject = decodeHeader(message.headers.get('subject') || '') || '(no subject)'
+  const lines = [`# ${subject}`]
+  for (const name of SHOWN_HEADERS) {
+    const value = message.headers.get(name)
+    if (value) lines.push(`${HEADER_LABELS[name]}: ${decodeHeader(value)}`)
+  }
+  if (attachments.length > 0) lines.push(`Attachments: ${attachments.join(', ')}`)
+  return `${lines.join('\n')}\n\n${body}`.trim()
+}
+
+export function extractEmlText(buffer: Buffer): string {
+  return formatMessage(buffer.toString('latin1'))
+}
+
+// Messages in an mbox file start with a "From " line; lines in bodies that began that way were escaped as ">From "
+export function extractMboxText(buffer: Buffer): string {
+  return buffer.toString('latin1')
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => formatMessage(message.replace(/^>(>*From )/gm, '$1')))
+    .join('\n\n')
+}
+
+// ---- Participants ----
+
+export interface EmailAddress {
+  name: string
+  address: string
+}
+
+// Split an address list on commas outside quotes and angle brackets:
+// "Lee, Ann" <ann@example.com>, bob@example.com
+export function parseAddresses(value: string): EmailAddress[] {
+  const items: string[] = []
+  let current = ''
+  let quoted = false
+  let bracketed = false
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    else if (char === '<' && !quoted) bracketed = true
+    else if (char === '>' && !quoted) bracketed = false
+    if (char === ',' && !quoted && !bracketed) {
+      items.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  items.push(current)
+
+  return items.flatMap(item => {
+    const angle = item.match(/^(.*)<([^>]+)>\s*$/)
+    const address = (angle ? angle[2] : item).trim().toLowerCase()
+    if (!address.includes('@')) return []
+    const name = (angle ? angle[1] : '').trim().replace(/^"|"$/g, '').replace(/\\"/g, '"').trim()
+      // Directory style "Lee, Ann" reads as "Ann Lee"
+      .replace(/^([^,]+),\s*([^,]+)$/, '$2 $1')
+    return [{ name: name && !name.includes('@') ? name : address, address }]
+  })
+}
+
+// Senders and recipients of every message in a stored email document, as people who correspond with
+// each other. Read from the header lines written by formatMessage, which double as evidence quotes.
+export function emailParticipants(content: string) {
+  const people = new Map<string, { name: string; type: string; metadata: { email: string }; evidence: string }>()
+  const relationships: Array<Record<string, unknown>> = []
+
+  for (const message of content.split(/^# /m).slice(1)) {
+    // Only the header lines under the subject, not quoted headers further down a reply
+    const headerBlock = message.split('\n\n')[0]
+    const header = (name: string) => headerBlock.match(new RegExp(`^${name}: (.+)$`, 'm'))?.[0]
+    const from = header('From')
+    if (!from) continue
+    const recipientLines = [header('To'), header('Cc')].filter((line): line is string => !!line)
+
+    const add = (line: string) => parseAddresses(line.slice(line.indexOf(':') + 1)).map(person => {
+      if (!people.has(person.address)) {
+        people.set(person.address, { name: person.name, type: 'person', metadata: { email: person.address }, evidence: line })
+      }
+      return people.get(person.address)!
+    })
+
+    const [sender] = add(from)
+    for (const line of recipientLines) {
+      for (const recipient of add(line)) {
+        if (!sender || recipient === sender) continue
+        relationships.push({ source: sender.name, target: recipient.name, label: 'corresponds with', weight: 1, evidence: line })
+      }
+    }
+  }
+
+  return { entities: Array.from(people.values()), relationships, insights: [], frontier_hints: [] }
+}
@@ -0,0 +1,206 @@
+// Scores at or above this are treated as the same real-world thing and linked automatically
+export const AUTO_MERGE_THRESHOLD = 0.9
+// Scores between this and AUTO_MERGE_THRESHOLD create a merge proposal for a human to decide
+export const PROPOSE_THRESHOLD = 0.6
+
+// Types that can describe the same thing depending on how a document phrases it
+const TYPE_GROUPS: string[][] = [
+  ['organisation', 'client', 'team'],
+  ['strategy', 'goal'],
+  ['process', 'system'],
+  ['context', 'culture']
+]
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'prof', 'sir', 'dame'])
+const ORG_SUFFIXES = new Set(['ltd', 'limited', 'inc', 'llc', 'llp', 'plc', 'co', 'corp', 'group', 'the'])
+
+// Metadata keys that identify a single real-world thing when they match exactly
+const IDENTIFYING_KEYS = ['email', 'website', 'companyNumber', 'employeeId']
+// Metadata keys that support (but do not prove) a match
+const SUPPORTING_KEYS = ['role', 'title', 'department', 'location']
+
+export interface ResolvableEntity {
+  id: string
+  name: string
+  type: string
+  aliases: string[]
+  metadata: Record<string, any>
+}
+
+export interface MatchResult {
+  entity: ResolvableEntity
+  score: number
+  reasons: string[]
+}
+
+export function normaliseName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token) && !ORG_SUFFIXES.has(token))
+    .join(' ')
+}
+
+export function typesCompatible(a: string, b: string): boolean {
+  if (a === b) return true
+  return TYPE_GROUPS.some(group => group.includes(a) && group.includes(b))
+}
+
+export function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+
+// Sørensen–Dice coefficient over character bigrams
+function bigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const gram = a.slice(i, i + 2)
+    bigrams.set(gram, (bigrams.get(gram) || 0) + 1)
+  }
+
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const gram = b.slice(i, i + 2)
+    const count = bigrams.get(gram) || 0
+    if (count > 0) {
+      bigrams.set(gram, count - 1)
+      overlap++
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2)
+}
+
+// Compare two person names token by token: "Ant" vs "Antony Mayfield", "A. Mayfield" vs "Antony Mayfield"
+function personNameScore(a: string[], b: string[]): { score: number; reason: string } | null {
+  if (a.length === 0 || b.length === 0) return null
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+
+  const sameSurname = shorter.length > 1 && shorter[shorter.length - 1] === longer[longer.length - 1]
+  if (sameSurname && shorter[0].length === 1 && longer[0].startsWith(shorter[0])) {
+    return { score: 0.85, reason: 'initial and surname match' }
+  }
+  if (shorter.length === 1 && shorter[0] === longer[0]) {
+    return { score: 0.75, reason: 'first name matches' }
+  }
+  if (shorter.length === 1 && shorter[0].length >= 3 && longer[0].startsWith(shorter[0])) {
+    return { score: 0.7, reason: 'short form of first name' }
+  }
+  return null
+}
+
+export function scoreMatch(
+  incoming: { name: string; type: string; metadata?: Record<string, any> },
+  candidate: ResolvableEntity
+): MatchResult | null {
+  if (!typesCompatible(incoming.type, candidate.type)) return null
+
+  const reasons: string[] = []
+  const incomingName = normaliseName(incoming.name)
+  const names = [candidate.name, ...candidate.aliases].map(normaliseName).filter(Boolean)
+  if (!incomingName || names.length === 0) return null
+
+  let score = 0
+
+  if (names.includes(incomingName)) {
+    score = 1
+    reasons.push(normaliseName(candidate.name) === incomingName ? 'same name' : 'matches alias')
+  } else {
+    for (const name of names) {
+      const similarity = bigramSimilarity(incomingName, name)
+      if (similarity > score) score = similarity
+    }
+    if (score >= PROPOSE_THRESHOLD) reasons.push(`similar name (${Math.round(score * 100)}%)`)
+
+    if (incoming.type === 'person' && candidate.type === 'person') {
+      for (const name of names) {
+        const personMatch = personNameScore(incomingName.split(' '), name.split(' '))
+        if (personMatch && personMatch.score > score) {
+          score = personMatch.score
+          reasons.splice(0, reasons.length, personMatch.reason)
+        }
+      }
+    }
+  }
+
+  const metadata = incoming.metadata || {}
+  for (const key of IDENTIFYING_KEYS) {
+    const a = metadata[key]
+    const b = candidate.metadata[key]
+    if (a && b && String(a).trim().toLowerCase() === String(b).trim().toLowerCase()) {
+      score = 1
+      reasons.push(`same ${key}`)
+    }
+  }
+
+  if (score > 0 && score < 1) {
+    for (const key of SUPPORTING_KEYS) {
+      const a = metadata[key]
+      const b = candidate.metadata[key]
+      if (a && b && normaliseName(String(a)) === normaliseName(String(b))) {
+        score = Math.min(0.95, score + 0.1)
+        reasons.push(`same ${key}`)
+      }
+    }
+  }
+
+  if (incoming.type !== candidate.type) {
+    score *= 0.9
+    reasons.push(`compatible types (${incoming.type}/${candidate.type})`)
+  }
+
+  return { entity: candidate, score, reasons }
+}
+
+export function findBestMatch(
+  incoming: { name: string; type: string; metadata?: Record<string, any> },
+  candidates: ResolvableEntity[]
+): MatchResult | null {
+  let best: MatchResult | null = null
+  for (const candidate of candidates) {
+    const match = scoreMatch(incoming, candidate)
+    if (match && match.score >= PROPOSE_THRESHOLD && (!best || match.score > best.score)) {
+      best = match
+    }
+  }
+  return best
+}
+
+// Combine alias lists, keeping every distinct spelling except the canonical name itself
+export function mergeAliases(canonicalName: string, ...lists: string[][]): string[] {
+  const seen = new Set([normaliseName(canonicalName)])
+  const aliases: string[] = []
+  for (const list of lists) {
+    for (const alias of list) {
+      const key = normaliseName(alias)
+      if (key && !seen.has(key)) {
+        seen.add(key)
+        aliases.push(alias)
+      }
+    }
+  }
+  return aliases
+}
+
+// Fill keys the existing entity doesn't have yet; existing values win on conflict
+export function mergeMetadata(existing: Record<string, any>, incoming: Record<string, any>): Record<string, any> {
+  const merged = { ...existing }
+  for (const [key, value] of Object.entries(incoming)) {
+    if (merged[key] === undefined || merged[key] === null || merged[key] === '') {
+      merged[key] = value
+    }
+  }
+  return merged
+}
@@ -0,0 +1,518 @@
+import type { Document } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  AUTO_MERGE_THRESHOLD,
+  ResolvableEntity,
+  findBestMatch,
+  mergeAliases,
+  mergeMetadata,
+  parseJson
+} from '@/lib/entityResolution'
+import { refreshValidity } from '@/lib/temporal'
+import {
+  ChangeContext,
+  SOURCE_FIELDS,
+  created,
+  edgeDeletions,
+  entityDeletions,
+  insightDeletions,
+  logChanges,
+  updated
+} from '@/lib/changeLog'
+import { countContribution, diffExtraction, entityKey, hasContribution, loadContribution } from './diff'
+import { evidenceConfidence, recordEvidence } from './evidence'
+import { ExtractionDiff, ExtractionResult, PendingExtraction } from './types'
+
+export interface ApplySummary {
+  entities: number
+  linkedEntities: number
+  removedEntities: number
+  mergeProposals: number
+  relationships: number
+  removedRelationships: number
+  insights: number
+  removedInsights: number
+  territories: number
+  agents: number
+}
+
+const capitalise = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+// An entity as the change log keeps it, with the documents that mention it
+const loadEntity = (id: string) => prisma.entity.findUnique({ where: { id }, include: { sources: SOURCE_FIELDS } })
+
+// Apply a fresh extraction result to the graph as a diff against what the document contributed
+// before, so running it twice leaves the graph unchanged. Keys listed in `exclude` are skipped.
+// Every change is logged under `context`.
+export async function applyExtraction(
+  document: Document,
+  result: ExtractionResult,
+  extractedBy: string,
+  context: ChangeContext,
+  exclude: string[] = []
+): Promise<{ diff: ExtractionDiff; summary: ApplySummary }> {
+  const projectId = document.projectId
+  const skipped = new Set(exclude)
+  const diff = diffExtraction(await loadContribution(document.id), result)
+
+  const summary: ApplySummary = {
+    entities: 0,
+    linkedEntities: 0,
+    removedEntities: 0,
+    mergeProposals: 0,
+    relationships: 0,
+    removedRelationships: 0,
+    insights: 0,
+    removedInsights: 0,
+    territories: 0,
+    agents: 0
+  }
+
+  // Removals first, so added entities don't resolve onto rows that are about to disappear
+  for (const removed of diff.entities.removed) {
+    if (skipped.has(removed.key)) continue
+    await detachEntity(removed.id, document.id, context)
+    summary.removedEntities++
+  }
+  for (const removed of diff.relationships.removed) {
+    if (skipped.has(removed.key)) continue
+    await logChanges(prisma, context, await edgeDeletions(prisma, [removed.id]))
+    await prisma.edge.deleteMany({ where: { id: removed.id } })
+    summary.removedRelationships++
+  }
+  for (const removed of diff.insights.removed) {
+    if (skipped.has(removed.key)) continue
+    await logChanges(prisma, context, await insightDeletions(prisma, [removed.id]))
+    await prisma.insight.deleteMany({ where: { id: removed.id } })
+    summary.removedInsights++
+  }
+
+  const entityIds = new Map<string, string>()
+  for (const entity of [...diff.entities.unchanged, ...diff.entities.changed.map(c => c.before)]) {
+    entityIds.set(entity.key, entity.id)
+  }
+
+  for (const { id, after, fields } of diff.entities.changed) {
+    if (skipped.has(after.key)) continue
+    const existing = await prisma.entity.findUnique({ where: { id } })
+    if (!existing) continue
+    const entity = await prisma.entity.update({
+      where: { id },
+      data: {
+        type: fields.includes('type') ? after.type : undefined,
+        subtype: fields.includes('subtype') ? after.subtype : undefined,
+        description: fields.includes('description') ? after.description : undefined,
+        metadata: fields.includes('metadata')
+          ? JSON.stringify({ ...parseJson<Record<string, any>>(existing.metadata, {}), ...after.metadata })
+          : undefined
+      }
+    })
+    await logChanges(prisma, context, [updated('entity', id, existing, entity)])
+    await recordEvidence(document, { entityId: id }, after.evidence)
+  }
+  for (const entity of diff.entities.unchanged) {
+    if (skipped.has(entity.key)) continue
+    await recordEvidence(document, { entityId: entity.id }, entity.evidence)
+  }
+
+  // Resolve added entities against what the project already knows before creating anything
+  const existingEntities = await prisma.entity.findMany({
+    where: { projectId },
+    select: { id: true, name: true, type: true, aliases: true, metadata: true }
+  })
+  const knownEntities: ResolvableEntity[] = existingEntities.map(e => ({
+    id: e.id,
+    name: e.name,
+    type: e.type,
+    aliases: parseJson<string[]>(e.aliases, []),
+    metadata: parseJson<Record<string, any>>(e.metadata, {})
+  }))
+  const createdEntities: Array<{ id: string; type: string }> = []
+
+  for (const entityData of diff.entities.added) {
+    if (skipped.has(entityData.key)) continue
+    const metadata = entityData.metadata
+    const match = findBestMatch(entityData, knownEntities)
+
+    if (match && match.score >= AUTO_MERGE_THRESHOLD) {
+      // Same real-world thing: link to the existing row and record this mention
+      const existing = match.entity
+      existing.aliases = mergeAliases(existing.name, existing.aliases, [entityData.name])
+      existing.metadata = mergeMetadata(existing.metadata, metadata)
+
+      const before = await loadEntity(existing.id)
+      await prisma.entity.update({
+        where: { id: existing.id },
+        data: {
+          aliases: JSON.stringify(existing.aliases),
+          metadata: JSON.stringify(existing.metadata)
+        }
+      })
+      // A document naming the entity two ways is still one source of it
+      const hasSource = await prisma.entitySource.count({ where: { entityId: existing.id, documentId: document.id } })
+      if (!hasSource) {
+        await prisma.entitySource.create({
+          data: { entityId: existing.id, documentId: document.id, name: entityData.name }
+        })
+      }
+      const linked = await loadEntity(existing.id)
+      if (before && linked) await logChanges(prisma, context, [updated('entity', existing.id, before, linked)])
+      await recordEvidence(document, { entityId: existing.id }, entityData.evidence)
+
+      entityIds.set(entityData.key, existing.id)
+      summary.linkedEntities++
+      continue
+    }
+
+    const entity = await prisma.entity.create({
+      data: {
+        projectId,
+        documentId: document.id,
+        name: entityData.name,
+        type: entityData.type,
+        subtype: entityData.subtype || null,
+        description: entityData.description || null,
+        metadata: JSON.stringify(metadata),
+        confidence: evidenceConfidence(document, entityData.evidence),
+        extractedBy,
+        sources: {
+          create: { documentId: document.id, name: entityData.name }
+        }
+      },
+      include: { sources: SOURCE_FIELDS }
+    })
+    await logChanges(prisma, context, [created('entity', entity)])
+    await recordEvidence(document, { entityId: entity.id }, entityData.evidence)
+
+    if (match) {
+      await prisma.mergeProposal.create({
+        data: {
+          projectId,
+          entityId: match.entity.id,
+          candidateId: entity.id,
+          score: match.score,
+          reasons: JSON.stringify(match.reasons)
+        }
+      })
+      summary.mergeProposals++
+    }
+
+    knownEntities.push({ id: entity.id, name: entity.name, type: entity.type, aliases: [], metadata })
+    entityIds.set(entityData.key, entity.id)
+    createdEntities.push(entity)
+    summary.entities++
+  }
+
+  for (const { id, after } of diff.relationships.changed) {
+    if (skipped.has(after.key)) continue
+    const existing = await prisma.edge.findUnique({ where: { id } })
+    if (!existing) continue
+    const edge = await prisma.edge.update({ where: { id }, data: { weight: after.weight } })
+    await logChanges(prisma, context, [updated('edge', id, existing, edge)])
+    await recordEvidence(document, { edgeId: id }, after.evidence)
+  }
+  for (const edge of diff.relationships.unchanged) {
+    if (skipped.has(edge.key)) continue
+    await recordEvidence(document, { edgeId: edge.id }, edge.evidence)
+  }
+
+  for (const relData of diff.relationships.added) {
+    if (skipped.has(relData.key)) continue
+    const sourceId = entityIds.get(entityKey(relData.source))
+    const targetId = entityIds.get(entityKey(relData.target))
+    if (!sourceId || !targetId || sourceId === targetId) continue
+
+    const edge = await prisma.edge.create({
+      data: {
+        projectId,
+        sourceId,
+        targetId,
+        label: relData.label,
+        relationType: relData.relationType || null,
+        rawLabel: relData.rawLabel || null,
+        weight: relData.weight,
+        confidence: evidenceConfidence(document, relData.evidence),
+        documentId: document.id
+      }
+    })
+    await logChanges(prisma, context, [created('edge', edge)])
+    await recordEvidence(document, { edgeId: edge.id }, relData.evidence)
+    summary.relationships++
+  }
+
+  for (const { id, after } of diff.insights.changed) {
+    if (skipped.has(after.key)) continue
+    const existing = await prisma.insight.findUnique({ where: { id } })
+    if (!existing) continue
+    const insight = await prisma.insight.update({
+      where: { id },
+      data: { type: after.type, severity: after.severity }
+    })
+    await logChanges(prisma, context, [updated('insight', id, existing, insight)])
+    await recordEvidence(document, { insightId: id }, after.evidence)
+  }
+  for (const insight of diff.insights.unchanged) {
+    if (skipped.has(insight.key)) continue
+    await recordEvidence(document, { insightId: insight.id }, insight.evidence)
+  }
+
+  for (const insightData of diff.insights.added) {
+    if (skipped.has(insightData.key)) continue
+    const insight = await prisma.insight.create({
+      data: {
+        projectId,
+        documentId: document.id,
+        type: insightData.type,
+        severity: insightData.severity,
+        text: insightData.text
+      }
+    })
+    await logChanges(prisma, context, [created('insight', insight)])
+    await recordEvidence(document, { insightId: insight.id }, insightData.evidence)
+    summary.insights++
+  }
+
+  summary.territories = await assignTerritories(projectId, createdEntities, result.frontier_hints, context)
+  summary.agents = await refreshAgents(projectId)
+  // Mentions added or dropped here move when the entities involved held
+  await refreshValidity(projectId)
+
+  await prisma.document.update({
+    where: { id: document.id },
+    data: {
+      status: 'extracted',
+      pendingExtraction: null,
+      ...await countContribution(document.id)
+    }
+  })
+
+  return { diff, summary }
+}
+
+export type ExtractionOutcome =
+  | { status: 'review'; diff: ExtractionDiff }
+  | { status: 'extracted'; summary: ApplySummary }
+
+// A document that already contributed to the graph gets a diff to approve instead of
+// another copy of everything it found last time; a new document is applied straight away
+export async function completeExtraction(
+  document: Document,
+  result: ExtractionResult,
+  extractedBy: string,
+  context: ChangeContext
+): Promise<ExtractionOutcome> {
+  const previous = await loadContribution(document.id)
+
+  if (hasContribution(previous)) {
+    const pending: PendingExtraction = {
+      result,
+      extractedBy,
+      jobId: context.jobId,
+      createdAt: new Date().toISOString()
+    }
+    await prisma.document.update({
+      where: { id: document.id },
+      data: {
+        status: 'review',
+        pendingExtraction: JSON.stringify(pending)
+      }
+    })
+    return { status: 'review', diff: diffExtraction(previous, result) }
+  }
+
+  const { summary } = await applyExtraction(document, result, extractedBy, context)
+  return { status: 'extracted', summary }
+}
+
+// Replace a document's insights and frontier hints without touching the entities and relationships it
+// contributed, as after a structured import where the graph came from the table and not the model
+export async function applyInsightsOnly(
+  document: Document,
+  result: ExtractionResult,
+  extractedBy: string,
+  context: ChangeContext
+): Promise<ExtractionOutcome> {
+  const previous = await loadContribution(document.id)
+  const kept = [...previous.entities, ...previous.relationships].map(item => item.key)
+  const { summary } = await applyExtraction(
+    document,
+    { entities: [], relationships: [], insights: result.insights, frontier_hints: result.frontier_hints },
+    extractedBy,
+    context,
+    kept
+  )
+  return { status: 'extracted', summary }
+}
+
+// Take everything a document contributed back out of the graph, as an extraction that found nothing
+// would: entities only it mentioned, its relationships and its insights
+export async function withdrawContribution(document: Document, context: ChangeContext): Promise<ApplySummary> {
+  const { summary } = await applyExtraction(
+    document,
+    { entities: [], relationships: [], insights: [], frontier_hints: [] },
+    'withdrawn',
+    context
+  )
+  return summary
+}
+
+// Remove a document's claim on an entity, deleting the entity when no other document mentions it
+async function detachEntity(entityId: string, documentId: string, context: ChangeContext) {
+  const entity = await loadEntity(entityId)
+  if (!entity) return
+
+  const otherSources = entity.sources.filter(s => s.documentId !== documentId)
+  const ownedByOtherDocument = entity.documentId !== null && entity.documentId !== documentId
+
+  if (otherSources.length === 0 && !ownedByOtherDocument) {
+    await logChanges(prisma, context, await entityDeletions(prisma, [entityId]))
+    await prisma.entity.delete({ where: { id: entityId } })
+    return
+  }
+
+  await prisma.entitySource.deleteMany({ where: { entityId, documentId } })
+  await prisma.evidence.deleteMany({ where: { entityId, documentId } })
+  if (entity.documentId === documentId) {
+    await prisma.entity.update({
+      where: { id: entityId },
+      data: { documentId: otherSources[0].documentId }
+    })
+  }
+  const detached = await loadEntity(entityId)
+  if (detached) await logChanges(prisma, context, [updated('entity', entityId, entity, detached)])
+}
+
+// Territories are shared by the whole project: reuse the one for a type rather than adding another per run
+async function assignTerritories(
+  projectId: string,
+  createdEntities: Array<{ id: string; type: string }>,
+  frontierHints: ExtractionResult['frontier_hints'],
+  context: ChangeContext
+): Promise<number> {
+  const entityIdsByType: Record<string, string[]> = {}
+  for (const entity of createdEntities) {
+    if (!entityIdsByType[entity.type]) entityIdsByType[entity.type] = []
+    entityIdsByType[entity.type].push(entity.id)
+  }
+
+  let territoryCount = 0
+
+  for (const [type, entityIds] of Object.entries(entityIdsByType)) {
+    let territory = await prisma.territory.findFirst({
+      where: { projectId, type, status: 'known' }
+    })
+    if (!territory) {
+      territory = await prisma.territory.create({
+        data: {
+          projectId,
+          name: capitalise(type),
+          type,
+          status: 'known'
+        }
+      })
+      await logChanges(prisma, context, [created('territory', territory)])
+      territoryCount++
+    }
+
+    await prisma.entity.updateMany({
+      where: { id: { in: entityIds } },
+      data: { territoryId: territory.id }
+    })
+    const territoryId = territory.id
+    await logChanges(prisma, context, entityIds.map(id => updated('entity', id, { territoryId: null }, { territoryId })))
+
+    const total = await prisma.entity.count({ where: { territoryId: territory.id } })
+    // The description only counts the members, so it is refreshed rather than logged
+    await prisma.territory.update({
+      where: { id: territory.id },
+      data: { description: `Territory containing ${total} ${type} entities` }
+    })
+  }
+
+  for (const hintData of frontierHints) {
+    const existing = await prisma.territory.findFirst({
+      where: { projectId, name: hintData.name, status: 'frontier' }
+    })
+    if (existing) continue
+
+    const territory = await prisma.territory.create({
+      data: {
+        projectId,
+        name: hintData.name,
+        type: 'frontier',
+        status: 'frontier',
+        hint: hintData.hint,
+        risk: hintData.risk,
+        value: hintData.value,
+        accessNeeded: hintData.access_needed
+      }
+    })
+    await logChanges(prisma, context, [created('territory', territory)])
+    territoryCount++
+  }
+
+  return territoryCount
+}
+
+// Keep one coordinator per project with an explorer for each entity type that has enough members
+async function refreshAgents(projectId: string): Promise<number> {
+  const typeCounts = await prisma.entity.groupBy({
+    by: ['type'],
+    where: { projectId },
+    _count: { _all: true }
+  })
+  const totalEntities = typeCounts.reduce((sum, t) => sum + t._count._all, 0)
+
+  let coordinator = await prisma.agent.findFirst({
+    where: { projectId, role: 'coordinator' }
+  })
+  let agentCount = 0
+
+  if (coordinator) {
+    await prisma.agent.update({
+      where: { id: coordinator.id },
+      data: { entitiesManaged: totalEntities }
+    })
+  } else {
+    coordinator = await prisma.agent.create({
+      data: {
+        projectId,
+        name: 'System Coordinator',
+        role: 'coordinator',
+        status: 'active',
+        description: 'Primary agent overseeing knowledge extraction and analysis',
+        entitiesManaged: totalEntities
+      }
+    })
+    agentCount++
+  }
+
+  for (const { type, _count } of typeCounts) {
+    const explorer = await prisma.agent.findFirst({
+      where: { projectId, role: 'explorer', domain: type }
+    })
+
+    if (explorer) {
+      await prisma.agent.update({
+        where: { id: explorer.id },
+        data: { entitiesManaged: _count._all }
+      })
+    } else if (_count._all >= 3) {
+      await prisma.agent.create({
+        data: {
+          projectId,
+          name: `${capitalise(type)} Explorer`,
+          role: 'explorer',
+          status: 'active',
+          domain: type,
+          description: `Specialized agent for analyzing ${type} entities`,
+          entitiesManaged: _count._all,
+          parentAgentId: coordinator.id
+        }
+      })
+      agentCount++
+    }
+  }
+
+  return agentCount
+}
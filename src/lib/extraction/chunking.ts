@@ -0,0 +1,167 @@
+import { PAGE_BREAK } from '@/lib/pdf'
+
+export interface Chunk {
+  text: string
+  // Where the chunk starts, e.g. "Strategy > 2025 goals", "Page 4" or "Rows 201–400"
+  location: string | null
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const HAS_HEADINGS = /^#{1,6}\s+\S/m
+
+// Markdown, and DOCX (stored with its headings as Markdown): one section per heading,
+// labelled with the headings above it
+function headingSections(content: string): Chunk[] {
+  const sections: Chunk[] = []
+  const path: string[] = []
+  let lines: string[] = []
+  let location: string | null = null
+
+  const flush = () => {
+    const text = lines.join('\n').trim()
+    if (text) sections.push({ text, location })
+    lines = []
+  }
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(HEADING)
+    if (heading) {
+      flush()
+      const level = heading[1].length
+      path.splice(level - 1)
+      path[level - 1] = heading[2]
+      location = path.filter(Boolean).join(' > ')
+    }
+    lines.push(line)
+  }
+  flush()
+  return sections
+}
+
+// PDFs are stored with a form feed after each page
+function pageSections(content: string): Chunk[] {
+  return content
+    .split(PAGE_BREAK)
+    .map((text, i) => ({ text: text.trim(), location: `Page ${i + 1}` }))
+    .filter(section => section.text)
+}
+
+// Rows of a CSV file, keeping quoted fields that run over several lines in one row
+function csvRows(content: string): string[] {
+  const rows: string[] = []
+  let current = ''
+  for (const line of content.split(/\r?\n/)) {
+    current = current ? `${current}\n${line}` : line
+    // An odd number of quotes means a quoted field carries on to the next line
+    if ((current.match(/"/g) || []).length % 2 === 0) {
+      if (current.trim()) rows.push(current)
+      current = ''
+    }
+  }
+  if (current.trim()) rows.push(current)
+  return rows
+}
+
+// Blocks of whole rows, each starting with the header row so the model knows what the columns mean
+function csvChunks(content: string, size: number): Chunk[] {
+  const [header, ...rows] = csvRows(content)
+  const chunks: Chunk[] = []
+  let block: string[] = []
+  let length = header.length
+  let first = 1
+
+  const flush = (last: number) => {
+    if (block.length === 0) return
+    chunks.push({
+      text: [header, ...block].join('\n'),
+      location: last > first ? `Rows ${first}–${last}` : `Row ${first}`
+    })
+    block = []
+    length = header.length
+    first = last + 1
+  }
+
+  rows.forEach((row, i) => {
+    if (block.length > 0 && length + row.length + 1 > size) flush(i)
+    block.push(row)
+    length += row.length + 1
+  })
+  flush(rows.length)
+  return chunks
+}
+
+// Cut text longer than `size` at the last space before the limit
+function hardSplit(text: string, size: number): string[] {
+  const pieces: string[] = []
+  let rest = text
+  while (rest.length > size) {
+    const space = rest.lastIndexOf(' ', size)
+    const cut = space > size / 2 ? space : size
+    pieces.push(rest.slice(0, cut))
+    rest = rest.slice(cut).trimStart()
+  }
+  if (rest) pieces.push(rest)
+  return pieces
+}
+
+// A section too big for one chunk is split between paragraphs, and a paragraph too big between words
+function splitSection(section: Chunk, size: number): Chunk[] {
+  if (section.text.length <= size) return [section]
+
+  const parts: Chunk[] = []
+  let current = ''
+  for (const paragraph of section.text.split(/\n\n+/)) {
+    for (const piece of hardSplit(paragraph, size)) {
+      if (current && current.length + 2 + piece.length > size) {
+        parts.push({ text: current, location: section.location })
+        current = piece
+      } else {
+        current = current ? `${current}\n\n${piece}` : piece
+      }
+    }
+  }
+  if (current) parts.push({ text: current, location: section.location })
+  return parts
+}
+
+// Fill chunks with whole sections, so boundaries fall between headings or pages where possible
+function packSections(sections: Chunk[], size: number): Chunk[] {
+  const chunks: Chunk[] = []
+  let current: Chunk | null = null
+  for (const section of sections.flatMap(s => splitSection(s, size))) {
+    if (current && current.text.length + 2 + section.text.length <= size) {
+      current.text += `\n\n${section.text}`
+    } else {
+      if (current) chunks.push(current)
+      current = { ...section }
+    }
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// Prefix each chunk with the tail of the one before it, starting on a word boundary
+function addOverlap(chunks: Chunk[], overlap: number): Chunk[] {
+  if (overlap <= 0) return chunks
+  return chunks.map((chunk, i) => {
+    if (i === 0) return chunk
+    const tail = chunks[i - 1].text.slice(-overlap)
+    return { ...chunk, text: `${tail.slice(tail.search(/\s/) + 1)}\n\n${chunk.text}` }
+  })
+}
+
+// Split a document into chunks of at most `size` characters (plus overlap), following its structure:
+// PDF pages, Markdown/DOCX headings or CSV rows, and paragraphs for anything else.
+// CSV chunks don't overlap, as each already repeats the header row.
+export function chunkDocument(content: string, fileType: string, size: number, overlap: number): Chunk[] {
+  if (content.length <= size) return [{ text: content, location: null }]
+  if (fileType === '.csv') return csvChunks(content, size)
+
+  const sections = content.includes(PAGE_BREAK)
+    ? pageSections(content)
+    : HAS_HEADINGS.test(content)
+      ? headingSections(content)
+      : [{ text: content, location: null }]
+
+  return addOverlap(packSections(sections, size), Math.min(overlap, Math.floor(size / 2)))
+}
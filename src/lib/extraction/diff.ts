@@ -0,0 +1,273 @@
+import { prisma } from '@/lib/prisma'
+import { AUTO_MERGE_THRESHOLD, normaliseName, parseJson, scoreMatch } from '@/lib/entityResolution'
+import {
+  DiffEntity,
+  DiffInsight,
+  DiffRelationship,
+  DiffSection,
+  ExtractionDiff,
+  ExtractionResult
+} from './types'
+
+// What a document currently contributes to the project graph. Entities carry their aliases, since a
+// document that named one two ways is recorded as mentioning it once, by the first name.
+export interface DocumentContribution {
+  entities: Array<DiffEntity & { id: string; aliases: string[] }>
+  relationships: Array<DiffRelationship & { id: string }>
+  insights: Array<DiffInsight & { id: string }>
+}
+
+export const entityKey = (name: string) => `entity:${normaliseName(name)}`
+
+// A relationship's end is the entity it joins when the document already contributes that entity,
+// whichever of its names is used, and otherwise the name
+interface RelationshipEnd {
+  id?: string
+  name: string
+}
+
+const endKey = (end: RelationshipEnd) => end.id ? `#${end.id}` : normaliseName(end.name)
+
+export const relationshipKey = (source: RelationshipEnd, label: string, target: RelationshipEnd) =>
+  `relationship:${endKey(source)}|${normaliseName(label)}|${endKey(target)}`
+
+export const insightKey = (text: string) => `insight:${normaliseName(text)}`
+
+export async function loadContribution(documentId: string): Promise<DocumentContribution> {
+  const [entities, edges, insights] = await Promise.all([
+    prisma.entity.findMany({
+      where: {
+        OR: [
+          { documentId },
+          { sources: { some: { documentId } } }
+        ]
+      },
+      include: { sources: { where: { documentId }, orderBy: { createdAt: 'asc' } } }
+    }),
+    prisma.edge.findMany({ where: { documentId } }),
+    prisma.insight.findMany({ where: { documentId } })
+  ])
+
+  // Entities are keyed by the name this document used for them, which may differ from the canonical name
+  const mentionNames = new Map<string, string>()
+  const contributedEntities = new Map<string, DocumentContribution['entities'][number]>()
+  for (const entity of entities) {
+    const names = entity.sources.length > 0 ? entity.sources.map(s => s.name) : [entity.name]
+    mentionNames.set(entity.id, names[0])
+    for (const name of names) {
+      const key = entityKey(name)
+      if (contributedEntities.has(key)) continue
+      contributedEntities.set(key, {
+        id: entity.id,
+        key,
+        name,
+        type: entity.type,
+        subtype: entity.subtype,
+        description: entity.description,
+        metadata: parseJson<Record<string, any>>(entity.metadata, {}),
+        aliases: parseJson<string[]>(entity.aliases, [])
+      })
+    }
+  }
+
+  const entityNames = new Map(entities.map(e => [e.id, e.name]))
+  const missingIds = edges
+    .flatMap(e => [e.sourceId, e.targetId])
+    .filter(id => !mentionNames.has(id) && !entityNames.has(id))
+  if (missingIds.length > 0) {
+    const others = await prisma.entity.findMany({
+      where: { id: { in: Array.from(new Set(missingIds)) } },
+      select: { id: true, name: true }
+    })
+    for (const other of others) entityNames.set(other.id, other.name)
+  }
+  const nameOf = (id: string) => mentionNames.get(id) || entityNames.get(id) || id
+  // Entities not among those contributed can only be matched by name
+  const contributedIds = new Set(Array.from(contributedEntities.values()).map(e => e.id))
+  const endOf = (id: string) => ({ id: contributedIds.has(id) ? id : undefined, name: nameOf(id) })
+
+  return {
+    entities: Array.from(contributedEntities.values()),
+    relationships: edges.map(edge => {
+      const source = nameOf(edge.sourceId)
+      const target = nameOf(edge.targetId)
+      return {
+        id: edge.id,
+        key: relationshipKey(endOf(edge.sourceId), edge.label, endOf(edge.targetId)),
+        source,
+        target,
+        label: edge.label,
+        relationType: edge.relationType,
+        rawLabel: edge.rawLabel,
+        weight: edge.weight
+      }
+    }),
+    insights: insights.map(insight => ({
+      id: insight.id,
+      key: insightKey(insight.text),
+      type: insight.type,
+      severity: insight.severity,
+      text: insight.text
+    }))
+  }
+}
+
+export function hasContribution(contribution: DocumentContribution): boolean {
+  return contribution.entities.length > 0 ||
+    contribution.relationships.length > 0 ||
+    contribution.insights.length > 0
+}
+
+// The entity and relationship counts shown for a document, from what it contributes now
+export async function countContribution(documentId: string): Promise<{ entityCount: number; edgeCount: number }> {
+  const [entityCount, edgeCount] = await Promise.all([
+    prisma.entity.count({
+      where: {
+        OR: [
+          { documentId },
+          { sources: { some: { documentId } } }
+        ]
+      }
+    }),
+    prisma.edge.count({ where: { documentId } })
+  ])
+  return { entityCount, edgeCount }
+}
+
+function metadataChanged(before: Record<string, any>, after: Record<string, any>): boolean {
+  return Object.entries(after).some(([key, value]) => JSON.stringify(before[key]) !== JSON.stringify(value))
+}
+
+function diffSection<T extends { key: string; evidence?: string[] }>(
+  previous: Array<T & { id: string }>,
+  next: T[],
+  changedFields: (before: T, after: T) => string[]
+): DiffSection<T> {
+  const previousByKey = new Map(previous.map(item => [item.key, item]))
+  const section: DiffSection<T> = { added: [], removed: [], changed: [], unchanged: [] }
+  const seen = new Map<string, string[]>()
+
+  for (const item of next) {
+    // Repeat mentions only add their supporting quotes to the first one
+    const evidence = seen.get(item.key)
+    if (evidence) {
+      for (const quote of item.evidence || []) {
+        if (!evidence.includes(quote)) evidence.push(quote)
+      }
+      continue
+    }
+    item.evidence = [...(item.evidence || [])]
+    seen.set(item.key, item.evidence)
+
+    const before = previousByKey.get(item.key)
+    if (!before) {
+      section.added.push(item)
+      continue
+    }
+    const fields = changedFields(before, item)
+    if (fields.length > 0) {
+      section.changed.push({ id: before.id, before, after: item, fields })
+    } else {
+      section.unchanged.push({ ...before, evidence: item.evidence })
+    }
+  }
+
+  for (const item of previous) {
+    if (!seen.has(item.key)) section.removed.push(item)
+  }
+
+  return section
+}
+
+// Compare a fresh extraction result with what the document previously contributed
+export function diffExtraction(previous: DocumentContribution, result: ExtractionResult): ExtractionDiff {
+  // A renamed mention ("Ant" -> "Antony Mayfield") is still the same entity, so map its key onto the old one
+  const renamedKeys = new Map<string, string>()
+  const previousKeys = new Set(previous.entities.map(e => e.key))
+
+  const nextEntities: DiffEntity[] = result.entities.map(entity => {
+    let key = entityKey(entity.name)
+    if (!previousKeys.has(key)) {
+      for (const candidate of previous.entities) {
+        const match = scoreMatch(entity, candidate)
+        if (match && match.score >= AUTO_MERGE_THRESHOLD) {
+          renamedKeys.set(key, candidate.key)
+          key = candidate.key
+          break
+        }
+      }
+    }
+    return {
+      key,
+      name: entity.name,
+      type: entity.type,
+      subtype: entity.subtype || null,
+      description: entity.description || null,
+      metadata: entity.metadata || {},
+      evidence: entity.evidence ? [entity.evidence] : []
+    }
+  })
+
+  const previousByKey = new Map(previous.entities.map(e => [e.key, e]))
+  const resolveEnd = (name: string): RelationshipEnd => {
+    const key = entityKey(name)
+    const mapped = renamedKeys.get(key)
+    const previousEntity = previousByKey.get(mapped || key)
+    if (!previousEntity) return { name }
+    // A renamed mention goes by its old name, which is the one apply can find
+    return { id: previousEntity.id, name: mapped ? previousEntity.name : name }
+  }
+
+  // Repeat mentions of a relationship become one edge whose weight is the sum of theirs
+  const relationshipsByKey = new Map<string, DiffRelationship>()
+  for (const rel of result.relationships) {
+    const source = resolveEnd(rel.source)
+    const target = resolveEnd(rel.target)
+    const key = relationshipKey(source, rel.label, target)
+    const existing = relationshipsByKey.get(key)
+    if (existing) {
+      existing.weight += rel.weight || 1
+      if (rel.evidence && !existing.evidence!.includes(rel.evidence)) existing.evidence!.push(rel.evidence)
+      continue
+    }
+    relationshipsByKey.set(key, {
+      key,
+      source: source.name,
+      target: target.name,
+      label: rel.label,
+      relationType: rel.relationType || null,
+      rawLabel: rel.rawLabel || null,
+      weight: rel.weight || 1,
+      evidence: rel.evidence ? [rel.evidence] : []
+    })
+  }
+  const nextRelationships = Array.from(relationshipsByKey.values())
+
+  const nextInsights: DiffInsight[] = result.insights.map(insight => ({
+    key: insightKey(insight.text),
+    type: insight.type,
+    severity: insight.severity,
+    text: insight.text,
+    evidence: insight.evidence ? [insight.evidence] : []
+  }))
+
+  return {
+    entities: diffSection(previous.entities, nextEntities, (before, after) => {
+      const fields: string[] = []
+      if (before.type !== after.type) fields.push('type')
+      if ((before.subtype || null) !== (after.subtype || null) && after.subtype) fields.push('subtype')
+      if ((before.description || null) !== (after.description || null) && after.description) fields.push('description')
+      if (metadataChanged(before.metadata, after.metadata)) fields.push('metadata')
+      return fields
+    }),
+    relationships: diffSection(previous.relationships, nextRelationships, (before, after) =>
+      before.weight !== after.weight ? ['weight'] : []
+    ),
+    insights: diffSection(previous.insights, nextInsights, (before, after) => {
+      const fields: string[] = []
+      if (before.type !== after.type) fields.push('type')
+      if (before.severity !== after.severity) fields.push('severity')
+      return fields
+    })
+  }
+}
@@ -0,0 +1,125 @@
+import type { Document, Evidence } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { pageAtOffset } from '@/lib/pdf'
+
+export type EvidenceTarget = { entityId: string } | { edgeId: string } | { insightId: string }
+
+// Quotes often come back with their quote marks or a trailing ellipsis attached
+const cleanQuote = (quote: string) =>
+  quote.trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, '').trim()
+
+// Character range of a quote in the document: exact match first, then ignoring case and whitespace
+export function locateQuote(content: string, quote: string): { start: number; end: number } | null {
+  const needle = cleanQuote(quote)
+  if (!needle) return null
+
+  const exact = content.indexOf(needle)
+  if (exact !== -1) return { start: exact, end: exact + needle.length }
+
+  // Collapse whitespace runs, remembering where each normalised character came from
+  let normalised = ''
+  const origins: number[] = []
+  for (let i = 0; i < content.length; i++) {
+    if (/\s/.test(content[i])) {
+      if (normalised.endsWith(' ')) continue
+      normalised += ' '
+    } else {
+      normalised += content[i].toLowerCase()
+    }
+    origins.push(i)
+  }
+
+  const target = needle.replace(/\s+/g, ' ').toLowerCase()
+  const index = normalised.indexOf(target)
+  if (index === -1) return null
+  return { start: origins[index], end: origins[index + target.length - 1] + 1 }
+}
+
+// Starting confidence for an extracted entity or relationship, before anyone has reviewed it:
+// highest when its quotes are found in the document, lowest when none of them are
+const CONFIDENCE_LOCATED = 0.9
+const CONFIDENCE_UNQUOTED = 0.7
+const CONFIDENCE_UNLOCATED = 0.4
+
+export function evidenceConfidence(document: Document, quotes: string[] = []): number {
+  const usable = quotes.map(q => q.trim()).filter(Boolean)
+  if (usable.length === 0) return CONFIDENCE_UNQUOTED
+  const content = document.content || ''
+  const located = usable.filter(quote => locateQuote(content, quote)).length
+  if (located === usable.length) return CONFIDENCE_LOCATED
+  return located > 0 ? (CONFIDENCE_LOCATED + CONFIDENCE_UNLOCATED) / 2 : CONFIDENCE_UNLOCATED
+}
+
+// Replace what a document says in support of an entity, edge or insight with fresh quotes.
+// Without new quotes the existing evidence is left alone.
+export async function recordEvidence(document: Document, target: EvidenceTarget, quotes: string[] = []) {
+  const usable = quotes.map(q => q.trim()).filter(Boolean)
+  if (usable.length === 0) return
+
+  await prisma.evidence.deleteMany({
+    where: { documentId: document.id, ...target }
+  })
+
+  const content = document.content || ''
+  await prisma.evidence.createMany({
+    data: usable.map(quote => {
+      const range = locateQuote(content, quote)
+      return {
+        projectId: document.projectId,
+        documentId: document.id,
+        ...target,
+        quote: range ? content.slice(range.start, range.end) : quote,
+        startOffset: range?.start ?? null,
+        endOffset: range?.end ?? null,
+        page: range ? pageAtOffset(content, range.start) : null
+      }
+    })
+  })
+}
+
+// Find every quote from a document again after its text has been re-read, as the offsets into
+// the old text no longer line up
+export async function relocateEvidence(document: Document) {
+  const content = document.content || ''
+  const evidence = await prisma.evidence.findMany({ where: { documentId: document.id } })
+  for (const item of evidence) {
+    const range = locateQuote(content, item.quote)
+    await prisma.evidence.update({
+      where: { id: item.id },
+      data: {
+        startOffset: range?.start ?? null,
+        endOffset: range?.end ?? null,
+        page: range ? pageAtOffset(content, range.start) : null
+      }
+    })
+  }
+}
+
+// Record a passage the user selected in the reader as evidence, at exactly the offsets given
+export async function anchorEvidence(document: Document, target: EvidenceTarget, start: number, end: number) {
+  const content = document.content || ''
+  return prisma.evidence.create({
+    data: {
+      projectId: document.projectId,
+      documentId: document.id,
+      ...target,
+      quote: content.slice(start, end),
+      startOffset: start,
+      endOffset: end,
+      page: pageAtOffset(content, start)
+    },
+    include: { document: { select: { filename: true } } }
+  })
+}
+
+export function formatEvidence(evidence: Evidence & { document: Pick<Document, 'filename'> }) {
+  return {
+    id: evidence.id,
+    documentId: evidence.documentId,
+    filename: evidence.document.filename,
+    quote: evidence.quote,
+    startOffset: evidence.startOffset,
+    endOffset: evidence.endOffset,
+    page: evidence.page
+  }
+}
@@ -0,0 +1,77 @@
+import { ResolvableEntity, normaliseName, scoreMatch } from '@/lib/entityResolution'
+import { LinkingReport, ValidationIssue } from './schema'
+import { ExtractionResult } from './types'
+
+// An endpoint at least this close to exactly one extracted entity is linked to it
+const LINK_THRESHOLD = 0.7
+
+// After chunks are merged, point every relationship endpoint at an entity the extraction found.
+// Chunks are read separately, so a relationship in one may name an entity from another slightly
+// differently ("Ant" for "Antony Mayfield"). Endpoints that match nothing are dropped along with
+// their relationship, as it could never be applied to the graph.
+export function linkRelationships(result: ExtractionResult): LinkingReport {
+  const byName = new Map<string, ResolvableEntity>()
+  for (const entity of result.entities) {
+    const key = normaliseName(entity.name)
+    if (!key || byName.has(key)) continue
+    byName.set(key, {
+      id: key,
+      name: entity.name,
+      type: entity.type,
+      aliases: [],
+      metadata: entity.metadata || {}
+    })
+  }
+  const candidates = Array.from(byName.values())
+
+  const resolved = new Map<string, string | null>()
+  const resolve = (name: string): string | null => {
+    const key = normaliseName(name)
+    const exact = byName.get(key)
+    if (exact) return exact.name
+    if (resolved.has(key)) return resolved.get(key)!
+
+    // Endpoints carry no type, so each candidate is scored as if the endpoint shared its type
+    const matches = candidates
+      .map(candidate => scoreMatch({ name, type: candidate.type }, candidate))
+      .filter((match): match is NonNullable<typeof match> => match !== null && match.score >= LINK_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+    // Two equally good candidates ("Sam" with Sam Jones and Sam Patel) is a guess, not a link
+    const ambiguous = matches.length > 1 && matches[1].score === matches[0].score
+    const linked = matches.length > 0 && !ambiguous ? matches[0].entity.name : null
+    resolved.set(key, linked)
+    return linked
+  }
+
+  const report: LinkingReport = { linked: 0, dropped: 0, issues: [] }
+  const issue = (path: string, message: string, action: ValidationIssue['action']) =>
+    report.issues.push({ path, message, action })
+
+  result.relationships = result.relationships.filter(rel => {
+    const path = `${rel.source} → ${rel.label} → ${rel.target}`
+    const source = resolve(rel.source)
+    const target = resolve(rel.target)
+
+    if (!source || !target) {
+      report.dropped++
+      issue(path, `"${source ? rel.target : rel.source}" doesn't match exactly one extracted entity`, 'dropped')
+      return false
+    }
+    if (normaliseName(source) === normaliseName(target)) {
+      report.dropped++
+      issue(path, `Both ends resolve to "${source}"`, 'dropped')
+      return false
+    }
+
+    for (const [end, before, after] of [['source', rel.source, source], ['target', rel.target, target]]) {
+      if (normaliseName(before) === normaliseName(after)) continue
+      report.linked++
+      issue(path, `${end} "${before}" linked to "${after}"`, 'coerced')
+    }
+    rel.source = source
+    rel.target = target
+    return true
+  })
+
+  return report
+}
@@ -0,0 +1,76 @@
+import type { Settings } from '@prisma/client'
+import { parseJson } from '@/lib/entityResolution'
+
+export type ExtractionDepth = 'quick' | 'deep'
+// quick asks for entities only; full adds relationships, insights and frontier hints; insights asks
+// only for insights and frontier hints, for documents whose entities came from a structured import
+export type PromptVariant = 'entities' | 'full' | 'insights'
+
+export interface DepthProfile {
+  depth: ExtractionDepth
+  prompt: PromptVariant
+  // Default Claude model; Ollama and OpenAI-compatible servers use the configured model unless overridden
+  claudeModel: string
+  chunkSize: number
+  // Characters repeated from the end of one chunk at the start of the next, so facts split across a boundary survive
+  chunkOverlap: number
+  // Extra passes ask the model for anything it missed first time round
+  passes: number
+  maxTokens: number
+}
+
+export const DEPTH_PROFILES: Record<ExtractionDepth, DepthProfile> = {
+  quick: {
+    depth: 'quick',
+    prompt: 'entities',
+    claudeModel: 'claude-3-5-haiku-20241022',
+    chunkSize: 60000,
+    chunkOverlap: 0,
+    passes: 1,
+    maxTokens: 4000
+  },
+  deep: {
+    depth: 'deep',
+    prompt: 'full',
+    claudeModel: 'claude-sonnet-4-20250514',
+    chunkSize: 100000, // ~25K tokens of content
+    chunkOverlap: 2000,
+    passes: 2,
+    maxTokens: 8000
+  }
+}
+
+export const EXTRACTION_DEPTHS = Object.keys(DEPTH_PROFILES) as ExtractionDepth[]
+export const OVERRIDABLE_PROVIDERS = ['claude', 'ollama', 'openai']
+
+// Per-project model ids by provider and depth, stored as JSON on Settings.modelOverrides
+export type ModelOverrides = Record<string, Partial<Record<ExtractionDepth, string>>>
+
+export function getDepthProfile(depth: string): DepthProfile {
+  return DEPTH_PROFILES[depth as ExtractionDepth] || DEPTH_PROFILES.deep
+}
+
+// Keep only non-empty model ids for known providers and depths
+export function cleanModelOverrides(value: unknown): ModelOverrides {
+  const overrides: ModelOverrides = {}
+  if (typeof value !== 'object' || value === null) return overrides
+
+  for (const provider of OVERRIDABLE_PROVIDERS) {
+    const byDepth = (value as Record<string, any>)[provider]
+    if (typeof byDepth !== 'object' || byDepth === null) continue
+    for (const depth of EXTRACTION_DEPTHS) {
+      const model = typeof byDepth[depth] === 'string' ? byDepth[depth].trim() : ''
+      if (!model) continue
+      overrides[provider] = { ...overrides[provider], [depth]: model }
+    }
+  }
+  return overrides
+}
+
+// The model to extract with: a project override, then the profile's Claude default, then the provider's own
+export function resolveModel(settings: Settings, profile: DepthProfile): string | undefined {
+  const overrides = parseJson<ModelOverrides>(settings.modelOverrides, {})
+  const override = overrides[settings.aiProvider]?.[profile.depth]
+  if (override) return override
+  return settings.aiProvider === 'claude' ? profile.claudeModel : undefined
+}
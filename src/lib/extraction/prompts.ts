@@ -0,0 +1,98 @@
+import { ExtractionResult } from './types'
+import { PromptVariant } from './profiles'
+import { Ontology } from '@/lib/ontology'
+
+const entitiesSchema = (ontology: Ontology) => `  "entities": [{
+    "name": "...",
+    "type": "${ontology.entityTypes.map(t => t.name).join('|')}",
+    "subtype": "optional specific type",
+    "description": "brief description",
+    "metadata": { "role": "...", "salary": "...", etc },
+    "evidence": "short verbatim quote from the document that mentions this entity"
+  }]`
+
+const relationshipsSchema = (ontology: Ontology) => `  "relationships": [{
+    "source": "entity name (exact match)",
+    "target": "entity name (exact match)",
+    "label": "${ontology.relationTypes.length > 0 ? ontology.relationTypes.map(r => r.label).join('|') : 'verb phrase describing relationship'}",
+    "weight": 1-5,
+    "evidence": "short verbatim quote from the document that states this relationship"
+  }]`
+
+const INSIGHTS_SCHEMA = `  "insights": [{
+    "type": "inconsistency|gap|risk|opportunity|observation|culture",
+    "severity": "info|warning|critical",
+    "text": "description of the finding",
+    "evidence": "short verbatim quote from the document that supports this finding"
+  }]`
+
+const FRONTIER_HINTS_SCHEMA = `  "frontier_hints": [{
+    "name": "territory name",
+    "hint": "what might be found here",
+    "risk": "low|medium|high",
+    "value": "low|medium|high|very_high",
+    "access_needed": "what would be needed to explore this"
+  }]`
+
+// What each type and relationship means, so the model can tell project-specific types apart
+function describeOntology(ontology: Ontology, variant: PromptVariant): string {
+  const types = ontology.entityTypes
+    .map(t => `- ${t.name}${t.description ? `: ${t.description}` : ''}`)
+    .join('\n')
+  const relations = ontology.relationTypes.map(r => {
+    const ends = r.domain.length > 0 || r.range.length > 0
+      ? ` (${r.domain.join('/') || 'any'} → ${r.range.join('/') || 'any'})`
+      : ''
+    return `- ${r.label}${ends}${r.description ? `: ${r.description}` : ''}`
+  }).join('\n')
+
+  return `Entity types:\n${types}` +
+    (variant === 'full' && relations ? `\n\nRelationship labels (use only these, in the direction shown):\n${relations}` : '')
+}
+
+const SECTIONS: Record<PromptVariant, (ontology: Ontology) => string[]> = {
+  entities: ontology => [entitiesSchema(ontology)],
+  full: ontology => [entitiesSchema(ontology), relationshipsSchema(ontology), INSIGHTS_SCHEMA, FRONTIER_HINTS_SCHEMA],
+  insights: () => [INSIGHTS_SCHEMA, FRONTIER_HINTS_SCHEMA]
+}
+
+const TASKS: Record<PromptVariant, string> = {
+  entities: 'Extract ALL entities. Be thorough but precise.',
+  full: 'Extract ALL entities and relationships. Be thorough but precise.',
+  insights: 'The entities and relationships in this document have already been imported. Report only insights and frontier hints: inconsistencies, gaps, risks and opportunities the data shows.'
+}
+
+export function buildSystemPrompt(variant: PromptVariant, ontology: Ontology): string {
+  const sections = SECTIONS[variant](ontology)
+  const task = TASKS[variant]
+
+  return `You are a knowledge extraction engine analysing organisational documents.
+${task}
+Evidence quotes must be copied exactly from the document text, not paraphrased.
+
+${describeOntology(ontology, variant)}
+
+Return valid JSON only:
+{
+${sections.join(',\n')}
+}`
+}
+
+// Follow-up pass over the same chunk: list what was found and ask only for what was missed
+export function buildGleaningPrompt(variant: PromptVariant, found: ExtractionResult): string {
+  const entities = found.entities.map(e => `- ${e.name} (${e.type})`).join('\n') || '- none'
+  const relationships = found.relationships.map(r => `- ${r.source} → ${r.label} → ${r.target}`).join('\n') || '- none'
+
+  return `A previous pass over this document already extracted the items below. Read the document again and return ONLY entities${variant === 'full' ? ', relationships and insights' : ''} that are missing from these lists. Return empty arrays if nothing was missed.
+
+Already extracted entities:
+${entities}
+${variant === 'full' ? `\nAlready extracted relationships:\n${relationships}\n` : ''}`
+}
+
+// Entities found in earlier chunks, so the model reuses their names instead of inventing new spellings
+export function buildRosterPrompt(roster: Array<{ name: string; type: string }>): string {
+  return `Entities already found in earlier parts of this document. When the text refers to one of them, use exactly the name given here, in entities and relationships alike:
+${roster.map(e => `- ${e.name} (${e.type})`).join('\n')}
+`
+}
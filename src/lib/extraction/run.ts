@@ -0,0 +1,296 @@
+import type { Document, Settings } from '@prisma/client'
+import { concurrencyFor, getProvider, withRetry } from '@/lib/ai'
+import type { TokenUsage } from '@/lib/ai'
+import { estimateUsage } from '@/lib/usage'
+import { normaliseName } from '@/lib/entityResolution'
+import { ExtractionResult } from './types'
+import {
+  ChunkValidationReport,
+  ExtractionReport,
+  ValidationOutcome,
+  buildRepairPrompt,
+  emptyResult,
+  isBetterOutcome,
+  needsRepair,
+  parseModelJson,
+  validateExtraction
+} from './schema'
+import { getDepthProfile, resolveModel } from './profiles'
+import { buildGleaningPrompt, buildRosterPrompt, buildSystemPrompt } from './prompts'
+import { chunkDocument } from './chunking'
+import { linkRelationships } from './linking'
+import { Ontology } from '@/lib/ontology'
+import { EMAIL_FILE_TYPES, emailParticipants } from '@/lib/email'
+// Most-mentioned names passed to later chunks; beyond this the list costs more than it saves
+const ROSTER_LIMIT = 150
+
+export class ExtractionCancelledError extends Error {
+  constructor() {
+    super('Extraction cancelled')
+    this.name = 'ExtractionCancelledError'
+  }
+}
+
+// full extracts the whole graph; insights only asks for insights, after a structured import
+export type ExtractionMode = 'full' | 'insights'
+
+// One model request made during extraction, for usage accounting
+export interface ModelCall {
+  operation: 'extraction' | 'repair'
+  provider: string
+  model: string
+  usage: TokenUsage
+  // Token counts estimated from text length because the backend didn't report them
+  estimated: boolean
+  latencyMs: number
+}
+
+// Chunks can run in parallel, so `done` counts the chunks finished so far rather than following `index`
+export interface ExtractionHooks {
+  signal?: AbortSignal
+  onChunkStart?: (index: number, total: number, chars: number, done: number) => Promise<void> | void
+  // `found` is what this chunk alone contributed
+  onChunkDone?: (index: number, total: number, found: ExtractionResult, done: number) => Promise<void> | void
+  onParseError?: (index: number, message: string) => Promise<void> | void
+  onModelCall?: (call: ModelCall) => Promise<void> | void
+}
+
+// Run task(0) ... task(count - 1), at most `limit` at a time, in order of starting. Stops
+// starting new tasks once one fails.
+async function runPool(count: number, limit: number, task: (index: number) => Promise<void>) {
+  let next = 0
+  let failed = false
+  const lane = async () => {
+    while (next < count && !failed) {
+      try {
+        await task(next++)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, lane))
+}
+
+const readResponse = (text: string, ontology: Ontology): ValidationOutcome => {
+  const parsed = parseModelJson(text)
+  if (parsed.error) return { result: emptyResult(), issues: [], error: parsed.error }
+  return validateExtraction(parsed.value, ontology)
+}
+
+// Run the model over every chunk of a document and merge the results. Writes nothing to the database.
+export async function runExtraction(
+  document: Document,
+  settings: Settings,
+  ontology: Ontology,
+  hooks: ExtractionHooks = {},
+  mode: ExtractionMode = 'full'
+): Promise<{ result: ExtractionResult; extractedBy: string; report: ExtractionReport }> {
+  const depthProfile = getDepthProfile(settings.extractionDepth)
+  // The entities are already in the graph, so there's nothing to glean in a second pass
+  const profile = mode === 'insights'
+    ? { ...depthProfile, prompt: 'insights' as const, passes: 1 }
+    : depthProfile
+  const systemPrompt = buildSystemPrompt(profile.prompt, ontology)
+  const chunks = chunkDocument(
+    document.content || '',
+    document.fileType,
+    profile.chunkSize,
+    settings.chunkOverlap ?? profile.chunkOverlap
+  )
+
+  let extractedBy = 'unknown'
+  const provider = getProvider(settings, resolveModel(settings, profile))
+  const concurrency = concurrencyFor(settings)
+
+  // Aborted when the job is cancelled or another chunk fails, stopping requests still in flight
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  hooks.signal?.addEventListener('abort', abort, { once: true })
+  const throwIfStopped = () => {
+    if (controller.signal.aborted) throw new ExtractionCancelledError()
+  }
+
+  // Rate-limited and overloaded requests are retried after a wait rather than failing the chunk
+  const complete = async (prompt: string, operation: ModelCall['operation']) => {
+    let started = Date.now()
+    let response
+    try {
+      response = await withRetry(() => {
+        started = Date.now()
+        return provider.complete(prompt, { maxTokens: profile.maxTokens, json: true, signal: controller.signal })
+      }, {
+        signal: controller.signal,
+        onRetry: (error, delayMs, attempt) => console.log(
+          `${provider.name} returned ${error.status}, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt + 1})`
+        )
+      })
+    } catch (error) {
+      if (controller.signal.aborted) throw new ExtractionCancelledError()
+      throw error
+    }
+    await hooks.onModelCall?.({
+      operation,
+      provider: provider.name,
+      model: response.model,
+      usage: response.usage || estimateUsage(prompt, response.text),
+      estimated: !response.usage,
+      latencyMs: Date.now() - started
+    })
+    return response
+  }
+
+  // Every entity found so far, keyed by normalised name, with how often it has come up
+  const roster = new Map<string, { name: string; type: string; mentions: number }>()
+  const rosterPrompt = () => {
+    const names = Array.from(roster.values())
+      .sort((a, b) => b.mentions - a.mentions)
+      .slice(0, ROSTER_LIMIT)
+    return names.length > 0 ? `${buildRosterPrompt(names)}\n` : ''
+  }
+
+  // One model call for a chunk, validated and, if needed, repaired once
+  const extractOnce = async (prompt: string, label: string) => {
+    const response = await complete(prompt, 'extraction')
+    extractedBy = response.model
+
+    let outcome = readResponse(response.text, ontology)
+    let repaired = false
+
+    // One repair pass: show the model what was wrong and keep the answer if it is better
+    if (needsRepair(outcome)) {
+      throwIfStopped()
+      console.log(`${label} failed validation, asking for a repair`)
+      try {
+        const retry = await complete(`${systemPrompt}\n\n${buildRepairPrompt(response.text, outcome, ontology)}`, 'repair')
+        const second = readResponse(retry.text, ontology)
+        if (isBetterOutcome(second, outcome)) {
+          outcome = second
+          repaired = true
+        }
+      } catch (repairErr) {
+        if (repairErr instanceof ExtractionCancelledError) throw repairErr
+        console.error(`Repair request for ${label.toLowerCase()} failed:`, repairErr)
+      }
+    }
+
+    return { outcome, repaired }
+  }
+
+  // Kept by chunk index, so the merged result doesn't depend on which request finished first
+  const outputs: Array<{ found: ExtractionResult; reports: ChunkValidationReport[] }> = []
+  let chunksDone = 0
+
+  const extractChunk = async (i: number) => {
+    const { text, location } = chunks[i]
+    const chunkLabel = chunks.length > 1
+      ? ` (Part ${i + 1} of ${chunks.length}${location ? `, ${location}` : ''})`
+      : ''
+    const documentText = `${mode === 'full' ? rosterPrompt() : ''}Document${chunkLabel}:\n${text}`
+
+    throwIfStopped()
+    await hooks.onChunkStart?.(i, chunks.length, text.length, chunksDone)
+
+    const found = emptyResult()
+    const reports: ChunkValidationReport[] = []
+    for (let pass = 0; pass < profile.passes; pass++) {
+      throwIfStopped()
+      console.log(`Processing chunk ${i + 1}/${chunks.length}, pass ${pass + 1}/${profile.passes} (${text.length} chars)`)
+
+      const prompt = pass === 0
+        ? `${systemPrompt}\n\n${documentText}`
+        : `${systemPrompt}\n\n${buildGleaningPrompt(profile.prompt, found)}\n${documentText}`
+      const { outcome, repaired } = await extractOnce(prompt, `Chunk ${i + 1} pass ${pass + 1}`)
+
+      if (outcome.error) {
+        console.error(`Failed to parse chunk ${i + 1} pass ${pass + 1}:`, outcome.error)
+        await hooks.onParseError?.(i, outcome.error)
+      }
+
+      reports.push({
+        chunk: i,
+        pass,
+        parsed: !outcome.error,
+        repaired,
+        error: outcome.error,
+        kept: {
+          entities: outcome.result.entities.length,
+          relationships: outcome.result.relationships.length,
+          insights: outcome.result.insights.length,
+          frontier_hints: outcome.result.frontier_hints.length
+        },
+        issues: outcome.issues
+      })
+
+      found.entities.push(...outcome.result.entities)
+      found.relationships.push(...outcome.result.relationships)
+      found.insights.push(...outcome.result.insights)
+      found.frontier_hints.push(...outcome.result.frontier_hints)
+
+      // A later pass that finds nothing new means there's nothing left to glean
+      if (pass > 0 && outcome.result.entities.length === 0 && outcome.result.relationships.length === 0) break
+    }
+
+    outputs[i] = { found, reports }
+    for (const entity of found.entities) {
+      const key = normaliseName(entity.name)
+      const known = roster.get(key)
+      if (known) known.mentions++
+      else if (key) roster.set(key, { name: entity.name, type: entity.type, mentions: 1 })
+    }
+
+    chunksDone++
+    await hooks.onChunkDone?.(i, chunks.length, found, chunksDone)
+  }
+
+  console.log(`Extracting from ${chunks.length} chunk(s) for document: ${document.filename} (${profile.depth}, ${concurrency} at a time)`)
+
+  // The first chunk runs on its own so the rest start with its names in the roster. After that,
+  // each chunk sees the roster as it stands when it starts, which with one request at a time is
+  // everything before it.
+  try {
+    await extractChunk(0)
+    await runPool(chunks.length - 1, concurrency, i => extractChunk(i + 1))
+  } catch (error) {
+    abort()
+    throw error
+  } finally {
+    hooks.signal?.removeEventListener('abort', abort)
+  }
+
+  if (hooks.signal?.aborted) throw new ExtractionCancelledError()
+
+  const result = emptyResult()
+  const chunkReports: ChunkValidationReport[] = []
+
+  // Senders and recipients come straight from the message headers, ahead of anything the model found
+  // so their names and addresses are the ones kept
+  if (mode === 'full' && EMAIL_FILE_TYPES.includes(document.fileType)) {
+    const participants = validateExtraction(emailParticipants(document.content), ontology)
+    result.entities.push(...participants.result.entities)
+    result.relationships.push(...participants.result.relationships)
+  }
+  for (const { found, reports } of outputs) {
+    result.entities.push(...found.entities)
+    result.relationships.push(...found.relationships)
+    result.insights.push(...found.insights)
+    result.frontier_hints.push(...found.frontier_hints)
+    chunkReports.push(...reports)
+  }
+
+  const linking = linkRelationships(result)
+  if (linking.linked > 0 || linking.dropped > 0) {
+    console.log(`Linked ${linking.linked} relationship endpoint(s), dropped ${linking.dropped} relationship(s) with no matching entity`)
+  }
+
+  const report: ExtractionReport = {
+    extractedBy,
+    depth: profile.depth,
+    createdAt: new Date().toISOString(),
+    chunks: chunkReports,
+    linking
+  }
+
+  return { result, extractedBy, report }
+}
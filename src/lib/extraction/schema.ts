@@ -0,0 +1,314 @@
+import { ExtractionResult } from './types'
+import { Ontology, entityTypeLookup, matchRelation, relationKey, relationTypeKey, relationTypeLookup } from '@/lib/ontology'
+
+export const INSIGHT_TYPES = ['inconsistency', 'gap', 'risk', 'opportunity', 'observation', 'culture']
+export const SEVERITIES = ['info', 'warning', 'critical']
+export const RISK_LEVELS = ['low', 'medium', 'high']
+export const VALUE_LEVELS = ['low', 'medium', 'high', 'very_high']
+
+// Spellings models reach for instead of the allowed values
+const SEVERITY_SYNONYMS: Record<string, string> = {
+  low: 'info',
+  information: 'info',
+  informational: 'info',
+  medium: 'warning',
+  moderate: 'warning',
+  warn: 'warning',
+  high: 'critical',
+  severe: 'critical',
+  error: 'critical'
+}
+const INSIGHT_TYPE_SYNONYMS: Record<string, string> = {
+  contradiction: 'inconsistency',
+  conflict: 'inconsistency',
+  missing: 'gap',
+  threat: 'risk',
+  issue: 'risk',
+  note: 'observation',
+  finding: 'observation'
+}
+
+export interface ValidationIssue {
+  path: string
+  message: string
+  action: 'coerced' | 'dropped'
+}
+
+export interface ValidationOutcome {
+  result: ExtractionResult
+  issues: ValidationIssue[]
+  // Set when nothing usable could be read from the response at all
+  error: string | null
+}
+
+export interface ChunkValidationReport {
+  chunk: number
+  // 0 for the first read of a chunk, higher for follow-up passes
+  pass: number
+  parsed: boolean
+  repaired: boolean
+  error: string | null
+  kept: { entities: number; relationships: number; insights: number; frontier_hints: number }
+  issues: ValidationIssue[]
+}
+
+// Relationship endpoints matched to entities found in other chunks after merging
+export interface LinkingReport {
+  linked: number
+  dropped: number
+  issues: ValidationIssue[]
+}
+
+// Stored as JSON on Document.extractionReport after each run
+export interface ExtractionReport {
+  extractedBy: string
+  depth?: string
+  createdAt: string
+  chunks: ChunkValidationReport[]
+  linking?: LinkingReport
+}
+
+export const emptyResult = (): ExtractionResult => ({ entities: [], relationships: [], insights: [], frontier_hints: [] })
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const text = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+
+// Models sometimes return several quotes; keep the first
+const quote = (value: unknown): string | undefined =>
+  (Array.isArray(value) ? text(value[0]) : text(value)) || undefined
+
+const token = (value: unknown) => text(value).toLowerCase().replace(/[\s-]+/g, '_')
+
+// Pull the JSON object out of a model response, tolerating code fences and chatter around it
+export function parseModelJson(response: string): { value: unknown; error: string | null } {
+  const unfenced = response.replace(/```(?:json)?/gi, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    return { value: null, error: 'No JSON object in model response' }
+  }
+
+  try {
+    return { value: JSON.parse(unfenced.slice(start, end + 1)), error: null }
+  } catch (error) {
+    return { value: null, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+// Check a parsed response against the ExtractionResult schema and the project's ontology, coercing
+// near misses and dropping anything that can't be trusted. Every change is recorded as an issue.
+export function validateExtraction(value: unknown, ontology: Ontology): ValidationOutcome {
+  const result = emptyResult()
+  const issues: ValidationIssue[] = []
+  const coerce = (path: string, message: string) => issues.push({ path, message, action: 'coerced' })
+  const drop = (path: string, message: string) => issues.push({ path, message, action: 'dropped' })
+
+  if (!isObject(value)) {
+    return { result, issues, error: 'Response is not a JSON object' }
+  }
+
+  const entityTypes = entityTypeLookup(ontology)
+  const relationTypes = relationTypeLookup(ontology)
+  // With its own vocabulary a project only accepts those labels; otherwise unknown labels are kept as written
+  const strictRelations = ontology.relationTypes.length > 0
+
+  const list = (key: keyof ExtractionResult): unknown[] => {
+    const items = value[key]
+    if (items === undefined || items === null) return []
+    if (Array.isArray(items)) return items
+    drop(key, `Expected an array, got ${typeof items}`)
+    return []
+  }
+
+  list('entities').forEach((item, i) => {
+    const path = `entities[${i}]`
+    if (!isObject(item)) return drop(path, 'Not an object')
+
+    const name = text(item.name)
+    if (!name) return drop(path, 'Missing name')
+
+    const raw = token(item.type)
+    const type = entityTypes.get(raw) || entityTypes.get(raw.replace(/s$/, ''))
+    if (!type) return drop(path, `Unknown entity type "${text(item.type)}" for "${name}"`)
+    if (type !== raw) coerce(`${path}.type`, `"${text(item.type)}" → "${type}"`)
+
+    let metadata: Record<string, any> | undefined
+    if (isObject(item.metadata)) {
+      metadata = item.metadata
+    } else if (item.metadata !== undefined && item.metadata !== null) {
+      coerce(`${path}.metadata`, 'Not an object; ignored')
+    }
+
+    result.entities.push({
+      name,
+      type,
+      subtype: text(item.subtype) || undefined,
+      description: text(item.description) || undefined,
+      metadata,
+      evidence: quote(item.evidence)
+    })
+  })
+
+  // Domain and range can only be checked for endpoints extracted in the same response
+  const typesByName = new Map(result.entities.map(e => [e.name.toLowerCase(), e.type]))
+
+  list('relationships').forEach((item, i) => {
+    const path = `relationships[${i}]`
+    if (!isObject(item)) return drop(path, 'Not an object')
+
+    let source = text(item.source)
+    let target = text(item.target)
+    const rawLabel = text(item.label)
+    if (!source || !target) return drop(path, 'Missing source or target')
+    if (!rawLabel) return drop(path, `Missing label for ${source} → ${target}`)
+    if (source.toLowerCase() === target.toLowerCase()) return drop(path, `Relationship from "${source}" to itself`)
+
+    // Map the label onto its canonical form, turning inverse phrasings ("managed by") around
+    let label = relationKey(rawLabel)
+    const match = matchRelation(relationTypes, rawLabel)
+    if (match) {
+      const { relation, inverted } = match
+      if (inverted) [source, target] = [target, source]
+
+      const sourceType = typesByName.get(source.toLowerCase())
+      const targetType = typesByName.get(target.toLowerCase())
+      if (sourceType && relation.domain.length > 0 && !relation.domain.includes(sourceType)) {
+        return drop(path, `"${relation.label}" can't start at a ${sourceType} (${source})`)
+      }
+      if (targetType && relation.range.length > 0 && !relation.range.includes(targetType)) {
+        return drop(path, `"${relation.label}" can't end at a ${targetType} (${target})`)
+      }
+      if (inverted) {
+        coerce(`${path}.label`, `"${rawLabel}" → "${relation.label}", reversed to ${source} → ${target}`)
+      } else if (relation.label !== label) {
+        coerce(`${path}.label`, `"${rawLabel}" → "${relation.label}"`)
+      }
+      label = relation.label
+    } else if (strictRelations) {
+      return drop(path, `"${rawLabel}" is not an allowed relationship (${source} → ${target})`)
+    }
+
+    let weight = typeof item.weight === 'number' ? item.weight : parseFloat(text(item.weight))
+    if (!Number.isFinite(weight)) {
+      coerce(`${path}.weight`, `"${text(item.weight)}" is not a number; using 1`)
+      weight = 1
+    } else if (weight < 1 || weight > 5 || !Number.isInteger(weight)) {
+      const clamped = Math.min(5, Math.max(1, Math.round(weight)))
+      coerce(`${path}.weight`, `${weight} → ${clamped}`)
+      weight = clamped
+    }
+
+    result.relationships.push({
+      source,
+      target,
+      label,
+      relationType: relationTypeKey(label),
+      rawLabel,
+      weight,
+      evidence: quote(item.evidence)
+    })
+  })
+
+  list('insights').forEach((item, i) => {
+    const path = `insights[${i}]`
+    if (!isObject(item)) return drop(path, 'Not an object')
+
+    const insightText = text(item.text)
+    if (!insightText) return drop(path, 'Missing text')
+
+    let type = token(item.type)
+    if (!INSIGHT_TYPES.includes(type)) {
+      const mapped = INSIGHT_TYPE_SYNONYMS[type] || 'observation'
+      coerce(`${path}.type`, `"${text(item.type)}" → "${mapped}"`)
+      type = mapped
+    }
+
+    let severity = token(item.severity)
+    if (!SEVERITIES.includes(severity)) {
+      const mapped = SEVERITY_SYNONYMS[severity] || 'info'
+      coerce(`${path}.severity`, `"${text(item.severity)}" → "${mapped}"`)
+      severity = mapped
+    }
+
+    result.insights.push({ type, severity, text: insightText, evidence: quote(item.evidence) })
+  })
+
+  list('frontier_hints').forEach((item, i) => {
+    const path = `frontier_hints[${i}]`
+    if (!isObject(item)) return drop(path, 'Not an object')
+
+    const name = text(item.name)
+    if (!name) return drop(path, 'Missing name')
+
+    const level = (field: string, allowed: string[]) => {
+      const raw = token(item[field])
+      if (allowed.includes(raw)) return raw
+      coerce(`${path}.${field}`, `"${text(item[field])}" → "medium"`)
+      return 'medium'
+    }
+
+    result.frontier_hints.push({
+      name,
+      hint: text(item.hint),
+      risk: level('risk', RISK_LEVELS),
+      value: level('value', VALUE_LEVELS),
+      access_needed: text(item.access_needed)
+    })
+  })
+
+  return { result, issues, error: null }
+}
+
+// Instructions for a second attempt at a chunk whose response failed validation
+export function buildRepairPrompt(response: string, outcome: ValidationOutcome, ontology: Ontology): string {
+  const problems = [
+    ...(outcome.error ? [outcome.error] : []),
+    ...outcome.issues.filter(issue => issue.action === 'dropped').map(issue => `${issue.path}: ${issue.message}`)
+  ]
+
+  return `Your previous response could not be used as-is. Fix these problems and return the corrected JSON only, using the same schema as before.
+
+Allowed entity types: ${ontology.entityTypes.map(t => t.name).join(', ')}
+${ontology.relationTypes.length > 0 ? `Allowed relationship labels: ${ontology.relationTypes.map(r => r.label).join(', ')}\n` : ''}Allowed insight types: ${INSIGHT_TYPES.join(', ')}
+Allowed severities: ${SEVERITIES.join(', ')}
+Relationship weight: integer 1-5
+
+Problems:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Previous response:
+${response}`
+}
+
+export const needsRepair = (outcome: ValidationOutcome) =>
+  outcome.error !== null || outcome.issues.some(issue => issue.action === 'dropped')
+
+export const droppedCount = (issues: ValidationIssue[]) =>
+  issues.filter(issue => issue.action === 'dropped').length
+
+const keptCount = (result: ExtractionResult) =>
+  result.entities.length + result.relationships.length + result.insights.length + result.frontier_hints.length
+
+// A repair only wins if it parses and loses less without quietly leaving things out
+export const isBetterOutcome = (candidate: ValidationOutcome, current: ValidationOutcome) => {
+  if (candidate.error) return false
+  if (current.error) return true
+  return droppedCount(candidate.issues) < droppedCount(current.issues) &&
+    keptCount(candidate.result) >= keptCount(current.result)
+}
+
+// Headline numbers for a report, small enough to send with every document in a list
+export function summariseReport(report: ExtractionReport) {
+  const issues = [...report.chunks.flatMap(chunk => chunk.issues), ...(report.linking?.issues || [])]
+  return {
+    chunks: new Set(report.chunks.map(chunk => chunk.chunk)).size,
+    failedChunks: report.chunks.filter(chunk => !chunk.parsed).length,
+    repairedChunks: report.chunks.filter(chunk => chunk.repaired).length,
+    linkedEndpoints: report.linking?.linked || 0,
+    dropped: droppedCount(issues),
+    coerced: issues.length - droppedCount(issues)
+  }
+}
@@ -0,0 +1,86 @@
+export interface ExtractionResult {
+  entities: Array<{
+    name: string
+    type: string
+    subtype?: string
+    description?: string
+    metadata?: Record<string, any>
+    evidence?: string
+  }>
+  relationships: Array<{
+    source: string
+    target: string
+    // Canonical label and its key; rawLabel is what the model wrote
+    label: string
+    relationType?: string
+    rawLabel?: string
+    weight: number
+    evidence?: string
+  }>
+  insights: Array<{
+    type: string
+    severity: string
+    text: string
+    evidence?: string
+  }>
+  frontier_hints: Array<{
+    name: string
+    hint: string
+    risk: string
+    value: string
+    access_needed: string
+  }>
+}
+
+// An extraction result waiting for approval, stored as JSON on Document.pendingExtraction
+export interface PendingExtraction {
+  result: ExtractionResult
+  extractedBy: string
+  // The job that ran it, whose run its changes are logged under once approved
+  jobId?: string | null
+  createdAt: string
+}
+
+export interface DiffEntity {
+  key: string
+  name: string
+  type: string
+  subtype?: string | null
+  description?: string | null
+  metadata: Record<string, any>
+  // Supporting quotes from the document, one per mention
+  evidence?: string[]
+}
+
+export interface DiffRelationship {
+  key: string
+  source: string
+  target: string
+  label: string
+  relationType?: string | null
+  rawLabel?: string | null
+  // Summed across repeat mentions of the same relationship
+  weight: number
+  evidence?: string[]
+}
+
+export interface DiffInsight {
+  key: string
+  type: string
+  severity: string
+  text: string
+  evidence?: string[]
+}
+
+export interface DiffSection<T> {
+  added: T[]
+  removed: Array<T & { id: string }>
+  changed: Array<{ id: string; before: T & { id: string }; after: T; fields: string[] }>
+  unchanged: Array<T & { id: string }>
+}
+
+export interface ExtractionDiff {
+  entities: DiffSection<DiffEntity>
+  relationships: DiffSection<DiffRelationship>
+  insights: DiffSection<DiffInsight>
+}
@@ -0,0 +1,78 @@
+import type { Edge, Entity } from '@prisma/client'
+import { parseJson } from '@/lib/entityResolution'
+import { relationTypeKey } from '@/lib/ontology'
+
+// The entity and edge fields sent to the graph view and entity panels
+export const GRAPH_NODE_FIELDS = {
+  id: true,
+  name: true,
+  aliases: true,
+  type: true,
+  subtype: true,
+  description: true,
+  metadata: true,
+  confidence: true,
+  reviewStatus: true,
+  territoryId: true,
+  validFrom: true,
+  validTo: true
+}
+
+export const GRAPH_EDGE_FIELDS = {
+  id: true,
+  sourceId: true,
+  targetId: true,
+  label: true,
+  relationType: true,
+  rawLabel: true,
+  weight: true,
+  confidence: true,
+  reviewStatus: true,
+  validFrom: true,
+  validTo: true
+}
+
+type GraphEntity = Pick<Entity, keyof typeof GRAPH_NODE_FIELDS>
+type GraphEdge = Pick<Edge, keyof typeof GRAPH_EDGE_FIELDS>
+
+// Graph nodes spread their metadata alongside these, so metadata can't use them as keys
+export const RESERVED_KEYS = [
+  'id', 'name', 'type', 'subtype', 'description', 'confidence', 'reviewStatus', 'territoryId',
+  'size', 'aliases', 'validFrom', 'validTo', 'source', 'target', 'index', 'x', 'y', 'vx', 'vy', 'fx', 'fy', 'pinned'
+]
+
+// An entity as a D3 node, with its metadata spread alongside the standard fields
+export function toGraphNode(entity: GraphEntity) {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    subtype: entity.subtype,
+    description: entity.description,
+    confidence: entity.confidence,
+    reviewStatus: entity.reviewStatus,
+    territoryId: entity.territoryId,
+    validFrom: entity.validFrom,
+    validTo: entity.validTo,
+    size: Math.max(2, Math.floor(entity.confidence * 5)),
+    ...parseJson<Record<string, any>>(entity.metadata, {}),
+    aliases: parseJson<string[]>(entity.aliases, [])
+  }
+}
+
+export function toGraphLink(edge: GraphEdge) {
+  return {
+    id: edge.id,
+    source: edge.sourceId,
+    target: edge.targetId,
+    label: edge.label,
+    // Edges extracted before labels were normalised only have their raw label
+    relationType: edge.relationType || relationTypeKey(edge.label),
+    rawLabel: edge.rawLabel,
+    weight: edge.weight,
+    confidence: edge.confidence,
+    reviewStatus: edge.reviewStatus,
+    validFrom: edge.validFrom,
+    validTo: edge.validTo
+  }
+}
@@ -0,0 +1,170 @@
+import { prisma } from '@/lib/prisma'
+import { ChangeContext, logChanges, updated } from '@/lib/changeLog'
+import { mergeAliases, parseJson } from '@/lib/entityResolution'
+import { RESERVED_KEYS } from '@/lib/graph'
+import { Ontology, checkRelationship, entityTypeLookup, relationTypeKey, typeKey } from '@/lib/ontology'
+
+// Checks for entities and relationships created or changed by hand, before they reach the database.
+// Each returns the columns to write, or an error message for a 400 response.
+
+type Checked<T> = { data: T } | { error: string }
+
+const MAX_NAME_LENGTH = 200
+const MIN_WEIGHT = 1
+const MAX_WEIGHT = 5
+
+export interface EntityFields {
+  name?: string
+  type?: string
+  subtype?: string | null
+  description?: string | null
+  metadata?: string
+  aliases?: string
+}
+
+export interface EdgeFields {
+  sourceId: string
+  targetId: string
+  label: string
+  relationType: string
+  rawLabel: string | null
+  weight: number
+}
+
+// "" and null both clear an optional text field
+const optionalText = (value: unknown): string | null | undefined =>
+  value === null ? null : typeof value === 'string' ? value.trim() || null : undefined
+
+function checkMetadata(value: unknown): Checked<Record<string, string | number | boolean>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'metadata must be an object of keys and values' }
+  }
+  const metadata: Record<string, string | number | boolean> = {}
+  for (const rawKey of Object.keys(value)) {
+    const key = rawKey.trim()
+    const item = (value as Record<string, unknown>)[rawKey]
+    if (!key) return { error: 'metadata keys can\'t be empty' }
+    if (RESERVED_KEYS.includes(key)) return { error: `"${key}" can't be used as a metadata key` }
+    // A null value removes the key
+    if (item === null || item === '') continue
+    if (!['string', 'number', 'boolean'].includes(typeof item)) {
+      return { error: `metadata "${key}" must be text, a number or true/false` }
+    }
+    metadata[key] = typeof item === 'string' ? item.trim() : item as number | boolean
+  }
+  return { data: metadata }
+}
+
+// A new entity needs a name and a type; a change may send any of the fields. A renamed entity keeps
+// its old name as an alias unless the aliases are sent too.
+export function checkEntityFields(
+  body: Record<string, unknown>,
+  ontology: Ontology,
+  existing?: { name: string; aliases: string }
+): Checked<EntityFields> {
+  const data: EntityFields = {}
+
+  if (!existing || 'name' in body) {
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return { error: 'name is required' }
+    if (name.length > MAX_NAME_LENGTH) return { error: `name must be at most ${MAX_NAME_LENGTH} characters` }
+    data.name = name
+  }
+
+  if (!existing || 'type' in body) {
+    const type = typeof body.type === 'string' ? entityTypeLookup(ontology).get(typeKey(body.type)) : undefined
+    if (!type) return { error: `type must be one of: ${ontology.entityTypes.map(t => t.name).join(', ')}` }
+    data.type = type
+  }
+
+  for (const field of ['subtype', 'description'] as const) {
+    if (!(field in body)) continue
+    const value = optionalText(body[field])
+    if (value === undefined) return { error: `${field} must be text or null` }
+    data[field] = value
+  }
+
+  if ('metadata' in body) {
+    const metadata = checkMetadata(body.metadata)
+    if ('error' in metadata) return metadata
+    data.metadata = JSON.stringify(metadata.data)
+  }
+
+  const name = data.name || existing?.name || ''
+  if ('aliases' in body) {
+    if (!Array.isArray(body.aliases) || body.aliases.some(alias => typeof alias !== 'string')) {
+      return { error: 'aliases must be a list of names' }
+    }
+    data.aliases = JSON.stringify(mergeAliases(name, (body.aliases as string[]).map(alias => alias.trim()).filter(Boolean)))
+  } else if (existing && data.name && data.name !== existing.name) {
+    data.aliases = JSON.stringify(mergeAliases(name, parseJson<string[]>(existing.aliases, []), [existing.name]))
+  }
+
+  return { data }
+}
+
+// A relationship's endpoints must be two different entities in the project, and its label must
+// fit the ontology. A change is checked as a whole, with what it doesn't send taken from `existing`.
+export async function checkEdgeFields(
+  projectId: string,
+  body: Record<string, unknown>,
+  ontology: Ontology,
+  existing?: { sourceId: string; targetId: string; label: string; relationType: string | null; rawLabel: string | null; weight: number }
+): Promise<Checked<EdgeFields>> {
+  let weight = existing?.weight ?? MIN_WEIGHT
+  if ('weight' in body) {
+    if (!Number.isInteger(body.weight) || (body.weight as number) < MIN_WEIGHT || (body.weight as number) > MAX_WEIGHT) {
+      return { error: `weight must be a whole number from ${MIN_WEIGHT} to ${MAX_WEIGHT}` }
+    }
+    weight = body.weight as number
+  }
+
+  // Only a new label or endpoint is checked again, so edges from before the ontology changed can still be reweighted
+  if (existing && !('sourceId' in body) && !('targetId' in body) && !('label' in body)) {
+    const { sourceId, targetId, label, rawLabel } = existing
+    return { data: { sourceId, targetId, label, relationType: existing.relationType || relationTypeKey(label), rawLabel, weight } }
+  }
+
+  const sourceId = 'sourceId' in body ? String(body.sourceId || '') : existing?.sourceId || ''
+  const targetId = 'targetId' in body ? String(body.targetId || '') : existing?.targetId || ''
+  if (!sourceId || !targetId) return { error: 'sourceId and targetId are required' }
+  if (sourceId === targetId) return { error: 'A relationship needs two different entities' }
+
+  const endpoints = await prisma.entity.findMany({
+    where: { id: { in: [sourceId, targetId] }, projectId },
+    select: { id: true, type: true }
+  })
+  const source = endpoints.find(entity => entity.id === sourceId)
+  const target = endpoints.find(entity => entity.id === targetId)
+  if (!source || !target) return { error: 'Both entities must be in this project' }
+
+  // A kept label is already canonical; its original phrasing may be an inverse that was turned around
+  const label = 'label' in body ? (typeof body.label === 'string' ? body.label : '') : existing?.label || ''
+  const checked = checkRelationship(ontology, label, source.type, target.type)
+  if ('error' in checked) return checked
+
+  const [from, to] = checked.inverted ? [target, source] : [source, target]
+  return {
+    data: {
+      sourceId: from.id,
+      targetId: to.id,
+      label: checked.label,
+      relationType: checked.relationType,
+      rawLabel: 'label' in body ? checked.rawLabel : existing?.rawLabel ?? null,
+      weight
+    }
+  }
+}
+
+// Take a deleted entity out of the insights that point to it
+export async function forgetEntity(projectId: string, entityId: string, context: ChangeContext) {
+  const insights = await prisma.insight.findMany({
+    where: { projectId, relatedEntityIds: { contains: entityId } },
+    select: { id: true, relatedEntityIds: true }
+  })
+  for (const insight of insights) {
+    const ids = JSON.stringify(parseJson<string[]>(insight.relatedEntityIds, []).filter(id => id !== entityId))
+    await prisma.insight.update({ where: { id: insight.id }, data: { relatedEntityIds: ids } })
+    await logChanges(prisma, context, [updated('insight', insight.id, insight, { relatedEntityIds: ids })])
+  }
+}
@@ -0,0 +1,226 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { GRAPH_EDGE_FIELDS, GRAPH_NODE_FIELDS, toGraphLink, toGraphNode } from '@/lib/graph'
+import { isReviewStatus, ReviewStatus } from '@/lib/review'
+import { parseDate, validAt } from '@/lib/temporal'
+
+// Hops out from an entity, and entities per page; a neighbourhood of a well-connected entity
+// grows quickly, so both are capped
+export const MAX_DEPTH = 3
+export const MAX_LIMIT = 500
+
+// Narrows the graph to what a view needs. With an entityId only its neighbourhood is returned: the
+// entities up to `depth` relationships away, reached through entities and relationships that match
+// the rest of the filter. The entity itself is always included. Review status, confidence and
+// document apply to relationships as well as entities.
+export interface GraphQuery {
+  asOf: Date | null
+  entityId?: string
+  depth: number
+  types: string[]
+  relationTypes: string[]
+  territoryId?: string
+  documentId?: string
+  reviewStatus?: ReviewStatus
+  minConfidence?: number
+  maxConfidence?: number
+  search?: string
+  // Entities are paged in id order; without a limit everything matching is returned
+  cursor?: string
+  limit?: number
+}
+
+// Repeated (?type=person&type=team) or comma-separated (?type=person,team)
+function readList(params: URLSearchParams, name: string): string[] {
+  return params.getAll(name)
+    .reduce((all: string[], value) => all.concat(value.split(',')), [])
+    .map(value => value.trim())
+    .filter(Boolean)
+}
+
+function readNumber(params: URLSearchParams, name: string): number | undefined | null {
+  const value = params.get(name)
+  if (value === null || !value.trim()) return undefined
+  const number = Number(value)
+  return isNaN(number) ? null : number
+}
+
+// The query from a request's query string, or what is wrong with it
+export function readGraphQuery(params: URLSearchParams): { query: GraphQuery } | { error: string } {
+  const text = (name: string) => params.get(name)?.trim() || undefined
+
+  const asOfParam = params.get('asOf')
+  const asOf = parseDate(asOfParam)
+  if (asOfParam && !asOf) return { error: 'asOf must be a date such as 2020-06-30' }
+
+  const depth = readNumber(params, 'depth')
+  if (depth === null || (depth !== undefined && (!Number.isInteger(depth) || depth < 0 || depth > MAX_DEPTH))) {
+    return { error: `depth must be a whole number from 0 to ${MAX_DEPTH}` }
+  }
+
+  const reviewStatus = text('reviewStatus')
+  if (reviewStatus && !isReviewStatus(reviewStatus)) {
+    return { error: 'reviewStatus must be pending, approved or rejected' }
+  }
+
+  const minConfidence = readNumber(params, 'minConfidence')
+  const maxConfidence = readNumber(params, 'maxConfidence')
+  for (const value of [minConfidence, maxConfidence]) {
+    if (value === null || (value !== undefined && (value < 0 || value > 1))) {
+      return { error: 'minConfidence and maxConfidence must be numbers from 0 to 1' }
+    }
+  }
+  if (minConfidence != null && maxConfidence != null && minConfidence > maxConfidence) {
+    return { error: 'minConfidence must not be more than maxConfidence' }
+  }
+
+  const limit = readNumber(params, 'limit')
+  if (limit === null || (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT))) {
+    return { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` }
+  }
+  const cursor = text('cursor')
+  if (cursor && limit === undefined) return { error: 'cursor needs a limit' }
+
+  return {
+    query: {
+      asOf,
+      entityId: text('entityId'),
+      depth: depth ?? 1,
+      types: readList(params, 'type'),
+      relationTypes: readList(params, 'relationType'),
+      territoryId: text('territoryId'),
+      documentId: text('documentId'),
+      reviewStatus: reviewStatus as ReviewStatus | undefined,
+      minConfidence: minConfidence ?? undefined,
+      maxConfidence: maxConfidence ?? undefined,
+      search: text('q'),
+      cursor,
+      limit
+    }
+  }
+}
+
+// Review status and confidence conditions shared by entities and relationships
+function scoreWhere(query: GraphQuery) {
+  return {
+    ...(query.reviewStatus && { reviewStatus: query.reviewStatus }),
+    ...((query.minConfidence !== undefined || query.maxConfidence !== undefined) && {
+      confidence: {
+        ...(query.minConfidence !== undefined && { gte: query.minConfidence }),
+        ...(query.maxConfidence !== undefined && { lte: query.maxConfidence })
+      }
+    })
+  }
+}
+
+// Text search matches names, aliases and descriptions; SQLite compares ASCII letters without case
+function entityWhere(projectId: string, query: GraphQuery): Prisma.EntityWhereInput {
+  const conditions: Prisma.EntityWhereInput[] = []
+  if (query.asOf) conditions.push(validAt(query.asOf))
+  if (query.documentId) {
+    conditions.push({ OR: [{ documentId: query.documentId }, { sources: { some: { documentId: query.documentId } } }] })
+  }
+  if (query.search) {
+    conditions.push({
+      OR: [
+        { name: { contains: query.search } },
+        { aliases: { contains: query.search } },
+        { description: { contains: query.search } }
+      ]
+    })
+  }
+  return {
+    projectId,
+    ...scoreWhere(query),
+    ...(query.types.length > 0 && { type: { in: query.types } }),
+    ...(query.territoryId && { territoryId: query.territoryId }),
+    ...(conditions.length > 0 && { AND: conditions })
+  }
+}
+
+// A relationship's own conditions; its ends are constrained separately
+function edgeWhere(projectId: string, query: GraphQuery): Prisma.EdgeWhereInput {
+  return {
+    projectId,
+    ...scoreWhere(query),
+    ...(query.asOf && validAt(query.asOf)),
+    ...(query.relationTypes.length > 0 && { relationType: { in: query.relationTypes } }),
+    ...(query.documentId && { documentId: query.documentId })
+  }
+}
+
+// Breadth-first out from the centre, one query per hop
+async function neighbourhood(projectId: string, centreId: string, query: GraphQuery): Promise<string[]> {
+  const matching = entityWhere(projectId, query)
+  const reached = new Set([centreId])
+  let frontier = [centreId]
+
+  for (let hop = 0; hop < query.depth && frontier.length > 0; hop++) {
+    const edges = await prisma.edge.findMany({
+      where: {
+        ...edgeWhere(projectId, query),
+        OR: [
+          { sourceId: { in: frontier }, target: matching },
+          { targetId: { in: frontier }, source: matching }
+        ]
+      },
+      select: { sourceId: true, targetId: true }
+    })
+    const next: string[] = []
+    for (const edge of edges) {
+      for (const id of [edge.sourceId, edge.targetId]) {
+        if (reached.has(id)) continue
+        reached.add(id)
+        next.push(id)
+      }
+    }
+    frontier = next
+  }
+
+  return Array.from(reached)
+}
+
+// The matching entities, a page at a time when there is a limit, with the relationships between
+// them. Each relationship comes with the page holding the later of its two ends, so paging through
+// returns it exactly once; the earlier end has always been returned by then.
+export async function queryGraph(projectId: string, query: GraphQuery) {
+  let nodeWhere: Prisma.EntityWhereInput = entityWhere(projectId, query)
+  if (query.entityId) {
+    const centre = await prisma.entity.findFirst({ where: { id: query.entityId, projectId }, select: { id: true } })
+    if (!centre) return { error: 'Entity not found', status: 404 }
+    nodeWhere = { projectId, id: { in: await neighbourhood(projectId, centre.id, query) } }
+  }
+
+  const entities = await prisma.entity.findMany({
+    where: query.cursor ? { AND: [nodeWhere, { id: { gt: query.cursor } }] } : nodeWhere,
+    select: GRAPH_NODE_FIELDS,
+    orderBy: { id: 'asc' },
+    ...(query.limit && { take: query.limit + 1 })
+  })
+  const hasMore = query.limit !== undefined && entities.length > query.limit
+  const page = hasMore ? entities.slice(0, query.limit) : entities
+
+  let ends: Prisma.EdgeWhereInput
+  if (query.limit === undefined) {
+    ends = { source: nodeWhere, target: nodeWhere }
+  } else {
+    const ids = page.map(entity => entity.id)
+    const last = ids[ids.length - 1]
+    ends = {
+      OR: [
+        { sourceId: { in: ids }, targetId: { lte: last }, target: nodeWhere },
+        { targetId: { in: ids }, sourceId: { lte: last }, source: nodeWhere }
+      ]
+    }
+  }
+  const edges = page.length === 0 ? [] : await prisma.edge.findMany({
+    where: { AND: [edgeWhere(projectId, query), ends] },
+    select: GRAPH_EDGE_FIELDS
+  })
+
+  return {
+    nodes: page.map(toGraphNode),
+    edges: edges.map(toGraphLink),
+    nextCursor: hasMore ? page[page.length - 1].id : null
+  }
+}
@@ -0,0 +1,52 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', hellip: '…', pound: '£', euro: '€', copy: '©'
+}
+
+// "#233" or "#xE9" as its character; a reference past the last code point is left as it was written
+export function decodeNumericReference(entity: string, code: string): string {
+  const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+  return Number.isInteger(point) && point >= 0 && point <= 0x10FFFF ? String.fromCodePoint(point) : entity
+}
+
+function decodeEntity(entity: string, code: string): string {
+  if (code.startsWith('#')) return decodeNumericReference(entity, code)
+  return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+}
+
+export const decodeHtmlEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, decodeEntity)
+
+// Markup to plain text with headings kept as Markdown ("## Budget"), list items as "- " lines
+// and table cells separated by tabs, so chunking can follow the document's sections
+export function htmlToMarkdown(html: string): string {
+  return decodeHtmlEntities(html
+    .replace(/<h([1-6])[^>]*>/gi, (_: string, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<\/(h[1-6]|p|div|section|article|blockquote|pre|ul|ol|tr|table)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Elements that hold page furniture rather than content
+const BOILERPLATE = /<(script|style|noscript|template|svg|iframe|nav|header|footer|aside|form)\b[^>]*>[\s\S]*?<\/\1>/gi
+
+// The readable text of a saved web page: its title, then the main content without scripts,
+// navigation and footers
+export function extractHtmlText(html: string): string {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim()
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<head\b[\s\S]*?<\/head>/i, '')
+    .replace(BOILERPLATE, '')
+  // Most sites mark up their content; fall back to the whole body for those that don't
+  const main = body.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ||
+    body.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i)?.[1] ||
+    body
+
+  const text = htmlToMarkdown(main)
+  return title && !text.startsWith('#') ? `# ${decodeHtmlEntities(title)}\n\n${text}` : text
+}
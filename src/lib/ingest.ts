@@ -0,0 +1,36 @@
+import { extractPdfText } from './pdf'
+import { extractDocxText } from './docx'
+import { extractPptxText } from './pptx'
+import { extractOdtText } from './odt'
+import { extractRtfText } from './rtf'
+import { extractHtmlText } from './html'
+import { extractEmlText, extractMboxText } from './email'
+import { formatSheets, readXlsx } from './tabular'
+
+// How the text of each supported file type is read. Everything is stored as plain text, with
+// headings kept as Markdown where the format has them so chunking can follow its structure.
+const EXTRACTORS: Record<string, (buffer: Buffer) => Promise<string> | string> = {
+  '.txt': buffer => buffer.toString('utf-8'),
+  '.md': buffer => buffer.toString('utf-8'),
+  '.csv': buffer => buffer.toString('utf-8'),
+  '.xlsx': async buffer => formatSheets(await readXlsx(buffer)),
+  '.pdf': extractPdfText,
+  '.docx': extractDocxText,
+  '.pptx': extractPptxText,
+  '.odt': extractOdtText,
+  '.rtf': buffer => extractRtfText(buffer.toString('latin1')),
+  '.html': buffer => extractHtmlText(buffer.toString('utf-8')),
+  '.htm': buffer => extractHtmlText(buffer.toString('utf-8')),
+  '.eml': extractEmlText,
+  '.mbox': extractMboxText
+}
+
+export const SUPPORTED_FILE_TYPES = Object.keys(EXTRACTORS)
+
+export const isSupportedFileType = (fileType: string) => SUPPORTED_FILE_TYPES.includes(fileType)
+
+// The text of an uploaded file. Throws for an unsupported type or a file its reader can't parse.
+export async function extractText(buffer: Buffer, fileType: string): Promise<string> {
+  if (!isSupportedFileType(fileType)) throw new Error(`Unsupported file type ${fileType || '(none)'}`)
+  return EXTRACTORS[fileType](buffer)
+}
@@ -0,0 +1,164 @@
+import { EventEmitter } from 'events'
+import type { ExtractionJob } from '@prisma/client'
+import { formatJob } from './queue'
+
+export interface ExtractionCounts {
+  entities: number
+  relationships: number
+  insights: number
+}
+
+export type JobEvent =
+  | { type: 'queued' }
+  | { type: 'started'; attempt: number }
+  // Chunks can run in parallel; `done` is how many have finished
+  | { type: 'chunk_start'; index: number; total: number; done: number; chars: number }
+  | { type: 'chunk_done'; index: number; total: number; done: number; found: ExtractionCounts; entities: Array<{ name: string; type: string }> }
+  | { type: 'parse_error'; index: number; message: string }
+  | { type: 'complete'; status: string; summary?: Record<string, any> }
+  | { type: 'failed'; error: string; willRetry: boolean; runAfter?: string }
+  | { type: 'cancelled' }
+
+export type JobEventMessage = JobEvent & {
+  jobId: string
+  documentId: string
+  projectId: string
+  at: string
+}
+
+const TERMINAL_EVENTS = ['complete', 'cancelled']
+const KEEPALIVE_INTERVAL_MS = 15000
+
+// Kept on globalThis so the worker and the routes share one emitter across hot reloads
+const globalForEvents = globalThis as unknown as {
+  jobEvents: EventEmitter | undefined
+  jobProgress: Map<string, JobEventMessage> | undefined
+}
+
+const emitter = globalForEvents.jobEvents ?? new EventEmitter()
+emitter.setMaxListeners(0)
+globalForEvents.jobEvents = emitter
+
+// Latest progress event per running job, replayed to clients that connect mid-run
+const progress = globalForEvents.jobProgress ?? new Map<string, JobEventMessage>()
+globalForEvents.jobProgress = progress
+
+export function publishJobEvent(job: Pick<ExtractionJob, 'id' | 'documentId' | 'projectId'>, event: JobEvent) {
+  const message: JobEventMessage = {
+    ...event,
+    jobId: job.id,
+    documentId: job.documentId,
+    projectId: job.projectId,
+    at: new Date().toISOString()
+  }
+
+  if (event.type === 'chunk_start' || event.type === 'chunk_done') {
+    progress.set(job.id, message)
+  } else if (event.type === 'complete' || event.type === 'failed' || event.type === 'cancelled') {
+    progress.delete(job.id)
+  }
+
+  emitter.emit(`job:${job.id}`, message)
+  emitter.emit(`project:${job.projectId}`, message)
+}
+
+const encoder = new TextEncoder()
+const encodeEvent = (name: string, data: unknown) =>
+  encoder.encode(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`)
+
+// Server-Sent Events stream for one job (closes when it finishes) or a whole project (stays open).
+// The snapshot is read only once the stream is listening, so nothing published in between is missed.
+export function createJobEventStream(
+  channel: { jobId: string } | { projectId: string },
+  loadSnapshot: () => Promise<ExtractionJob[]>,
+  signal: AbortSignal
+): Response {
+  const topic = 'jobId' in channel ? `job:${channel.jobId}` : `project:${channel.projectId}`
+  const closeOnFinish = 'jobId' in channel
+
+  let closed = false
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: Uint8Array) => {
+        if (closed) return
+        try {
+          controller.enqueue(chunk)
+        } catch {
+          // Client went away between the check and the write
+          closed = true
+          cleanup()
+        }
+      }
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already torn down by the client disconnecting
+        }
+      }
+
+      const deliver = (message: JobEventMessage) => {
+        send(encodeEvent(message.type, message))
+        if (!closeOnFinish) return
+        if (TERMINAL_EVENTS.includes(message.type)) close()
+        if (message.type === 'failed' && !message.willRetry) close()
+      }
+      // Events arriving while the snapshot is read are held until it has been sent
+      let held: JobEventMessage[] | null = []
+      const listener = (message: JobEventMessage) => {
+        if (held) held.push(message)
+        else deliver(message)
+      }
+      const keepalive = setInterval(() => send(encoder.encode(': keepalive\n\n')), KEEPALIVE_INTERVAL_MS)
+
+      emitter.on(topic, listener)
+      cleanup = () => {
+        clearInterval(keepalive)
+        emitter.off(topic, listener)
+      }
+      signal.addEventListener('abort', close)
+
+      let snapshot: ExtractionJob[]
+      try {
+        snapshot = await loadSnapshot()
+      } catch (error) {
+        console.error('Failed to load job snapshot:', error)
+        close()
+        return
+      }
+
+      // Current state first, so a client that connects mid-run can draw its progress bar immediately
+      send(encodeEvent('snapshot', {
+        jobs: snapshot.map(job => ({ ...formatJob(job), progress: progress.get(job.id) || null }))
+      }))
+
+      // A job stream also ends when its job has gone, as when its document was deleted
+      const finished = snapshot.every(job => !['queued', 'running'].includes(job.status))
+      if (closeOnFinish && finished) {
+        close()
+        return
+      }
+
+      const missed = held
+      held = null
+      for (const message of missed) deliver(message)
+    },
+    cancel() {
+      closed = true
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
@@ -0,0 +1,115 @@
+import type { ExtractionJob, Settings } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { providerConfigError } from '@/lib/ai'
+import { budgetError } from '@/lib/usage'
+import type { ExtractionMode } from '@/lib/extraction/run'
+import { abortRunningJob, ensureWorker, restoreDocumentStatus, wakeWorker } from './worker'
+import { publishJobEvent } from './events'
+
+export const ACTIVE_JOB_STATUSES = ['queued', 'running']
+export const FINISHED_JOB_STATUSES = ['succeeded', 'failed', 'cancelled']
+
+// Why extraction can't run with these settings, if it can't
+export function extractionConfigError(settings: Settings): { error: string; status: number } | null {
+  if (settings.aiProvider === 'none') {
+    return {
+      error: 'AI extraction is not configured. Please enable an AI provider in settings.',
+      status: 400
+    }
+  }
+  return providerConfigError(settings)
+}
+
+// Why a new extraction job can't be queued: unusable settings or a spent monthly budget
+export async function enqueueError(settings: Settings): Promise<{ error: string; status: number } | null> {
+  return extractionConfigError(settings) || budgetError(settings)
+}
+
+// Queue a document for extraction, reusing its job if one is already queued or running
+export async function enqueueExtraction(
+  projectId: string,
+  documentId: string,
+  mode: ExtractionMode = 'full'
+): Promise<ExtractionJob> {
+  ensureWorker()
+
+  const active = await prisma.extractionJob.findFirst({
+    where: { documentId, status: { in: ACTIVE_JOB_STATUSES } }
+  })
+  if (active) return active
+
+  const job = await prisma.extractionJob.create({
+    data: { projectId, documentId, mode }
+  })
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { status: 'queued' }
+  })
+  publishJobEvent(job, { type: 'queued' })
+
+  wakeWorker()
+  return job
+}
+
+export async function cancelJob(job: ExtractionJob): Promise<ExtractionJob> {
+  const updated = await prisma.extractionJob.update({
+    where: { id: job.id },
+    data: { status: 'cancelled', finishedAt: new Date() }
+  })
+
+  // A running job aborts its current request and tidies up the document itself
+  if (job.status === 'running') {
+    abortRunningJob(job.id)
+  } else {
+    await restoreDocumentStatus(job.documentId)
+    publishJobEvent(job, { type: 'cancelled' })
+  }
+
+  return updated
+}
+
+export async function retryJob(job: ExtractionJob): Promise<ExtractionJob> {
+  ensureWorker()
+
+  const updated = await prisma.extractionJob.update({
+    where: { id: job.id },
+    data: {
+      status: 'queued',
+      attempts: 0,
+      chunksDone: 0,
+      error: null,
+      result: null,
+      runAfter: new Date(),
+      startedAt: null,
+      finishedAt: null
+    }
+  })
+  await prisma.document.update({
+    where: { id: job.documentId },
+    data: { status: 'queued' }
+  })
+  publishJobEvent(job, { type: 'queued' })
+
+  wakeWorker()
+  return updated
+}
+
+export function formatJob(job: ExtractionJob) {
+  return {
+    id: job.id,
+    documentId: job.documentId,
+    status: job.status,
+    mode: job.mode,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    chunksTotal: job.chunksTotal,
+    chunksDone: job.chunksDone,
+    error: job.error,
+    result: parseJson<Record<string, any> | null>(job.result, null),
+    runAfter: job.runAfter.toISOString(),
+    startedAt: job.startedAt?.toISOString() || null,
+    finishedAt: job.finishedAt?.toISOString() || null,
+    createdAt: job.createdAt.toISOString()
+  }
+}
@@ -0,0 +1,271 @@
+import type { ExtractionJob } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getProjectOntology, getProjectSettings } from '@/lib/settings'
+import { ExtractionCancelledError, ExtractionMode, runExtraction } from '@/lib/extraction/run'
+import { ExtractionOutcome, applyInsightsOnly, completeExtraction } from '@/lib/extraction/apply'
+import { changeContext, revertRun } from '@/lib/changeLog'
+import { hasContribution, loadContribution } from '@/lib/extraction/diff'
+import { recordUsage } from '@/lib/usage'
+import { ExtractionCounts, publishJobEvent } from './events'
+
+const POLL_INTERVAL_MS = 2000
+// First retry after 30s, then 60s, 120s...
+const RETRY_BASE_DELAY_MS = 30000
+
+interface WorkerState {
+  started: boolean
+  busy: boolean
+  timer: ReturnType<typeof setInterval> | null
+  controllers: Map<string, AbortController>
+}
+
+// Kept on globalThis so dev-server hot reloads don't start a second worker
+const globalForWorker = globalThis as unknown as {
+  extractionWorker: WorkerState | undefined
+}
+
+const state: WorkerState = globalForWorker.extractionWorker ?? {
+  started: false,
+  busy: false,
+  timer: null,
+  controllers: new Map()
+}
+globalForWorker.extractionWorker = state
+
+// Start polling for queued jobs. Safe to call from every route; only the first call does anything.
+export function ensureWorker() {
+  if (state.started) return
+  state.started = true
+
+  // A job still marked running belongs to a server that stopped mid-extraction: run it again
+  prisma.extractionJob.updateMany({
+    where: { status: 'running' },
+    data: { status: 'queued' }
+  })
+    .catch(error => console.error('Failed to requeue interrupted jobs:', error))
+    .finally(() => {
+      state.timer = setInterval(wakeWorker, POLL_INTERVAL_MS)
+      state.timer.unref?.()
+      wakeWorker()
+    })
+}
+
+export function wakeWorker() {
+  if (state.busy) return
+  state.busy = true
+  drainQueue()
+    .catch(error => console.error('Extraction worker error:', error))
+    .finally(() => {
+      state.busy = false
+    })
+}
+
+// Stop a job this process is running, aborting its model request in flight
+export function abortRunningJob(jobId: string) {
+  state.controllers.get(jobId)?.abort()
+}
+
+async function drainQueue() {
+  for (;;) {
+    const job = await claimNextJob()
+    if (!job) return
+    await processJob(job)
+  }
+}
+
+async function claimNextJob(): Promise<ExtractionJob | null> {
+  const next = await prisma.extractionJob.findFirst({
+    where: { status: 'queued', runAfter: { lte: new Date() } },
+    orderBy: { createdAt: 'asc' }
+  })
+  if (!next) return null
+
+  // Only one claimant can move the job out of 'queued'
+  const claimed = await prisma.extractionJob.updateMany({
+    where: { id: next.id, status: 'queued' },
+    data: {
+      status: 'running',
+      attempts: { increment: 1 },
+      chunksDone: 0,
+      startedAt: new Date(),
+      error: null
+    }
+  })
+  if (claimed.count === 0) return claimNextJob()
+
+  return prisma.extractionJob.findUnique({ where: { id: next.id } })
+}
+
+async function processJob(job: ExtractionJob) {
+  const controller = new AbortController()
+  state.controllers.set(job.id, controller)
+
+  try {
+    const document = await prisma.document.findUnique({ where: { id: job.documentId } })
+    if (!document) throw new Error('Document not found')
+
+    const settings = await getProjectSettings(job.projectId)
+    const ontology = await getProjectOntology(job.projectId)
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { status: 'processing' }
+    })
+    publishJobEvent(job, { type: 'started', attempt: job.attempts })
+
+    // Running totals across chunks, before any resolution against the graph
+    const found: ExtractionCounts = { entities: 0, relationships: 0, insights: 0 }
+
+    const mode = job.mode as ExtractionMode
+    const { result, extractedBy, report } = await runExtraction(document, settings, ontology, {
+      signal: controller.signal,
+      onChunkStart: async (index, total, chars, done) => {
+        await prisma.extractionJob.update({
+          where: { id: job.id },
+          data: { chunksTotal: total, chunksDone: done }
+        })
+        publishJobEvent(job, { type: 'chunk_start', index, total, done, chars })
+      },
+      onChunkDone: async (index, total, chunk, done) => {
+        await prisma.extractionJob.update({
+          where: { id: job.id },
+          data: { chunksDone: done }
+        })
+        found.entities += chunk.entities.length
+        found.relationships += chunk.relationships.length
+        found.insights += chunk.insights.length
+        publishJobEvent(job, {
+          type: 'chunk_done',
+          index,
+          total,
+          done,
+          found: { ...found },
+          entities: chunk.entities.map(e => ({ name: e.name, type: e.type }))
+        })
+      },
+      onParseError: (index, message) => {
+        publishJobEvent(job, { type: 'parse_error', index, message })
+      },
+      onModelCall: call => recordUsage({ projectId: job.projectId, documentId: job.documentId, jobId: job.id, ...call })
+    }, mode)
+
+    // Cancelled while the last chunk was in flight
+    const current = await prisma.extractionJob.findUnique({ where: { id: job.id } })
+    if (!current || current.status === 'cancelled') throw new ExtractionCancelledError()
+
+    await prisma.document.update({
+      where: { id: document.id },
+      data: { extractionReport: JSON.stringify(report) }
+    })
+
+    // Insights for an imported table are added alongside its rows, with nothing to review
+    const context = changeContext(job.projectId, 'extraction', 'extract', { documentId: document.id, jobId: job.id })
+    const outcome = mode === 'insights'
+      ? await applyInsightsOnly(document, result, extractedBy, context)
+      : await completeExtraction(document, result, extractedBy, context)
+
+    // Only a job still running succeeds; one cancelled while it was being applied is put back
+    const finished = await prisma.extractionJob.updateMany({
+      where: { id: job.id, status: 'running' },
+      data: {
+        status: 'succeeded',
+        result: JSON.stringify(outcome.status === 'review' ? { status: 'review' } : outcome),
+        finishedAt: new Date()
+      }
+    })
+    if (finished.count === 0) {
+      await withdrawOutcome(job, outcome.status)
+      throw new ExtractionCancelledError()
+    }
+    publishJobEvent(job, {
+      type: 'complete',
+      status: outcome.status,
+      summary: outcome.status === 'extracted' ? { ...outcome.summary } : undefined
+    })
+
+  } catch (error) {
+    if (error instanceof ExtractionCancelledError) {
+      await restoreDocumentStatus(job.documentId)
+      await prisma.extractionJob.updateMany({
+        where: { id: job.id },
+        data: { status: 'cancelled', finishedAt: new Date() }
+      })
+      publishJobEvent(job, { type: 'cancelled' })
+      return
+    }
+
+    console.error(`Extraction job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error)
+    const message = error instanceof Error ? error.message : String(error)
+
+    // An apply that failed partway leaves some of its changes behind. Taking them out means a retry
+    // applies afresh instead of finding the document already contributing and asking for review.
+    await revertJobChanges(job)
+
+    if (job.attempts < job.maxAttempts) {
+      const runAfter = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1))
+      await prisma.extractionJob.update({
+        where: { id: job.id },
+        data: { status: 'queued', error: message, runAfter }
+      })
+      await prisma.document.updateMany({
+        where: { id: job.documentId },
+        data: { status: 'queued' }
+      })
+      publishJobEvent(job, { type: 'failed', error: message, willRetry: true, runAfter: runAfter.toISOString() })
+      return
+    }
+
+    await prisma.extractionJob.update({
+      where: { id: job.id },
+      data: { status: 'failed', error: message, finishedAt: new Date() }
+    })
+    await prisma.document.updateMany({
+      where: { id: job.documentId },
+      data: { status: 'failed' }
+    })
+    publishJobEvent(job, { type: 'failed', error: message, willRetry: false })
+
+  } finally {
+    state.controllers.delete(job.id)
+  }
+}
+
+// Undo what a job cancelled during apply left behind: the changes logged under its id, or the
+// extraction it left waiting for review
+async function withdrawOutcome(job: ExtractionJob, status: ExtractionOutcome['status']) {
+  if (status === 'review') {
+    await prisma.document.update({
+      where: { id: job.documentId },
+      data: { pendingExtraction: null }
+    })
+    return
+  }
+  await revertJobChanges(job)
+}
+
+// Revert the graph changes logged under a job's id, if it made any
+async function revertJobChanges(job: ExtractionJob) {
+  try {
+    const reverted = await revertRun(job.projectId, job.id)
+    if ('error' in reverted && reverted.status !== 404) {
+      console.error(`Failed to revert the changes of extraction job ${job.id}:`, reverted.error)
+    }
+  } catch (error) {
+    console.error(`Failed to revert the changes of extraction job ${job.id}:`, error)
+  }
+}
+
+// Put a document back to where it was before a job that never finished
+export async function restoreDocumentStatus(documentId: string) {
+  const document = await prisma.document.findUnique({ where: { id: documentId } })
+  if (!document) return
+
+  const status = document.pendingExtraction
+    ? 'review'
+    : hasContribution(await loadContribution(documentId)) ? 'extracted' : 'uploaded'
+
+  await prisma.document.update({
+    where: { id: documentId },
+    data: { status }
+  })
+}
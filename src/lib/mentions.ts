@@ -0,0 +1,45 @@
+// Where entities are named in a document's text, for highlighting them in the reader
+
+export interface Mention {
+  start: number
+  end: number
+  entityId: string
+}
+
+export interface NamedEntity {
+  id: string
+  // The canonical name first, then aliases and the names documents used for it
+  names: string[]
+}
+
+// Names shorter than this match too much ordinary text ("IT", "HR" are kept by the upper-case rule)
+const MIN_NAME_LENGTH = 3
+const MAX_NAMES = 5000
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Every whole-word, case-insensitive occurrence of an entity's names. Longer names win where they
+// overlap ("Acme Holdings" over "Acme"), and a name shared by two entities goes to the first listed.
+export function findMentions(content: string, entities: NamedEntity[]): Mention[] {
+  const owners = new Map<string, string>()
+  for (const entity of entities) {
+    for (const name of entity.names) {
+      const trimmed = name.trim()
+      const usable = trimmed.length >= MIN_NAME_LENGTH || (trimmed.length >= 2 && trimmed === trimmed.toUpperCase())
+      if (usable && !owners.has(trimmed.toLowerCase())) owners.set(trimmed.toLowerCase(), entity.id)
+    }
+  }
+  if (owners.size === 0) return []
+
+  // Longest first, so the first alternative that fits at a position is the longest name there
+  const names = Array.from(owners.keys()).sort((a, b) => b.length - a.length).slice(0, MAX_NAMES)
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu')
+
+  const mentions: Mention[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    const entityId = owners.get(match[0].toLowerCase())
+    if (entityId) mentions.push({ start: match.index, end: match.index + match[0].length, entityId })
+  }
+  return mentions
+}
@@ -0,0 +1,377 @@
+import type { Edge, Entity, Evidence, MergeProposal, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { Change, changeContext, created, deleted, logChanges, updated } from '@/lib/changeLog'
+import { mergeAliases, mergeMetadata, normaliseName, parseJson } from '@/lib/entityResolution'
+import type { EntityFields } from '@/lib/graphEdits'
+import { relationTypeKey } from '@/lib/ontology'
+import { refreshValidity } from '@/lib/temporal'
+
+// Merging entities by hand, undoing a merge, and splitting an entity in two or more.
+// A merge keeps a snapshot of every row it changes or deletes, so it can be put back exactly.
+
+type Tx = Prisma.TransactionClient
+
+// Large merges touch many rows; SQLite's default five seconds isn't always enough
+const TRANSACTION_OPTIONS = { timeout: 30000 }
+
+interface MergeSnapshot {
+  survivor: Entity
+  merged: Entity[]
+  // Every edge touching any of the entities, as it was
+  edges: Edge[]
+  sources: Array<{ id: string; entityId: string }>
+  // Whole rows, as evidence for a relationship the merge deletes goes with it
+  evidence: Evidence[]
+  proposals: MergeProposal[]
+  insights: Array<{ id: string; relatedEntityIds: string }>
+  chatMessages: Array<{ id: string; referencedEntityIds: string }>
+}
+
+export type MergeOutcome = { entity: Entity; mergeId: string; collapsedEdges: number } | { error: string; status: number }
+
+// Relationships that say the same thing once both ends are the same entity: the key extraction
+// would give them, plus the document they came from, so each document's contribution stays whole
+const edgeKey = (edge: Edge) =>
+  `${edge.sourceId}|${edge.relationType || relationTypeKey(edge.label)}|${edge.targetId}|${edge.documentId || ''}`
+
+const replaceIds = (json: string, ids: string[], replacement: string) =>
+  JSON.stringify(Array.from(new Set(parseJson<string[]>(json, []).map(id => ids.includes(id) ? replacement : id))))
+
+// Distinct descriptions are kept one after another, the survivor's first
+function combineDescriptions(descriptions: Array<string | null>): string | null {
+  const distinct: string[] = []
+  for (const description of descriptions) {
+    const text = description?.trim()
+    if (text && !distinct.some(d => normaliseName(d) === normaliseName(text))) distinct.push(text)
+  }
+  return distinct.length > 0 ? distinct.join('\n\n') : null
+}
+
+// Fold `mergedIds` into `survivorId`: names become aliases, metadata and descriptions are combined,
+// provenance and relationships move over, and relationships that end up saying the same thing
+// are collapsed into one. Insights and chat messages that referred to the merged entities point
+// to the survivor afterwards.
+export async function mergeEntityGroup(projectId: string, survivorId: string, mergedIds: string[]): Promise<MergeOutcome> {
+  const ids = Array.from(new Set(mergedIds.filter(id => id !== survivorId)))
+  if (ids.length === 0) return { error: 'Choose at least one other entity to merge', status: 400 }
+
+  const entities = await prisma.entity.findMany({ where: { projectId, id: { in: [survivorId, ...ids] } } })
+  const survivor = entities.find(entity => entity.id === survivorId)
+  const merged = ids.map(id => entities.find(entity => entity.id === id)).filter((e): e is Entity => !!e)
+  if (!survivor || merged.length !== ids.length) {
+    return { error: 'All the entities must be in this project', status: 400 }
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const allIds = [survivorId, ...ids]
+    const containsAny = (field: 'relatedEntityIds' | 'referencedEntityIds') =>
+      ids.map(id => ({ [field]: { contains: id } }))
+
+    const snapshot: MergeSnapshot = {
+      survivor,
+      merged,
+      edges: await tx.edge.findMany({ where: { OR: [{ sourceId: { in: allIds } }, { targetId: { in: allIds } }] } }),
+      sources: await tx.entitySource.findMany({ where: { entityId: { in: ids } }, select: { id: true, entityId: true } }),
+      evidence: await tx.evidence.findMany({
+        where: { OR: [{ entityId: { in: ids } }, { edge: { OR: [{ sourceId: { in: allIds } }, { targetId: { in: allIds } }] } }] }
+      }),
+      proposals: await tx.mergeProposal.findMany({
+        where: { OR: [{ entityId: { in: ids } }, { candidateId: { in: ids } }] }
+      }),
+      insights: await tx.insight.findMany({
+        where: { projectId, OR: containsAny('relatedEntityIds') },
+        select: { id: true, relatedEntityIds: true }
+      }),
+      chatMessages: await tx.chatMessage.findMany({
+        where: { projectId, OR: containsAny('referencedEntityIds') },
+        select: { id: true, referencedEntityIds: true }
+      })
+    }
+
+    let metadata = parseJson<Record<string, any>>(survivor.metadata, {})
+    for (const entity of merged) metadata = mergeMetadata(metadata, parseJson<Record<string, any>>(entity.metadata, {}))
+
+    await tx.entitySource.updateMany({ where: { entityId: { in: ids } }, data: { entityId: survivorId } })
+    await tx.evidence.updateMany({ where: { entityId: { in: ids } }, data: { entityId: survivorId } })
+    await tx.edge.updateMany({ where: { sourceId: { in: ids } }, data: { sourceId: survivorId } })
+    await tx.edge.updateMany({ where: { targetId: { in: ids } }, data: { targetId: survivorId } })
+    // A relationship between two of the merged entities would now be a self-loop
+    await tx.edge.deleteMany({ where: { sourceId: survivorId, targetId: survivorId } })
+
+    const collapsedEdges = await collapseEdges(tx, survivorId)
+
+    for (const insight of snapshot.insights) {
+      await tx.insight.update({
+        where: { id: insight.id },
+        data: { relatedEntityIds: replaceIds(insight.relatedEntityIds, ids, survivorId) }
+      })
+    }
+    for (const message of snapshot.chatMessages) {
+      await tx.chatMessage.update({
+        where: { id: message.id },
+        data: { referencedEntityIds: replaceIds(message.referencedEntityIds, ids, survivorId) }
+      })
+    }
+
+    // Merge proposals involving the merged entities go with them
+    await tx.entity.deleteMany({ where: { id: { in: ids } } })
+
+    const entity = await tx.entity.update({
+      where: { id: survivorId },
+      data: {
+        aliases: JSON.stringify(mergeAliases(
+          survivor.name,
+          parseJson<string[]>(survivor.aliases, []),
+          ...merged.map(e => [e.name, ...parseJson<string[]>(e.aliases, [])])
+        )),
+        metadata: JSON.stringify(metadata),
+        description: combineDescriptions([survivor, ...merged].map(e => e.description)),
+        subtype: survivor.subtype || merged.find(e => e.subtype)?.subtype || null,
+        confidence: Math.max(...[survivor, ...merged].map(e => e.confidence)),
+        documentId: survivor.documentId || merged.find(e => e.documentId)?.documentId || null,
+        territoryId: survivor.territoryId || merged.find(e => e.territoryId)?.territoryId || null
+      }
+    })
+
+    const record = await tx.entityMerge.create({
+      data: {
+        projectId,
+        survivorId,
+        mergedIds: JSON.stringify(ids),
+        names: JSON.stringify(merged.map(e => e.name)),
+        snapshot: JSON.stringify(snapshot)
+      }
+    })
+
+    // Logged under the merge's id, so that undoing it marks them reverted
+    const changes: Array<Change | null> = []
+    for (const edge of snapshot.edges) {
+      const current = await tx.edge.findUnique({ where: { id: edge.id } })
+      changes.push(current ? updated('edge', edge.id, edge, current) : deleted('edge', edge))
+    }
+    changes.push(...merged.map(e => deleted('entity', e)), updated('entity', survivorId, survivor, entity))
+    for (const insight of snapshot.insights) {
+      changes.push(updated('insight', insight.id, insight, { relatedEntityIds: replaceIds(insight.relatedEntityIds, ids, survivorId) }))
+    }
+    await logChanges(tx, changeContext(projectId, 'user', 'merge', { runId: record.id }), changes)
+
+    return { entity, mergeId: record.id, collapsedEdges }
+  }, TRANSACTION_OPTIONS)
+
+  // The survivor now holds for as long as any of the documents behind the merged entities
+  await refreshValidity(projectId)
+  return result
+}
+
+// Collapse relationships of an entity that now say the same thing into the oldest of them, adding
+// up their weights and moving their evidence over. Returns how many were removed.
+async function collapseEdges(tx: Tx, entityId: string): Promise<number> {
+  const edges = await tx.edge.findMany({
+    where: { OR: [{ sourceId: entityId }, { targetId: entityId }] },
+    orderBy: { createdAt: 'asc' }
+  })
+  const groups = new Map<string, Edge[]>()
+  for (const edge of edges) {
+    const key = edgeKey(edge)
+    groups.set(key, [...(groups.get(key) || []), edge])
+  }
+
+  let removed = 0
+  for (const [keeper, ...duplicates] of Array.from(groups.values())) {
+    if (duplicates.length === 0) continue
+    const group = [keeper, ...duplicates]
+    const duplicateIds = duplicates.map(edge => edge.id)
+    await tx.evidence.updateMany({ where: { edgeId: { in: duplicateIds } }, data: { edgeId: keeper.id } })
+    await tx.edge.deleteMany({ where: { id: { in: duplicateIds } } })
+    await tx.edge.update({
+      where: { id: keeper.id },
+      data: {
+        weight: group.reduce((sum, edge) => sum + edge.weight, 0),
+        confidence: Math.max(...group.map(edge => edge.confidence)),
+        reviewStatus: group.some(edge => edge.reviewStatus === 'approved') ? 'approved' : keeper.reviewStatus
+      }
+    })
+    removed += duplicates.length
+  }
+  return removed
+}
+
+// Put a merge back as it was: the merged entities return with their own relationships, sources,
+// evidence and merge proposals, and the survivor gets back its names, metadata and description.
+// Relationships added to the survivor since the merge stay with it.
+export async function undoMerge(projectId: string, mergeId: string): Promise<{ entities: Entity[] } | { error: string; status: number }> {
+  const record = await prisma.entityMerge.findFirst({ where: { id: mergeId, projectId } })
+  if (!record) return { error: 'Merge not found', status: 404 }
+  if (record.undoneAt) return { error: 'This merge has already been undone', status: 409 }
+
+  const snapshot = parseJson<MergeSnapshot | null>(record.snapshot, null)
+  if (!snapshot) return { error: 'This merge can\'t be undone', status: 409 }
+
+  // A later merge into or out of the survivor would be left pointing at the wrong rows
+  const later = await prisma.entityMerge.findMany({
+    where: { projectId, undoneAt: null, createdAt: { gt: record.createdAt } },
+    select: { survivorId: true, mergedIds: true }
+  })
+  const involved = [record.survivorId, ...parseJson<string[]>(record.mergedIds, [])]
+  if (later.some(merge => involved.includes(merge.survivorId) ||
+      parseJson<string[]>(merge.mergedIds, []).some(id => involved.includes(id)))) {
+    return { error: 'Undo the later merges involving these entities first', status: 409 }
+  }
+
+  const survivor = await prisma.entity.findFirst({ where: { id: record.survivorId, projectId } })
+  if (!survivor) return { error: 'The entity they were merged into has since been deleted', status: 409 }
+
+  // Documents and territories may have been deleted since
+  const documentIds = new Set((await prisma.document.findMany({ where: { projectId }, select: { id: true } })).map(d => d.id))
+  const territoryIds = new Set((await prisma.territory.findMany({ where: { projectId }, select: { id: true } })).map(t => t.id))
+  const documentOrNull = (id: string | null) => id && documentIds.has(id) ? id : null
+  const territoryOrNull = (id: string | null) => id && territoryIds.has(id) ? id : null
+
+  const entities = await prisma.$transaction(async (tx) => {
+    for (const entity of snapshot.merged) {
+      await tx.entity.create({
+        data: { ...entity, documentId: documentOrNull(entity.documentId), territoryId: territoryOrNull(entity.territoryId) }
+      })
+    }
+
+    const before = snapshot.survivor
+    await tx.entity.update({
+      where: { id: survivor.id },
+      data: {
+        aliases: before.aliases,
+        metadata: before.metadata,
+        description: before.description,
+        subtype: before.subtype,
+        confidence: before.confidence,
+        documentId: documentOrNull(before.documentId),
+        territoryId: territoryOrNull(before.territoryId)
+      }
+    })
+
+    const entityIds = new Set([survivor.id, ...snapshot.merged.map(e => e.id)])
+    for (const edge of snapshot.edges) {
+      const { sourceId, targetId, weight, confidence, reviewStatus } = edge
+      const existing = await tx.edge.findUnique({ where: { id: edge.id }, select: { id: true } })
+      if (existing) {
+        await tx.edge.update({ where: { id: edge.id }, data: { sourceId, targetId, weight, confidence, reviewStatus } })
+      } else {
+        // Collapsed or turned into a self-loop by the merge; its other end may have gone since
+        const ends = await tx.entity.count({ where: { id: { in: [sourceId, targetId] } } })
+        if (ends === 2) await tx.edge.create({ data: { ...edge, documentId: documentOrNull(edge.documentId) } })
+      }
+    }
+
+    for (const source of snapshot.sources) {
+      await tx.entitySource.updateMany({ where: { id: source.id }, data: { entityId: source.entityId } })
+    }
+    for (const item of snapshot.evidence) {
+      const moved = await tx.evidence.updateMany({ where: { id: item.id }, data: { entityId: item.entityId, edgeId: item.edgeId } })
+      if (moved.count > 0 || !documentIds.has(item.documentId)) continue
+      const owner = item.edgeId
+        ? await tx.edge.count({ where: { id: item.edgeId } })
+        : await tx.entity.count({ where: { id: item.entityId || '' } })
+      if (owner) await tx.evidence.create({ data: item })
+    }
+
+    for (const proposal of snapshot.proposals) {
+      const ends = await tx.entity.count({ where: { id: { in: [proposal.entityId, proposal.candidateId] } } })
+      const exists = await tx.mergeProposal.count({ where: { id: proposal.id } })
+      if (ends === 2 && !exists) await tx.mergeProposal.create({ data: proposal })
+    }
+
+    for (const insight of snapshot.insights) {
+      await tx.insight.updateMany({ where: { id: insight.id }, data: { relatedEntityIds: insight.relatedEntityIds } })
+    }
+    for (const message of snapshot.chatMessages) {
+      await tx.chatMessage.updateMany({ where: { id: message.id }, data: { referencedEntityIds: message.referencedEntityIds } })
+    }
+
+    await tx.entityMerge.update({ where: { id: record.id }, data: { undoneAt: new Date() } })
+    await tx.changeLog.updateMany({ where: { projectId, runId: record.id, revertedAt: null }, data: { revertedAt: new Date() } })
+
+    return tx.entity.findMany({ where: { id: { in: Array.from(entityIds) } } })
+  }, TRANSACTION_OPTIONS)
+
+  await refreshValidity(projectId)
+  return { entities }
+}
+
+export interface SplitPart {
+  fields: EntityFields & { name: string; type: string }
+  edgeIds: string[]
+  evidenceIds: string[]
+}
+
+// Split new entities off an entity, each taking the relationships and evidence listed for it;
+// the original keeps the rest. A part's names are dropped from the original's aliases. The new
+// entities belong to no document, as ones added by hand don't, so extraction leaves them alone.
+export async function splitEntity(projectId: string, entityId: string, parts: SplitPart[]): Promise<{ original: Entity; created: Entity[] } | { error: string; status: number }> {
+  const original = await prisma.entity.findFirst({ where: { id: entityId, projectId } })
+  if (!original) return { error: 'Entity not found', status: 404 }
+  if (parts.length === 0) return { error: 'Describe at least one entity to split off', status: 400 }
+
+  const edgeIds = parts.reduce<string[]>((all, part) => all.concat(part.edgeIds), [])
+  const evidenceIds = parts.reduce<string[]>((all, part) => all.concat(part.evidenceIds), [])
+  if (new Set(edgeIds).size !== edgeIds.length || new Set(evidenceIds).size !== evidenceIds.length) {
+    return { error: 'A relationship or quote can only go to one of the new entities', status: 400 }
+  }
+  const [edges, evidence] = await Promise.all([
+    prisma.edge.findMany({
+      where: { id: { in: edgeIds }, OR: [{ sourceId: entityId }, { targetId: entityId }] },
+      select: { id: true, sourceId: true, targetId: true }
+    }),
+    prisma.evidence.count({ where: { id: { in: evidenceIds }, entityId } })
+  ])
+  if (edges.length !== edgeIds.length) return { error: 'Only this entity\'s relationships can be moved', status: 400 }
+  if (evidence !== evidenceIds.length) return { error: 'Only this entity\'s evidence can be moved', status: 400 }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const context = changeContext(projectId, 'user', 'split')
+    const evidenceBefore = (await tx.evidence.findMany({ where: { entityId }, select: { id: true } })).map(item => item.id)
+    const parted: Entity[] = []
+    const movedNames = new Set<string>()
+    for (const part of parts) {
+      const entity = await tx.entity.create({
+        data: {
+          projectId,
+          ...part.fields,
+          confidence: original.confidence,
+          reviewStatus: original.reviewStatus,
+          territoryId: original.territoryId,
+          extractedBy: 'split'
+        }
+      })
+      await logChanges(tx, context, [created('entity', entity)])
+      for (const edge of edges.filter(e => part.edgeIds.includes(e.id))) {
+        const moved = await tx.edge.update({
+          where: { id: edge.id },
+          data: edge.sourceId === entityId ? { sourceId: entity.id } : { targetId: entity.id }
+        })
+        await logChanges(tx, context, [updated('edge', edge.id, edge, moved)])
+      }
+      if (part.evidenceIds.length > 0) {
+        await tx.evidence.updateMany({ where: { id: { in: part.evidenceIds } }, data: { entityId: entity.id } })
+      }
+      movedNames.add(normaliseName(entity.name))
+      for (const alias of parseJson<string[]>(entity.aliases, [])) movedNames.add(normaliseName(alias))
+      parted.push(entity)
+    }
+
+    const aliases = parseJson<string[]>(original.aliases, []).filter(alias => !movedNames.has(normaliseName(alias)))
+    const remaining = await tx.entity.update({
+      where: { id: entityId },
+      data: { aliases: JSON.stringify(aliases) }
+    })
+    // Logged last, so a revert moves the evidence back before the new entities are deleted
+    await logChanges(tx, context, [updated(
+      'entity',
+      entityId,
+      { aliases: original.aliases, evidence: evidenceBefore },
+      { aliases: remaining.aliases, evidence: evidenceBefore.filter(id => !evidenceIds.includes(id)) }
+    )])
+    return { original: remaining, created: parted }
+  }, TRANSACTION_OPTIONS)
+
+  await refreshValidity(projectId)
+  return result
+}
@@ -0,0 +1,33 @@
+import JSZip from 'jszip'
+import { decodeHtmlEntities } from './html'
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`${name}="([^"]*)"`))?.[1]
+
+// Text of an OpenDocument text file, with its outline headings kept as Markdown ("## Budget"),
+// list items as "- " lines and table cells separated by tabs, as for Word documents
+export async function extractOdtText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer)
+  const content = await zip.file('content.xml')?.async('string')
+  if (!content) throw new Error('Not an OpenDocument file: content.xml is missing')
+
+  const body = content.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] || ''
+  return decodeHtmlEntities(body
+    // Comments and tracked deletions aren't part of the text as it reads
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+    .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, '')
+    // A cell's paragraphs stay on one line so each row reads as one
+    .replace(/<table:table-cell\b[^>]*?(?:\/>|>([\s\S]*?)<\/table:table-cell>)/g, (_, cell: string | undefined) =>
+      `${(cell || '').replace(/<\/text:[ph]>/g, ' ').replace(/<text:(h|p|list-item)\b[^>]*>/g, '')}\t`)
+    .replace(/<\/table:table-row>/g, '\n')
+    .replace(/<\/table:table>/g, '\n\n')
+    .replace(/<text:h\b[^>]*>/g, tag => `\n\n${'#'.repeat(Math.min(Number(attribute(tag, 'text:outline-level')) || 1, 6))} `)
+    .replace(/<text:list-item\b[^>]*>/g, '\n- ')
+    .replace(/<\/text:[ph]>/g, '\n\n')
+    .replace(/<text:s\b[^>]*\/>/g, tag => ' '.repeat(Number(attribute(tag, 'text:c')) || 1))
+    .replace(/<text:tab\b[^>]*\/>/g, '\t')
+    .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,261 @@
+// A project's vocabulary: which entity types exist, how they look, and which relationship labels
+// may join them. Free of server imports so components can use the same helpers.
+
+export const NODE_SHAPES = ['circle', 'rounded-rect', 'diamond', 'hexagon']
+
+export interface EntityTypeConfig {
+  // Stored on Entity.type, e.g. "product_line"
+  name: string
+  label: string
+  description: string
+  color: string
+  shape: string
+  size: number
+  // Other words models use for this type, mapped to it during validation
+  synonyms: string[]
+}
+
+export interface RelationTypeConfig {
+  label: string
+  description: string
+  // Phrasings that name the same relationship in the other direction ("managed by" for "manages");
+  // a relationship labelled with one of these has its source and target swapped
+  inverse: string[]
+  // Entity types allowed at each end; empty means any
+  domain: string[]
+  range: string[]
+  synonyms: string[]
+}
+
+export interface Ontology {
+  entityTypes: EntityTypeConfig[]
+  // Empty means any relationship label is accepted, normalised against BUILT_IN_RELATIONS where possible
+  relationTypes: RelationTypeConfig[]
+}
+
+export const DEFAULT_NODE_STYLE = { color: '#666666', shape: 'circle', size: 30 }
+
+const entityType = (
+  name: string,
+  description: string,
+  color: string,
+  shape: string,
+  size: number,
+  synonyms: string[] = []
+): EntityTypeConfig => ({ name, label: name, description, color, shape, size, synonyms })
+
+export const DEFAULT_ONTOLOGY: Ontology = {
+  entityTypes: [
+    entityType('person', 'An individual', '#1a5490', 'circle', 30, ['people', 'employee', 'individual']),
+    entityType('team', 'A team or department', '#2d6bb3', 'rounded-rect', 34, ['department', 'group']),
+    entityType('organisation', 'A company or institution', '#0033CC', 'rounded-rect', 40, ['organization', 'company', 'org']),
+    entityType('client', 'A customer of the organisation', '#2d6bb3', 'circle', 32, ['customer']),
+    entityType('service', 'Something the organisation offers', '#4080d6', 'diamond', 35, ['product']),
+    entityType('strategy', 'A plan or direction', '#5394f9', 'hexagon', 38),
+    entityType('goal', 'An objective or target', '#66a8ff', 'hexagon', 36, ['objective', 'target']),
+    entityType('financial', 'Money, budgets and figures', '#1f4d7a', 'hexagon', 34, ['finance', 'budget']),
+    entityType('process', 'A way of working', '#2a5f94', 'rounded-rect', 32, ['workflow', 'procedure']),
+    entityType('system', 'Software or tooling', '#3570ae', 'diamond', 36, ['tool', 'software', 'application', 'platform']),
+    entityType('location', 'A place', '#4081c8', 'circle', 28, ['place', 'site', 'office']),
+    entityType('context', 'Background circumstances', '#4b92e2', 'circle', 26),
+    entityType('culture', 'Values, norms and behaviours', '#56a3fc', 'circle', 28)
+  ],
+  relationTypes: []
+}
+
+const relation = (label: string, synonyms: string[], inverse: string[] = []): RelationTypeConfig =>
+  ({ label, description: '', inverse, domain: [], range: [], synonyms })
+
+// Canonical forms for common relationship phrasings, used when a project hasn't defined its own
+export const BUILT_IN_RELATIONS: RelationTypeConfig[] = [
+  relation('manages', ['line manages', 'supervises', 'oversees'], ['managed by', 'reports to', 'reports into', 'supervised by', 'overseen by']),
+  relation('leads', ['heads', 'runs', 'directs', 'chairs'], ['led by', 'headed by', 'run by', 'directed by', 'chaired by']),
+  relation('works for', ['employed by', 'works at', 'employee of'], ['employs']),
+  relation('member of', ['belongs to', 'sits in'], ['has member', 'includes member']),
+  relation('part of', ['component of', 'division of', 'subsidiary of', 'within'], ['contains', 'includes', 'comprises', 'has part']),
+  relation('owns', ['has ownership of'], ['owned by']),
+  relation('responsible for', ['accountable for', 'in charge of'], ['responsibility of']),
+  relation('uses', ['utilises', 'utilizes', 'operates'], ['used by', 'operated by']),
+  relation('depends on', ['relies on', 'requires', 'needs'], ['required by', 'dependency of', 'relied on by']),
+  relation('provides', ['offers', 'delivers', 'supplies'], ['provided by', 'offered by', 'delivered by', 'supplied by']),
+  relation('serves', ['has client', 'has customer'], ['client of', 'customer of', 'served by']),
+  relation('funds', ['finances', 'pays for', 'invests in', 'sponsors'], ['funded by', 'financed by', 'paid for by', 'sponsored by']),
+  relation('located in', ['based in', 'located at', 'headquartered in', 'sited in'], ['location of', 'hosts']),
+  relation('collaborates with', ['works with', 'partners with', 'partner of', 'cooperates with']),
+  relation('supports', ['helps', 'assists', 'enables'], ['supported by', 'helped by', 'enabled by']),
+  relation('contributes to', ['drives', 'advances'], ['driven by']),
+  relation('influences', ['affects', 'impacts', 'shapes'], ['influenced by', 'affected by', 'impacted by', 'shaped by'])
+]
+
+// Lower-case with underscores, as entity types are stored
+export const typeKey = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+export const relationKey = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, ' ')
+
+// Auxiliary verbs and punctuation that don't change what a relationship means ("is managed by")
+const stripAuxiliaries = (key: string) =>
+  key.replace(/^(is|are|was|were|has been|have been|will be|be)\s+/, '').replace(/[.:;!]+$/, '').trim()
+
+export function nodeStyle(ontology: Ontology | null, type: string) {
+  const config = ontology?.entityTypes.find(t => t.name === type)
+  return config ? { color: config.color, shape: config.shape, size: config.size } : DEFAULT_NODE_STYLE
+}
+
+export function typeLabel(ontology: Ontology | null, type: string) {
+  return ontology?.entityTypes.find(t => t.name === type)?.label || type
+}
+
+// Every spelling that should map to each entity type: its name, label and synonyms
+export function entityTypeLookup(ontology: Ontology): Map<string, string> {
+  const lookup = new Map<string, string>()
+  for (const type of ontology.entityTypes) {
+    for (const spelling of [type.name, type.label, ...type.synonyms]) {
+      const key = typeKey(spelling)
+      if (key && !lookup.has(key)) lookup.set(key, type.name)
+    }
+  }
+  return lookup
+}
+
+export interface RelationMatch {
+  relation: RelationTypeConfig
+  // The label was an inverse form, so source and target need swapping
+  inverted: boolean
+}
+
+// Every phrasing of each relationship in the project's vocabulary, or the built-in one if it has none
+export function relationTypeLookup(ontology: Ontology): Map<string, RelationMatch> {
+  const lookup = new Map<string, RelationMatch>()
+  const relations = ontology.relationTypes.length > 0 ? ontology.relationTypes : BUILT_IN_RELATIONS
+  const add = (spelling: string, match: RelationMatch) => {
+    const key = relationKey(spelling)
+    if (key && !lookup.has(key)) lookup.set(key, match)
+  }
+  for (const relation of relations) {
+    for (const spelling of [relation.label, ...relation.synonyms]) add(spelling, { relation, inverted: false })
+  }
+  // Inverse forms last, so a phrasing listed both ways reads forwards
+  for (const relation of relations) {
+    for (const spelling of relation.inverse) add(spelling, { relation, inverted: true })
+  }
+  return lookup
+}
+
+export function matchRelation(lookup: Map<string, RelationMatch>, label: string): RelationMatch | null {
+  const key = relationKey(label)
+  return lookup.get(key) || lookup.get(stripAuxiliaries(key)) || null
+}
+
+// Stored on Edge.relationType and used to filter edges, e.g. "works_for"
+export const relationTypeKey = (label: string) => typeKey(stripAuxiliaries(relationKey(label)))
+
+export interface CheckedRelationship {
+  label: string
+  relationType: string
+  rawLabel: string
+  // The label was an inverse phrasing, so the caller should swap source and target
+  inverted: boolean
+}
+
+// Check a relationship entered by hand the way extracted ones are: map the label onto the
+// vocabulary, and where the project defines its own, refuse labels and endpoint types it doesn't allow.
+// The types are given in the order the user entered the endpoints.
+export function checkRelationship(
+  ontology: Ontology,
+  rawLabel: string,
+  sourceType: string,
+  targetType: string
+): CheckedRelationship | { error: string } {
+  const trimmed = rawLabel.trim()
+  if (!trimmed) return { error: 'A relationship label is required' }
+
+  const match = matchRelation(relationTypeLookup(ontology), trimmed)
+  if (!match) {
+    if (ontology.relationTypes.length > 0) return { error: `"${trimmed}" is not an allowed relationship` }
+    const label = relationKey(trimmed)
+    return { label, relationType: relationTypeKey(label), rawLabel: trimmed, inverted: false }
+  }
+
+  const { relation, inverted } = match
+  const [from, to] = inverted ? [targetType, sourceType] : [sourceType, targetType]
+  if (relation.domain.length > 0 && !relation.domain.includes(from)) {
+    return { error: `"${relation.label}" can't start at a ${from}` }
+  }
+  if (relation.range.length > 0 && !relation.range.includes(to)) {
+    return { error: `"${relation.label}" can't end at a ${to}` }
+  }
+  return { label: relation.label, relationType: relationTypeKey(relation.label), rawLabel: trimmed, inverted }
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+const list = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  return Array.from(new Set(items.map(text).filter(Boolean)))
+}
+
+// Check an ontology sent by a client, returning what's wrong with it or a normalised copy
+export function cleanOntology(value: unknown): { ontology: Ontology | null; errors: string[] } {
+  const errors: string[] = []
+  const body = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {}
+  const entityTypes: EntityTypeConfig[] = []
+  const relationTypes: RelationTypeConfig[] = []
+
+  if (!Array.isArray(body.entityTypes) || body.entityTypes.length === 0) {
+    errors.push('At least one entity type is required')
+  }
+
+  for (const item of Array.isArray(body.entityTypes) ? body.entityTypes : []) {
+    const raw = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {}
+    const name = typeKey(text(raw.name) || text(raw.label))
+    if (!name) {
+      errors.push('Every entity type needs a name')
+      continue
+    }
+    if (entityTypes.some(t => t.name === name)) {
+      errors.push(`Entity type "${name}" is defined twice`)
+      continue
+    }
+    const color = text(raw.color)
+    const shape = text(raw.shape)
+    const size = typeof raw.size === 'number' ? Math.round(raw.size) : DEFAULT_NODE_STYLE.size
+    entityTypes.push({
+      name,
+      label: text(raw.label) || name,
+      description: text(raw.description),
+      color: /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_NODE_STYLE.color,
+      shape: NODE_SHAPES.includes(shape) ? shape : DEFAULT_NODE_STYLE.shape,
+      size: Math.min(60, Math.max(16, size)),
+      synonyms: list(raw.synonyms).map(typeKey).filter(synonym => synonym !== name)
+    })
+  }
+
+  const typeNames = new Set(entityTypes.map(t => t.name))
+  for (const item of Array.isArray(body.relationTypes) ? body.relationTypes : []) {
+    const raw = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {}
+    const label = relationKey(text(raw.label))
+    if (!label) {
+      errors.push('Every relationship type needs a label')
+      continue
+    }
+    if (relationTypes.some(r => r.label === label)) {
+      errors.push(`Relationship "${label}" is defined twice`)
+      continue
+    }
+    const ends = { domain: list(raw.domain).map(typeKey), range: list(raw.range).map(typeKey) }
+    for (const [end, types] of Object.entries(ends)) {
+      for (const type of types.filter(t => !typeNames.has(t))) {
+        errors.push(`Relationship "${label}" ${end} uses unknown entity type "${type}"`)
+      }
+    }
+    relationTypes.push({
+      label,
+      description: text(raw.description),
+      inverse: list(raw.inverse).map(relationKey).filter(inverse => inverse !== label),
+      ...ends,
+      synonyms: list(raw.synonyms).map(relationKey).filter(synonym => synonym !== label)
+    })
+  }
+
+  return errors.length > 0 ? { ontology: null, errors } : { ontology: { entityTypes, relationTypes }, errors }
+}
@@ -0,0 +1,36 @@
+// @ts-ignore
+import pdfParse from 'pdf-parse'
+
+// Form feed marks the end of each page in stored PDF text, so offsets can be mapped back to page numbers
+export const PAGE_BREAK = '\f'
+
+// Same line-joining as pdf-parse's default renderer, with a page break appended
+async function renderPage(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false
+  })
+
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str
+    lastY = item.transform[5]
+  }
+  return text + PAGE_BREAK
+}
+
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  const data = await pdfParse(buffer, { pagerender: renderPage })
+  return data.text
+}
+
+// 1-based page for a character offset, or null for text that has no page breaks
+export function pageAtOffset(content: string, offset: number): number | null {
+  if (!content.includes(PAGE_BREAK)) return null
+  let page = 1
+  for (let i = content.indexOf(PAGE_BREAK); i !== -1 && i < offset; i = content.indexOf(PAGE_BREAK, i + 1)) {
+    page++
+  }
+  return page
+}
@@ -0,0 +1,80 @@
+import JSZip from 'jszip'
+import { decodeHtmlEntities } from './html'
+
+// Relationship ids to part paths, resolved against the folder of the part that owns them
+function readRelationships(xml: string, folder: string): Map<string, string> {
+  const targets = new Map<string, string>()
+  for (const [tag] of Array.from(xml.matchAll(/<Relationship\b[^>]*>/g))) {
+    const id = tag.match(/Id="([^"]+)"/)?.[1]
+    const target = tag.match(/Target="([^"]+)"/)?.[1]
+    if (!id || !target) continue
+    const parts = target.startsWith('/') ? target.slice(1).split('/') : [...folder.split('/'), ...target.split('/')]
+    const resolved: string[] = []
+    for (const part of parts) {
+      if (part === '..') resolved.pop()
+      else if (part && part !== '.') resolved.push(part)
+    }
+    targets.set(id, resolved.join('/'))
+  }
+  return targets
+}
+
+// One line per paragraph (<a:p>) in a piece of DrawingML
+const paragraphs = (xml: string) =>
+  Array.from(xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g))
+    .map(([, body]) => decodeHtmlEntities(
+      body
+        .replace(/<a:br\b[^>]*\/>/g, '\n')
+        .replace(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<[^>]+>/g, (_, text: string | undefined) => text ?? '')
+    ).trim())
+    .filter(Boolean)
+
+// Shapes (<p:sp>) with the placeholder types given, or all shapes when none are given
+const shapes = (xml: string, placeholders?: string[]) =>
+  Array.from(xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g))
+    .map(([shape]) => shape)
+    .filter(shape => {
+      if (!placeholders) return true
+      const type = shape.match(/<p:ph\b[^>]*type="(\w+)"/)?.[1]
+      return type !== undefined && placeholders.includes(type)
+    })
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle']
+
+// Text of a slide deck, one Markdown section per slide headed with its title, followed by the
+// speaker notes, so chunking keeps slides whole and locations read "Slide 4: Roadmap"
+export async function extractPptxText(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer)
+  const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve('')
+
+  const [presentation, relations] = await Promise.all([
+    read('ppt/presentation.xml'),
+    read('ppt/_rels/presentation.xml.rels')
+  ])
+  const slideTargets = readRelationships(relations, 'ppt')
+
+  const sections: string[] = []
+  const slideIds = Array.from(presentation.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g)).map(m => m[1])
+  for (const [index, id] of Array.from(slideIds.entries())) {
+    const path = slideTargets.get(id)
+    if (!path) continue
+    const folder = path.split('/').slice(0, -1).join('/')
+    const [slide, slideRelations] = await Promise.all([
+      read(path),
+      read(`${folder}/_rels/${path.split('/').pop()}.rels`)
+    ])
+
+    const title = shapes(slide, TITLE_PLACEHOLDERS).flatMap(paragraphs).join(' ')
+    // Every other paragraph on the slide, in document order, including tables and grouped shapes
+    const body = paragraphs(shapes(slide, TITLE_PLACEHOLDERS).reduce((xml, shape) => xml.replace(shape, ''), slide))
+
+    const notesPath = Array.from(readRelationships(slideRelations, folder).values()).find(p => /notesSlide\d*\.xml$/.test(p))
+    const notes = notesPath ? shapes(await read(notesPath), ['body']).flatMap(paragraphs) : []
+
+    const lines = [`# Slide ${index + 1}${title ? `: ${title}` : ''}`, '', ...body]
+    if (notes.length > 0) lines.push('', 'Speaker notes:', ...notes)
+    sections.push(lines.join('\n'))
+  }
+
+  return sections.join('\n\n')
+}
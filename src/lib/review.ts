@@ -0,0 +1,63 @@
+import type { Prisma } from '@prisma/client'
+
+// Extracted entities and relationships start as pending; a person approves or rejects them
+export type ReviewStatus = 'pending' | 'approved' | 'rejected'
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected']
+
+export type ReviewKind = 'entity' | 'edge'
+
+// Narrows the review queue, and what a bulk action applies to. A type only matches entities and
+// a relationship type only matches relationships; a document matches what was extracted from it,
+// including entities and relationships it resolved into that another document created first.
+export interface ReviewFilter {
+  status: ReviewStatus
+  kind?: ReviewKind
+  documentId?: string
+  type?: string
+  relationType?: string
+}
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+  REVIEW_STATUSES.includes(value as ReviewStatus)
+
+// The filter from a request's query string or body; null values and empty strings are ignored
+export function readReviewFilter(values: Record<string, unknown>, status: ReviewStatus): ReviewFilter {
+  const text = (value: unknown) => typeof value === 'string' && value ? value : undefined
+  return {
+    status,
+    kind: values.kind === 'entity' || values.kind === 'edge' ? values.kind : undefined,
+    documentId: text(values.documentId),
+    type: text(values.type),
+    relationType: text(values.relationType)
+  }
+}
+
+export const includesEntities = (filter: ReviewFilter) => filter.kind !== 'edge' && !filter.relationType
+export const includesEdges = (filter: ReviewFilter) => filter.kind !== 'entity' && !filter.type
+
+export function entityReviewWhere(projectId: string, filter: ReviewFilter): Prisma.EntityWhereInput {
+  return {
+    projectId,
+    reviewStatus: filter.status,
+    ...(filter.documentId && {
+      OR: [{ documentId: filter.documentId }, { sources: { some: { documentId: filter.documentId } } }]
+    }),
+    ...(filter.type && { type: filter.type })
+  }
+}
+
+export function edgeReviewWhere(projectId: string, filter: ReviewFilter): Prisma.EdgeWhereInput {
+  return {
+    projectId,
+    reviewStatus: filter.status,
+    ...(filter.documentId && {
+      OR: [{ documentId: filter.documentId }, { evidence: { some: { documentId: filter.documentId } } }]
+    }),
+    ...(filter.relationType && { relationType: filter.relationType })
+  }
+}
+
+// What the graph and chat leave out when a project hides rejected items. A relationship goes
+// with either of its entities.
+export const NOT_REJECTED = { reviewStatus: { not: 'rejected' } }
+export const EDGE_NOT_REJECTED = { ...NOT_REJECTED, source: NOT_REJECTED, target: NOT_REJECTED }
@@ -0,0 +1,98 @@
+// Groups holding formatting tables, metadata or embedded objects rather than text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'rsidtbl', 'revtbl', 'filetbl',
+  'info', 'pict', 'object', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'generator'
+])
+
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', row: '\n', cell: '\t', tab: '\t',
+  emdash: '—', endash: '–', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', bullet: '•'
+}
+
+// Windows-1252 characters in 0x80–0x9F, where it differs from Latin-1
+const CP1252 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ'
+const decodeByte = (byte: number) => byte >= 0x80 && byte <= 0x9f ? CP1252[byte - 0x80] : String.fromCharCode(byte)
+
+// A control word is at most 32 letters, with an optional numeric parameter and one delimiting space
+const CONTROL_WORD = /^\\([a-z]{1,32})(-?\d{1,10})? ?/
+
+// Plain text of an RTF document: control words and formatting groups are dropped, paragraph and
+// cell marks become line breaks and tabs, and escaped characters are decoded
+export function extractRtfText(rtf: string): string {
+  const stack: Array<{ skip: boolean; unicodeSkip: number }> = []
+  let skip = false
+  // How many fallback characters follow each \u escape, and how many are still to be ignored
+  let unicodeSkip = 1
+  let pending = 0
+  let text = ''
+
+  const emit = (value: string) => {
+    if (pending > 0) {
+      pending--
+      return
+    }
+    if (!skip) text += value
+  }
+
+  let i = 0
+  while (i < rtf.length) {
+    const char = rtf[i]
+    if (char === '{') {
+      stack.push({ skip, unicodeSkip })
+      i++
+    } else if (char === '}') {
+      const outer = stack.pop()
+      if (outer) ({ skip, unicodeSkip } = outer)
+      pending = 0
+      i++
+    } else if (char === '\r' || char === '\n') {
+      i++
+    } else if (char !== '\\') {
+      emit(char)
+      i++
+    } else {
+      const next = rtf[i + 1]
+      if (next === '\\' || next === '{' || next === '}') {
+        emit(next)
+        i += 2
+      } else if (next === "'") {
+        emit(decodeByte(parseInt(rtf.slice(i + 2, i + 4), 16)))
+        i += 4
+      } else if (next === '*') {
+        // An optional destination this reader doesn't know: skip the whole group
+        skip = true
+        i += 2
+      } else if (next === '~' || next === '_' || next === '-' || next === '\n' || next === '\r') {
+        if (next === '~') emit(' ')
+        else if (next === '_') emit('-')
+        else if (next !== '-') emit('\n')
+        i += 2
+      } else {
+        const match = rtf.slice(i, i + 45).match(CONTROL_WORD)
+        if (!match) {
+          i++
+          continue
+        }
+        i += match[0].length
+        const [, word, parameter] = match
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          skip = true
+        } else if (word === 'uc') {
+          unicodeSkip = Number(parameter) || 0
+        } else if (word === 'u') {
+          const code = Number(parameter)
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code))
+          pending = unicodeSkip
+        } else if (CONTROL_TEXT[word]) {
+          emit(CONTROL_TEXT[word])
+        }
+      }
+    }
+  }
+
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,91 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { parseJson } from '@/lib/entityResolution'
+import { DEFAULT_ONTOLOGY, Ontology } from '@/lib/ontology'
+
+type Db = Prisma.TransactionClient
+
+// Get a project's settings, creating the defaults on first use
+export async function getProjectSettings(projectId: string) {
+  const settings = await prisma.settings.findUnique({
+    where: { projectId }
+  })
+  if (settings) return settings
+
+  return prisma.settings.create({
+    data: {
+      projectId,
+      aiProvider: 'claude',
+      ollamaUrl: 'http://localhost:11434',
+      ollamaModel: 'llama3',
+      autoExtract: true,
+      extractionDepth: 'deep'
+    }
+  })
+}
+
+// The ontology a project has defined for itself, or null if it uses the built-in one
+export async function readOntology(db: Db, projectId: string): Promise<Ontology | null> {
+  const [entityTypes, relationTypes] = await Promise.all([
+    db.entityTypeDef.findMany({ where: { projectId }, orderBy: { position: 'asc' } }),
+    db.relationTypeDef.findMany({ where: { projectId }, orderBy: { position: 'asc' } })
+  ])
+  if (entityTypes.length === 0) return null
+
+  return {
+    entityTypes: entityTypes.map(type => ({
+      name: type.name,
+      label: type.label,
+      description: type.description,
+      color: type.color,
+      shape: type.shape,
+      size: type.size,
+      synonyms: parseJson<string[]>(type.synonyms, [])
+    })),
+    relationTypes: relationTypes.map(relation => ({
+      label: relation.label,
+      description: relation.description,
+      inverse: parseJson<string[]>(relation.inverse, []),
+      domain: parseJson<string[]>(relation.domain, []),
+      range: parseJson<string[]>(relation.range, []),
+      synonyms: parseJson<string[]>(relation.synonyms, [])
+    }))
+  }
+}
+
+// A project's ontology, or the built-in one if it hasn't defined its own
+export async function getProjectOntology(projectId: string): Promise<Ontology> {
+  return (await readOntology(prisma, projectId)) || DEFAULT_ONTOLOGY
+}
+
+// Replace a project's ontology wholesale; null goes back to the built-in one. Entities keep their
+// type even if it is removed.
+export async function writeOntology(db: Db, projectId: string, ontology: Ontology | null) {
+  await db.entityTypeDef.deleteMany({ where: { projectId } })
+  await db.relationTypeDef.deleteMany({ where: { projectId } })
+  if (!ontology) return
+  await db.entityTypeDef.createMany({
+    data: ontology.entityTypes.map((type, position) => ({
+      projectId,
+      ...type,
+      synonyms: JSON.stringify(type.synonyms),
+      position
+    }))
+  })
+  await db.relationTypeDef.createMany({
+    data: ontology.relationTypes.map((relation, position) => ({
+      projectId,
+      label: relation.label,
+      description: relation.description,
+      inverse: JSON.stringify(relation.inverse),
+      domain: JSON.stringify(relation.domain),
+      range: JSON.stringify(relation.range),
+      synonyms: JSON.stringify(relation.synonyms),
+      position
+    }))
+  })
+}
+
+export async function saveProjectOntology(projectId: string, ontology: Ontology) {
+  await prisma.$transaction(tx => writeOntology(tx, projectId, ontology))
+}
@@ -0,0 +1,336 @@
+import JSZip from 'jszip'
+import { RESERVED_KEYS } from '@/lib/graph'
+import { decodeNumericReference } from '@/lib/html'
+import { Ontology, typeKey } from '@/lib/ontology'
+
+// Spreadsheet sources that can be imported by mapping columns instead of asking a model
+export const TABULAR_FILE_TYPES = ['.csv', '.xlsx']
+
+export interface Sheet {
+  name: string
+  rows: string[][]
+}
+
+// What a column holds. Relationship columns name other entities ("Manager": the person each row reports to).
+export type ColumnRole = 'ignore' | 'name' | 'type' | 'description' | 'metadata' | 'relationship'
+export const COLUMN_ROLES: ColumnRole[] = ['ignore', 'name', 'type', 'description', 'metadata', 'relationship']
+
+export interface ColumnMapping {
+  role: ColumnRole
+  // Metadata key for metadata columns
+  key?: string
+  // Relationship label for relationship columns, from the row's entity to the one named in the cell
+  label?: string
+  // Type given to entities named in a relationship column that aren't rows themselves
+  targetType?: string
+}
+
+// Stored as JSON on Document.tableMapping so a re-import starts from the last one
+export interface TableMapping {
+  sheet?: string
+  headerRow: boolean
+  // Type for rows without a type column, or with an empty one
+  defaultType: string
+  columns: ColumnMapping[]
+}
+
+// ---- CSV ----
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'))
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }))
+  return counts.sort((a, b) => b.n - a.n)[0].d
+}
+
+// RFC 4180-style parsing: quoted fields may hold delimiters, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim()))
+}
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+export const formatCsvRow = (row: string[]) => row.map(csvField).join(',')
+
+// ---- XLSX ----
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+const decodeXml = (value: string) => value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+  if (code[0] !== '#') return XML_ENTITIES[code] ?? entity
+  return decodeNumericReference(entity, code)
+})
+
+// Concatenated text runs (<t>) inside a piece of XML
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(m => decodeXml(m[1])).join('')
+
+// "C" -> 2, "AA" -> 26
+const columnIndex = (letters: string) =>
+  letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+
+// Every worksheet's cell values as text. Formulas give their cached value; dates stay as Excel serial numbers.
+export async function readXlsx(buffer: Buffer): Promise<Sheet[]> {
+  const zip = await JSZip.loadAsync(buffer)
+  const read = (path: string) => zip.file(path)?.async('string') ?? Promise.resolve('')
+
+  const [workbook, relations, sharedXml] = await Promise.all([
+    read('xl/workbook.xml'),
+    read('xl/_rels/workbook.xml.rels'),
+    read('xl/sharedStrings.xml')
+  ])
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => textRuns(m[1]))
+  const targets = new Map(
+    Array.from(relations.matchAll(/<Relationship\b[^>]*>/g)).map(m => [
+      m[0].match(/Id="([^"]+)"/)?.[1],
+      m[0].match(/Target="([^"]+)"/)?.[1]
+    ])
+  )
+
+  const sheets: Sheet[] = []
+  for (const [tag] of Array.from(workbook.matchAll(/<sheet\b[^>]*>/g))) {
+    const name = decodeXml(tag.match(/name="([^"]*)"/)?.[1] || `Sheet ${sheets.length + 1}`)
+    const target = targets.get(tag.match(/r:id="([^"]+)"/)?.[1])
+    if (!target) continue
+    const xml = await read(target.startsWith('/') ? target.slice(1) : `xl/${target}`)
+
+    const rows: string[][] = []
+    for (const [, rowXml] of Array.from(xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g))) {
+      const row: string[] = []
+      for (const [, attributes, body] of Array.from(rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+        const ref = attributes.match(/r="([A-Z]+)\d+"/)?.[1]
+        const type = attributes.match(/t="(\w+)"/)?.[1]
+        const raw = body?.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+        const value = type === 's' ? shared[Number(raw)] ?? ''
+          : type === 'inlineStr' ? textRuns(body || '')
+          : type === 'b' ? (raw === '1' ? 'TRUE' : 'FALSE')
+          : raw !== undefined ? decodeXml(raw) : ''
+        const index = ref ? columnIndex(ref) : row.length
+        while (row.length < index) row.push('')
+        row[index] = value
+      }
+      if (row.some(value => value.trim())) rows.push(row)
+    }
+    sheets.push({ name, rows })
+  }
+  return sheets
+}
+
+// Spreadsheet text for the model and for evidence offsets: each sheet as CSV under a heading
+export function formatSheets(sheets: Sheet[]): string {
+  return sheets
+    .filter(sheet => sheet.rows.length > 0)
+    .map(sheet => `## ${sheet.name}\n\n${sheet.rows.map(formatCsvRow).join('\n')}`)
+    .join('\n\n')
+}
+
+// ---- Mapping ----
+
+const isNumeric = (value: string) => /^-?[\d,.]+%?$/.test(value.trim())
+
+// A first row of distinct, non-numeric labels is almost certainly a header
+export function looksLikeHeader(rows: string[][]): boolean {
+  const first = rows[0] || []
+  const labels = first.map(cell => cell.trim().toLowerCase())
+  return labels.length > 0 &&
+    labels.every(label => label && !isNumeric(label)) &&
+    new Set(labels).size === labels.length
+}
+
+export function columnNames(rows: string[][], headerRow: boolean): string[] {
+  const width = Math.max(0, ...rows.map(row => row.length))
+  return Array.from({ length: width }, (_, i) =>
+    headerRow && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+  )
+}
+
+// "Job Title" -> "jobTitle". A key the graph already uses for itself gets a prefix: "ID" -> "externalId"
+function metadataKey(header: string): string {
+  const key = header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)?/g, (_, next: string | undefined) => next ? next.toUpperCase() : '')
+    .replace(/^./, first => first.toLowerCase())
+  return RESERVED_KEYS.includes(key) ? `external${key[0].toUpperCase()}${key.slice(1)}` : key
+}
+
+// Relationship columns recognised by header, with the label and the type of entity they name
+const RELATIONSHIP_HEADERS: Array<{ pattern: RegExp; label: string; targetType: string }> = [
+  { pattern: /manager|reports? ?to|supervisor|line ?manager/, label: 'reports to', targetType: 'person' },
+  { pattern: /^(team|department|dept|unit|division)$/, label: 'member of', targetType: 'team' },
+  { pattern: /^(location|office|site|city|country|region)$/, label: 'located in', targetType: 'location' },
+  { pattern: /^(client|customer|account)$/, label: 'serves', targetType: 'client' },
+  { pattern: /^(system|tool|platform|software)s?$/, label: 'uses', targetType: 'system' }
+]
+
+// A starting mapping guessed from the header names, for the user to correct
+export function suggestMapping(rows: string[][], ontology: Ontology): TableMapping {
+  const headerRow = looksLikeHeader(rows)
+  const headers = columnNames(rows, headerRow).map(h => h.toLowerCase().trim())
+  const typeNames = ontology.entityTypes.map(t => t.name)
+  const knownType = (type: string) => typeNames.includes(type) ? type : undefined
+  const defaultType = knownType('person') || typeNames[0] || 'person'
+
+  let nameColumn = headers.findIndex(h => /^(full )?name$|^(employee|person|staff|member)( name)?$/.test(h))
+  if (nameColumn === -1) nameColumn = headers.findIndex(h => /name/.test(h))
+  if (nameColumn === -1) nameColumn = 0
+
+  const columns = headers.map((header, i): ColumnMapping => {
+    if (i === nameColumn) return { role: 'name' }
+    if (/^(entity )?(type|category|kind)$/.test(header)) return { role: 'type' }
+    if (/description|summary|notes?|bio/.test(header)) return { role: 'description' }
+    const relationship = RELATIONSHIP_HEADERS.find(r => r.pattern.test(header))
+    if (relationship) {
+      return { role: 'relationship', label: relationship.label, targetType: knownType(relationship.targetType) || defaultType }
+    }
+    if (/e-?mail/.test(header)) return { role: 'metadata', key: 'email' }
+    if (/^(job )?(title|role|position)$/.test(header)) return { role: 'metadata', key: 'role' }
+    return { role: 'metadata', key: metadataKey(headers[i]) || `column${i + 1}` }
+  })
+
+  return { headerRow, defaultType, columns }
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : ''
+
+// Check a mapping sent by a client against the table's width and the ontology
+export function cleanMapping(value: unknown, width: number, ontology: Ontology): { mapping: TableMapping | null; errors: string[] } {
+  const errors: string[] = []
+  const body = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {}
+  const typeNames = new Set(ontology.entityTypes.map(t => t.name))
+
+  const defaultType = typeKey(text(body.defaultType))
+  if (!typeNames.has(defaultType)) errors.push(`Unknown default type "${text(body.defaultType)}"`)
+
+  const raw = Array.isArray(body.columns) ? body.columns : []
+  const columns: ColumnMapping[] = Array.from({ length: width }, (_, i) => {
+    const item = typeof raw[i] === 'object' && raw[i] !== null ? raw[i] as Record<string, unknown> : {}
+    const role = COLUMN_ROLES.includes(item.role as ColumnRole) ? item.role as ColumnRole : 'ignore'
+    if (role === 'metadata') {
+      const key = text(item.key)
+      if (!key) errors.push(`Column ${i + 1} needs a metadata key`)
+      if (RESERVED_KEYS.includes(key)) errors.push(`Column ${i + 1} can't use "${key}" as a metadata key`)
+      return { role, key }
+    }
+    if (role === 'relationship') {
+      const label = text(item.label)
+      const targetType = typeKey(text(item.targetType)) || defaultType
+      if (!label) errors.push(`Column ${i + 1} needs a relationship label`)
+      if (!typeNames.has(targetType)) errors.push(`Column ${i + 1} uses unknown type "${targetType}"`)
+      return { role, label, targetType }
+    }
+    return { role }
+  })
+
+  if (columns.filter(c => c.role === 'name').length !== 1) errors.push('Exactly one column must hold entity names')
+  if (columns.filter(c => c.role === 'type').length > 1) errors.push('Only one column can hold entity types')
+  if (columns.filter(c => c.role === 'description').length > 1) errors.push('Only one column can hold descriptions')
+
+  if (errors.length > 0) return { mapping: null, errors }
+  return {
+    mapping: {
+      sheet: text(body.sheet) || undefined,
+      headerRow: body.headerRow !== false,
+      defaultType,
+      columns
+    },
+    errors
+  }
+}
+
+// Several names in one cell ("Finance; Operations") become several relationships
+const splitNames = (cell: string) => cell.split(/[;|\n]/).map(name => name.trim()).filter(Boolean)
+
+// Turn rows into the shape a model returns, so it goes through the same validation
+// (type synonyms, relationship vocabulary) and the same diff and apply as an extraction
+export function buildTableExtraction(rows: string[][], mapping: TableMapping) {
+  const body = mapping.headerRow ? rows.slice(1) : rows
+  const column = (role: ColumnRole) => mapping.columns.findIndex(c => c.role === role)
+  const nameColumn = column('name')
+  const typeColumn = column('type')
+  const descriptionColumn = column('description')
+
+  const entities: Array<Record<string, unknown>> = []
+  const relationships: Array<Record<string, unknown>> = []
+  const rowNames = new Set<string>()
+  const targets = new Map<string, { name: string; type: string; evidence: string }>()
+  let skippedRows = 0
+
+  for (const row of body) {
+    const cell = (index: number) => index >= 0 ? (row[index] || '').trim() : ''
+    const name = cell(nameColumn)
+    if (!name) {
+      skippedRows++
+      continue
+    }
+    // The row as it appears in the stored text, so evidence can point at it
+    const evidence = formatCsvRow(row)
+    rowNames.add(name.toLowerCase())
+
+    const metadata: Record<string, string> = {}
+    mapping.columns.forEach((c, i) => {
+      if (c.role === 'metadata' && c.key && cell(i)) metadata[c.key] = cell(i)
+    })
+
+    entities.push({
+      name,
+      type: cell(typeColumn) || mapping.defaultType,
+      description: cell(descriptionColumn) || undefined,
+      metadata,
+      evidence
+    })
+
+    mapping.columns.forEach((c, i) => {
+      if (c.role !== 'relationship' || !c.label) return
+      for (const target of splitNames(cell(i))) {
+        relationships.push({ source: name, target, label: c.label, weight: 1, evidence })
+        if (!targets.has(target.toLowerCase())) {
+          targets.set(target.toLowerCase(), { name: target, type: c.targetType || mapping.defaultType, evidence })
+        }
+      }
+    })
+  }
+
+  // Entities only named in relationship columns ("Manager: Jo Bloggs") get rows of their own
+  for (const [key, target] of Array.from(targets)) {
+    if (!rowNames.has(key)) entities.push(target)
+  }
+
+  return { value: { entities, relationships, insights: [], frontier_hints: [] }, skippedRows }
+}
@@ -0,0 +1,228 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { EMAIL_FILE_TYPES } from '@/lib/email'
+
+type Db = Prisma.TransactionClient
+
+// When a fact held: from the effective date of the document that stated it until the next version
+// of that document took over. A missing start means undated; a missing end means still current.
+export interface Period {
+  from: Date | null
+  to: Date | null
+}
+
+interface Dated {
+  validFrom: Date | null
+  validTo: Date | null
+}
+
+export const isValidAt = (item: Dated, date: Date) =>
+  (!item.validFrom || item.validFrom <= date) && (!item.validTo || item.validTo > date)
+
+// Prisma condition for entities or edges that held at a date
+export const validAt = (date: Date) => ({
+  AND: [
+    { OR: [{ validFrom: null }, { validFrom: { lte: date } }] },
+    { OR: [{ validTo: null }, { validTo: { gt: date } }] }
+  ]
+})
+
+// "2021-03-31" or a full timestamp; null for anything else
+export function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value.trim()) return null
+  const date = new Date(value.trim())
+  return isNaN(date.getTime()) ? null : date
+}
+
+// The date a document describes, where it says: a year (and month and day) in its filename, as in
+// "Business Plan 2019.pdf" or "board-minutes-2021-03-04.docx", or the date of the first email in it
+export function inferEffectiveDate(filename: string, content: string, fileType: string): Date | null {
+  const named = filename.match(/(?:^|\D)((?:19|20)\d{2})(?:[-_. ]?(0[1-9]|1[0-2])(?:[-_. ]?(0[1-9]|[12]\d|3[01]))?)?(?!\d)/)
+  // Numbers past next year are more likely ids than dates
+  if (named && Number(named[1]) <= new Date().getUTCFullYear() + 1) {
+    const [, year, month, day] = named
+    return new Date(Date.UTC(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1))
+  }
+  if (EMAIL_FILE_TYPES.includes(fileType)) {
+    return parseDate(content.match(/^Date: (.+)$/m)?.[1])
+  }
+  return null
+}
+
+// Each document's period. Versions of one document are taken in version order, and each runs until
+// the next one's effective date (or upload date when undated). A version whose successor is dated
+// before it never held: its period ends where it starts.
+export async function documentPeriods(projectId: string): Promise<Map<string, Period>> {
+  const documents = await prisma.document.findMany({
+    where: { projectId },
+    select: { id: true, seriesId: true, version: true, effectiveDate: true, createdAt: true }
+  })
+
+  const series = new Map<string, typeof documents>()
+  for (const document of documents) {
+    const key = document.seriesId || document.id
+    series.set(key, [...(series.get(key) || []), document])
+  }
+
+  const periods = new Map<string, Period>()
+  for (const versions of Array.from(series.values())) {
+    versions.sort((a, b) => a.version - b.version || a.createdAt.getTime() - b.createdAt.getTime())
+    versions.forEach((document, index) => {
+      const next = versions[index + 1]
+      const from = document.effectiveDate
+      let to = next ? next.effectiveDate || next.createdAt : null
+      if (from && to && to < from) to = from
+      periods.set(document.id, { from, to })
+    })
+  }
+  return periods
+}
+
+// Make a document the latest version of another, or (with null) a document of its own. If it was
+// the first version of others, the next of them takes its place so the rest stay together.
+export async function setVersionOf(db: Db, documentId: string, versionOfId: string | null): Promise<void> {
+  const followers = await db.document.findMany({
+    where: { seriesId: documentId },
+    orderBy: { version: 'asc' },
+    select: { id: true }
+  })
+  if (followers.length > 0) {
+    const [head, ...rest] = followers
+    await db.document.update({ where: { id: head.id }, data: { seriesId: null } })
+    await db.document.updateMany({ where: { id: { in: rest.map(f => f.id) } }, data: { seriesId: head.id } })
+  }
+
+  if (!versionOfId) {
+    await db.document.update({ where: { id: documentId }, data: { seriesId: null, version: 1 } })
+    return
+  }
+  const target = await db.document.findUniqueOrThrow({ where: { id: versionOfId }, select: { id: true, seriesId: true } })
+  const seriesId = target.seriesId || target.id
+  const latest = await db.document.aggregate({
+    where: { OR: [{ id: seriesId }, { seriesId }], NOT: { id: documentId } },
+    _max: { version: true }
+  })
+  await db.document.update({
+    where: { id: documentId },
+    data: { seriesId, version: (latest._max.version || 0) + 1 }
+  })
+}
+
+// The span of several periods: open at either end if any of them is
+function span(periods: Period[]): Period {
+  if (periods.length === 0) return { from: null, to: null }
+  const earliest = (dates: Array<Date | null>) => dates.some(d => !d) ? null : new Date(Math.min(...dates.map(d => d!.getTime())))
+  const latest = (dates: Array<Date | null>) => dates.some(d => !d) ? null : new Date(Math.max(...dates.map(d => d!.getTime())))
+  return { from: earliest(periods.map(p => p.from)), to: latest(periods.map(p => p.to)) }
+}
+
+const sameDate = (a: Date | null, b: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null)
+
+// Recompute validFrom/validTo on every entity and edge in a project from the documents behind
+// them: an entity holds while any document mentioning it is current, an edge while its own
+// document is. Entities and edges added by hand have no document and are always current.
+export async function refreshValidity(projectId: string): Promise<void> {
+  const periods = await documentPeriods(projectId)
+  const [entities, sources, edges] = await Promise.all([
+    prisma.entity.findMany({ where: { projectId }, select: { id: true, documentId: true, validFrom: true, validTo: true } }),
+    prisma.entitySource.findMany({ where: { entity: { projectId } }, select: { entityId: true, documentId: true } }),
+    prisma.edge.findMany({ where: { projectId }, select: { id: true, documentId: true, validFrom: true, validTo: true } })
+  ])
+
+  const mentions = new Map<string, Set<string>>()
+  for (const { entityId, documentId } of sources) {
+    mentions.set(entityId, (mentions.get(entityId) || new Set()).add(documentId))
+  }
+
+  // Rows sharing a new period are updated together
+  const updates = new Map<string, { period: Period; entityIds: string[]; edgeIds: string[] }>()
+  const queue = (item: Dated, period: Period, kind: 'entityIds' | 'edgeIds', id: string) => {
+    if (sameDate(item.validFrom, period.from) && sameDate(item.validTo, period.to)) return
+    const key = `${period.from?.toISOString()}|${period.to?.toISOString()}`
+    if (!updates.has(key)) updates.set(key, { period, entityIds: [], edgeIds: [] })
+    updates.get(key)![kind].push(id)
+  }
+
+  for (const entity of entities) {
+    const documentIds = mentions.get(entity.id) || new Set<string>()
+    if (entity.documentId) documentIds.add(entity.documentId)
+    const known = Array.from(documentIds).map(id => periods.get(id)).filter((p): p is Period => !!p)
+    queue(entity, span(known), 'entityIds', entity.id)
+  }
+  for (const edge of edges) {
+    queue(edge, (edge.documentId && periods.get(edge.documentId)) || { from: null, to: null }, 'edgeIds', edge.id)
+  }
+
+  for (const { period, entityIds, edgeIds } of Array.from(updates.values())) {
+    const data = { validFrom: period.from, validTo: period.to }
+    if (entityIds.length > 0) await prisma.entity.updateMany({ where: { id: { in: entityIds } }, data })
+    if (edgeIds.length > 0) await prisma.edge.updateMany({ where: { id: { in: edgeIds } }, data })
+  }
+}
+
+export interface TemporalChanges {
+  from: string
+  to: string
+  entities: {
+    added: Array<{ id: string; name: string; type: string }>
+    removed: Array<{ id: string; name: string; type: string }>
+  }
+  relationships: {
+    added: Array<{ source: string; target: string; label: string }>
+    removed: Array<{ source: string; target: string; label: string }>
+  }
+}
+
+// What held at one date but not the other. Relationships are compared by their endpoints and
+// type, so the same fact restated in a later version of a document doesn't count as a change.
+export async function changesBetween(projectId: string, from: Date, to: Date): Promise<TemporalChanges> {
+  const [entities, edges] = await Promise.all([
+    prisma.entity.findMany({
+      where: { projectId },
+      select: { id: true, name: true, type: true, validFrom: true, validTo: true }
+    }),
+    prisma.edge.findMany({
+      where: { projectId },
+      select: { sourceId: true, targetId: true, label: true, relationType: true, validFrom: true, validTo: true }
+    })
+  ])
+
+  const byId = new Map(entities.map(entity => [entity.id, entity]))
+  const entitiesAt = (date: Date) => new Set(entities.filter(entity => isValidAt(entity, date)).map(entity => entity.id))
+  const edgesAt = (date: Date, current: Set<string>) => {
+    const keys = new Map<string, { source: string; target: string; label: string }>()
+    for (const edge of edges) {
+      if (!isValidAt(edge, date) || !current.has(edge.sourceId) || !current.has(edge.targetId)) continue
+      keys.set(`${edge.sourceId}|${edge.relationType || edge.label}|${edge.targetId}`, {
+        source: byId.get(edge.sourceId)!.name,
+        target: byId.get(edge.targetId)!.name,
+        label: edge.label
+      })
+    }
+    return keys
+  }
+
+  const before = entitiesAt(from)
+  const after = entitiesAt(to)
+  const edgesBefore = edgesAt(from, before)
+  const edgesAfter = edgesAt(to, after)
+
+  const describe = (id: string) => {
+    const { name, type } = byId.get(id)!
+    return { id, name, type }
+  }
+  const only = <T>(a: Map<string, T>, b: Map<string, T>) => Array.from(a.keys()).filter(key => !b.has(key)).map(key => a.get(key)!)
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    entities: {
+      added: Array.from(after).filter(id => !before.has(id)).map(describe),
+      removed: Array.from(before).filter(id => !after.has(id)).map(describe)
+    },
+    relationships: {
+      added: only(edgesAfter, edgesBefore),
+      removed: only(edgesBefore, edgesAfter)
+    }
+  }
+}
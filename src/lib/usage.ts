@@ -0,0 +1,183 @@
+import type { Settings } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { TokenUsage } from '@/lib/ai'
+
+export type UsageOperation = 'extraction' | 'repair' | 'chat'
+
+export interface UsageEntry {
+  projectId: string
+  documentId?: string | null
+  jobId?: string | null
+  operation: UsageOperation
+  provider: string
+  model: string
+  usage: TokenUsage
+  estimated?: boolean
+  latencyMs: number
+}
+
+// US dollars per million tokens, matched by model-name prefix. Local models and unknown
+// hosted models are recorded at zero cost.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'openai-gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai-gpt-4o': { input: 2.5, output: 10 },
+  'openai-gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai-gpt-4.1': { input: 2, output: 8 }
+}
+
+function priceFor(model: string) {
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? MODEL_PRICING[prefix] : null
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const price = priceFor(model)
+  if (!price) return 0
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+// Roughly four characters per token, for backends that don't report usage
+export function estimateUsage(input: string, output: string): TokenUsage {
+  return {
+    inputTokens: Math.ceil(input.length / 4),
+    outputTokens: Math.ceil(output.length / 4)
+  }
+}
+
+// Accounting never fails the call it describes
+export async function recordUsage(entry: UsageEntry) {
+  try {
+    await prisma.usageRecord.create({
+      data: {
+        projectId: entry.projectId,
+        documentId: entry.documentId || null,
+        jobId: entry.jobId || null,
+        operation: entry.operation,
+        provider: entry.provider,
+        model: entry.model,
+        inputTokens: entry.usage.inputTokens,
+        outputTokens: entry.usage.outputTokens,
+        estimated: entry.estimated || false,
+        latencyMs: Math.round(entry.latencyMs),
+        costUsd: estimateCost(entry.model, entry.usage)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to record usage:', error)
+  }
+}
+
+export function startOfMonth(date = new Date()) {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+export async function getMonthlySpend(projectId: string): Promise<number> {
+  const total = await prisma.usageRecord.aggregate({
+    where: { projectId, createdAt: { gte: startOfMonth() } },
+    _sum: { costUsd: true }
+  })
+  return total._sum.costUsd || 0
+}
+
+// Why new extraction jobs are refused, if the project is over its monthly budget
+export async function budgetError(settings: Settings): Promise<{ error: string; status: number } | null> {
+  if (settings.monthlyBudgetUsd === null) return null
+
+  const spent = await getMonthlySpend(settings.projectId)
+  if (spent < settings.monthlyBudgetUsd) return null
+
+  return {
+    error: `Monthly budget of $${settings.monthlyBudgetUsd.toFixed(2)} reached ($${spent.toFixed(2)} spent this month). Raise it in settings to extract more documents.`,
+    status: 402
+  }
+}
+
+// Estimated cost of every call made for each document
+export async function getDocumentCosts(projectId: string): Promise<Map<string, number>> {
+  const rows = await prisma.usageRecord.groupBy({
+    by: ['documentId'],
+    where: { projectId, documentId: { not: null } },
+    _sum: { costUsd: true }
+  })
+  return new Map(rows.map(row => [row.documentId!, row._sum.costUsd || 0]))
+}
+
+interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 })
+
+function addTo(totals: UsageTotals, record: { inputTokens: number; outputTokens: number; costUsd: number }) {
+  totals.calls += 1
+  totals.inputTokens += record.inputTokens
+  totals.outputTokens += record.outputTokens
+  totals.costUsd += record.costUsd
+}
+
+// Spend over the last `days` days, broken down for the usage dashboard
+export async function getUsageSummary(projectId: string, days: number) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+  since.setHours(0, 0, 0, 0)
+
+  const [records, settings, monthSpend] = await Promise.all([
+    prisma.usageRecord.findMany({
+      where: { projectId, createdAt: { gte: since } },
+      include: { document: { select: { filename: true } } },
+      orderBy: { createdAt: 'desc' }
+    }),
+    prisma.settings.findUnique({ where: { projectId } }),
+    getMonthlySpend(projectId)
+  ])
+
+  const totals = emptyTotals()
+  const byOperation: Record<string, UsageTotals> = {}
+  const byModel: Record<string, UsageTotals & { latencyMs: number }> = {}
+  const byDay: Record<string, UsageTotals> = {}
+  const byDocument: Record<string, UsageTotals & { documentId: string; filename: string }> = {}
+  let estimatedCalls = 0
+
+  for (const record of records) {
+    addTo(totals, record)
+    addTo(byOperation[record.operation] ??= emptyTotals(), record)
+    const model = byModel[record.model] ??= { ...emptyTotals(), latencyMs: 0 }
+    addTo(model, record)
+    model.latencyMs += record.latencyMs
+    addTo(byDay[record.createdAt.toISOString().slice(0, 10)] ??= emptyTotals(), record)
+    if (record.documentId) {
+      addTo(byDocument[record.documentId] ??= {
+        ...emptyTotals(),
+        documentId: record.documentId,
+        filename: record.document?.filename || 'Deleted document'
+      }, record)
+    }
+    if (record.estimated) estimatedCalls++
+  }
+
+  return {
+    days,
+    totals: { ...totals, estimatedCalls },
+    month: { costUsd: monthSpend, budgetUsd: settings?.monthlyBudgetUsd ?? null },
+    byOperation,
+    byModel: Object.entries(byModel)
+      .map(([model, { latencyMs, ...usage }]) => ({ model, ...usage, avgLatencyMs: Math.round(latencyMs / usage.calls) }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    byDay: Object.entries(byDay)
+      .map(([date, usage]) => ({ date, ...usage }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    topDocuments: Object.values(byDocument)
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, 10)
+  }
+}